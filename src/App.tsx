@@ -2,6 +2,7 @@ import React from 'react';
 import { HashRouter as Router, Routes, Route } from 'react-router-dom';
 import { GamePage } from './pages/GamePage';
 import { BuilderPage } from './pages/BuilderPage';
+import { CollectionPage } from './pages/CollectionPage';
 import './App.css';
 
 function App() {
@@ -10,7 +11,11 @@ function App() {
       <div className="App">
         <Routes>
           <Route path="/" element={<GamePage />} />
+          <Route path="/daily" element={<GamePage mode="daily" />} />
+          <Route path="/daily/:date" element={<GamePage mode="daily" />} />
+          <Route path="/practice" element={<GamePage key="practice" mode="practice" />} />
           <Route path="/builder" element={<BuilderPage />} />
+          <Route path="/collection" element={<CollectionPage />} />
         </Routes>
       </div>
     </Router>
@@ -0,0 +1,56 @@
+/**
+ * Difficulty Selector Component
+ * Lets players choose how many anchors, attempts and hints they get
+ */
+
+import React from 'react';
+import { getTranslations } from '../utils';
+import { DIFFICULTY_LEVEL_NAMES, DifficultyLevel } from '../utils/difficulty';
+import styles from './DifficultySelector.module.css';
+
+interface DifficultySelectorProps {
+  currentDifficulty: DifficultyLevel;
+  onDifficultyChange: (difficulty: DifficultyLevel) => void;
+  translations: ReturnType<typeof getTranslations>;
+  isRTL?: boolean;
+}
+
+export const DifficultySelector: React.FC<DifficultySelectorProps> = ({
+  currentDifficulty,
+  onDifficultyChange,
+  translations: t,
+  isRTL = false
+}) => {
+  return (
+    <div className={styles.difficultySelector}>
+      <select
+        value={currentDifficulty}
+        onChange={(e) => onDifficultyChange(e.target.value as DifficultyLevel)}
+        className={`${styles.select} ${isRTL ? styles.rtl : ''}`}
+        aria-label={t.difficulty}
+        title={t.difficulty}
+      >
+        {DIFFICULTY_LEVEL_NAMES.map((level) => (
+          <option key={level} value={level}>
+            {t.difficultyNames[level]}
+          </option>
+        ))}
+      </select>
+      <svg
+        className={styles.icon}
+        width="16"
+        height="16"
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="2"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      >
+        <line x1="6" y1="20" x2="6" y2="14" />
+        <line x1="12" y1="20" x2="12" y2="9" />
+        <line x1="18" y1="20" x2="18" y2="4" />
+      </svg>
+    </div>
+  );
+};
@@ -2,7 +2,8 @@
  * Drop zone component for word placement
  */
 
-import React, { DragEvent, KeyboardEvent } from 'react';
+import React, { KeyboardEvent } from 'react';
+import { dragController } from '../utils/dragController';
 import { Word } from './Word';
 import styles from './DropZone.module.css';
 
@@ -21,7 +22,15 @@ interface DropZoneProps {
   onWordDragEnd: () => void;
   onWordRemove?: (dropIndex: number) => void;
   onPlaceholderClick?: (dropIndex: number) => void;
+  /** Tab order - roving focus passes -1 for every slot but the current one */
+  tabIndex?: number;
   className?: string;
+  translations: {
+    slotLabel: (position: number, word: string) => string;
+    emptySlotLabel: (position: number) => string;
+    wordLabel: (word: string) => string;
+    lockedWordLabel: (word: string) => string;
+  };
 }
 
 export const DropZone: React.FC<DropZoneProps> = ({
@@ -39,47 +48,25 @@ export const DropZone: React.FC<DropZoneProps> = ({
   onWordDragEnd,
   onWordRemove,
   onPlaceholderClick,
+  tabIndex = 0,
   className = '',
+  translations,
 }) => {
   const [isDragOver, setIsDragOver] = React.useState(false);
   const dropZoneRef = React.useRef<HTMLDivElement>(null);
 
-  React.useEffect(() => {
-    const handleWordDrop = (e: Event) => {
-      const customEvent = e as CustomEvent<{ wordIndex: number }>;
-      if (customEvent.detail) {
-        onDrop(index);
-      }
-    };
+  // Drops arrive from the shared drag controller, which reads the latest props
+  const latest = React.useRef({ index, onDrop });
+  latest.current = { index, onDrop };
 
+  React.useEffect(() => {
     const element = dropZoneRef.current;
-    if (element) {
-      element.addEventListener('word-drop', handleWordDrop);
-      return () => {
-        element.removeEventListener('word-drop', handleWordDrop);
-      };
-    }
-  }, [index, onDrop]);
-
-  const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
-    e.preventDefault();
-    e.dataTransfer.dropEffect = 'move';
-  };
-
-  const handleDragEnter = (e: DragEvent<HTMLDivElement>) => {
-    e.preventDefault();
-    setIsDragOver(true);
-  };
-
-  const handleDragLeave = () => {
-    setIsDragOver(false);
-  };
-
-  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
-    e.preventDefault();
-    setIsDragOver(false);
-    onDrop(index);
-  };
+    if (!element) return;
+    return dragController.registerDropTarget(element, {
+      onDrop: () => latest.current.onDrop(latest.current.index),
+      onDragOver: setIsDragOver,
+    });
+  }, []);
 
   const handleWordClick = () => {
     if (onWordRemove && word && !isLocked) {
@@ -87,25 +74,33 @@ export const DropZone: React.FC<DropZoneProps> = ({
     }
   };
 
+  const handleEmptyClick = () => {
+    if (!word) {
+      // Call both the drop handler and placeholder click handler
+      onDrop(index);
+      if (onPlaceholderClick) {
+        onPlaceholderClick(index);
+      }
+    }
+  };
+
   const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
-    // Space or Enter to remove word or place selected word
+    // Already handled by the placed word
+    if (e.defaultPrevented) return;
+
+    // Space or Enter to remove word, or to act like a click on an empty slot
     if (e.key === ' ' || e.key === 'Enter') {
       e.preventDefault();
       if (word && onWordRemove && !isLocked) {
         onWordRemove(index);
       } else if (!word) {
-        onDrop(index);
+        handleEmptyClick();
       }
     }
-  };
-
-  const handleEmptyClick = () => {
-    if (!word) {
-      // Call both the drop handler and placeholder click handler
-      onDrop(index);
-      if (onPlaceholderClick) {
-        onPlaceholderClick(index);
-      }
+    // Backspace or Delete only ever remove
+    if ((e.key === 'Backspace' || e.key === 'Delete') && word && onWordRemove && !isLocked) {
+      e.preventDefault();
+      onWordRemove(index);
     }
   };
 
@@ -129,16 +124,14 @@ export const DropZone: React.FC<DropZoneProps> = ({
       ref={dropZoneRef}
       className={classNames}
       data-drop-zone="true"
-      onDragOver={handleDragOver}
-      onDragEnter={handleDragEnter}
-      onDragLeave={handleDragLeave}
-      onDrop={handleDrop}
       onClick={handleEmptyClick}
       onKeyDown={handleKeyDown}
-      tabIndex={0}
+      tabIndex={tabIndex}
       role="button"
       aria-label={
-        word ? `Position ${index + 1}: ${word}` : `Empty position ${index + 1}`
+        word
+          ? translations.slotLabel(index + 1, word)
+          : translations.emptySlotLabel(index + 1)
       }
       aria-dropeffect="move"
     >
@@ -152,6 +145,8 @@ export const DropZone: React.FC<DropZoneProps> = ({
           onDragStart={onWordDragStart}
           onDragEnd={onWordDragEnd}
           onClick={handleWordClick}
+          tabIndex={-1}
+          translations={translations}
         />
       ) : null}
     </div>
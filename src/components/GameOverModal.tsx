@@ -4,6 +4,7 @@
 
 import React from 'react';
 import { Modal } from './Modal';
+import { ShareResultButton } from './ShareResultButton';
 import { PuzzleData } from '../types';
 import styles from './GameOverModal.module.css';
 
@@ -13,6 +14,10 @@ interface GameOverModalProps {
   puzzleData: PuzzleData | null;
   onRetry: () => void;
   onNewPuzzle: () => void;
+  /** Opens practice of the missed proverbs - the button is hidden without it */
+  onPractice?: () => void;
+  /** Builds the shareable result summary - the share button is hidden without it */
+  getShareText?: () => string;
   isRTL?: boolean;
   translations: {
     gameOverTitle: string;
@@ -22,6 +27,9 @@ interface GameOverModalProps {
     meaning: string;
     tryAgain: string;
     newPuzzle: string;
+    practiceMissed: string;
+    shareResult: string;
+    resultCopied: string;
   };
 }
 
@@ -31,6 +39,8 @@ export const GameOverModal: React.FC<GameOverModalProps> = ({
   puzzleData,
   onRetry,
   onNewPuzzle,
+  onPractice,
+  getShareText,
   isRTL = false,
   translations: t,
 }) => {
@@ -84,7 +94,23 @@ export const GameOverModal: React.FC<GameOverModalProps> = ({
           >
             {t.newPuzzle}
           </button>
+
+          {onPractice && (
+            <button
+              className={styles.newPuzzleButton}
+              onClick={onPractice}
+              aria-label={t.practiceMissed}
+            >
+              {t.practiceMissed}
+            </button>
+          )}
         </div>
+
+        {getShareText && (
+          <div className={styles.shareAction}>
+            <ShareResultButton getShareText={getShareText} translations={t} />
+          </div>
+        )}
       </div>
     </Modal>
   );
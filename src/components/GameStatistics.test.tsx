@@ -9,6 +9,7 @@ import { GameStatistics } from './GameStatistics';
 const mockTranslations = {
   hintsUsed: 'Hints Used',
   validationAttempts: 'Attempts Used',
+  time: 'Time',
   perfectScore: 'Perfect Score!',
   firstTry: 'First Try!',
   noHints: 'No Hints Used!',
@@ -117,4 +118,32 @@ describe('GameStatistics', () => {
 
     expect(container.querySelector('.rtl')).toBeInTheDocument();
   });
-});
\ No newline at end of file
+
+  it('shows the solve time when provided', () => {
+    render(
+      <GameStatistics
+        hintsUsed={1}
+        validationAttempts={2}
+        totalValidationAttempts={1}
+        timeToComplete={95}
+        translations={mockTranslations}
+      />
+    );
+
+    expect(screen.getByText('Time:')).toBeInTheDocument();
+    expect(screen.getByText('1:35')).toBeInTheDocument();
+  });
+
+  it('hides the solve time when the game was not timed', () => {
+    render(
+      <GameStatistics
+        hintsUsed={1}
+        validationAttempts={2}
+        totalValidationAttempts={1}
+        translations={mockTranslations}
+      />
+    );
+
+    expect(screen.queryByText('Time:')).not.toBeInTheDocument();
+  });
+});
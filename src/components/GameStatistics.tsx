@@ -3,16 +3,23 @@
  */
 
 import React from 'react';
+import { DEFAULT_DIFFICULTY, DIFFICULTY_LEVELS } from '../utils/difficulty';
+import { formatDuration } from '../utils/timeFormat';
 import styles from './GameStatistics.module.css';
 
 interface GameStatisticsProps {
   hintsUsed: number;
   validationAttempts: number;
   totalValidationAttempts: number;
+  /** Attempts the game started with (set by the difficulty) */
+  maxValidationAttempts?: number;
+  /** Solve time in seconds, if the game was timed */
+  timeToComplete?: number;
   isRTL?: boolean;
   translations: {
     hintsUsed: string;
     validationAttempts: string;
+    time: string;
     perfectScore: string;
     firstTry: string;
     noHints: string;
@@ -25,10 +32,12 @@ export const GameStatistics: React.FC<GameStatisticsProps> = ({
   hintsUsed,
   validationAttempts,
   totalValidationAttempts: _totalValidationAttempts,
+  maxValidationAttempts = DIFFICULTY_LEVELS[DEFAULT_DIFFICULTY].validationAttempts,
+  timeToComplete,
   isRTL = false,
   translations,
 }) => {
-  const attemptsUsed = 3 - validationAttempts;
+  const attemptsUsed = maxValidationAttempts - validationAttempts;
   const isPerfectScore = hintsUsed === 0 && attemptsUsed === 1;
   const isFirstTry = attemptsUsed === 1;
   const isNoHints = hintsUsed === 0;
@@ -47,6 +56,13 @@ export const GameStatistics: React.FC<GameStatisticsProps> = ({
           <span className={styles.statLabel}>{translations.validationAttempts}:</span>
           <span className={styles.statValue}>{attemptsUsed}</span>
         </div>
+
+        {timeToComplete !== undefined && (
+          <div className={styles.statItem}>
+            <span className={styles.statLabel}>{translations.time}:</span>
+            <span className={styles.statValue}>{formatDuration(timeToComplete)}</span>
+          </div>
+        )}
       </div>
 
       {/* Achievement badges with clean NYT-style design */}
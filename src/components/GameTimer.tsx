@@ -0,0 +1,41 @@
+/**
+ * GameTimer component - live solve time display
+ * Ticks on its own so the rest of the game does not re-render every second
+ */
+
+import React, { useEffect, useState } from 'react';
+import { TimerState } from '../types';
+import { getElapsedMs } from '../utils/gameTimer';
+import { formatDuration } from '../utils/timeFormat';
+import styles from './GameTimer.module.css';
+
+interface GameTimerProps {
+  timer: TimerState;
+  /** Accessible label, e.g. "Time" */
+  label: string;
+}
+
+export const GameTimer: React.FC<GameTimerProps> = ({ timer, label }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (timer.runningSince === null) {
+      return;
+    }
+    setNow(Date.now());
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [timer.runningSince]);
+
+  const seconds = getElapsedMs(timer, now) / 1000;
+
+  return (
+    <span
+      className={`${styles.timer} ${timer.runningSince === null ? styles.paused : ''}`}
+      role="timer"
+      aria-label={label}
+    >
+      {formatDuration(seconds)}
+    </span>
+  );
+};
@@ -5,6 +5,7 @@
 
 import React from 'react';
 import { LanguageCode } from '../types';
+import { LANGUAGES, SUPPORTED_LANGUAGES } from '../utils/languages';
 import styles from './LanguageSelector.module.css';
 
 interface LanguageSelectorProps {
@@ -18,11 +19,6 @@ export const LanguageSelector: React.FC<LanguageSelectorProps> = ({
   onLanguageChange,
   isRTL = false
 }) => {
-  const languages: { code: LanguageCode; name: string; nativeName: string }[] = [
-    { code: 'en', name: 'English', nativeName: 'English' },
-    { code: 'he', name: 'Hebrew', nativeName: 'עברית' }
-  ];
-
   return (
     <div className={styles.languageSelector}>
       <select
@@ -31,9 +27,9 @@ export const LanguageSelector: React.FC<LanguageSelectorProps> = ({
         className={`${styles.select} ${isRTL ? styles.rtl : ''}`}
         aria-label="Select Language"
       >
-        {languages.map((lang) => (
-          <option key={lang.code} value={lang.code}>
-            {lang.nativeName}
+        {SUPPORTED_LANGUAGES.map((code) => (
+          <option key={code} value={code}>
+            {LANGUAGES[code].nativeName}
           </option>
         ))}
       </select>
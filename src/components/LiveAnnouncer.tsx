@@ -0,0 +1,31 @@
+/**
+ * Live Announcer - Reads game events out to screen readers
+ */
+
+import React from 'react';
+import styles from './LiveAnnouncer.module.css';
+
+interface LiveAnnouncerProps {
+  /** Messages to read out, in order */
+  messages: string[];
+  /** Changes with every announcement, so the same text is read again */
+  announcementId: number;
+  isRTL?: boolean;
+}
+
+export const LiveAnnouncer: React.FC<LiveAnnouncerProps> = ({ messages, announcementId, isRTL = false }) => (
+  <div
+    className={styles.liveRegion}
+    role="status"
+    aria-live="polite"
+    aria-atomic="true"
+    dir={isRTL ? 'rtl' : 'ltr'}
+  >
+    {/* A new node makes screen readers announce even unchanged text */}
+    <div key={announcementId}>
+      {messages.map((message, index) => (
+        <p key={index}>{message}</p>
+      ))}
+    </div>
+  </div>
+);
@@ -52,6 +52,13 @@ const createMockWords = (): GlobalWord[] => {
 
 const mockTranslations = getTranslations('en');
 
+// jsdom has no PointerEvent - a mouse event carrying the pointer fields stands in
+const pointerEvent = (type: string, clientX: number, clientY: number) => {
+  const event = new MouseEvent(type, { bubbles: true, cancelable: true, clientX, clientY, button: 0 });
+  Object.assign(event, { pointerId: 1, isPrimary: true });
+  return event;
+};
+
 describe('MultiProverbPuzzleV2 Integration Tests', () => {
   let mockWords: GlobalWord[];
   let mockOnMoveWord: jest.Mock;
@@ -347,6 +354,7 @@ describe('MultiProverbPuzzleV2 Integration Tests', () => {
     test('shows RTL selection hint', async () => {
       renderComponent({ 
         isRTL: true,
+        translations: getTranslations('he'),
         selectionState: {
           selectedWordId: mockWords[0].id,
           selectedPlaceholder: null,
@@ -358,6 +366,22 @@ describe('MultiProverbPuzzleV2 Integration Tests', () => {
       expect(screen.getByText('← לחץ על משבצת ריקה')).toBeInTheDocument();
     });
 
+    test('shows selection hints in the interface language, not by direction', () => {
+      const selectionState = {
+        selectedWordId: null,
+        selectedPlaceholder: { proverbIndex: 0, positionIndex: 0 },
+        autoFocusTarget: null,
+      };
+      const arabic = getTranslations('ar');
+      const { unmount } = renderComponent({ isRTL: true, translations: arabic, selectionState });
+      expect(screen.getByText(`← ${arabic.selectionHintPickWord}`)).toBeInTheDocument();
+      unmount();
+
+      const spanish = getTranslations('es');
+      renderComponent({ translations: spanish, selectionState });
+      expect(screen.getByText(`→ ${spanish.selectionHintPickWord}`)).toBeInTheDocument();
+    });
+
     test('works with Hebrew translations', () => {
       const hebrewTranslations = getTranslations('he');
       renderComponent({ 
@@ -395,21 +419,25 @@ describe('MultiProverbPuzzleV2 Integration Tests', () => {
 
     test('word drag and drop functionality', () => {
       renderComponent();
-      
-      // Test drag start - create a mock dataTransfer object
+
       const firstWord = screen.getByText(mockWords[0].text);
-      const mockDataTransfer = {
-        effectAllowed: '',
-        setData: jest.fn(),
-      };
-      
-      fireEvent.dragStart(firstWord, { dataTransfer: mockDataTransfer });
-      
-      // Test drop on drop zone
       const dropZone = screen.getAllByLabelText('Empty position 1')[0];
-      fireEvent.drop(dropZone);
-      
-      expect(mockOnMoveWord).toHaveBeenCalled();
+      // jsdom has no layout - the pointer is always over the first slot
+      Object.defineProperty(document, 'elementFromPoint', {
+        value: () => dropZone,
+        configurable: true,
+      });
+
+      try {
+        // Drag with pointer events, far enough to leave the click threshold
+        fireEvent(firstWord, pointerEvent('pointerdown', 10, 300));
+        fireEvent(window, pointerEvent('pointermove', 60, 300));
+        fireEvent(window, pointerEvent('pointerup', 60, 300));
+      } finally {
+        delete (document as Partial<Document>).elementFromPoint;
+      }
+
+      expect(mockOnMoveWord).toHaveBeenCalledWith(mockWords[0].id, 0, 0);
     });
 
     test('word removal functionality', () => {
@@ -507,4 +535,57 @@ describe('MultiProverbPuzzleV2 Integration Tests', () => {
       expect(screen.getByText('Check Answer')).toBeInTheDocument();
     });
   });
+
+  describe('Undo/Redo Controls', () => {
+    test('does not render undo/redo buttons without handlers', () => {
+      renderComponent();
+      expect(screen.queryByRole('button', { name: 'Undo' })).not.toBeInTheDocument();
+    });
+
+    test('calls undo and redo from the toolbar buttons', () => {
+      const onUndo = jest.fn();
+      const onRedo = jest.fn();
+      renderComponent({ onUndo, onRedo, canUndo: true, canRedo: true });
+
+      fireEvent.click(screen.getByRole('button', { name: 'Undo' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Redo' }));
+
+      expect(onUndo).toHaveBeenCalledTimes(1);
+      expect(onRedo).toHaveBeenCalledTimes(1);
+    });
+
+    test('disables buttons when there is nothing to undo or redo', () => {
+      renderComponent({ onUndo: jest.fn(), onRedo: jest.fn() });
+      expect(screen.getByRole('button', { name: 'Undo' })).toBeDisabled();
+      expect(screen.getByRole('button', { name: 'Redo' })).toBeDisabled();
+    });
+
+    test('supports Ctrl+Z and Ctrl+Shift+Z keyboard shortcuts', () => {
+      const onUndo = jest.fn();
+      const onRedo = jest.fn();
+      renderComponent({ onUndo, onRedo, canUndo: true, canRedo: true });
+
+      fireEvent.keyDown(document, { key: 'z', ctrlKey: true });
+      fireEvent.keyDown(document, { key: 'Z', ctrlKey: true, shiftKey: true });
+
+      expect(onUndo).toHaveBeenCalledTimes(1);
+      expect(onRedo).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Seeded Word Pool', () => {
+    const getPoolOrder = () =>
+      screen
+        .getAllByRole('button', { name: /^Word: / })
+        .map(button => button.textContent);
+
+    test('renders the same pool order for the same seed', () => {
+      const { unmount } = renderComponent({ seed: 'pool-seed' });
+      const firstOrder = getPoolOrder();
+      unmount();
+
+      renderComponent({ seed: 'pool-seed' });
+      expect(getPoolOrder()).toEqual(firstOrder);
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,185 @@
+/**
+ * Keyboard-only play for MultiProverbPuzzleV2
+ * Drives the real game state hook with nothing but key presses
+ */
+
+import React from 'react';
+import { act, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import '@testing-library/jest-dom';
+import { MultiProverbPuzzleV2 } from './MultiProverbPuzzleV2';
+import { useMultiProverbGameState } from '../hooks/useMultiProverbGameState';
+import { PuzzleData } from '../types';
+import { getSolutionWords, getTranslations } from '../utils';
+
+const puzzle: PuzzleData = {
+  version: '1',
+  language: 'en',
+  proverbs: [
+    { solution: 'Still waters run deep', culture: 'Latin', meaning: 'Quiet people can be deep.' },
+    {
+      solution: 'Actions speak louder than words',
+      culture: 'English',
+      meaning: 'What you do matters more than what you say.',
+    },
+  ],
+};
+
+const t = getTranslations('en');
+
+const KeyboardGame: React.FC = () => {
+  const game = useMultiProverbGameState(puzzle, { seed: 'keyboard' });
+  return (
+    <MultiProverbPuzzleV2
+      puzzleData={puzzle}
+      allWords={game.gameState.allWords}
+      availableWords={game.availableWords}
+      proverbValidation={game.gameState.proverbValidation}
+      isCompleted={game.gameState.isCompleted}
+      usedHints={game.gameState.usedHints}
+      wordHintsUsed={game.gameState.wordHintsUsed}
+      validationAttempts={game.gameState.validationAttempts}
+      hasFailedGame={game.gameState.hasFailedGame}
+      selectionState={game.gameState.selectionState}
+      onMoveWord={game.moveWord}
+      onRemoveWord={game.removeWord}
+      onValidate={game.validate}
+      onValidateProverb={game.validateProverb}
+      onReset={game.reset}
+      onRevealMeaning={game.useHint}
+      onSelectWord={game.selectWord}
+      onSelectPlaceholder={game.selectPlaceholder}
+      onClearSelections={game.clearSelection}
+      onUpdateAutoFocus={game.updateAutoFocus}
+      findNextEmptySlot={game.findNextEmptySlot}
+      translations={t}
+      seed="keyboard"
+    />
+  );
+};
+
+// Accessible names of slots and tiles, as the interface language spells them
+const slotPosition = (name: string) => Number(name.match(/\d+/)?.[0]);
+const isEmptySlotName = (name: string) => name === t.emptySlotLabel(slotPosition(name));
+const isSlotName = (name: string) =>
+  isEmptySlotName(name) || name.startsWith(t.slotLabel(slotPosition(name), ''));
+const isWordName = (name: string) => name.startsWith(t.wordLabel(''));
+
+// Slots in reading order, empty or holding a word
+const getSlots = () => screen.getAllByRole('button', { name: isSlotName });
+const isEmptySlot = (slot: HTMLElement) => isEmptySlotName(slot.getAttribute('aria-label') ?? '');
+const getPoolTiles = () => screen.getAllByRole('button', { name: isWordName, pressed: false });
+
+// Elements of the list that have the keyboard focus
+const getFocused = (elements: HTMLElement[]) => elements.filter(element => element.matches(':focus'));
+
+const tabToBoard = () => {
+  for (let step = 0; step < 20 && getFocused(getSlots()).length === 0; step++) {
+    userEvent.tab();
+  }
+  expect(getFocused(getSlots())).toHaveLength(1);
+};
+
+describe('MultiProverbPuzzleV2 keyboard play', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('can be solved without a mouse', () => {
+    render(<KeyboardGame />);
+    tabToBoard();
+
+    // Type every missing word in reading order and place it with Enter
+    const solutionWords = puzzle.proverbs.flatMap(proverb => getSolutionWords(proverb.solution));
+    const expectedLabels = puzzle.proverbs.flatMap(proverb =>
+      getSolutionWords(proverb.solution).map((word, position) => t.slotLabel(position + 1, word))
+    );
+    solutionWords.forEach((word, index) => {
+      if (isEmptySlot(getSlots()[index])) {
+        userEvent.keyboard(`${word}{Enter}`);
+      }
+    });
+
+    expect(getSlots().map(slot => slot.getAttribute('aria-label'))).toEqual(expectedLabels);
+
+    // The check button takes over the focus once the pool is empty
+    expect(getFocused(screen.getAllByRole('button', { name: t.checkAnswer }))).toHaveLength(1);
+    userEvent.keyboard('{Enter}');
+
+    expect(screen.getByText(t.allCorrect, { selector: 'div' })).toBeInTheDocument();
+    expect(screen.getByRole('status')).toHaveTextContent(t.allCorrect);
+  });
+
+  it('moves between slots and proverbs with the arrow keys', () => {
+    render(<KeyboardGame />);
+    tabToBoard();
+    const slots = getSlots();
+    expect(slots[0]).toHaveFocus();
+    // Only the focused slot is a tab stop
+    expect(slots.filter(slot => slot.tabIndex === 0)).toEqual([slots[0]]);
+
+    userEvent.keyboard('{arrowright}{arrowright}');
+    expect(slots[2]).toHaveFocus();
+
+    userEvent.keyboard('{arrowdown}');
+    expect(slots[6]).toHaveFocus();
+
+    userEvent.keyboard('{end}');
+    expect(slots[8]).toHaveFocus();
+
+    userEvent.keyboard('{arrowright}');
+    expect(slots[8]).toHaveFocus();
+
+    userEvent.keyboard('{arrowup}{home}{arrowleft}');
+    expect(slots[0]).toHaveFocus();
+  });
+
+  it('jumps to the word pool, filters it by typing and comes back', () => {
+    render(<KeyboardGame />);
+    tabToBoard();
+
+    userEvent.keyboard('/');
+    const tiles = getPoolTiles();
+    expect(getFocused(tiles)).toHaveLength(1);
+
+    userEvent.keyboard('dee');
+    expect(screen.getByText(t.poolFilter('dee'))).toBeInTheDocument();
+    expect(getPoolTiles()).toHaveLength(1);
+    expect(screen.getByRole('button', { name: t.wordLabel('deep') })).toHaveFocus();
+
+    // A letter no tile continues with is ignored
+    userEvent.keyboard('x');
+    expect(screen.getByText(t.poolFilter('dee'))).toBeInTheDocument();
+
+    userEvent.keyboard('{backspace}');
+    expect(screen.getByText(t.poolFilter('de'))).toBeInTheDocument();
+
+    userEvent.keyboard('{escape}');
+    expect(screen.queryByText(/^ ?Typed:/)).not.toBeInTheDocument();
+    expect(getPoolTiles()).toHaveLength(tiles.length);
+
+    userEvent.keyboard('{escape}');
+    expect(getFocused(getSlots())).toHaveLength(1);
+  });
+
+  it('takes placed words back with Backspace', () => {
+    render(<KeyboardGame />);
+    tabToBoard();
+    const emptyBefore = getSlots().filter(isEmptySlot);
+
+    // Place the first missing word, then take it back from the pool
+    const firstEmpty = getSlots().indexOf(emptyBefore[0]);
+    const word = getSolutionWords(puzzle.proverbs[0].solution)[firstEmpty];
+    userEvent.keyboard(`${word}{Enter}`);
+    expect(getSlots()[firstEmpty]).toHaveAccessibleName(t.slotLabel(firstEmpty + 1, word));
+
+    userEvent.keyboard('{backspace}');
+    expect(getSlots()[firstEmpty]).toHaveAccessibleName(t.emptySlotLabel(firstEmpty + 1));
+
+    // Backspace on a filled slot removes its word too
+    userEvent.keyboard(`${word}{Enter}{escape}{escape}`);
+    act(() => getSlots()[firstEmpty].focus());
+    userEvent.keyboard('{backspace}');
+    expect(getSlots()[firstEmpty]).toHaveAccessibleName(t.emptySlotLabel(firstEmpty + 1));
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Screen reader support for MultiProverbPuzzleV2
+ * Drives the real game state hook and checks what assistive technology gets:
+ * grid roles, descriptions and the live region announcements
+ */
+
+import React from 'react';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import '@testing-library/jest-dom';
+import { MultiProverbPuzzleV2 } from './MultiProverbPuzzleV2';
+import { useMultiProverbGameState } from '../hooks/useMultiProverbGameState';
+import { LanguageCode, PuzzleData } from '../types';
+import { getSolutionWords, getTranslations } from '../utils';
+
+const englishPuzzle: PuzzleData = {
+  version: '1',
+  language: 'en',
+  proverbs: [
+    { solution: 'Still waters run deep', culture: 'Latin', meaning: 'Quiet people can be deep.' },
+    {
+      solution: 'Actions speak louder than words',
+      culture: 'English',
+      meaning: 'What you do matters more than what you say.',
+    },
+  ],
+};
+
+const hebrewPuzzle: PuzzleData = {
+  version: '1',
+  language: 'he',
+  proverbs: [
+    { solution: 'אין עשן בלי אש', culture: 'עברית', meaning: 'לכל שמועה יש בסיס.' },
+    { solution: 'סוף מעשה במחשבה תחילה', culture: 'עברית', meaning: 'יש לתכנן לפני שפועלים.' },
+  ],
+};
+
+const Game: React.FC<{ puzzle: PuzzleData; language: LanguageCode; isRTL?: boolean }> = ({
+  puzzle,
+  language,
+  isRTL = false,
+}) => {
+  const game = useMultiProverbGameState(puzzle, { seed: 'screen-reader' });
+  return (
+    <MultiProverbPuzzleV2
+      puzzleData={puzzle}
+      allWords={game.gameState.allWords}
+      availableWords={game.availableWords}
+      proverbValidation={game.gameState.proverbValidation}
+      isCompleted={game.gameState.isCompleted}
+      usedHints={game.gameState.usedHints}
+      wordHintsUsed={game.gameState.wordHintsUsed}
+      validationAttempts={game.gameState.validationAttempts}
+      hasFailedGame={game.gameState.hasFailedGame}
+      selectionState={game.gameState.selectionState}
+      onMoveWord={game.moveWord}
+      onRemoveWord={game.removeWord}
+      onValidate={game.validate}
+      onValidateProverb={game.validateProverb}
+      onReset={game.reset}
+      onRevealMeaning={game.useHint}
+      onSelectWord={game.selectWord}
+      onSelectPlaceholder={game.selectPlaceholder}
+      onClearSelections={game.clearSelection}
+      onUpdateAutoFocus={game.updateAutoFocus}
+      findNextEmptySlot={game.findNextEmptySlot}
+      isRTL={isRTL}
+      translations={getTranslations(language)}
+      seed="screen-reader"
+    />
+  );
+};
+
+const t = getTranslations('en');
+
+// Position (1-based) a slot's accessible name refers to
+const slotPosition = (name: string) => Number(name.match(/\d+/)?.[0]);
+
+const getPoolWords = (labels = t) =>
+  screen.getAllByRole('button', { name: name => name.startsWith(labels.wordLabel('')), pressed: false });
+
+const getEmptySlots = (grid: HTMLElement, labels = t) =>
+  within(grid).getAllByRole('button', {
+    name: name => name === labels.emptySlotLabel(slotPosition(name)),
+  });
+
+describe('MultiProverbPuzzleV2 screen reader support', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('exposes each proverb as a labelled grid of slots', () => {
+    render(<Game puzzle={englishPuzzle} language="en" />);
+
+    const grids = screen.getAllByRole('grid');
+    expect(grids).toHaveLength(2);
+    expect(grids[0]).toHaveAccessibleName(`${t.proverb} 1 (Latin)`);
+    expect(grids[1]).toHaveAccessibleName(`${t.proverb} 2 (English)`);
+    expect(within(grids[0]).getAllByRole('row')).toHaveLength(1);
+    expect(within(grids[0]).getAllByRole('gridcell')).toHaveLength(4);
+    expect(within(grids[1]).getAllByRole('gridcell')).toHaveLength(5);
+  });
+
+  it('describes a proverb by its meaning once the meaning is revealed', () => {
+    render(<Game puzzle={englishPuzzle} language="en" />);
+    const grid = screen.getAllByRole('grid')[1];
+    expect(grid).not.toHaveAttribute('aria-describedby');
+
+    userEvent.click(screen.getByRole('button', { name: `${t.hintSimple} - ${t.proverb} 2` }));
+
+    expect(grid).toHaveAccessibleDescription(/What you do matters more than what you say\./);
+    expect(screen.getByRole('status')).toHaveTextContent(
+      t.announceMeaning(2, 'What you do matters more than what you say.')
+    );
+  });
+
+  it('announces placing and taking back a word', () => {
+    render(<Game puzzle={englishPuzzle} language="en" />);
+    expect(screen.getByRole('status').textContent).toBe('');
+
+    const grid = screen.getAllByRole('grid')[0];
+    const slot = getEmptySlots(grid)[0];
+    const position = slotPosition(slot.getAttribute('aria-label') ?? '');
+    userEvent.click(slot);
+    const tile = getPoolWords()[0];
+    const text = tile.textContent ?? '';
+    userEvent.click(tile);
+
+    expect(screen.getByRole('status')).toHaveTextContent(t.announcePlaced(text, 1, position));
+
+    // Clicking the placed word sends it back to the pool
+    const filled = within(grid).getByRole('button', { name: t.slotLabel(position, text) });
+    userEvent.click(within(filled).getByRole('button', { name: t.wordLabel(text) }));
+
+    expect(screen.getByRole('status')).toHaveTextContent(t.announceRemoved(text, 1, position));
+  });
+
+  it('announces the validation result of each proverb', () => {
+    render(<Game puzzle={englishPuzzle} language="en" />);
+    const [first, second] = screen.getAllByRole('grid');
+
+    // Places the given words into the empty slots of a proverb, by position
+    const fill = (grid: HTMLElement, words: string[]) => {
+      getEmptySlots(grid).forEach(slot => {
+        const position = slotPosition(slot.getAttribute('aria-label') ?? '');
+        userEvent.click(slot);
+        userEvent.click(screen.getAllByRole('button', { name: t.wordLabel(words[position - 1]) })[0]);
+      });
+    };
+
+    fill(first, getSolutionWords(englishPuzzle.proverbs[0].solution));
+    userEvent.click(screen.getByRole('button', { name: `${t.validateProverb} - ${t.proverb} 1` }));
+    expect(screen.getByRole('status')).toHaveTextContent(t.announceProverbCorrect(1));
+
+    fill(second, [...getSolutionWords(englishPuzzle.proverbs[1].solution)].reverse());
+    userEvent.click(screen.getByRole('button', { name: `${t.validateProverb} - ${t.proverb} 2` }));
+    expect(screen.getByRole('status')).toHaveTextContent(t.announceProverbIncorrect(2));
+  });
+
+  it('announces in the interface language for right-to-left puzzles', () => {
+    const he = getTranslations('he');
+    render(<Game puzzle={hebrewPuzzle} language="he" isRTL />);
+
+    const status = screen.getByRole('status');
+    expect(status).toHaveAttribute('dir', 'rtl');
+
+    userEvent.click(screen.getByRole('button', { name: `${he.hintSimple} - ${he.proverb} 1` }));
+
+    expect(status).toHaveTextContent(he.announceMeaning(1, 'לכל שמועה יש בסיס.'));
+    expect(screen.getAllByRole('grid')[0]).toHaveAccessibleDescription(/לכל שמועה יש בסיס\./);
+  });
+
+  it('names slots and tiles in the interface language', () => {
+    const he = getTranslations('he');
+    render(<Game puzzle={hebrewPuzzle} language="he" isRTL />);
+    const grid = screen.getAllByRole('grid')[0];
+
+    const slot = getEmptySlots(grid, he)[0];
+    const position = slotPosition(slot.getAttribute('aria-label') ?? '');
+    expect(slot).toHaveAccessibleName(he.emptySlotLabel(position));
+
+    userEvent.click(slot);
+    const text = getPoolWords(he)[0].textContent ?? '';
+    userEvent.click(getPoolWords(he)[0]);
+
+    const filled = within(grid).getByRole('button', { name: he.slotLabel(position, text) });
+    expect(within(filled).getByRole('button', { name: he.wordLabel(text) })).toBeInTheDocument();
+    expect(screen.queryAllByRole('button', { name: /^(Word|Position|Empty position)\b/ })).toHaveLength(0);
+  });
+});
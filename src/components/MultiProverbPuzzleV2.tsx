@@ -3,11 +3,37 @@
  * This version uses the new architecture that allows words to be placed in any proverb
  */
 
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useMemo, useEffect, useId, useRef, KeyboardEvent as ReactKeyboardEvent } from 'react';
 import { PuzzleData, GlobalWord, SelectionState } from '../types/puzzle';
 import { Word } from './Word';
 import { DropZone } from './DropZone';
-import { shuffleArray, getTranslations } from '../utils';
+import { LiveAnnouncer } from './LiveAnnouncer';
+import {
+  shuffleArray,
+  getTranslations,
+  tokenizeSolution,
+  countWordsInSolution,
+  GRID_LAYOUT_MIN_PROVERBS,
+  DEFAULT_DIFFICULTY,
+  DIFFICULTY_LEVELS,
+  DifficultySettings,
+  getMaxHintWords,
+  analyzeAmbiguity,
+  fitsProverb,
+} from '../utils';
+import { createSeededRandom } from '../utils/random';
+import {
+  POOL_JUMP_KEY,
+  SlotPosition,
+  filterPoolWords,
+  findPreviousPlacedWord,
+  getNavigationDirection,
+  getPreferredPoolIndex,
+  isFilterKey,
+  movePoolIndex,
+  moveSlot,
+} from '../utils/keyboardNavigation';
+import { AnnouncedState, describeStateChange } from '../utils/announcements';
 import styles from './MultiProverbPuzzle.module.css';
 
 interface MultiProverbPuzzleV2Props {
@@ -26,6 +52,10 @@ interface MultiProverbPuzzleV2Props {
   onValidate: () => void;
   onValidateProverb: (proverbIndex: number) => void;
   onReset: () => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
   onRevealMeaning: (proverbIndex: number) => void;
   onSelectWord: (wordId: string | null) => void;
   onSelectPlaceholder: (proverbIndex: number, positionIndex: number) => void;
@@ -34,6 +64,10 @@ interface MultiProverbPuzzleV2Props {
   findNextEmptySlot: (currentProverbIndex: number, currentPosition: number) => { proverbIndex: number; positionIndex: number } | null;
   isRTL?: boolean;
   translations: ReturnType<typeof getTranslations>;
+  /** Optional seed for a reproducible word pool order (e.g. daily puzzles) */
+  seed?: string;
+  /** Difficulty deciding which hints are offered (defaults to the classic level) */
+  difficulty?: DifficultySettings;
 }
 
 export const MultiProverbPuzzleV2: React.FC<MultiProverbPuzzleV2Props> = ({
@@ -52,6 +86,10 @@ export const MultiProverbPuzzleV2: React.FC<MultiProverbPuzzleV2Props> = ({
   onValidate,
   onValidateProverb,
   onReset,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
   onRevealMeaning,
   onSelectWord,
   onSelectPlaceholder,
@@ -60,17 +98,246 @@ export const MultiProverbPuzzleV2: React.FC<MultiProverbPuzzleV2Props> = ({
   findNextEmptySlot,
   isRTL = false,
   translations: t,
+  seed,
+  difficulty = DIFFICULTY_LEVELS[DEFAULT_DIFFICULTY],
 }) => {
   const [draggedWordId, setDraggedWordId] = useState<string | null>(null);
 
+  // Tiles shared between proverbs can serve a hint in any proverb they fit
+  const ambiguity = useMemo(() => analyzeAmbiguity(puzzleData.proverbs), [puzzleData]);
+
   // Shuffle available words once (only when the list of word IDs changes)
   // Performance optimization: use length check first, then expensive join operation
+  const availableWordsKey = availableWords.map(w => w.id).sort().join(',');
   const shuffledAvailableWords = useMemo(() => {
     if (availableWords.length === 0) return [];
-    const shuffled = shuffleArray([...availableWords]);
+    // With a seed, the same set of words always shuffles into the same order
+    const random = seed !== undefined
+      ? createSeededRandom(`${seed}:pool:${availableWordsKey}`)
+      : Math.random;
+    const shuffled = shuffleArray([...availableWords], random);
     return shuffled;
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [availableWords.length, availableWords.map(w => w.id).sort().join(',')]);
+  }, [availableWords.length, availableWordsKey, seed]);
+
+  // Keyboard play: the board and the word pool are one tab stop each, arrow keys
+  // move the focus inside them (roving tabindex) and typing filters the pool
+  const boardRef = useRef<HTMLDivElement>(null);
+  const poolRef = useRef<HTMLDivElement>(null);
+  const [focusedSlot, setFocusedSlot] = useState<SlotPosition>({ proverbIndex: 0, positionIndex: 0 });
+  const [focusedPoolIndex, setFocusedPoolIndex] = useState(0);
+  const [poolFilter, setPoolFilter] = useState('');
+  const [focusRequest, setFocusRequest] = useState<'board' | 'pool' | null>(null);
+
+  const slotCounts = useMemo(
+    () => puzzleData.proverbs.map(proverb => countWordsInSolution(proverb.solution)),
+    [puzzleData]
+  );
+  const rovingSlot =
+    focusedSlot.proverbIndex < slotCounts.length &&
+    focusedSlot.positionIndex < slotCounts[focusedSlot.proverbIndex]
+      ? focusedSlot
+      : { proverbIndex: 0, positionIndex: 0 };
+
+  const visiblePoolWords = useMemo(
+    () => filterPoolWords(shuffledAvailableWords, poolFilter),
+    [shuffledAvailableWords, poolFilter]
+  );
+  const rovingPoolIndex = Math.min(focusedPoolIndex, Math.max(visiblePoolWords.length - 1, 0));
+
+  // Move DOM focus once the roving state has rendered
+  useEffect(() => {
+    if (!focusRequest) return;
+    if (focusRequest === 'board') {
+      boardRef.current
+        ?.querySelector<HTMLElement>(
+          `[data-slot="${rovingSlot.proverbIndex}-${rovingSlot.positionIndex}"] [data-drop-zone]`
+        )
+        ?.focus();
+    } else {
+      // The check button takes the pool's place once every word is placed
+      const tiles = poolRef.current?.querySelectorAll<HTMLElement>('[role="button"]');
+      const target = tiles?.[rovingPoolIndex] ?? poolRef.current?.querySelector<HTMLElement>('button');
+      target?.focus();
+    }
+    setFocusRequest(null);
+  }, [focusRequest, rovingSlot.proverbIndex, rovingSlot.positionIndex, rovingPoolIndex]);
+
+  const focusSlot = (slot: SlotPosition) => {
+    setFocusedSlot(slot);
+    setFocusRequest('board');
+  };
+
+  // Slot the next placed word goes to, as chosen by handleAvailableWordClick
+  const getTargetSlot = (): SlotPosition =>
+    selectionState.selectedPlaceholder ??
+    selectionState.autoFocusTarget ??
+    findNextEmptySlot(-1, -1) ??
+    rovingSlot;
+
+  const handleSlotKeyDown = (
+    e: ReactKeyboardEvent<HTMLElement>,
+    slot: SlotPosition,
+    isEmpty: boolean
+  ) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+    const direction = getNavigationDirection(e.key, isRTL);
+    if (direction) {
+      e.preventDefault();
+      const next = moveSlot(slotCounts, slot, direction);
+      if (next) {
+        focusSlot(next);
+      } else {
+        setFocusRequest('pool');
+      }
+    } else if (e.key === POOL_JUMP_KEY) {
+      e.preventDefault();
+      setFocusRequest('pool');
+    } else if ((e.key === 'Enter' || e.key === ' ') && isEmpty && !selectionState.selectedWordId) {
+      // The slot was just picked as the target - go choose its word
+      setFocusRequest('pool');
+    } else if (isFilterKey(e)) {
+      // Typing on the board starts looking for a word, for this slot if it is empty
+      const matching = filterPoolWords(shuffledAvailableWords, e.key);
+      if (matching.length === 0) return;
+      e.preventDefault();
+      if (isEmpty && !selectionState.selectedWordId) {
+        onSelectPlaceholder(slot.proverbIndex, slot.positionIndex);
+      }
+      setPoolFilter(e.key);
+      setFocusedPoolIndex(getPreferredPoolIndex(matching, e.key));
+      setFocusRequest('pool');
+    }
+  };
+
+  // Changes the typed text and keeps the focus on the same tile if it is still shown
+  const updatePoolFilter = (filter: string) => {
+    const focusedId = visiblePoolWords[rovingPoolIndex]?.id;
+    const visible = filterPoolWords(shuffledAvailableWords, filter);
+    setPoolFilter(filter);
+    setFocusedPoolIndex(Math.max(visible.findIndex(word => word.id === focusedId), 0));
+    setFocusRequest('pool');
+  };
+
+  const handlePoolKeyDown = (e: ReactKeyboardEvent<HTMLDivElement>) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+    const direction = getNavigationDirection(e.key, isRTL);
+    if (direction === 'up') {
+      e.preventDefault();
+      focusSlot(getTargetSlot());
+    } else if (direction && direction !== 'down') {
+      e.preventDefault();
+      setFocusedPoolIndex(movePoolIndex(visiblePoolWords.length, rovingPoolIndex, direction));
+      setFocusRequest('pool');
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      if (poolFilter) {
+        updatePoolFilter('');
+      } else {
+        focusSlot(getTargetSlot());
+      }
+    } else if (e.key === 'Backspace') {
+      e.preventDefault();
+      if (poolFilter) {
+        updatePoolFilter(poolFilter.slice(0, -1));
+        return;
+      }
+      // Take back the last word placed before the target slot, like deleting text
+      const target = selectionState.selectedPlaceholder ?? selectionState.autoFocusTarget ?? findNextEmptySlot(-1, -1);
+      const previous = findPreviousPlacedWord(allWords, target);
+      if (previous?.placement) {
+        onRemoveWord(previous.id);
+        onUpdateAutoFocus(previous.placement);
+        setFocusRequest('pool');
+      }
+    } else if (e.key === 'Enter' || e.key === ' ') {
+      // The focused tile has just been placed (Word handles the key) - start over on the new pool
+      if (e.target !== e.currentTarget && visiblePoolWords.length > 0) {
+        setPoolFilter('');
+        setFocusedPoolIndex(0);
+        setFocusRequest('pool');
+      }
+    } else if (isFilterKey(e)) {
+      const filter = poolFilter + e.key;
+      const matching = filterPoolWords(shuffledAvailableWords, filter);
+      // Ignore letters no tile continues with, so the pool never filters down to nothing
+      if (matching.length === 0) return;
+      e.preventDefault();
+      setPoolFilter(filter);
+      setFocusedPoolIndex(getPreferredPoolIndex(matching, filter));
+      setFocusRequest('pool');
+    }
+  };
+
+  // Track focus arriving by Tab or click so the roving tab stops follow it
+  const handlePoolFocus = (e: React.FocusEvent<HTMLDivElement>) => {
+    const tiles = Array.from(poolRef.current?.querySelectorAll<HTMLElement>('[role="button"]') ?? []);
+    const index = tiles.indexOf(e.target as HTMLElement);
+    if (index >= 0 && index !== rovingPoolIndex) {
+      setFocusedPoolIndex(index);
+    }
+  };
+
+  const handlePoolBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (!poolRef.current?.contains(e.relatedTarget as Node | null)) {
+      setPoolFilter('');
+    }
+  };
+
+  // Screen readers: moves, hints and validation results are read out from a
+  // live region by comparing each game state with the one before it
+  const idPrefix = useId();
+  const [announcement, setAnnouncement] = useState<{ messages: string[]; id: number }>({
+    messages: [],
+    id: 0,
+  });
+  const announcedRef = useRef<{ puzzleData: PuzzleData; state: AnnouncedState } | null>(null);
+
+  useEffect(() => {
+    const state = { allWords, proverbValidation, usedHints, wordHintsUsed };
+    const previous = announcedRef.current;
+    announcedRef.current = { puzzleData, state };
+    // A new puzzle starts silently
+    if (!previous || previous.puzzleData !== puzzleData) return;
+
+    const meanings = puzzleData.proverbs.map(proverb => proverb.meaning);
+    const messages = describeStateChange(previous.state, state, meanings, t);
+    if (messages.length > 0) {
+      setAnnouncement(current => ({ messages, id: current.id + 1 }));
+    }
+  }, [puzzleData, allWords, proverbValidation, usedHints, wordHintsUsed, t]);
+
+  // Keyboard shortcuts: Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+      // Leave text fields to their native undo
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      const isRedo = (key === 'z' && e.shiftKey) || (key === 'y' && !e.shiftKey);
+      const isUndo = key === 'z' && !e.shiftKey;
+
+      if (isUndo && onUndo && canUndo) {
+        e.preventDefault();
+        onUndo();
+      } else if (isRedo && onRedo && canRedo) {
+        e.preventDefault();
+        onRedo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onUndo, onRedo, canUndo, canRedo]);
 
   const handleWordDragStart = useCallback((wordId: string) => {
     setDraggedWordId(wordId);
@@ -214,12 +481,20 @@ export const MultiProverbPuzzleV2: React.FC<MultiProverbPuzzleV2Props> = ({
         </div>
 
         {/* All proverbs */}
-        <div className={styles.section}>
+        <div className={styles.section} ref={boardRef}>
           <div className={styles.sectionTitle}>{t.proverbs}</div>
-          <div className={styles.proverbsContainer}>
+          <div
+            className={
+              puzzleData.proverbs.length >= GRID_LAYOUT_MIN_PROVERBS
+                ? `${styles.proverbsContainer} ${styles.proverbsGrid}`
+                : styles.proverbsContainer
+            }
+          >
             {puzzleData.proverbs.map((proverb, proverbIndex) => {
               // Build drop zones for this proverb - optimized with pre-filtering
-              const wordCount = proverb.solution.split(/\s+/).length;
+              // Punctuation is shown around the slots instead of on the tiles
+              const tokens = tokenizeSolution(proverb.solution);
+              const wordCount = tokens.length;
               
               // Pre-filter words for this proverb to avoid repeated searches
               const proverbWords = allWords.filter(
@@ -236,6 +511,8 @@ export const MultiProverbPuzzleV2: React.FC<MultiProverbPuzzleV2Props> = ({
 
                   return {
                     position,
+                    leading: tokens[position].leading,
+                    trailing: tokens[position].trailing,
                     word: wordAtPosition?.text || null,
                     wordId: wordAtPosition?.id || null,
                     isLocked: wordAtPosition?.isLocked || false,
@@ -255,20 +532,23 @@ export const MultiProverbPuzzleV2: React.FC<MultiProverbPuzzleV2Props> = ({
                 .filter(Boolean)
                 .join(' ');
 
+              const labelId = `${idPrefix}-proverb-${proverbIndex}`;
+              const meaningId = `${idPrefix}-meaning-${proverbIndex}`;
+
               return (
                 <div key={proverbIndex} className={itemClassName}>
                   <div className={styles.proverbHeader}>
-                    <span className={styles.proverbNumber}>
+                    <span className={styles.proverbNumber} id={labelId}>
                       {t.proverb} {proverbIndex + 1} ({proverb.culture})
                     </span>
                     <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
                       {!validation.isSolved && (() => {
-                        const hasAvailableWords = availableWords.some(word => word.sourceProverbIndex === proverbIndex);
-                        const showLevel1 = !usedHints.has(proverbIndex);
+                        const hasAvailableWords = availableWords.some(word => fitsProverb(ambiguity, word, proverbIndex));
+                        const showLevel1 = difficulty.hintLevels >= 1 && !usedHints.has(proverbIndex);
                         
                         // Calculate hint limits for level 2
-                        const totalWords = proverb.solution.split(/\s+/).length;
-                        const maxHintWords = Math.floor(totalWords * 0.8);
+                        const totalWords = countWordsInSolution(proverb.solution);
+                        const maxHintWords = getMaxHintWords(difficulty, totalWords);
                         const currentHintWords = wordHintsUsed.get(proverbIndex) || 0;
                         const canUseWordHint = usedHints.has(proverbIndex) && hasAvailableWords && currentHintWords < maxHintWords;
                         
@@ -325,7 +605,7 @@ export const MultiProverbPuzzleV2: React.FC<MultiProverbPuzzleV2Props> = ({
                       {/* Individual proverb validation button */}
                       {!validation.isSolved && (() => {
                         // Check if proverb has all positions filled
-                        const totalWords = proverb.solution.split(/\s+/).length;
+                        const totalWords = countWordsInSolution(proverb.solution);
                         const placedWords = allWords.filter(
                           word => word.placement && word.placement.proverbIndex === proverbIndex
                         );
@@ -374,44 +654,85 @@ export const MultiProverbPuzzleV2: React.FC<MultiProverbPuzzleV2Props> = ({
                   </div>
 
                   {usedHints.has(proverbIndex) && (
-                    <div className={styles.hintMeaning}>
+                    <div className={styles.hintMeaning} id={meaningId}>
                       💡 {proverb.meaning}
                     </div>
                   )}
 
-                  <div className={styles.solutionContainer}>
-                    {dropZones.map(zone => (
-                      <DropZone
-                        key={zone.position}
-                        index={zone.position}
-                        word={zone.word}
-                        wordIndex={zone.wordId ? 0 : null} // Not used in V2
-                        isLocked={zone.isLocked}
-                        isSelected={
-                          !zone.word && 
-                          selectionState.selectedPlaceholder?.proverbIndex === proverbIndex &&
-                          selectionState.selectedPlaceholder?.positionIndex === zone.position
-                        }
-                        isAutoFocus={
-                          !zone.word && 
-                          selectionState.autoFocusTarget?.proverbIndex === proverbIndex &&
-                          selectionState.autoFocusTarget?.positionIndex === zone.position
-                        }
-                        isRTL={isRTL}
-                        isCorrect={validation.isSolved && validation.isValidated}
-                        isIncorrect={!validation.isSolved && validation.isValidated}
-                        onDrop={position => handleDrop(proverbIndex, position)}
-                        onPlaceholderClick={position => handlePlaceholderClick(proverbIndex, position)}
-                        onWordDragStart={() =>
-                          zone.wordId && handleWordDragStart(zone.wordId)
-                        }
-                        onWordDragEnd={handleWordDragEnd}
-                        onWordRemove={() =>
-                          zone.wordId && handleWordRemove(zone.wordId)
-                        }
-                        data-testid={`drop-zone-${proverbIndex}-${zone.position}`}
-                      />
-                    ))}
+                  <div
+                    className={styles.solutionContainer}
+                    role="grid"
+                    aria-labelledby={labelId}
+                    aria-describedby={usedHints.has(proverbIndex) ? meaningId : undefined}
+                  >
+                    <div className={styles.slotRow} role="row">
+                      {dropZones.map(zone => (
+                        <span
+                          key={zone.position}
+                          className={styles.slot}
+                          role="gridcell"
+                          data-slot={`${proverbIndex}-${zone.position}`}
+                          onKeyDown={e =>
+                            handleSlotKeyDown(e, { proverbIndex, positionIndex: zone.position }, !zone.word)
+                          }
+                          onFocus={() => {
+                            if (
+                              rovingSlot.proverbIndex !== proverbIndex ||
+                              rovingSlot.positionIndex !== zone.position
+                            ) {
+                              setFocusedSlot({ proverbIndex, positionIndex: zone.position });
+                            }
+                          }}
+                        >
+                          {zone.leading && (
+                            <span className={styles.punctuation} aria-hidden="true">
+                              {zone.leading}
+                            </span>
+                          )}
+                          <DropZone
+                            index={zone.position}
+                            word={zone.word}
+                            wordIndex={zone.wordId ? 0 : null} // Not used in V2
+                            translations={t}
+                            isLocked={zone.isLocked}
+                            isSelected={
+                              !zone.word && 
+                              selectionState.selectedPlaceholder?.proverbIndex === proverbIndex &&
+                              selectionState.selectedPlaceholder?.positionIndex === zone.position
+                            }
+                            isAutoFocus={
+                              !zone.word && 
+                              selectionState.autoFocusTarget?.proverbIndex === proverbIndex &&
+                              selectionState.autoFocusTarget?.positionIndex === zone.position
+                            }
+                            isRTL={isRTL}
+                            isCorrect={validation.isSolved && validation.isValidated}
+                            isIncorrect={!validation.isSolved && validation.isValidated}
+                            onDrop={position => handleDrop(proverbIndex, position)}
+                            onPlaceholderClick={position => handlePlaceholderClick(proverbIndex, position)}
+                            onWordDragStart={() =>
+                              zone.wordId && handleWordDragStart(zone.wordId)
+                            }
+                            onWordDragEnd={handleWordDragEnd}
+                            tabIndex={
+                              rovingSlot.proverbIndex === proverbIndex &&
+                              rovingSlot.positionIndex === zone.position
+                                ? 0
+                                : -1
+                            }
+                            onWordRemove={() =>
+                              zone.wordId && handleWordRemove(zone.wordId)
+                            }
+                            data-testid={`drop-zone-${proverbIndex}-${zone.position}`}
+                          />
+                          {zone.trailing && (
+                            <span className={styles.punctuation} aria-hidden="true">
+                              {zone.trailing}
+                            </span>
+                          )}
+                        </span>
+                      ))}
+                    </div>
                   </div>
                 </div>
               );
@@ -430,37 +751,104 @@ export const MultiProverbPuzzleV2: React.FC<MultiProverbPuzzleV2Props> = ({
           >
             {t.checkAnswer}
           </button>
+          {onUndo && (
+            <button
+              className={`${styles.button} ${styles.iconButton}`}
+              onClick={onUndo}
+              disabled={!canUndo}
+              title={`${t.undo} (Ctrl+Z)`}
+              aria-label={t.undo}
+              aria-keyshortcuts="Control+Z"
+            >
+              <svg
+                width="16"
+                height="16"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                style={isRTL ? { transform: 'scaleX(-1)' } : undefined}
+              >
+                <path d="M9 14L4 9l5-5" />
+                <path d="M4 9h10.5a5.5 5.5 0 0 1 0 11H11" />
+              </svg>
+            </button>
+          )}
+          {onRedo && (
+            <button
+              className={`${styles.button} ${styles.iconButton}`}
+              onClick={onRedo}
+              disabled={!canRedo}
+              title={`${t.redo} (Ctrl+Shift+Z)`}
+              aria-label={t.redo}
+              aria-keyshortcuts="Control+Shift+Z"
+            >
+              <svg
+                width="16"
+                height="16"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                style={isRTL ? { transform: 'scaleX(-1)' } : undefined}
+              >
+                <path d="M15 14l5-5-5-5" />
+                <path d="M20 9H9.5a5.5 5.5 0 0 0 0 11H13" />
+              </svg>
+            </button>
+          )}
           <button className={styles.button} onClick={onReset}>
             {t.reset}
           </button>
         </div>
       </div>
 
+      <LiveAnnouncer messages={announcement.messages} announcementId={announcement.id} isRTL={isRTL} />
+
       {/* Available words (shuffled from all proverbs) - FIXED TO BOTTOM */}
       <div className={`${styles.section} ${styles.availableWordsSection}`}>
         <div className={styles.sectionTitle}>
           {t.availableWords(shuffledAvailableWords.length)}
           {!selectionState.selectedWordId && !selectionState.selectedPlaceholder && selectionState.autoFocusTarget && (
             <span className={styles.selectionHint}>
-              {isRTL ? ' ← לחץ על מילה למיקום אוטומטי' : ' → Tap a word to place it automatically'}
+              {isRTL ? ' ← ' : ' → '}
+              {t.selectionHintTapWord}
             </span>
           )}
           {selectionState.selectedWordId && (
             <span className={styles.selectionHint}>
-              {isRTL ? ' ← לחץ על משבצת ריקה' : ' → Tap an empty slot'}
+              {isRTL ? ' ← ' : ' → '}
+              {t.selectionHintTapSlot}
             </span>
           )}
           {selectionState.selectedPlaceholder && (
             <span className={styles.selectionHint}>
-              {isRTL ? ' ← בחר מילה מהמגש' : ' → Select a word from tray'}
+              {isRTL ? ' ← ' : ' → '}
+              {t.selectionHintPickWord}
+            </span>
+          )}
+          {poolFilter && (
+            <span className={styles.selectionHint} aria-live="polite">
+              {' '}
+              {t.poolFilter(poolFilter)}
             </span>
           )}
         </div>
-        <div className={styles.wordsContainer}>
-          {shuffledAvailableWords.length > 0 ? (
-            shuffledAvailableWords.map((word, idx) => (
+        <div
+          className={styles.wordsContainer}
+          ref={poolRef}
+          onKeyDown={handlePoolKeyDown}
+          onFocus={handlePoolFocus}
+          onBlur={handlePoolBlur}
+        >
+          {visiblePoolWords.length > 0 ? (
+            visiblePoolWords.map((word, idx) => (
               <Word
-                key={`${word.id}-${idx}`}
+                key={word.id}
                 word={word.text}
                 index={0} // Not used in V2
                 isPlaced={false}
@@ -468,7 +856,9 @@ export const MultiProverbPuzzleV2: React.FC<MultiProverbPuzzleV2Props> = ({
                 onDragStart={() => handleWordDragStart(word.id)}
                 onDragEnd={handleWordDragEnd}
                 onClick={() => handleAvailableWordClick(word.id)}
-                className={selectionState.selectedWordId === word.id ? styles.selected : ''}
+                tabIndex={idx === rovingPoolIndex ? 0 : -1}
+                isSelected={selectionState.selectedWordId === word.id}
+                translations={t}
               />
             ))
           ) : (
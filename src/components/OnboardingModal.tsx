@@ -18,6 +18,8 @@ interface OnboardingModalProps {
     onboardingStep2: string;
     onboardingStep3: string;
     onboardingGotIt: string;
+    onboardingExample: string;
+    checkAnswer: string;
     createPuzzle: string;
   };
 }
@@ -39,7 +41,7 @@ export const OnboardingModal: React.FC<OnboardingModalProps> = ({
             <p className={styles.stepText}>{t.onboardingStep1}</p>
             <div className={styles.illustration}>
               <div className={`${styles.exampleWord} ${styles.animateSelect}`}>
-                {isRTL ? 'דוגמה' : 'Example'}
+                {t.onboardingExample}
               </div>
             </div>
           </div>
@@ -72,7 +74,7 @@ export const OnboardingModal: React.FC<OnboardingModalProps> = ({
             <p className={styles.stepText}>{t.onboardingStep3}</p>
             <div className={styles.illustration}>
               <button className={styles.exampleButton}>
-                {isRTL ? 'בדוק תשובה' : 'Check Answer'}
+                {t.checkAnswer}
               </button>
             </div>
           </div>
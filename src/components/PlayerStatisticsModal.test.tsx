@@ -0,0 +1,136 @@
+/**
+ * Tests for PlayerStatisticsModal component
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { PlayerStatisticsModal } from './PlayerStatisticsModal';
+import { recordGameResult } from '../utils/playerStatistics';
+import { loadSeenProverbs, saveSeenProverbs } from '../utils/proverbRotation';
+
+const mockTranslations = {
+  statistics: 'Statistics',
+  gamesPlayed: 'Played',
+  winRate: 'Win %',
+  perfectGames: 'Perfect',
+  currentStreak: 'Current Streak',
+  longestStreak: 'Max Streak',
+  averageSolveTime: 'Avg. Time',
+  hintDistribution: 'Hint Distribution',
+  hintsUsed: 'Hints Used',
+  noStatistics: 'No games yet',
+  proverbsDiscovered: (seen: number, total: number) => `${seen} of ${total} proverbs discovered`,
+  resetDiscovered: 'Reset discovered proverbs',
+};
+
+const expectSummaryValue = (label: string, value: string) =>
+  expect(within(screen.getByRole('group', { name: label })).getByText(value)).toBeInTheDocument();
+
+describe('PlayerStatisticsModal', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('does not render when closed', () => {
+    render(
+      <PlayerStatisticsModal
+        isOpen={false}
+        onClose={() => {}}
+        language="en"
+        translations={mockTranslations}
+      />
+    );
+
+    expect(screen.queryByText('Statistics')).not.toBeInTheDocument();
+  });
+
+  it('shows an empty state before any game is finished', () => {
+    render(
+      <PlayerStatisticsModal
+        isOpen={true}
+        onClose={() => {}}
+        language="en"
+        translations={mockTranslations}
+      />
+    );
+
+    expect(screen.getByText('No games yet')).toBeInTheDocument();
+    expectSummaryValue('Played', '0');
+    expectSummaryValue('Avg. Time', '–');
+  });
+
+  it('shows recorded statistics for the current language', () => {
+    recordGameResult('en', { won: true, hintsUsed: 0, validationAttempts: 1, perfectScore: true, timeToComplete: 125 });
+    recordGameResult('en', { won: false, hintsUsed: 3, validationAttempts: 3, perfectScore: false });
+
+    render(
+      <PlayerStatisticsModal
+        isOpen={true}
+        onClose={() => {}}
+        language="en"
+        translations={mockTranslations}
+      />
+    );
+
+    expectSummaryValue('Played', '2');
+    expectSummaryValue('Win %', '50');
+    expectSummaryValue('Perfect', '1');
+    expectSummaryValue('Current Streak', '0');
+    expectSummaryValue('Max Streak', '1');
+    expectSummaryValue('Avg. Time', '2:05');
+    expect(screen.getByLabelText('Hints Used 3: 1')).toBeInTheDocument();
+  });
+
+  it('switches between languages', () => {
+    recordGameResult('he', { won: true, hintsUsed: 1, validationAttempts: 1, perfectScore: false });
+
+    render(
+      <PlayerStatisticsModal
+        isOpen={true}
+        onClose={() => {}}
+        language="en"
+        translations={mockTranslations}
+      />
+    );
+
+    expectSummaryValue('Played', '0');
+
+    fireEvent.click(screen.getByRole('tab', { name: 'עברית' }));
+
+    expect(screen.getByRole('tab', { name: 'עברית' })).toHaveAttribute('aria-selected', 'true');
+    expectSummaryValue('Played', '1');
+  });
+
+  it('shows discovered proverbs and resets them', () => {
+    saveSeenProverbs('en', { indices: [0, 4, 7], total: 52 });
+
+    render(
+      <PlayerStatisticsModal
+        isOpen={true}
+        onClose={() => {}}
+        language="en"
+        translations={mockTranslations}
+      />
+    );
+
+    expect(screen.getByText('3 of 52 proverbs discovered')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Reset discovered proverbs' }));
+
+    expect(screen.getByText('0 of 52 proverbs discovered')).toBeInTheDocument();
+    expect(loadSeenProverbs('en').indices).toEqual([]);
+  });
+
+  it('hides discovery progress for languages never played', () => {
+    render(
+      <PlayerStatisticsModal
+        isOpen={true}
+        onClose={() => {}}
+        language="en"
+        translations={mockTranslations}
+      />
+    );
+
+    expect(screen.queryByText(/proverbs discovered/)).not.toBeInTheDocument();
+  });
+});
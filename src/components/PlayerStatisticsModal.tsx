@@ -0,0 +1,173 @@
+/**
+ * Player Statistics Modal - Lifetime statistics and streaks, per language
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Modal } from './Modal';
+import { LanguageCode } from '../types';
+import {
+  HINT_DISTRIBUTION_BUCKETS,
+  getAverageSolveTime,
+  getWinRate,
+  loadPlayerStatistics,
+} from '../utils/playerStatistics';
+import { loadSeenProverbs, resetSeenProverbs, SeenProverbs } from '../utils/proverbRotation';
+import { formatDuration } from '../utils/timeFormat';
+import { LANGUAGES, SUPPORTED_LANGUAGES } from '../utils/languages';
+import styles from './PlayerStatisticsModal.module.css';
+
+interface PlayerStatisticsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Language whose statistics are shown when the modal opens */
+  language: LanguageCode;
+  isRTL?: boolean;
+  translations: {
+    statistics: string;
+    gamesPlayed: string;
+    winRate: string;
+    perfectGames: string;
+    currentStreak: string;
+    longestStreak: string;
+    averageSolveTime: string;
+    hintDistribution: string;
+    hintsUsed: string;
+    noStatistics: string;
+    proverbsDiscovered: (seen: number, total: number) => string;
+    resetDiscovered: string;
+  };
+}
+
+export const PlayerStatisticsModal: React.FC<PlayerStatisticsModalProps> = ({
+  isOpen,
+  onClose,
+  language,
+  isRTL = false,
+  translations: t,
+}) => {
+  const [selectedLanguage, setSelectedLanguage] = useState<LanguageCode>(language);
+
+  // Start on the language being played every time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedLanguage(language);
+    }
+  }, [isOpen, language]);
+
+  // Re-read on open so games finished since the last visit are included
+  const stats = useMemo(
+    () => (isOpen ? loadPlayerStatistics(selectedLanguage) : null),
+    [isOpen, selectedLanguage]
+  );
+
+  // Proverbs seen so far in the selected language (re-read on open, like the statistics)
+  const [discovery, setDiscovery] = useState<SeenProverbs | null>(null);
+  useEffect(() => {
+    if (isOpen) {
+      setDiscovery(loadSeenProverbs(selectedLanguage));
+    }
+  }, [isOpen, selectedLanguage]);
+
+  const handleResetDiscovered = () => {
+    resetSeenProverbs(selectedLanguage);
+    setDiscovery(loadSeenProverbs(selectedLanguage));
+  };
+
+  // Performance optimization: don't render content when modal is closed
+  if (!isOpen || !stats) return null;
+
+  const averageSolveTime = getAverageSolveTime(stats);
+  const maxBucket = Math.max(1, ...stats.hintDistribution);
+
+  const summary = [
+    { label: t.gamesPlayed, value: stats.gamesPlayed.toString() },
+    { label: t.winRate, value: getWinRate(stats).toString() },
+    { label: t.perfectGames, value: stats.perfectGames.toString() },
+    { label: t.currentStreak, value: stats.currentStreak.toString() },
+    { label: t.longestStreak, value: stats.longestStreak.toString() },
+    {
+      label: t.averageSolveTime,
+      value: averageSolveTime === null ? '–' : formatDuration(averageSolveTime),
+    },
+  ];
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={t.statistics} isRTL={isRTL}>
+      <div className={styles.content} dir={isRTL ? 'rtl' : 'ltr'}>
+        <div className={styles.languageTabs} role="tablist">
+          {SUPPORTED_LANGUAGES.map(code => (
+            <button
+              key={code}
+              role="tab"
+              aria-selected={code === selectedLanguage}
+              className={`${styles.languageTab} ${
+                code === selectedLanguage ? styles.active : ''
+              }`}
+              onClick={() => setSelectedLanguage(code)}
+            >
+              {LANGUAGES[code].nativeName}
+            </button>
+          ))}
+        </div>
+
+        <div className={styles.summaryGrid} role="tabpanel">
+          {summary.map(item => (
+            <div
+              key={item.label}
+              className={styles.summaryItem}
+              role="group"
+              aria-label={item.label}
+            >
+              <span className={styles.summaryValue}>{item.value}</span>
+              <span className={styles.summaryLabel}>{item.label}</span>
+            </div>
+          ))}
+        </div>
+
+        <h3 className={styles.sectionTitle}>{t.hintDistribution}</h3>
+        {stats.gamesPlayed === 0 ? (
+          <p className={styles.emptyMessage}>{t.noStatistics}</p>
+        ) : (
+          <ol className={styles.distribution} aria-label={t.hintDistribution}>
+            {stats.hintDistribution.map((count, hints) => {
+              const label =
+                hints === HINT_DISTRIBUTION_BUCKETS - 1 ? `${hints}+` : hints.toString();
+              return (
+                <li
+                  key={hints}
+                  className={styles.distributionRow}
+                  aria-label={`${t.hintsUsed} ${label}: ${count}`}
+                >
+                  <span className={styles.distributionLabel}>{label}</span>
+                  <span className={styles.distributionTrack}>
+                    <span
+                      className={styles.distributionBar}
+                      style={{ width: `${Math.max((count / maxBucket) * 100, 8)}%` }}
+                    >
+                      {count}
+                    </span>
+                  </span>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+
+        {discovery && discovery.total > 0 && (
+          <div className={styles.discovery}>
+            <p className={styles.discoveryText}>
+              {t.proverbsDiscovered(discovery.indices.length, discovery.total)}
+            </p>
+            <button
+              className={styles.resetButton}
+              onClick={handleResetDiscovered}
+              disabled={discovery.indices.length === 0}
+            >
+              {t.resetDiscovered}
+            </button>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,73 @@
+/**
+ * Tests for the proverb collection page content
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ProverbCollection } from './ProverbCollection';
+import { addToCollection } from '../utils/proverbCollection';
+import { getTranslations } from '../utils';
+
+const t = getTranslations('en');
+
+describe('ProverbCollection', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('invites the player to solve a proverb when empty', () => {
+    render(<ProverbCollection language="en" translations={t} />);
+
+    expect(screen.getByText(t.collectionEmpty)).toBeInTheDocument();
+    expect(screen.queryByRole('searchbox')).not.toBeInTheDocument();
+  });
+
+  it('groups solved proverbs by culture with meaning, language and date', () => {
+    addToCollection(
+      'en',
+      [
+        { solution: 'Still waters run deep', culture: 'Latin', meaning: 'Quiet people can be deep.' },
+        { solution: 'Rome was not built in a day', culture: 'French', meaning: 'Great things take time.' },
+      ],
+      new Date(2026, 2, 1)
+    );
+
+    render(<ProverbCollection language="en" translations={t} />);
+
+    const sections = screen.getAllByRole('region');
+    expect(sections.map(section => section.getAttribute('aria-label'))).toEqual(['French', 'Latin']);
+    expect(screen.getByText('Quiet people can be deep.')).toBeInTheDocument();
+    expect(
+      screen.getAllByText(t.solvedOn(new Date(2026, 2, 1).toLocaleDateString('en')))
+    ).toHaveLength(2);
+    expect(screen.getAllByText('English', { selector: 'span' })).toHaveLength(2);
+    expect(screen.getByText('2 of 2 proverbs')).toBeInTheDocument();
+  });
+
+  it('searches and filters the collection', () => {
+    addToCollection('en', [
+      { solution: 'Still waters run deep', culture: 'Latin', meaning: 'Quiet people can be deep.' },
+    ]);
+    addToCollection('es', [
+      { solution: 'Poco a poco se va lejos', culture: 'Spanish', meaning: 'Small steps add up.' },
+    ]);
+
+    render(<ProverbCollection language="en" translations={t} />);
+
+    fireEvent.change(screen.getByRole('searchbox'), { target: { value: 'steps' } });
+    expect(screen.getByText('"Poco a poco se va lejos"')).toBeInTheDocument();
+    expect(screen.queryByText('"Still waters run deep"')).not.toBeInTheDocument();
+
+    fireEvent.change(screen.getByRole('combobox', { name: t.languageLabel }), {
+      target: { value: 'en' },
+    });
+    expect(screen.getByText(t.collectionNoMatches)).toBeInTheDocument();
+
+    fireEvent.change(screen.getByRole('searchbox'), { target: { value: '' } });
+    fireEvent.change(screen.getByRole('combobox', { name: t.origin }), {
+      target: { value: 'Latin' },
+    });
+    expect(screen.getByText('"Still waters run deep"')).toBeInTheDocument();
+    expect(screen.getByText('1 of 2 proverbs')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Proverb Collection - Browse every solved proverb with its cultural context
+ */
+
+import React, { useMemo, useState } from 'react';
+import { LanguageCode } from '../types';
+import { getTranslations } from '../utils';
+import {
+  filterCollection,
+  getCollectionCultures,
+  groupByCulture,
+  loadProverbCollection,
+} from '../utils/proverbCollection';
+import { SUPPORTED_LANGUAGES, isSupportedLanguage } from '../utils/languages';
+import styles from './ProverbCollection.module.css';
+
+interface ProverbCollectionProps {
+  /** Interface language, also used to format solve dates */
+  language: LanguageCode;
+  isRTL?: boolean;
+  translations: ReturnType<typeof getTranslations>;
+}
+
+export const ProverbCollection: React.FC<ProverbCollectionProps> = ({
+  language,
+  isRTL = false,
+  translations: t,
+}) => {
+  // Read once - nothing is solved while the collection is open
+  const [collection] = useState(loadProverbCollection);
+  const [query, setQuery] = useState('');
+  const [languageFilter, setLanguageFilter] = useState<LanguageCode | ''>('');
+  const [cultureFilter, setCultureFilter] = useState('');
+
+  const collectedLanguages = SUPPORTED_LANGUAGES.filter(code =>
+    collection.some(proverb => proverb.language === code)
+  );
+  const cultures = getCollectionCultures(collection);
+
+  const groups = useMemo(() => {
+    const matching = filterCollection(collection, {
+      query,
+      language: languageFilter || undefined,
+      culture: cultureFilter || undefined,
+    });
+    return groupByCulture(matching);
+  }, [collection, query, languageFilter, cultureFilter]);
+
+  const shownCount = groups.reduce((sum, group) => sum + group.proverbs.length, 0);
+
+  const formatDate = (solvedAt: string) => {
+    try {
+      return new Date(solvedAt).toLocaleDateString(language);
+    } catch {
+      return solvedAt.slice(0, 10);
+    }
+  };
+
+  return (
+    <div className={styles.container} dir={isRTL ? 'rtl' : 'ltr'}>
+      <div className={styles.header}>
+        <h1 className={styles.title}>{t.collection}</h1>
+        <p className={styles.description}>{t.collectionDescription}</p>
+      </div>
+
+      {collection.length === 0 ? (
+        <p className={styles.emptyMessage}>{t.collectionEmpty}</p>
+      ) : (
+        <>
+          <div className={styles.controls}>
+            <input
+              type="search"
+              className={styles.search}
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder={t.collectionSearch}
+              aria-label={t.collectionSearch}
+            />
+            <select
+              className={styles.filter}
+              value={languageFilter}
+              onChange={e =>
+                setLanguageFilter(isSupportedLanguage(e.target.value) ? e.target.value : '')
+              }
+              aria-label={t.languageLabel}
+            >
+              <option value="">{t.allLanguages}</option>
+              {collectedLanguages.map(code => (
+                <option key={code} value={code}>
+                  {t.languageNames[code]}
+                </option>
+              ))}
+            </select>
+            <select
+              className={styles.filter}
+              value={cultureFilter}
+              onChange={e => setCultureFilter(e.target.value)}
+              aria-label={t.origin}
+            >
+              <option value="">{t.allCultures}</option>
+              {cultures.map(culture => (
+                <option key={culture} value={culture}>
+                  {culture}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <p className={styles.count} role="status">
+            {t.collectionCount(shownCount, collection.length)}
+          </p>
+
+          {groups.length === 0 ? (
+            <p className={styles.emptyMessage}>{t.collectionNoMatches}</p>
+          ) : (
+            groups.map(group => (
+              <section key={group.culture} className={styles.group} aria-label={group.culture}>
+                <h2 className={styles.culture}>{group.culture}</h2>
+                <ul className={styles.list}>
+                  {group.proverbs.map(proverb => (
+                    <li key={`${proverb.language}-${proverb.solution}`} className={styles.entry}>
+                      <div className={styles.proverb}>"{proverb.solution}"</div>
+                      <div className={styles.meaning}>{proverb.meaning}</div>
+                      <div className={styles.details}>
+                        <span>{t.languageNames[proverb.language]}</span>
+                        <span>{t.solvedOn(formatDate(proverb.solvedAt))}</span>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ))
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -6,7 +6,7 @@ import React, { useState, useCallback } from 'react';
 import { ProverbState } from '../types';
 import { Word } from './Word';
 import { DropZone } from './DropZone';
-import { getAvailableWords } from '../utils';
+import { getAvailableWords, countWordsInSolution, Translations } from '../utils';
 import styles from './ProverbPuzzle.module.css';
 
 interface ProverbPuzzleProps {
@@ -15,6 +15,8 @@ interface ProverbPuzzleProps {
   onValidate: () => void;
   onReset: () => void;
   isRTL?: boolean;
+  /** Accessible names of the slots and tiles */
+  translations: Pick<Translations, 'slotLabel' | 'emptySlotLabel' | 'wordLabel' | 'lockedWordLabel'>;
 }
 
 export const ProverbPuzzle: React.FC<ProverbPuzzleProps> = ({
@@ -23,6 +25,7 @@ export const ProverbPuzzle: React.FC<ProverbPuzzleProps> = ({
   onValidate,
   onReset,
   isRTL = false,
+  translations,
 }) => {
   const [draggedWordIndex, setDraggedWordIndex] = useState<number | null>(null);
 
@@ -60,7 +63,7 @@ export const ProverbPuzzle: React.FC<ProverbPuzzleProps> = ({
   const handleAvailableWordClick = useCallback(
     (wordIndex: number) => {
       // Find first empty position
-      const maxPosition = proverbState.proverb.solution.split(/\s+/).length;
+      const maxPosition = countWordsInSolution(proverbState.proverb.solution);
       for (let i = 0; i < maxPosition; i++) {
         const isOccupied = proverbState.wordPositions.some(
           wp => wp.currentIndex === i
@@ -78,7 +81,7 @@ export const ProverbPuzzle: React.FC<ProverbPuzzleProps> = ({
 
   // Create array for drop zones
   const dropZones = Array.from(
-    { length: proverbState.proverb.solution.split(/\s+/).length },
+    { length: countWordsInSolution(proverbState.proverb.solution) },
     (_, index) => {
       const wordAtPosition = proverbState.wordPositions.find(
         wp => wp.currentIndex === index
@@ -132,6 +135,7 @@ export const ProverbPuzzle: React.FC<ProverbPuzzleProps> = ({
                 onWordDragStart={handleWordDragStart}
                 onWordDragEnd={handleWordDragEnd}
                 onWordRemove={handleWordRemove}
+                translations={translations}
               />
             ))}
           </div>
@@ -154,6 +158,7 @@ export const ProverbPuzzle: React.FC<ProverbPuzzleProps> = ({
                     onDragStart={handleWordDragStart}
                     onDragEnd={handleWordDragEnd}
                     onClick={() => handleAvailableWordClick(wordIndex)}
+                    translations={translations}
                   />
                 );
               })
@@ -52,16 +52,26 @@ describe('PuzzleBuilder', () => {
     expect(screen.getByText('Proverb 3')).toBeInTheDocument();
   });
 
-  it('allows adding a fourth proverb', () => {
+  it('allows adding proverbs up to the largest puzzle size', () => {
     render(<PuzzleBuilder />);
 
-    const addButton = screen.getByText('+ Add Another Proverb (Optional)');
-    fireEvent.click(addButton);
+    for (let count = 4; count <= 6; count++) {
+      fireEvent.click(screen.getByText('+ Add Another Proverb (Optional)'));
+      expect(screen.getByText(`Proverb ${count}`)).toBeInTheDocument();
+    }
 
-    expect(screen.getByText('Proverb 4')).toBeInTheDocument();
     expect(screen.queryByText('+ Add Another Proverb (Optional)')).not.toBeInTheDocument();
   });
 
+  it('allows removing proverbs down to the smallest puzzle size', () => {
+    render(<PuzzleBuilder />);
+
+    fireEvent.click(screen.getAllByText('Remove')[2]);
+
+    expect(screen.queryByText('Proverb 3')).not.toBeInTheDocument();
+    expect(screen.queryByText('Remove')).not.toBeInTheDocument();
+  });
+
   it('allows removing the fourth proverb', () => {
     render(<PuzzleBuilder />);
 
@@ -268,7 +278,7 @@ describe('PuzzleBuilder', () => {
     jest.useRealTimers();
   });
 
-  it('validates word count (3-10 words)', async () => {
+  it('validates word count (3-15 words)', async () => {
     // Using userEvent v13 API (no setup needed)
     render(<PuzzleBuilder />);
 
@@ -276,8 +286,11 @@ describe('PuzzleBuilder', () => {
     const cultureInputs = screen.getAllByPlaceholderText(/(English, Chinese|עברית, ערבית)/i);
     const meaningInputs = screen.getAllByPlaceholderText(/(Explain what|הסבר מה)/i);
 
-    // Too many words (11 words)
-    await userEvent.type(solutionInputs[0], 'One two three four five six seven eight nine ten eleven');
+    // Too many words (16 words)
+    await userEvent.type(
+      solutionInputs[0],
+      'One two three four five six seven eight nine ten eleven twelve thirteen fourteen fifteen sixteen'
+    );
     await userEvent.type(cultureInputs[0], 'Test');
     await userEvent.type(meaningInputs[0], 'Test');
 
@@ -295,7 +308,7 @@ describe('PuzzleBuilder', () => {
     fireEvent.click(generateButton);
 
     await waitFor(() => {
-      expect(screen.getByText(/(must have at most|לכל היותר) 10/i)).toBeInTheDocument();
+      expect(screen.getByText(/(must have at most|לכל היותר) 15/i)).toBeInTheDocument();
     });
   });
 
@@ -318,6 +331,19 @@ describe('PuzzleBuilder', () => {
     });
   });
 
+  it('warns when words appear in more than one proverb', async () => {
+    render(<PuzzleBuilder />);
+
+    const solutionInputs = screen.getAllByPlaceholderText(/Don't bite/i);
+    await userEvent.type(solutionInputs[0], 'The cat sleeps');
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+
+    await userEvent.type(solutionInputs[1], 'Wake the dog');
+
+    expect(screen.getByRole('status')).toHaveTextContent('Their tiles are interchangeable');
+    expect(screen.getByText('"the" – proverbs 1, 2')).toBeInTheDocument();
+  });
+
   it('applies correct CSS classes', () => {
     const { container } = render(<PuzzleBuilder />);
 
@@ -4,7 +4,17 @@
 
 import React, { useState, useCallback, useMemo, useEffect } from 'react';
 import { PuzzleData, Proverb, LanguageCode } from '../types';
-import { encodePuzzle, decodePuzzle, validatePuzzle, shuffleArray, getTranslations } from '../utils';
+import {
+  encodePuzzle,
+  decodePuzzle,
+  validatePuzzle,
+  getTranslations,
+  isRTLLanguage,
+  SUPPORTED_LANGUAGES,
+  getSolutionWords,
+  PUZZLE_LIMITS,
+  analyzeAmbiguity,
+} from '../utils';
 import styles from './PuzzleBuilder.module.css';
 
 interface ProverbInput {
@@ -27,7 +37,10 @@ export const PuzzleBuilder: React.FC = () => {
 
   // Get translations and RTL setting based on selected language
   const t = useMemo(() => getTranslations(language), [language]);
-  const isRTL = language === 'he';
+  const isRTL = isRTLLanguage(language);
+
+  // Words shared by several proverbs give the puzzle more than one solution
+  const ambiguity = useMemo(() => analyzeAmbiguity(proverbs), [proverbs]);
 
   const handleProverbChange = useCallback(
     (index: number, field: keyof ProverbInput, value: string) => {
@@ -41,14 +54,14 @@ export const PuzzleBuilder: React.FC = () => {
   );
 
   const handleAddProverb = useCallback(() => {
-    if (proverbs.length < 4) {
+    if (proverbs.length < PUZZLE_LIMITS.maxProverbs) {
       setProverbs([...proverbs, { solution: '', culture: '', meaning: '' }]);
     }
   }, [proverbs]);
 
   const handleRemoveProverb = useCallback(
     (index: number) => {
-      if (proverbs.length > 3) {
+      if (proverbs.length > PUZZLE_LIMITS.minProverbs) {
         const newProverbs = proverbs.filter((_, i) => i !== index);
         setProverbs(newProverbs);
       }
@@ -57,21 +70,10 @@ export const PuzzleBuilder: React.FC = () => {
   );
 
   const tokenizeWords = (text: string): string[] => {
-    // Remove punctuation and split on whitespace
-    return text
-      .trim()
-      .split(/\s+/)
-      .filter(word => word.length > 0);
+    // Words without surrounding punctuation, as they appear on the tiles
+    return getSolutionWords(text);
   };
 
-  const createProverbId = (solution: string, index: number): string => {
-    return solution
-      .toLowerCase()
-      .replace(/[^a-z0-9\s]/g, '')
-      .split(/\s+/)
-      .slice(0, 3)
-      .join('-') + `-${index + 1}`;
-  };
 
   const handleGenerate = useCallback(() => {
     try {
@@ -94,20 +96,18 @@ export const PuzzleBuilder: React.FC = () => {
       const puzzleProverbs: Proverb[] = proverbs.map((p, index) => {
         const words = tokenizeWords(p.solution);
 
-        if (words.length < 3) {
-          throw new Error(t.errorMinWords(index + 1, words.length));
+        if (words.length < PUZZLE_LIMITS.minWords) {
+          throw new Error(t.errorMinWords(index + 1, words.length, PUZZLE_LIMITS.minWords));
         }
 
-        if (words.length > 10) {
-          throw new Error(t.errorMaxWords(index + 1, words.length));
+        if (words.length > PUZZLE_LIMITS.maxWords) {
+          throw new Error(t.errorMaxWords(index + 1, words.length, PUZZLE_LIMITS.maxWords));
         }
 
         return {
-          id: createProverbId(p.solution, index),
-          words: shuffleArray(words),
-          solution: p.solution.trim(),
-          culture: p.culture.trim(),
-          meaning: p.meaning.trim(),
+          solution: p.solution,
+          culture: p.culture,
+          meaning: p.meaning,
         };
       });
 
@@ -117,14 +117,14 @@ export const PuzzleBuilder: React.FC = () => {
         proverbs: puzzleProverbs,
       };
 
-      // Validate puzzle
+      // Validate puzzle (returns a trimmed copy with generated ids)
       const validation = validatePuzzle(puzzleData);
-      if (!validation.isValid) {
+      if (!validation.puzzle) {
         throw new Error(validation.error);
       }
 
       // Encode puzzle
-      const encoded = encodePuzzle(puzzleData);
+      const encoded = encodePuzzle(validation.puzzle);
       const baseURL = window.location.origin + window.location.pathname;
       const url = `${baseURL}?puzzle=${encoded}`;
 
@@ -182,14 +182,12 @@ export const PuzzleBuilder: React.FC = () => {
         encodedString = params.get('puzzle') || encodedString;
       }
 
-      // Decode the puzzle
-      const puzzleData = decodePuzzle(encodedString);
-
-      // Validate the decoded puzzle
-      const validation = validatePuzzle(puzzleData);
-      if (!validation.isValid) {
+      // Decode and validate the puzzle
+      const validation = validatePuzzle(decodePuzzle(encodedString));
+      if (!validation.puzzle) {
         throw new Error(validation.error);
       }
+      const puzzleData = validation.puzzle;
 
       // Load the puzzle data into the form
       setLanguage(puzzleData.language);
@@ -215,7 +213,7 @@ export const PuzzleBuilder: React.FC = () => {
       <div className={styles.header}>
         <h1 className={styles.title}>{t.puzzleBuilder}</h1>
         <p className={styles.description}>
-          {t.builderDescription}
+          {t.builderDescription(PUZZLE_LIMITS.minProverbs, PUZZLE_LIMITS.maxProverbs)}
         </p>
       </div>
 
@@ -224,22 +222,17 @@ export const PuzzleBuilder: React.FC = () => {
         <div className={styles.section}>
           <div className={styles.sectionTitle}>{t.languageLabel}</div>
           <div className={styles.languageSelector}>
-            <button
-              className={`${styles.languageOption} ${
-                language === 'en' ? styles.selected : ''
-              }`}
-              onClick={() => setLanguage('en')}
-            >
-              {t.english}
-            </button>
-            <button
-              className={`${styles.languageOption} ${
-                language === 'he' ? styles.selected : ''
-              }`}
-              onClick={() => setLanguage('he')}
-            >
-              {t.hebrew}
-            </button>
+            {SUPPORTED_LANGUAGES.map(code => (
+              <button
+                key={code}
+                className={`${styles.languageOption} ${
+                  language === code ? styles.selected : ''
+                }`}
+                onClick={() => setLanguage(code)}
+              >
+                {t.languageNames[code]}
+              </button>
+            ))}
           </div>
         </div>
 
@@ -276,7 +269,7 @@ export const PuzzleBuilder: React.FC = () => {
                   <span className={styles.proverbNumber}>
                     {t.proverbNumber(index + 1)}
                   </span>
-                  {proverbs.length > 3 && (
+                  {proverbs.length > PUZZLE_LIMITS.minProverbs && (
                     <button
                       className={styles.removeButton}
                       onClick={() => handleRemoveProverb(index)}
@@ -300,7 +293,7 @@ export const PuzzleBuilder: React.FC = () => {
                     placeholder={t.proverbPlaceholder}
                     dir={isRTL ? 'rtl' : 'ltr'}
                   />
-                  <div className={styles.hint}>{t.wordsRequired}</div>
+                  <div className={styles.hint}>{t.wordsRequired(PUZZLE_LIMITS.minWords, PUZZLE_LIMITS.maxWords)}</div>
                 </div>
 
                 <div className={styles.formGroup}>
@@ -336,7 +329,7 @@ export const PuzzleBuilder: React.FC = () => {
               </div>
             ))}
 
-            {proverbs.length < 4 && (
+            {proverbs.length < PUZZLE_LIMITS.maxProverbs && (
               <button
                 className={styles.addButton}
                 onClick={handleAddProverb}
@@ -364,6 +357,23 @@ export const PuzzleBuilder: React.FC = () => {
       {/* Error Display */}
       {error && <div className={styles.error}>{error}</div>}
 
+      {/* Ambiguity Warning */}
+      {ambiguity.groups.length > 0 && (
+        <div className={styles.warning} role="status">
+          <p>{t.ambiguityWarning}</p>
+          <ul>
+            {ambiguity.groups.map(group => (
+              <li key={group.text}>
+                {t.ambiguousWord(
+                  group.text,
+                  group.proverbIndices.map(index => index + 1).join(', ')
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Generated URL Output */}
       {generatedURL && (
         <div className={styles.output}>
@@ -387,7 +397,9 @@ export const PuzzleBuilder: React.FC = () => {
           </div>
           <p>
             <a href={generatedURL} target="_blank" rel="noopener noreferrer">
-              {isRTL ? '← ' : ''}Preview Puzzle{isRTL ? '' : ' →'}
+              {isRTL ? '← ' : ''}
+              {t.previewPuzzle}
+              {isRTL ? '' : ' →'}
             </a>
           </p>
         </div>
@@ -0,0 +1,57 @@
+/**
+ * Puzzle Size Selector Component
+ * Lets players choose how many proverbs are mixed into a generated puzzle
+ */
+
+import React from 'react';
+import { getTranslations } from '../utils';
+import { PUZZLE_SIZE_PRESETS, PUZZLE_SIZES, PuzzleSize } from '../utils/puzzleSize';
+import styles from './PuzzleSizeSelector.module.css';
+
+interface PuzzleSizeSelectorProps {
+  currentSize: PuzzleSize;
+  onSizeChange: (size: PuzzleSize) => void;
+  translations: ReturnType<typeof getTranslations>;
+  isRTL?: boolean;
+}
+
+export const PuzzleSizeSelector: React.FC<PuzzleSizeSelectorProps> = ({
+  currentSize,
+  onSizeChange,
+  translations: t,
+  isRTL = false
+}) => {
+  return (
+    <div className={styles.sizeSelector}>
+      <select
+        value={currentSize}
+        onChange={(e) => onSizeChange(e.target.value as PuzzleSize)}
+        className={`${styles.select} ${isRTL ? styles.rtl : ''}`}
+        aria-label={t.puzzleSize}
+        title={t.puzzleSize}
+      >
+        {PUZZLE_SIZES.map((size) => (
+          <option key={size} value={size}>
+            {t.puzzleSizeNames[size]} ({PUZZLE_SIZE_PRESETS[size].proverbCount})
+          </option>
+        ))}
+      </select>
+      <svg
+        className={styles.icon}
+        width="16"
+        height="16"
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="2"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      >
+        <rect x="3" y="3" width="7" height="7" />
+        <rect x="14" y="3" width="7" height="7" />
+        <rect x="3" y="14" width="7" height="7" />
+        <rect x="14" y="14" width="7" height="7" />
+      </svg>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+/**
+ * Tests for SettingsModal component
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { SettingsModal } from './SettingsModal';
+import { getThemePreference, saveThemePreference } from '../utils/theme';
+
+const mockTranslations = {
+  settings: 'Settings',
+  theme: 'Theme',
+  themeNames: {
+    system: 'Match device',
+    light: 'Light',
+    dark: 'Dark',
+    'high-contrast': 'High contrast',
+  },
+};
+
+describe('SettingsModal', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    delete document.documentElement.dataset.theme;
+  });
+
+  it('does not render when closed', () => {
+    render(<SettingsModal isOpen={false} onClose={() => {}} translations={mockTranslations} />);
+
+    expect(screen.queryByText('Settings')).not.toBeInTheDocument();
+  });
+
+  it('offers every theme with the saved one checked', () => {
+    saveThemePreference('dark');
+    render(<SettingsModal isOpen={true} onClose={() => {}} translations={mockTranslations} />);
+
+    const group = screen.getByRole('group', { name: 'Theme' });
+    expect(group).toBeInTheDocument();
+    expect(screen.getAllByRole('radio')).toHaveLength(4);
+    expect(screen.getByRole('radio', { name: 'Dark' })).toBeChecked();
+    expect(screen.getByRole('radio', { name: 'Match device' })).not.toBeChecked();
+  });
+
+  it('switches and saves the theme right away', () => {
+    render(<SettingsModal isOpen={true} onClose={() => {}} translations={mockTranslations} />);
+    expect(screen.getByRole('radio', { name: 'Match device' })).toBeChecked();
+
+    fireEvent.click(screen.getByRole('radio', { name: 'High contrast' }));
+
+    expect(screen.getByRole('radio', { name: 'High contrast' })).toBeChecked();
+    expect(getThemePreference()).toBe('high-contrast');
+    expect(document.documentElement).toHaveAttribute('data-theme', 'high-contrast');
+  });
+
+  it('goes back to the device theme when system is chosen', () => {
+    saveThemePreference('dark');
+    render(<SettingsModal isOpen={true} onClose={() => {}} translations={mockTranslations} />);
+
+    fireEvent.click(screen.getByRole('radio', { name: 'Match device' }));
+
+    expect(getThemePreference()).toBe('system');
+    // jsdom reports no device preference
+    expect(document.documentElement).toHaveAttribute('data-theme', 'light');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Settings Modal - Display preferences that apply to the whole app
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Modal } from './Modal';
+import {
+  THEME_PREFERENCES,
+  ThemePreference,
+  applyTheme,
+  getThemePreference,
+  resolveTheme,
+  saveThemePreference,
+} from '../utils/theme';
+import styles from './SettingsModal.module.css';
+
+interface SettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  isRTL?: boolean;
+  translations: {
+    settings: string;
+    theme: string;
+    themeNames: Record<ThemePreference, string>;
+  };
+}
+
+export const SettingsModal: React.FC<SettingsModalProps> = ({
+  isOpen,
+  onClose,
+  isRTL = false,
+  translations: t,
+}) => {
+  const [themePreference, setThemePreference] = useState<ThemePreference>(getThemePreference);
+
+  // Start from the saved preference every time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setThemePreference(getThemePreference());
+    }
+  }, [isOpen]);
+
+  // The theme switches right away, so the player sees it behind the modal
+  const handleThemeChange = (preference: ThemePreference) => {
+    setThemePreference(preference);
+    saveThemePreference(preference);
+    applyTheme(resolveTheme(preference));
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={t.settings} isRTL={isRTL}>
+      <div className={styles.content} dir={isRTL ? 'rtl' : 'ltr'}>
+        <fieldset className={styles.group}>
+          <legend className={styles.legend}>{t.theme}</legend>
+          <div className={styles.options}>
+            {THEME_PREFERENCES.map(preference => (
+              <label
+                key={preference}
+                className={`${styles.option} ${
+                  preference === themePreference ? styles.active : ''
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="theme"
+                  value={preference}
+                  checked={preference === themePreference}
+                  onChange={() => handleThemeChange(preference)}
+                  className={styles.radio}
+                />
+                {t.themeNames[preference]}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      </div>
+    </Modal>
+  );
+};
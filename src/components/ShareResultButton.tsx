@@ -0,0 +1,62 @@
+/**
+ * ShareResultButton component - shares the emoji result summary
+ * Uses the native share sheet where available and falls back to the clipboard
+ */
+
+import React, { useEffect, useState } from 'react';
+import { shareResultText } from '../utils/shareResult';
+import styles from './ShareResultButton.module.css';
+
+interface ShareResultButtonProps {
+  /** Builds the summary when the button is pressed */
+  getShareText: () => string;
+  translations: {
+    shareResult: string;
+    resultCopied: string;
+  };
+}
+
+export const ShareResultButton: React.FC<ShareResultButtonProps> = ({
+  getShareText,
+  translations: t,
+}) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleShare = async () => {
+    const outcome = await shareResultText(getShareText());
+    if (outcome === 'copied') {
+      setCopied(true);
+    }
+  };
+
+  // Reset copied state after 2 seconds
+  useEffect(() => {
+    if (copied) {
+      const timer = setTimeout(() => setCopied(false), 2000);
+      return () => clearTimeout(timer);
+    }
+  }, [copied]);
+
+  return (
+    <button className={styles.shareButton} onClick={handleShare} aria-live="polite">
+      <svg
+        width="16"
+        height="16"
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="2"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        aria-hidden="true"
+      >
+        <circle cx="18" cy="5" r="3" />
+        <circle cx="6" cy="12" r="3" />
+        <circle cx="18" cy="19" r="3" />
+        <path d="M8.59 13.51l6.83 3.98" />
+        <path d="M15.41 6.51l-6.82 3.98" />
+      </svg>
+      {copied ? t.resultCopied : t.shareResult}
+    </button>
+  );
+};
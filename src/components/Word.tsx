@@ -2,7 +2,8 @@
  * Draggable Word component
  */
 
-import React, { DragEvent, KeyboardEvent, TouchEvent } from 'react';
+import React, { KeyboardEvent, PointerEvent } from 'react';
+import { dragController } from '../utils/dragController';
 import styles from './Word.module.css';
 
 interface WordProps {
@@ -10,12 +11,20 @@ interface WordProps {
   index: number;
   isPlaced: boolean;
   isLocked?: boolean;
+  /** Picked by the player, waiting to be placed */
+  isSelected?: boolean;
   isRTL?: boolean;
   disabled?: boolean;
   onDragStart: (index: number) => void;
   onDragEnd: () => void;
   onClick?: () => void;
+  /** Tab order - roving focus passes -1 for every tile but the current one */
+  tabIndex?: number;
   className?: string;
+  translations: {
+    wordLabel: (word: string) => string;
+    lockedWordLabel: (word: string) => string;
+  };
 }
 
 export const Word: React.FC<WordProps> = ({
@@ -23,104 +32,40 @@ export const Word: React.FC<WordProps> = ({
   index,
   isPlaced,
   isLocked = false,
+  isSelected = false,
   isRTL = false,
   disabled = false,
   onDragStart,
   onDragEnd,
   onClick,
+  tabIndex = 0,
   className = '',
+  translations: t,
 }) => {
   const [isDragging, setIsDragging] = React.useState(false);
-  const touchStartPos = React.useRef<{ x: number; y: number } | null>(null);
 
-  const handleDragStart = (e: DragEvent<HTMLDivElement>) => {
-    if (disabled || isLocked) {
-      e.preventDefault();
+  // Mouse, pen and touch all drag through the shared controller; a press that
+  // doesn't travel far enough stays a click
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    if (disabled || isLocked || !e.isPrimary || e.button !== 0) {
       return;
     }
 
-    setIsDragging(true);
-    onDragStart(index);
-
-    // Set drag data
-    e.dataTransfer.effectAllowed = 'move';
-    e.dataTransfer.setData('text/plain', index.toString());
-  };
-
-  const handleDragEnd = () => {
-    setIsDragging(false);
-    onDragEnd();
-  };
-
-  const handleTouchStart = (e: TouchEvent<HTMLDivElement>) => {
-    if (disabled || isLocked) {
-      return;
-    }
-
-    const touch = e.touches[0];
-    touchStartPos.current = { x: touch.clientX, y: touch.clientY };
-
-    // Don't prevent default here - we need to wait to see if it's a drag or click
-  };
-
-  const handleTouchMove = (e: TouchEvent<HTMLDivElement>) => {
-    if (disabled || isLocked || !touchStartPos.current) {
-      return;
-    }
-
-    const touch = e.touches[0];
-    const dx = Math.abs(touch.clientX - touchStartPos.current.x);
-    const dy = Math.abs(touch.clientY - touchStartPos.current.y);
-
-    // If moved more than 10px, consider it a drag
-    if (dx > 10 || dy > 10) {
-      e.preventDefault(); // Prevent scrolling when dragging
-      if (!isDragging) {
-        setIsDragging(true);
-        onDragStart(index);
-      }
-    }
-  };
-
-  const handleTouchEnd = (e: TouchEvent<HTMLDivElement>) => {
-    if (disabled || isLocked) {
-      return;
-    }
-
-    if (isDragging) {
-      e.preventDefault(); // Prevent click event from firing
-
-      // Find drop zone at touch position
-      const touch = e.changedTouches[0];
-      const elementAtPoint = document.elementFromPoint(touch.clientX, touch.clientY);
-
-      if (elementAtPoint) {
-        const dropZone = elementAtPoint.closest('[data-drop-zone]');
-        if (dropZone) {
-          // Trigger drop event on the drop zone
-          const dropEvent = new CustomEvent('word-drop', {
-            bubbles: true,
-            detail: { wordIndex: index }
-          });
-          dropZone.dispatchEvent(dropEvent);
-        }
-      }
-
-      setIsDragging(false);
-      onDragEnd();
-    } else if (touchStartPos.current) {
-      // If not dragging, treat as a click
-      const touch = e.changedTouches[0];
-      const dx = Math.abs(touch.clientX - touchStartPos.current.x);
-      const dy = Math.abs(touch.clientY - touchStartPos.current.y);
-
-      if (dx < 10 && dy < 10) {
-        e.preventDefault(); // Prevent double-firing
-        handleClick();
-      }
-    }
-
-    touchStartPos.current = null;
+    dragController.press(
+      {
+        element: e.currentTarget,
+        ghostClassName: styles.ghost,
+        onDragStart: () => {
+          setIsDragging(true);
+          onDragStart(index);
+        },
+        onDragEnd: () => {
+          setIsDragging(false);
+          onDragEnd();
+        },
+      },
+      e
+    );
   };
 
   const handleClick = () => {
@@ -144,6 +89,7 @@ export const Word: React.FC<WordProps> = ({
     isDragging ? styles.dragging : '',
     isPlaced ? styles.placed : '',
     isLocked ? styles.locked : '',
+    isSelected ? styles.selected : '',
     disabled ? styles.disabled : '',
     isRTL ? styles.rtl : '',
     className,
@@ -154,17 +100,12 @@ export const Word: React.FC<WordProps> = ({
   return (
     <div
       className={classNames}
-      draggable={!disabled && !isLocked}
-      onDragStart={handleDragStart}
-      onDragEnd={handleDragEnd}
-      onTouchStart={handleTouchStart}
-      onTouchMove={handleTouchMove}
-      onTouchEnd={handleTouchEnd}
+      onPointerDown={handlePointerDown}
       onClick={handleClick}
       onKeyDown={handleKeyDown}
-      tabIndex={disabled || isLocked ? -1 : 0}
+      tabIndex={disabled || isLocked ? -1 : tabIndex}
       role="button"
-      aria-label={`Word: ${word}${isLocked ? ' (locked)' : ''}`}
+      aria-label={isLocked ? t.lockedWordLabel(word) : t.wordLabel(word)}
       aria-pressed={isPlaced}
       aria-disabled={disabled || isLocked}
     >
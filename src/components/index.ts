@@ -13,3 +13,11 @@ export { OnboardingModal } from './OnboardingModal';
 export { LanguageSelector } from './LanguageSelector';
 export { GameOverModal } from './GameOverModal';
 export { GameStatistics } from './GameStatistics';
+export { PlayerStatisticsModal } from './PlayerStatisticsModal';
+export { GameTimer } from './GameTimer';
+export { ShareResultButton } from './ShareResultButton';
+export { PuzzleSizeSelector } from './PuzzleSizeSelector';
+export { DifficultySelector } from './DifficultySelector';
+export { ProverbCollection } from './ProverbCollection';
+export { LiveAnnouncer } from './LiveAnnouncer';
+export { SettingsModal } from './SettingsModal';
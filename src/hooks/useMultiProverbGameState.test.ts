@@ -5,6 +5,10 @@
 import { renderHook, act } from '@testing-library/react';
 import { useMultiProverbGameState } from './useMultiProverbGameState';
 import { PuzzleData } from '../types';
+import { getElapsedMs } from '../utils/gameTimer';
+import { DIFFICULTY_LEVELS } from '../utils/difficulty';
+import { getSolutionWords } from '../utils/tokenizer';
+import { isPerfectGame } from '../utils/playerStatistics';
 
 const createTestPuzzle = (proverbs: Array<{ solution: string; culture: string; meaning: string }>): PuzzleData => ({
   version: '1.0',
@@ -155,6 +159,96 @@ describe('useMultiProverbGameState - Adaptive Fixed Words', () => {
   });
 });
 
+describe('useMultiProverbGameState - Difficulty', () => {
+  const countLocked = (words: { isLocked: boolean }[]) => words.filter(word => word.isLocked).length;
+
+  it('should use the classic level by default', () => {
+    const puzzle = createTestPuzzle([
+      { solution: 'Five words in this proverb', culture: 'Test', meaning: 'Test meaning' },
+    ]);
+
+    const { result } = renderHook(() => useMultiProverbGameState(puzzle));
+
+    expect(result.current.gameState.validationAttempts).toBe(3);
+    expect(countLocked(result.current.gameState.allWords)).toBe(2);
+  });
+
+  it('should take anchors and attempts from the difficulty', () => {
+    const puzzle = createTestPuzzle([
+      { solution: 'Five words in this proverb', culture: 'Test', meaning: 'Test meaning' },
+    ]);
+
+    const { result: relaxed } = renderHook(() =>
+      useMultiProverbGameState(puzzle, { difficulty: DIFFICULTY_LEVELS.relaxed })
+    );
+    expect(relaxed.current.gameState.validationAttempts).toBe(5);
+    expect(countLocked(relaxed.current.gameState.allWords)).toBe(2);
+
+    const { result: challenging } = renderHook(() =>
+      useMultiProverbGameState(puzzle, { difficulty: DIFFICULTY_LEVELS.challenging })
+    );
+    expect(challenging.current.gameState.validationAttempts).toBe(2);
+    expect(countLocked(challenging.current.gameState.allWords)).toBe(0);
+  });
+
+  it('should only reveal the meaning when word hints are off', () => {
+    const puzzle = createTestPuzzle([
+      { solution: 'Five words in this proverb', culture: 'Test', meaning: 'Test meaning' },
+    ]);
+
+    const { result } = renderHook(() =>
+      useMultiProverbGameState(puzzle, { difficulty: DIFFICULTY_LEVELS.challenging })
+    );
+    act(() => {
+      result.current.useHint(0);
+    });
+    act(() => {
+      result.current.useHint(0);
+    });
+
+    expect(result.current.gameState.usedHints.has(0)).toBe(true);
+    expect(result.current.gameState.totalHintsUsed).toBe(1);
+    expect(result.current.gameState.wordHintsUsed.get(0)).toBeUndefined();
+  });
+
+  it('should offer no hints when hint levels are 0', () => {
+    const puzzle = createTestPuzzle([
+      { solution: 'Five words in this proverb', culture: 'Test', meaning: 'Test meaning' },
+    ]);
+
+    const { result } = renderHook(() =>
+      useMultiProverbGameState(puzzle, {
+        difficulty: { ...DIFFICULTY_LEVELS.classic, hintLevels: 0 },
+      })
+    );
+    act(() => {
+      result.current.useHint(0);
+    });
+
+    expect(result.current.gameState.totalHintsUsed).toBe(0);
+  });
+
+  it('should start the board over when the difficulty changes', () => {
+    const puzzle = createTestPuzzle([
+      { solution: 'Five words in this proverb', culture: 'Test', meaning: 'Test meaning' },
+    ]);
+
+    const { result, rerender } = renderHook(
+      ({ difficulty }) => useMultiProverbGameState(puzzle, { difficulty }),
+      { initialProps: { difficulty: DIFFICULTY_LEVELS.classic } }
+    );
+    act(() => {
+      result.current.useHint(0);
+    });
+    expect(result.current.gameState.totalHintsUsed).toBe(1);
+
+    rerender({ difficulty: DIFFICULTY_LEVELS.relaxed });
+
+    expect(result.current.gameState.totalHintsUsed).toBe(0);
+    expect(result.current.gameState.validationAttempts).toBe(5);
+  });
+});
+
 describe('useMultiProverbGameState - Two-Level Hint System', () => {
   it('should reveal meaning on first hint use (level 1)', () => {
     const puzzle = createTestPuzzle([
@@ -228,11 +322,17 @@ describe('useMultiProverbGameState - Two-Level Hint System', () => {
       word => word.sourceProverbIndex === 0 && word.placement === null && !word.isLocked
     );
 
+    const lockedPositions = result.current.gameState.allWords
+      .filter(word => word.isLocked && word.placement?.proverbIndex === 0)
+      .map(word => word.placement!.positionIndex);
+    const emptyPositions = [0, 1, 2].filter(position => !lockedPositions.includes(position));
+
     availableWords.forEach((word, index) => {
       act(() => {
-        result.current.moveWord(word.id, 0, index + 1); // Place in positions after fixed words
+        result.current.moveWord(word.id, 0, emptyPositions[index]); // Fill the slots around the fixed words
       });
     });
+    expect(result.current.availableWords).toHaveLength(0);
 
     const totalHintsBefore = result.current.gameState.totalHintsUsed;
 
@@ -332,6 +432,256 @@ describe('useMultiProverbGameState - Two-Level Hint System', () => {
   });
 });
 
+describe('useMultiProverbGameState - Interchangeable Words', () => {
+  const sharedPuzzle = createTestPuzzle([
+    { solution: 'The cat sleeps', culture: 'Test', meaning: 'Test meaning' },
+    { solution: 'The dog barks', culture: 'Test', meaning: 'Test meaning' },
+  ]);
+  // Seeded so that no anchor locks either "The" in place
+  const sharedOptions = { seed: 'shared' };
+
+  it('should hint with a tile from another proverb showing the same word', () => {
+    const { result } = renderHook(() => useMultiProverbGameState(sharedPuzzle, sharedOptions));
+
+    // Proverb 0's "The" goes to proverb 1, where it is just as correct
+    act(() => {
+      result.current.moveWord('0-0', 1, 0);
+    });
+    act(() => {
+      result.current.useHint(0);
+    });
+    act(() => {
+      result.current.useHint(0);
+    });
+
+    const hinted = result.current.gameState.allWords.find(
+      word => word.placement?.proverbIndex === 0 && word.placement.positionIndex === 0
+    );
+    expect(hinted?.id).toBe('1-0');
+  });
+
+  it('should accept swapped tiles when validating', () => {
+    const { result } = renderHook(() => useMultiProverbGameState(sharedPuzzle, sharedOptions));
+
+    act(() => {
+      result.current.gameState.allWords
+        .filter(word => !word.isLocked)
+        .forEach(word => {
+          // Each "The" goes to the other proverb, every other word to its own slot
+          const isThe = word.originalIndex === 0;
+          const proverbIndex = isThe ? 1 - word.sourceProverbIndex : word.sourceProverbIndex;
+          result.current.moveWord(word.id, proverbIndex, word.originalIndex);
+        });
+    });
+    act(() => {
+      result.current.validate();
+    });
+
+    expect(result.current.gameState.isCompleted).toBe(true);
+  });
+
+  it('should mark every proverb solved for statistics when tiles are swapped', () => {
+    const { result } = renderHook(() => useMultiProverbGameState(sharedPuzzle, sharedOptions));
+
+    act(() => {
+      result.current.gameState.allWords
+        .filter(word => !word.isLocked)
+        .forEach(word => {
+          const isThe = word.originalIndex === 0;
+          const proverbIndex = isThe ? 1 - word.sourceProverbIndex : word.sourceProverbIndex;
+          result.current.moveWord(word.id, proverbIndex, word.originalIndex);
+        });
+    });
+    act(() => {
+      result.current.validate();
+    });
+
+    // Statistics, practice and the collection read these flags, not the tile ids
+    expect(result.current.gameState.proverbValidation.map(v => v.isSolved)).toEqual([true, true]);
+    expect(result.current.gameState.totalHintsUsed).toBe(0);
+  });
+});
+
+describe('useMultiProverbGameState - Move Modes', () => {
+  // Five words each, so the challenging level fixes no anchors
+  const movePuzzle = createTestPuzzle([
+    { solution: 'one two three four five', culture: 'Test', meaning: 'Test meaning' },
+    { solution: 'six seven eight nine ten', culture: 'Test', meaning: 'Test meaning' },
+  ]);
+  // Seven words, so the challenging level fixes one anchor
+  const anchorPuzzle = createTestPuzzle([
+    { solution: 'one two three four five six seven', culture: 'Test', meaning: 'Test meaning' },
+  ]);
+  const challenging = { difficulty: DIFFICULTY_LEVELS.challenging };
+
+  type HookResult = { current: ReturnType<typeof useMultiProverbGameState> };
+
+  const wordId = (result: HookResult, text: string) =>
+    result.current.gameState.allWords.find(w => w.text === text)!.id;
+
+  const place = (result: HookResult, text: string, proverbIndex: number, positionIndex: number) => {
+    act(() => {
+      result.current.moveWord(wordId(result, text), proverbIndex, positionIndex);
+    });
+  };
+
+  // Words of a proverb by position ('_' for an empty slot)
+  const layout = (result: HookResult, proverbIndex: number, length = 5) =>
+    Array.from({ length }, (_, position) =>
+      result.current.gameState.allWords.find(
+        w => w.placement?.proverbIndex === proverbIndex && w.placement.positionIndex === position
+      )?.text ?? '_'
+    );
+
+  const fillInOrder = (result: HookResult, proverbIndex: number) => {
+    getSolutionWords(movePuzzle.proverbs[proverbIndex].solution).forEach((text, position) =>
+      place(result, text, proverbIndex, position)
+    );
+  };
+
+  it('swaps words dropped on each other across proverbs', () => {
+    const { result } = renderHook(() => useMultiProverbGameState(movePuzzle, challenging));
+    fillInOrder(result, 0);
+    fillInOrder(result, 1);
+
+    place(result, 'two', 1, 3);
+
+    expect(layout(result, 0)).toEqual(['one', 'nine', 'three', 'four', 'five']);
+    expect(layout(result, 1)).toEqual(['six', 'seven', 'eight', 'two', 'ten']);
+  });
+
+  it('sends the displaced word to the pool when the moved word came from there', () => {
+    const { result } = renderHook(() => useMultiProverbGameState(movePuzzle, challenging));
+    place(result, 'one', 0, 0);
+    place(result, 'six', 0, 0);
+
+    expect(layout(result, 0)).toEqual(['six', '_', '_', '_', '_']);
+    expect(result.current.availableWords.map(w => w.text)).toContain('one');
+  });
+
+  it('shifts the words in between when reordering within a proverb', () => {
+    const { result } = renderHook(() => useMultiProverbGameState(movePuzzle, challenging));
+    fillInOrder(result, 0);
+
+    place(result, 'five', 0, 1);
+    expect(layout(result, 0)).toEqual(['one', 'five', 'two', 'three', 'four']);
+
+    place(result, 'one', 0, 3);
+    expect(layout(result, 0)).toEqual(['five', 'two', 'three', 'one', 'four']);
+  });
+
+  it('stops shifting at the first gap', () => {
+    const { result } = renderHook(() => useMultiProverbGameState(movePuzzle, challenging));
+    place(result, 'one', 0, 0);
+    place(result, 'two', 0, 1);
+    place(result, 'four', 0, 3);
+    place(result, 'five', 0, 4);
+
+    place(result, 'five', 0, 0);
+
+    expect(layout(result, 0)).toEqual(['five', 'one', 'two', 'four', '_']);
+  });
+
+  it('swaps within a proverb when asked to', () => {
+    const { result } = renderHook(() => useMultiProverbGameState(movePuzzle, challenging));
+    fillInOrder(result, 0);
+
+    act(() => {
+      result.current.moveWord(wordId(result, 'five'), 0, 0, 'swap');
+    });
+
+    expect(layout(result, 0)).toEqual(['five', 'two', 'three', 'four', 'one']);
+  });
+
+  it('undoes a shift in a single step', () => {
+    const { result } = renderHook(() => useMultiProverbGameState(movePuzzle, challenging));
+    fillInOrder(result, 0);
+    place(result, 'five', 0, 0);
+
+    act(() => {
+      result.current.undo();
+    });
+
+    expect(layout(result, 0)).toEqual(['one', 'two', 'three', 'four', 'five']);
+  });
+
+  it('keeps anchors in place while the other words shift around them', () => {
+    // This seed fixes the anchor inside the proverb, so the shift has to step over it
+    const { result } = renderHook(() =>
+      useMultiProverbGameState(anchorPuzzle, { ...challenging, seed: 'moves' })
+    );
+    const anchor = result.current.gameState.allWords.find(w => w.isLocked)!;
+    const anchorPosition = anchor.placement!.positionIndex;
+    expect(anchorPosition).toBeGreaterThan(0);
+    expect(anchorPosition).toBeLessThan(6);
+    const free = result.current.gameState.allWords.filter(w => !w.isLocked);
+    const freePositions = [0, 1, 2, 3, 4, 5, 6].filter(position => position !== anchorPosition);
+    free.forEach((word, index) => {
+      act(() => {
+        result.current.moveWord(word.id, 0, freePositions[index]);
+      });
+    });
+
+    // Move the first movable word to the last movable slot - the rest move back by one
+    const first = free[0];
+    act(() => {
+      result.current.moveWord(first.id, 0, freePositions[freePositions.length - 1]);
+    });
+
+    const expected = [...free.slice(1), first].map(w => w.text);
+    expect(freePositions.map(position => layout(result, 0, 7)[position])).toEqual(expected);
+    expect(layout(result, 0, 7)[anchorPosition]).toBe(anchor.text);
+  });
+
+  it('never moves an anchor or drops a word onto one', () => {
+    const { result } = renderHook(() => useMultiProverbGameState(anchorPuzzle, challenging));
+    const anchor = result.current.gameState.allWords.find(w => w.isLocked)!;
+    const { positionIndex } = anchor.placement!;
+    const free = result.current.gameState.allWords.find(w => !w.isLocked)!;
+    const otherPosition = positionIndex === 0 ? 1 : 0;
+
+    act(() => {
+      result.current.moveWord(free.id, 0, positionIndex);
+    });
+    act(() => {
+      result.current.moveWord(anchor.id, 0, otherPosition);
+    });
+
+    expect(result.current.gameState.allWords.find(w => w.id === free.id)!.placement).toBeNull();
+    expect(result.current.gameState.allWords.find(w => w.id === anchor.id)!.placement).toEqual(
+      anchor.placement
+    );
+    expect(result.current.canUndo).toBe(false);
+  });
+
+  it('swaps across proverbs next to an anchor without disturbing it', () => {
+    const puzzle = createTestPuzzle([
+      ...anchorPuzzle.proverbs,
+      { solution: 'eight nine ten eleven twelve', culture: 'Test', meaning: 'Test meaning' },
+    ]);
+    const { result } = renderHook(() => useMultiProverbGameState(puzzle, challenging));
+    const anchor = result.current.gameState.allWords.find(w => w.isLocked)!;
+    const slot = anchor.placement!.positionIndex === 0 ? 1 : 0;
+    const free = result.current.gameState.allWords.find(
+      w => !w.isLocked && w.sourceProverbIndex === 0
+    )!;
+    act(() => {
+      result.current.moveWord(free.id, 0, slot);
+    });
+    place(result, 'eight', 1, 0);
+
+    act(() => {
+      result.current.moveWord(free.id, 1, 0);
+    });
+
+    expect(layout(result, 0, 7)[slot]).toBe('eight');
+    expect(layout(result, 1)[0]).toBe(free.text);
+    expect(result.current.gameState.allWords.find(w => w.id === anchor.id)!.placement).toEqual(
+      anchor.placement
+    );
+  });
+});
+
 describe('useMultiProverbGameState - Individual Proverb Validation', () => {
   it('should validate individual proverb and fix correct words', () => {
     const puzzle = createTestPuzzle([
@@ -444,6 +794,97 @@ describe('useMultiProverbGameState - Individual Proverb Validation', () => {
       expect(result.current.gameState.proverbValidation[0].isValidated).toBe(false);
     }
   });
+
+  it('should build tiles without punctuation and accept punctuated solutions', () => {
+    const puzzle = createTestPuzzle([
+      { solution: 'Trust, but verify – always', culture: 'Russian', meaning: 'Test meaning' },
+    ]);
+
+    const { result } = renderHook(() => useMultiProverbGameState(puzzle));
+
+    // The dash is not a tile and the comma is not part of "Trust"
+    expect(result.current.gameState.allWords.map(word => word.text)).toEqual([
+      'Trust',
+      'but',
+      'verify',
+      'always',
+    ]);
+
+    result.current.gameState.allWords
+      .filter(word => !word.isLocked)
+      .forEach(word => {
+        act(() => {
+          result.current.moveWord(word.id, 0, word.originalIndex);
+        });
+      });
+
+    act(() => {
+      result.current.validate();
+    });
+
+    expect(result.current.gameState.proverbValidation[0].isSolved).toBe(true);
+  });
+
+  it('should count single-proverb checks toward a perfect score', () => {
+    const puzzle = createTestPuzzle([
+      { solution: 'Test proverb here', culture: 'Test', meaning: 'Test meaning' },
+      { solution: 'Another saying there', culture: 'Test', meaning: 'Test meaning' },
+    ]);
+
+    const { result } = renderHook(() => useMultiProverbGameState(puzzle));
+
+    result.current.gameState.allWords
+      .filter(word => !word.isLocked)
+      .forEach(word => {
+        act(() => {
+          result.current.moveWord(word.id, word.sourceProverbIndex, word.originalIndex);
+        });
+      });
+    act(() => {
+      result.current.validateProverb(0);
+    });
+    act(() => {
+      result.current.validateProverb(1);
+    });
+
+    // Solved without the global Validate, which leaves every attempt unused
+    expect(result.current.gameState.isCompleted).toBe(true);
+    expect(result.current.gameState.validationAttempts).toBe(3);
+    expect(result.current.gameState.totalValidationAttempts).toBe(2);
+    expect(isPerfectGame(result.current.gameState)).toBe(true);
+  });
+
+  it('should spoil a perfect score when a single-proverb check fails', () => {
+    const puzzle = createTestPuzzle([
+      { solution: 'Test proverb here', culture: 'Test', meaning: 'Test meaning' },
+    ]);
+
+    // Seeded so that the first two slots hold no anchor
+    const { result } = renderHook(() => useMultiProverbGameState(puzzle, { seed: 'checks' }));
+    const wordAt = (text: string) =>
+      result.current.gameState.allWords.find(word => word.text === text)!;
+
+    act(() => {
+      result.current.moveWord(wordAt('proverb').id, 0, 0);
+      result.current.moveWord(wordAt('Test').id, 0, 1);
+      result.current.moveWord(wordAt('here').id, 0, 2);
+    });
+    act(() => {
+      result.current.validateProverb(0);
+    });
+    expect(result.current.gameState.failedValidations).toBe(1);
+
+    act(() => {
+      result.current.moveWord(wordAt('Test').id, 0, 0);
+      result.current.moveWord(wordAt('proverb').id, 0, 1);
+    });
+    act(() => {
+      result.current.validateProverb(0);
+    });
+
+    expect(result.current.gameState.isCompleted).toBe(true);
+    expect(isPerfectGame(result.current.gameState)).toBe(false);
+  });
 });
 
 describe('useMultiProverbGameState - Enhanced Selection System', () => {
@@ -793,4 +1234,449 @@ describe('useMultiProverbGameState - Reset Functionality', () => {
     expect(result.current.gameState.proverbValidation[0].isSolved).toBe(false);
     expect(result.current.gameState.isCompleted).toBe(false);
   });
-});
\ No newline at end of file
+});
+
+describe('useMultiProverbGameState - Seeded Anchors', () => {
+  const seededPuzzle = createTestPuzzle([
+    { solution: 'The quick brown fox jumps over lazy dog', culture: 'Test', meaning: 'Test meaning' },
+    { solution: 'A bird in the hand is worth two in the bush', culture: 'Test', meaning: 'Test meaning' },
+  ]);
+
+  const getAnchorIds = (seed: string) => {
+    const { result } = renderHook(() =>
+      useMultiProverbGameState(seededPuzzle, { seed })
+    );
+    return result.current.gameState.allWords
+      .filter(word => word.isLocked)
+      .map(word => word.id);
+  };
+
+  it('should place pinned anchors for a given seed', () => {
+    expect(getAnchorIds('bug-report-42')).toEqual(['0-1', '0-6', '1-1', '1-4', '1-7']);
+  });
+
+  it('should place the same anchors for the same seed', () => {
+    expect(getAnchorIds('same-seed')).toEqual(getAnchorIds('same-seed'));
+  });
+
+  it('should place anchors at their correct positions', () => {
+    const { result } = renderHook(() =>
+      useMultiProverbGameState(seededPuzzle, { seed: 'positions' })
+    );
+    result.current.gameState.allWords
+      .filter(word => word.isLocked)
+      .forEach(word => {
+        expect(word.placement).toEqual({
+          proverbIndex: word.sourceProverbIndex,
+          positionIndex: word.originalIndex,
+        });
+      });
+  });
+});
+
+describe('useMultiProverbGameState - Persistence', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  const persistedPuzzle = createTestPuzzle([
+    { solution: 'Persisted proverb number one', culture: 'Test', meaning: 'Test meaning' },
+    { solution: 'Persisted proverb number two', culture: 'Test', meaning: 'Test meaning' },
+  ]);
+
+  it('should restore progress when the same puzzle loads again', () => {
+    const { result, unmount } = renderHook(() =>
+      useMultiProverbGameState(persistedPuzzle, { persist: true })
+    );
+    const wordToMove = result.current.gameState.allWords.find(w => !w.isLocked)!;
+    const target = result.current.findNextEmptySlot(-1, -1)!;
+
+    act(() => {
+      result.current.moveWord(wordToMove.id, target.proverbIndex, target.positionIndex);
+      result.current.useHint(1);
+    });
+    unmount();
+
+    const { result: reloaded } = renderHook(() =>
+      useMultiProverbGameState(persistedPuzzle, { persist: true })
+    );
+    const restoredWord = reloaded.current.gameState.allWords.find(w => w.id === wordToMove.id)!;
+    expect(restoredWord.placement).toEqual(target);
+    expect(reloaded.current.gameState.usedHints.has(1)).toBe(true);
+    expect(reloaded.current.gameState.totalHintsUsed).toBe(1);
+  });
+
+  it('should keep the time since the last move when the page goes away', () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    try {
+      const { result, unmount } = renderHook(() =>
+        useMultiProverbGameState(persistedPuzzle, { persist: true })
+      );
+      const wordToMove = result.current.gameState.allWords.find(w => !w.isLocked)!;
+      const target = result.current.findNextEmptySlot(-1, -1)!;
+      act(() => {
+        result.current.moveWord(wordToMove.id, target.proverbIndex, target.positionIndex);
+      });
+
+      // No move for a while, then a reload
+      act(() => {
+        jest.advanceTimersByTime(7000);
+        window.dispatchEvent(new Event('pagehide'));
+      });
+      unmount();
+
+      const { result: reloaded } = renderHook(() =>
+        useMultiProverbGameState(persistedPuzzle, { persist: true })
+      );
+      expect(getElapsedMs(reloaded.current.gameState.timer)).toBe(7000);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should not touch storage unless persistence is enabled', () => {
+    const { result } = renderHook(() => useMultiProverbGameState(persistedPuzzle));
+    act(() => {
+      result.current.useHint(0);
+    });
+    expect(localStorage.getItem('savedGames')).toBeNull();
+  });
+});
+
+describe('useMultiProverbGameState - Undo/Redo', () => {
+  const undoPuzzle = createTestPuzzle([
+    { solution: 'Undo proverb number one', culture: 'Test', meaning: 'Test meaning' },
+    { solution: 'Redo proverb number two', culture: 'Test', meaning: 'Test meaning' },
+  ]);
+
+  const getFreeWord = (words: { id: string; isLocked: boolean; placement: unknown }[]) =>
+    words.find(w => !w.isLocked && w.placement === null)!;
+
+  // Anchors are placed at random - the slot a test moves to must not hold one
+  const getEmptySlot = (
+    words: { placement: { proverbIndex: number; positionIndex: number } | null }[],
+    proverbIndex: number
+  ) => ({
+    proverbIndex,
+    positionIndex: [0, 1, 2, 3, 4].find(
+      position =>
+        !words.some(
+          w => w.placement?.proverbIndex === proverbIndex && w.placement.positionIndex === position
+        )
+    )!,
+  });
+
+  it('should start with nothing to undo or redo', () => {
+    const { result } = renderHook(() => useMultiProverbGameState(undoPuzzle));
+    expect(result.current.canUndo).toBe(false);
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it('should undo and redo a word move', () => {
+    const { result } = renderHook(() => useMultiProverbGameState(undoPuzzle));
+    const word = getFreeWord(result.current.gameState.allWords);
+    const target = result.current.findNextEmptySlot(-1, -1)!;
+
+    act(() => {
+      result.current.moveWord(word.id, target.proverbIndex, target.positionIndex);
+    });
+    expect(result.current.canUndo).toBe(true);
+
+    act(() => {
+      result.current.undo();
+    });
+    expect(result.current.gameState.allWords.find(w => w.id === word.id)!.placement).toBeNull();
+    expect(result.current.canRedo).toBe(true);
+
+    act(() => {
+      result.current.redo();
+    });
+    expect(result.current.gameState.allWords.find(w => w.id === word.id)!.placement).toEqual(target);
+  });
+
+  it('should undo a word removal', () => {
+    const { result } = renderHook(() => useMultiProverbGameState(undoPuzzle));
+    const word = getFreeWord(result.current.gameState.allWords);
+    const target = result.current.findNextEmptySlot(-1, -1)!;
+
+    act(() => {
+      result.current.moveWord(word.id, target.proverbIndex, target.positionIndex);
+    });
+    act(() => {
+      result.current.removeWord(word.id);
+    });
+    act(() => {
+      result.current.undo();
+    });
+
+    expect(result.current.gameState.allWords.find(w => w.id === word.id)!.placement).toEqual(target);
+  });
+
+  it('should clear the redo stack after a new action', () => {
+    const { result } = renderHook(() => useMultiProverbGameState(undoPuzzle));
+    const word = getFreeWord(result.current.gameState.allWords);
+
+    const first = getEmptySlot(result.current.gameState.allWords, 0);
+    const second = getEmptySlot(result.current.gameState.allWords, 1);
+
+    act(() => {
+      result.current.moveWord(word.id, first.proverbIndex, first.positionIndex);
+    });
+    act(() => {
+      result.current.undo();
+    });
+    act(() => {
+      result.current.moveWord(word.id, second.proverbIndex, second.positionIndex);
+    });
+
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it('should not refund hints when undoing a hint placement', () => {
+    const { result } = renderHook(() => useMultiProverbGameState(undoPuzzle));
+
+    act(() => {
+      result.current.useHint(0); // Reveal meaning
+    });
+    act(() => {
+      result.current.useHint(0); // Place a word
+    });
+    const placedByHint = result.current.gameState.allWords.filter(
+      w => !w.isLocked && w.placement !== null
+    );
+    expect(placedByHint).toHaveLength(1);
+
+    act(() => {
+      result.current.undo();
+    });
+
+    expect(
+      result.current.gameState.allWords.find(w => w.id === placedByHint[0].id)!.placement
+    ).toBeNull();
+    expect(result.current.gameState.totalHintsUsed).toBe(2);
+    expect(result.current.gameState.wordHintsUsed.get(0)).toBe(1);
+    expect(result.current.gameState.usedHints.has(0)).toBe(true);
+  });
+
+  it('should not refund validation attempts', () => {
+    const { result } = renderHook(() => useMultiProverbGameState(undoPuzzle));
+    const word = getFreeWord(result.current.gameState.allWords);
+    const target = getEmptySlot(result.current.gameState.allWords, 0);
+
+    act(() => {
+      result.current.moveWord(word.id, target.proverbIndex, target.positionIndex);
+    });
+    act(() => {
+      result.current.validate();
+    });
+    act(() => {
+      result.current.undo();
+    });
+
+    expect(result.current.gameState.validationAttempts).toBe(2);
+    expect(result.current.gameState.totalValidationAttempts).toBe(1);
+  });
+
+  it('should keep locked words in place when undoing', () => {
+    const { result } = renderHook(() => useMultiProverbGameState(undoPuzzle));
+    const lockedBefore = result.current.gameState.allWords.filter(w => w.isLocked);
+    const word = getFreeWord(result.current.gameState.allWords);
+    const target = getEmptySlot(result.current.gameState.allWords, 0);
+
+    act(() => {
+      result.current.moveWord(word.id, target.proverbIndex, target.positionIndex);
+    });
+    act(() => {
+      result.current.undo();
+    });
+
+    lockedBefore.forEach(locked => {
+      const current = result.current.gameState.allWords.find(w => w.id === locked.id)!;
+      expect(current.placement).toEqual(locked.placement);
+      expect(current.isLocked).toBe(true);
+    });
+  });
+
+  it('should clear history on reset', () => {
+    const { result } = renderHook(() => useMultiProverbGameState(undoPuzzle));
+    const word = getFreeWord(result.current.gameState.allWords);
+    const target = getEmptySlot(result.current.gameState.allWords, 0);
+
+    act(() => {
+      result.current.moveWord(word.id, target.proverbIndex, target.positionIndex);
+    });
+    act(() => {
+      result.current.reset();
+    });
+
+    expect(result.current.canUndo).toBe(false);
+  });
+});
+
+describe('useMultiProverbGameState - Solve Timer', () => {
+  const timerPuzzle = createTestPuzzle([
+    { solution: 'Timer proverb number one', culture: 'Test', meaning: 'Test meaning' },
+    { solution: 'Clock proverb number two', culture: 'Test', meaning: 'Test meaning' },
+  ]);
+
+  const setDocumentHidden = (hidden: boolean) => {
+    Object.defineProperty(document, 'hidden', { configurable: true, get: () => hidden });
+    document.dispatchEvent(new Event('visibilitychange'));
+  };
+
+  const makeFirstMove = (result: { current: ReturnType<typeof useMultiProverbGameState> }) => {
+    const { allWords } = result.current.gameState;
+    const word = allWords.find(w => !w.isLocked && w.placement === null)!;
+    // Anchors are placed at random - drop on a slot none of them holds
+    const positionIndex = [0, 1, 2, 3, 4].find(
+      position => !allWords.some(w => w.placement?.proverbIndex === 0 && w.placement.positionIndex === position)
+    )!;
+    act(() => {
+      result.current.moveWord(word.id, 0, positionIndex);
+    });
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    setDocumentHidden(false);
+    jest.useRealTimers();
+  });
+
+  it('should not start before the first move', () => {
+    const { result } = renderHook(() => useMultiProverbGameState(timerPuzzle));
+
+    act(() => {
+      jest.advanceTimersByTime(5000);
+    });
+
+    expect(result.current.gameState.timer.hasStarted).toBe(false);
+    expect(getElapsedMs(result.current.gameState.timer)).toBe(0);
+  });
+
+  it('should start on the first move', () => {
+    const { result } = renderHook(() => useMultiProverbGameState(timerPuzzle));
+    makeFirstMove(result);
+
+    act(() => {
+      jest.advanceTimersByTime(5000);
+    });
+
+    expect(result.current.gameState.timer.runningSince).not.toBeNull();
+    expect(getElapsedMs(result.current.gameState.timer)).toBe(5000);
+  });
+
+  it('should pause while the paused option is set', () => {
+    const { result, rerender } = renderHook(
+      ({ paused }) => useMultiProverbGameState(timerPuzzle, { paused }),
+      { initialProps: { paused: false } }
+    );
+    makeFirstMove(result);
+
+    act(() => {
+      jest.advanceTimersByTime(2000);
+    });
+    rerender({ paused: true });
+    act(() => {
+      jest.advanceTimersByTime(10000);
+    });
+    rerender({ paused: false });
+    act(() => {
+      jest.advanceTimersByTime(1000);
+    });
+
+    expect(getElapsedMs(result.current.gameState.timer)).toBe(3000);
+  });
+
+  it('should pause while the document is hidden', () => {
+    const { result } = renderHook(() => useMultiProverbGameState(timerPuzzle));
+    makeFirstMove(result);
+
+    act(() => {
+      jest.advanceTimersByTime(2000);
+      setDocumentHidden(true);
+    });
+    act(() => {
+      jest.advanceTimersByTime(30000);
+    });
+
+    expect(result.current.gameState.timer.runningSince).toBeNull();
+    expect(getElapsedMs(result.current.gameState.timer)).toBe(2000);
+
+    act(() => {
+      setDocumentHidden(false);
+    });
+    act(() => {
+      jest.advanceTimersByTime(1000);
+    });
+
+    expect(getElapsedMs(result.current.gameState.timer)).toBe(3000);
+  });
+
+  it('should stop when the game has failed', () => {
+    const { result } = renderHook(() => useMultiProverbGameState(timerPuzzle));
+    makeFirstMove(result);
+
+    act(() => {
+      jest.advanceTimersByTime(4000);
+    });
+    for (let i = 0; i < 3; i++) {
+      act(() => {
+        result.current.validate();
+      });
+    }
+    expect(result.current.gameState.hasFailedGame).toBe(true);
+
+    act(() => {
+      jest.advanceTimersByTime(60000);
+    });
+
+    expect(result.current.gameState.timer.runningSince).toBeNull();
+    expect(getElapsedMs(result.current.gameState.timer)).toBe(4000);
+  });
+
+  it('should stop when the puzzle is completed', () => {
+    const { result } = renderHook(() => useMultiProverbGameState(timerPuzzle));
+    makeFirstMove(result);
+
+    act(() => {
+      jest.advanceTimersByTime(7000);
+    });
+    act(() => {
+      result.current.gameState.allWords.forEach(word => {
+        if (!word.isLocked) {
+          result.current.moveWord(word.id, word.sourceProverbIndex, word.originalIndex);
+        }
+      });
+    });
+    act(() => {
+      result.current.validate();
+    });
+    expect(result.current.gameState.isCompleted).toBe(true);
+
+    act(() => {
+      jest.advanceTimersByTime(60000);
+    });
+
+    expect(getElapsedMs(result.current.gameState.timer)).toBe(7000);
+  });
+
+  it('should clear the timer on reset', () => {
+    const { result } = renderHook(() => useMultiProverbGameState(timerPuzzle));
+    makeFirstMove(result);
+
+    act(() => {
+      jest.advanceTimersByTime(3000);
+    });
+    act(() => {
+      result.current.reset();
+    });
+
+    expect(result.current.gameState.timer.hasStarted).toBe(false);
+    expect(getElapsedMs(result.current.gameState.timer)).toBe(0);
+  });
+});
@@ -3,73 +3,215 @@
  * This replaces the old architecture that restricted words to their source proverb
  */
 
-import { useState, useCallback, useMemo, useEffect } from 'react';
-import { MultiProverbGameState, PuzzleData, GlobalWord } from '../types/puzzle';
+import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import {
+  MultiProverbGameState,
+  PuzzleData,
+  GlobalWord,
+  MoveHistory,
+  MoveMode,
+  ProverbValidation,
+} from '../types/puzzle';
 import { countWordsInSolution } from '../utils/wordUtils';
+import { getSolutionWords, matchesSolution, wordsMatch } from '../utils/tokenizer';
+import { createSeededRandom, RandomSource } from '../utils/random';
+import { countWordFrequencies, selectAnchorPositions } from '../utils/anchorWords';
+import {
+  clearGameState,
+  generatePuzzleCacheKey,
+  loadGameState,
+  saveGameState,
+} from '../utils/gameStatePersistence';
+import { createTimerState, pauseTimer, resumeTimer, startTimer } from '../utils/gameTimer';
+import {
+  DEFAULT_DIFFICULTY,
+  DIFFICULTY_LEVELS,
+  DifficultySettings,
+  getAnchorCount,
+  getMaxHintWords,
+} from '../utils/difficulty';
 
 /**
- * Choose anchor words that are meaningful (not articles/short words)
+ * Optional configuration for the game state hook
  */
-const isGoodAnchorWord = (word: string): boolean => {
-  const lowercased = word.toLowerCase();
-  const skipWords = ['a', 'an', 'the', 'is', 'to', 'of', 'in', 'on', 'at', 'it'];
-  return word.length > 2 && !skipWords.includes(lowercased);
+export interface GameStateOptions {
+  /** Seed for anchor selection - the same seed always fixes the same anchors */
+  seed?: string;
+  /** Save progress to localStorage and restore it when the same puzzle loads again */
+  persist?: boolean;
+  /** Pause the solve timer (e.g. while a modal covers the board) */
+  paused?: boolean;
+  /** Anchors, attempts and hints for the board (defaults to the classic level) */
+  difficulty?: DifficultySettings;
+}
+
+/**
+ * Maximum number of undo steps kept in memory
+ */
+const MAX_HISTORY_LENGTH = 100;
+
+/**
+ * Record the words as they were before an action so it can be undone
+ * Any new action clears the redo stack
+ */
+const recordHistory = (history: MoveHistory, previousWords: GlobalWord[]): MoveHistory => ({
+  past: [...history.past, previousWords].slice(-MAX_HISTORY_LENGTH),
+  future: [],
+});
+
+/**
+ * Apply the placements of a history snapshot onto the current words
+ * Words locked since the snapshot was taken (anchors, validated words) stay put,
+ * and a snapshot placement that now collides with a locked word goes back to the pool
+ */
+const applyHistorySnapshot = (snapshot: GlobalWord[], current: GlobalWord[]): GlobalWord[] => {
+  const snapshotById = new Map(snapshot.map(word => [word.id, word]));
+  const lockedSlots = new Set(
+    current
+      .filter(word => word.isLocked && word.placement)
+      .map(word => `${word.placement!.proverbIndex}-${word.placement!.positionIndex}`)
+  );
+
+  return current.map(word => {
+    if (word.isLocked) {
+      return word;
+    }
+    const placement = snapshotById.get(word.id)?.placement ?? null;
+    if (placement && lockedSlots.has(`${placement.proverbIndex}-${placement.positionIndex}`)) {
+      return { ...word, placement: null };
+    }
+    return { ...word, placement };
+  });
 };
 
 /**
- * Cache for fixed word calculations to avoid recalculation
+ * Keep solved proverbs solved, clear validation feedback on the others
  */
-const fixedWordCache = new Map<string, GlobalWord[]>();
+const keepSolvedValidation = (validation: ProverbValidation[]): ProverbValidation[] =>
+  validation.map(v => (v.isSolved ? v : { isSolved: false, isValidated: false }));
+
+type Slot = NonNullable<GlobalWord['placement']>;
 
 /**
- * Generate a cache key for puzzle data to enable memoization
+ * Place a word, moving the words in its way as the move mode says
+ * Without a mode, a placed word moved within its own proverb shifts the words
+ * in between and any other move swaps
+ * @returns The new words, or null when the move changes nothing or would
+ * disturb a locked word
  */
-const generatePuzzleCacheKey = (puzzleData: PuzzleData): string => {
-  return puzzleData.proverbs.map(p => `${p.solution}|${p.culture}`).join('::');
+const applyMove = (
+  words: GlobalWord[],
+  wordId: string,
+  target: Slot,
+  mode?: MoveMode
+): GlobalWord[] | null => {
+  const moved = words.find(word => word.id === wordId);
+  const source = moved?.placement ?? null;
+  if (
+    !moved ||
+    moved.isLocked ||
+    (source?.proverbIndex === target.proverbIndex && source.positionIndex === target.positionIndex)
+  ) {
+    return null;
+  }
+
+  const wordAt = (positionIndex: number) =>
+    words.find(
+      word =>
+        word.id !== wordId &&
+        word.placement?.proverbIndex === target.proverbIndex &&
+        word.placement.positionIndex === positionIndex
+    );
+  const occupant = wordAt(target.positionIndex);
+  if (occupant?.isLocked) {
+    return null;
+  }
+
+  const withinProverb = source?.proverbIndex === target.proverbIndex;
+  const placements = new Map<string, Slot | null>([[wordId, target]]);
+
+  if (occupant && source && withinProverb && (mode ?? 'shift') === 'shift') {
+    // Carry the words from the target towards the vacated slot, stepping over
+    // locked words, until a gap (at the latest the vacated slot) takes them in
+    const step = source.positionIndex > target.positionIndex ? 1 : -1;
+    let carried = occupant;
+    for (let position = target.positionIndex + step; ; position += step) {
+      const current = position === source.positionIndex ? undefined : wordAt(position);
+      if (current?.isLocked) {
+        continue;
+      }
+      placements.set(carried.id, { proverbIndex: target.proverbIndex, positionIndex: position });
+      if (!current) {
+        break;
+      }
+      carried = current;
+    }
+  } else if (occupant) {
+    placements.set(occupant.id, source);
+  }
+
+  return words.map(word =>
+    placements.has(word.id) ? { ...word, placement: placements.get(word.id) ?? null } : word
+  );
 };
 
+/**
+ * Cache for fixed word calculations to avoid recalculation
+ */
+const fixedWordCache = new Map<string, GlobalWord[]>();
+
 /**
  * Initialize all words from all proverbs into a global pool
  * Derives words directly from solution (ignoring the words array if present)
- * Places adaptive number of anchor words per proverb based on word count
+ * Places the difficulty's number of anchor words per proverb based on word count,
+ * preferring content words that are rare in the pool (see utils/anchorWords)
  * Uses caching to avoid recalculation for the same puzzle
+ * @param puzzleData - Puzzle to build words for
+ * @param seed - Optional seed making anchor selection reproducible
+ * @param difficulty - Difficulty deciding how many anchors each proverb gets
  */
-const initializeGlobalWords = (puzzleData: PuzzleData): GlobalWord[] => {
-  const cacheKey = generatePuzzleCacheKey(puzzleData);
+const initializeGlobalWords = (
+  puzzleData: PuzzleData,
+  seed: string | undefined,
+  difficulty: DifficultySettings
+): GlobalWord[] => {
+  const puzzleKey = generatePuzzleCacheKey(puzzleData);
+  const anchorKey = difficulty.anchorDensity
+    .map(rule => `${rule.maxWords}:${rule.anchors}`)
+    .join(',');
+  const baseKey = `${anchorKey}::${puzzleKey}`;
+  const cacheKey = seed !== undefined ? `${seed}::${baseKey}` : baseKey;
   
   // Check cache first
   if (fixedWordCache.has(cacheKey)) {
     return fixedWordCache.get(cacheKey)!;
   }
 
+  const random: RandomSource =
+    seed !== undefined ? createSeededRandom(`${seed}:anchors`) : Math.random;
   const allWords: GlobalWord[] = [];
+  const frequencies = countWordFrequencies(
+    puzzleData.proverbs.flatMap(proverb => getSolutionWords(proverb.solution))
+  );
 
   puzzleData.proverbs.forEach((proverb, proverbIndex) => {
     // Split solution into words - this is the single source of truth
-    const solutionWords = proverb.solution.split(/\s+/);
+    const solutionWords = getSolutionWords(proverb.solution);
     const wordCount = countWordsInSolution(proverb.solution);
 
-    // Find good anchor word candidates by position (optimized with filter + map)
-    const goodPositions = solutionWords
-      .map((word, position) => ({ word, position }))
-      .filter(({ word }) => isGoodAnchorWord(word))
-      .map(({ position }) => position);
+    // Fixed word count based on proverb length, as set by the difficulty
+    const targetFixedCount = getAnchorCount(difficulty, wordCount);
 
-    // Adaptive fixed word count based on proverb length
-    // < 5 words = 1 fixed, 5-9 words = 2 fixed, > 9 words = 3 fixed
-    const targetFixedCount = wordCount < 5 ? 1 : wordCount <= 9 ? 2 : 3;
-    const numAnchors = Math.min(targetFixedCount, goodPositions.length);
-    
     // Use Set for O(1) lookup performance
-    const selectedAnchorPositions = new Set<number>();
-    const tempGoodPositions = [...goodPositions];
-    
-    // Optimized selection loop
-    for (let i = 0; i < numAnchors && tempGoodPositions.length > 0; i++) {
-      const randomIdx = Math.floor(Math.random() * tempGoodPositions.length);
-      selectedAnchorPositions.add(tempGoodPositions[randomIdx]);
-      tempGoodPositions.splice(randomIdx, 1);
-    }
+    const selectedAnchorPositions = new Set(
+      selectAnchorPositions(
+        solutionWords,
+        targetFixedCount,
+        puzzleData.language,
+        frequencies,
+        random
+      )
+    );
 
     // Create word objects - one for each word in the solution
     solutionWords.forEach((word, wordIndex) => {
@@ -106,8 +248,22 @@ const initializeGlobalWords = (puzzleData: PuzzleData): GlobalWord[] => {
 
 /**
  * Custom hook for managing multi-proverb game state
+ * @param puzzleData - Puzzle to play (null while loading)
+ * @param options - Optional settings such as a seed for reproducible anchors
  */
-export const useMultiProverbGameState = (puzzleData: PuzzleData | null) => {
+export const useMultiProverbGameState = (
+  puzzleData: PuzzleData | null,
+  options: GameStateOptions = {}
+) => {
+  const {
+    seed,
+    persist = false,
+    paused = false,
+    difficulty = DIFFICULTY_LEVELS[DEFAULT_DIFFICULTY],
+  } = options;
+  // Difficulty the current board was set up with - Reset and hints follow it,
+  // not a preference that changed since
+  const [boardDifficulty, setBoardDifficulty] = useState(difficulty);
   const [gameState, setGameState] = useState<MultiProverbGameState>(() => {
     if (!puzzleData) {
       return {
@@ -119,20 +275,28 @@ export const useMultiProverbGameState = (puzzleData: PuzzleData | null) => {
         usedHints: new Set<number>(),
         wordHintsUsed: new Map<number, number>(),
         totalHintsUsed: 0,
-        validationAttempts: 3,
+        validationAttempts: difficulty.validationAttempts,
         hasFailedGame: false,
         totalValidationAttempts: 0,
+        failedValidations: 0,
         selectionState: {
           selectedWordId: null,
           selectedPlaceholder: null,
           autoFocusTarget: null,
         },
+        history: { past: [], future: [] },
+        timer: createTimerState(),
       };
     }
 
+    const initialWords = initializeGlobalWords(puzzleData, seed, difficulty);
+    const restored = persist
+      ? loadGameState(puzzleData, initialWords)
+      : null;
+
     return {
       puzzleData,
-      allWords: initializeGlobalWords(puzzleData),
+      allWords: initialWords,
       proverbValidation: puzzleData.proverbs.map(() => ({
         isSolved: false,
         isValidated: false,
@@ -142,27 +306,46 @@ export const useMultiProverbGameState = (puzzleData: PuzzleData | null) => {
       usedHints: new Set<number>(),
       wordHintsUsed: new Map<number, number>(),
       totalHintsUsed: 0,
-      validationAttempts: 3,
+      validationAttempts: difficulty.validationAttempts,
       hasFailedGame: false,
       totalValidationAttempts: 0,
+      failedValidations: 0,
       selectionState: {
         selectedWordId: null,
         selectedPlaceholder: null,
         autoFocusTarget: null,
       },
+      history: { past: [], future: [] },
+      timer: createTimerState(),
+      // Saved progress for this puzzle replaces the fresh defaults
+      ...restored,
     };
   });
 
-  // Update game state when puzzle data changes
+  // Update game state when puzzle data or difficulty changes
   useEffect(() => {
-    if (puzzleData && (!gameState.puzzleData || gameState.puzzleData !== puzzleData)) {
-      const initialWords = initializeGlobalWords(puzzleData);
+    const difficultyChanged = boardDifficulty !== difficulty;
+    if (
+      puzzleData &&
+      (!gameState.puzzleData || gameState.puzzleData !== puzzleData || difficultyChanged)
+    ) {
+      setBoardDifficulty(difficulty);
+      const freshWords = initializeGlobalWords(puzzleData, seed, difficulty);
+      // A new difficulty starts the board over; otherwise restore saved
+      // progress if this puzzle was left unfinished
+      if (persist && difficultyChanged) {
+        clearGameState(puzzleData);
+      }
+      const restored = persist && !difficultyChanged
+        ? loadGameState(puzzleData, freshWords)
+        : null;
+      const initialWords = restored ? restored.allWords : freshWords;
       
       // Find the first empty slot for auto-focus
       let initialAutoFocus = null;
       for (let proverbIdx = 0; proverbIdx < puzzleData.proverbs.length; proverbIdx++) {
         const proverb = puzzleData.proverbs[proverbIdx];
-        const wordCount = proverb.solution.split(/\s+/).length;
+        const wordCount = countWordsInSolution(proverb.solution);
         
         for (let pos = 0; pos < wordCount; pos++) {
           const wordAtPosition = initialWords.find(
@@ -188,64 +371,107 @@ export const useMultiProverbGameState = (puzzleData: PuzzleData | null) => {
         usedHints: new Set<number>(),
         wordHintsUsed: new Map<number, number>(),
         totalHintsUsed: 0,
-        validationAttempts: 3,
+        validationAttempts: difficulty.validationAttempts,
         hasFailedGame: false,
         totalValidationAttempts: 0,
+        failedValidations: 0,
         selectionState: {
           selectedWordId: null,
           selectedPlaceholder: null,
           autoFocusTarget: initialAutoFocus,
         },
+        history: { past: [], future: [] },
+        timer: createTimerState(),
+        ...restored,
       });
     }
-  }, [puzzleData, gameState.puzzleData]);
+  }, [puzzleData, gameState.puzzleData, seed, persist, difficulty, boardDifficulty]);
+
+  // Save progress while the game is in play, and drop the save once it's over
+  useEffect(() => {
+    if (!persist || !gameState.puzzleData) {
+      return;
+    }
+
+    if (gameState.isCompleted || gameState.hasFailedGame) {
+      clearGameState(gameState.puzzleData);
+    } else {
+      saveGameState(gameState.puzzleData, gameState);
+    }
+  }, [persist, gameState]);
+
+  // The solve timer pauses while the tab is in the background
+  const [isDocumentHidden, setIsDocumentHidden] = useState(() => document.hidden);
+  useEffect(() => {
+    const handleVisibilityChange = () => setIsDocumentHidden(document.hidden);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  // Run the timer only while the player can actually be solving
+  const shouldTimerRun =
+    gameState.timer.hasStarted &&
+    !paused &&
+    !isDocumentHidden &&
+    !gameState.isCompleted &&
+    !gameState.hasFailedGame;
+  const isTimerRunning = gameState.timer.runningSince !== null;
+  useEffect(() => {
+    if (shouldTimerRun !== isTimerRunning) {
+      setGameState(prev => ({
+        ...prev,
+        timer: shouldTimerRun ? resumeTimer(prev.timer) : pauseTimer(prev.timer),
+      }));
+    }
+  }, [shouldTimerRun, isTimerRunning]);
+
+  // The save above only runs when the state changes, so the clock keeps
+  // running unsaved between moves. A reload or a closed tab does not wait for
+  // a state update - save the time on the clock as the page goes away
+  const latestGameState = useRef(gameState);
+  latestGameState.current = gameState;
+  useEffect(() => {
+    if (!persist) {
+      return;
+    }
+
+    const saveElapsedTime = () => {
+      const state = latestGameState.current;
+      if (state.puzzleData && !state.isCompleted && !state.hasFailedGame) {
+        saveGameState(state.puzzleData, state);
+      }
+    };
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        saveElapsedTime();
+      }
+    };
+    window.addEventListener('pagehide', saveElapsedTime);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('pagehide', saveElapsedTime);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [persist]);
 
   /**
    * Move a word to a specific proverb position
+   * Locked words never move. By default a placed word moved within its own
+   * proverb shifts the words in between, any other move swaps (see MoveMode)
    * @param wordId - Unique ID of the word to move
    * @param targetProverbIndex - Which proverb to place it in
    * @param targetPosition - Position within that proverb (0-based)
+   * @param mode - Overrides how words in the way are moved
    */
   const handleMoveWord = useCallback(
-    (wordId: string, targetProverbIndex: number, targetPosition: number) => {
+    (wordId: string, targetProverbIndex: number, targetPosition: number, mode?: MoveMode) => {
       setGameState(prev => {
-        // Check if the word being moved is locked
-        const wordToMove = prev.allWords.find(w => w.id === wordId);
-        if (wordToMove?.isLocked) {
-          return prev; // Don't allow moving locked words
+        const target = { proverbIndex: targetProverbIndex, positionIndex: targetPosition };
+        const newWords = applyMove(prev.allWords, wordId, target, mode);
+        if (!newWords) {
+          return prev;
         }
 
-        const newWords = prev.allWords.map(word => {
-          if (word.id === wordId) {
-            // Moving this word
-            return {
-              ...word,
-              placement: {
-                proverbIndex: targetProverbIndex,
-                positionIndex: targetPosition,
-              },
-            };
-          }
-
-          // Check if another word is already at this position
-          if (
-            word.placement &&
-            word.placement.proverbIndex === targetProverbIndex &&
-            word.placement.positionIndex === targetPosition
-          ) {
-            // Don't displace locked words
-            if (word.isLocked) {
-              return word;
-            }
-            return {
-              ...word,
-              placement: null, // Remove from position
-            };
-          }
-
-          return word;
-        });
-
         // Reset validation when words are moved
         const resetValidation = prev.proverbValidation.map(() => ({
           isSolved: false,
@@ -256,6 +482,8 @@ export const useMultiProverbGameState = (puzzleData: PuzzleData | null) => {
           ...prev,
           allWords: newWords,
           proverbValidation: resetValidation,
+          history: recordHistory(prev.history, prev.allWords),
+          timer: startTimer(prev.timer),
         };
       });
     },
@@ -273,6 +501,11 @@ export const useMultiProverbGameState = (puzzleData: PuzzleData | null) => {
         return prev;
       }
 
+      // Nothing to record if the word is already in the pool
+      if (!word?.placement) {
+        return prev;
+      }
+
       const newWords = prev.allWords.map(word =>
         word.id === wordId ? { ...word, placement: null } : word
       );
@@ -280,6 +513,8 @@ export const useMultiProverbGameState = (puzzleData: PuzzleData | null) => {
       return {
         ...prev,
         allWords: newWords,
+        history: recordHistory(prev.history, prev.allWords),
+        timer: startTimer(prev.timer),
       };
     });
   }, []);
@@ -310,27 +545,9 @@ export const useMultiProverbGameState = (puzzleData: PuzzleData | null) => {
           )
           .map(word => word.text);
 
-        // Check if all positions are filled
-        const expectedWordCount = proverb.solution.split(/\s+/).length;
-        if (placedWords.length !== expectedWordCount) {
-          return { isSolved: false, isValidated: true };
-        }
-
-        // Join and compare with solution (normalized)
-        const currentSolution = placedWords.join(' ');
-        // Normalize: lowercase, trim, collapse whitespace
-        // Don't strip non-ASCII characters (Hebrew, etc.)
-        const normalizedCurrent = currentSolution
-          .toLowerCase()
-          .trim()
-          .replace(/\s+/g, ' ');
-        const normalizedSolution = proverb.solution
-          .toLowerCase()
-          .trim()
-          .replace(/\s+/g, ' ');
-
+        // Compare word by word, ignoring punctuation, case and niqqud
         return {
-          isSolved: normalizedCurrent === normalizedSolution,
+          isSolved: matchesSolution(placedWords, proverb.solution),
           isValidated: true,
         };
       });
@@ -350,7 +567,10 @@ export const useMultiProverbGameState = (puzzleData: PuzzleData | null) => {
         isCompleted: allSolved,
         validationAttempts: newValidationAttempts,
         totalValidationAttempts: newTotalValidationAttempts,
+        failedValidations: prev.failedValidations + (allSolved ? 0 : 1),
         hasFailedGame,
+        // Stop the clock at the exact moment the game ends
+        timer: allSolved || hasFailedGame ? pauseTimer(prev.timer) : prev.timer,
       };
     });
   }, []);
@@ -378,7 +598,7 @@ export const useMultiProverbGameState = (puzzleData: PuzzleData | null) => {
       let resetAutoFocus = null;
       for (let proverbIdx = 0; proverbIdx < prev.puzzleData.proverbs.length; proverbIdx++) {
         const proverb = prev.puzzleData.proverbs[proverbIdx];
-        const wordCount = proverb.solution.split(/\s+/).length;
+        const wordCount = countWordsInSolution(proverb.solution);
         
         for (let pos = 0; pos < wordCount; pos++) {
           const wordAtPosition = resetWords.find(
@@ -401,9 +621,10 @@ export const useMultiProverbGameState = (puzzleData: PuzzleData | null) => {
         })),
         isCompleted: false,
         // Reset validation attempts and game failure state
-        validationAttempts: 3,
+        validationAttempts: boardDifficulty.validationAttempts,
         hasFailedGame: false,
         totalValidationAttempts: 0,
+        failedValidations: 0,
         // Reset hint usage tracking and statistics
         usedHints: new Set<number>(),
         wordHintsUsed: new Map<number, number>(),
@@ -414,14 +635,18 @@ export const useMultiProverbGameState = (puzzleData: PuzzleData | null) => {
           selectedPlaceholder: null,
           autoFocusTarget: resetAutoFocus,
         },
+        // A reset starts over - there is nothing left to undo
+        history: { past: [], future: [] },
+        timer: createTimerState(),
       };
     });
-  }, []);
+  }, [boardDifficulty]);
 
   /**
    * Use a hint: enhanced two-level hint system with multiple word placements
    * Level 1: Reveal the meaning of a specific proverb
-   * Level 2: Place words in correct positions (up to 80% of the proverb)
+   * Level 2: Place words in correct positions (up to the difficulty's cap, 80% by default)
+   * Levels the difficulty doesn't offer do nothing
    * @param proverbIndex - Index of the proverb to provide hint for
    */
   const handleUseHint = useCallback((proverbIndex: number) => {
@@ -436,8 +661,12 @@ export const useMultiProverbGameState = (puzzleData: PuzzleData | null) => {
       }
 
       const proverb = prev.puzzleData.proverbs[proverbIndex];
-      const solutionWords = proverb.solution.split(/\s+/);
+      const solutionWords = getSolutionWords(proverb.solution);
       const totalWords = solutionWords.length;
+
+      if (boardDifficulty.hintLevels < 1) {
+        return prev;
+      }
       
       // Level 1: Reveal meaning (if not already revealed)
       if (!prev.usedHints.has(proverbIndex)) {
@@ -448,13 +677,14 @@ export const useMultiProverbGameState = (puzzleData: PuzzleData | null) => {
           ...prev,
           usedHints: newUsedHints,
           totalHintsUsed: prev.totalHintsUsed + 1,
+          timer: startTimer(prev.timer),
         };
       }
       
       // Level 2: Place a word (if meaning already revealed)
       if (prev.usedHints.has(proverbIndex)) {
-        // Calculate how many words can be placed via hints (80% of total, rounded down)
-        const maxHintWords = Math.floor(totalWords * 0.8);
+        // Calculate how many words can be placed via hints (share of total, rounded down)
+        const maxHintWords = getMaxHintWords(boardDifficulty, totalWords);
         const currentHintWords = prev.wordHintsUsed.get(proverbIndex) || 0;
         
         // Check if we've reached the hint limit
@@ -462,16 +692,6 @@ export const useMultiProverbGameState = (puzzleData: PuzzleData | null) => {
           return prev;
         }
         
-        // Find available words that belong to this proverb
-        const availableWordsForProverb = prev.allWords.filter(
-          word => word.sourceProverbIndex === proverbIndex && word.placement === null && !word.isLocked
-        );
-        
-        // If no words available, don't proceed
-        if (availableWordsForProverb.length === 0) {
-          return prev;
-        }
-        
         // Find the first empty position in this proverb
         let targetPosition = -1;
         
@@ -490,13 +710,26 @@ export const useMultiProverbGameState = (puzzleData: PuzzleData | null) => {
           return prev;
         }
         
-        // Find the correct word for this position
-        const correctWord = availableWordsForProverb.find(
-          word => word.originalIndex === targetPosition
+        // Find the correct word for this position - a tile with the same word from
+        // another proverb is interchangeable (see utils/ambiguity), but this
+        // proverb's own tile is preferred so other proverbs keep theirs
+        const unplacedWords = prev.allWords.filter(
+          word => word.placement === null && !word.isLocked
+        );
+        const matchingWords = unplacedWords.filter(word =>
+          wordsMatch(word.text, solutionWords[targetPosition])
         );
+        const correctWord =
+          matchingWords.find(word => word.sourceProverbIndex === proverbIndex) ?? matchingWords[0];
         
         // If correct word not available, pick the first available word from this proverb
-        const wordToPlace = correctWord || availableWordsForProverb[0];
+        const wordToPlace =
+          correctWord || unplacedWords.find(word => word.sourceProverbIndex === proverbIndex);
+
+        // If no words available, don't proceed
+        if (!wordToPlace) {
+          return prev;
+        }
         
         // Place the word
         const newWords = prev.allWords.map(word => {
@@ -543,13 +776,75 @@ export const useMultiProverbGameState = (puzzleData: PuzzleData | null) => {
           wordHintsUsed: newWordHintsUsed,
           totalHintsUsed: prev.totalHintsUsed + 1,
           proverbValidation: resetValidation,
+          // The placement can be undone, but the hint stays counted
+          history: recordHistory(prev.history, prev.allWords),
+          timer: startTimer(prev.timer),
         };
       }
       
       return prev;
     });
+  }, [boardDifficulty]);
+
+  /**
+   * Undo the last word move, removal or hint placement
+   * Hint counters and validation attempts are left untouched
+   */
+  const handleUndo = useCallback(() => {
+    setGameState(prev => {
+      const { past, future } = prev.history;
+      if (past.length === 0 || prev.isCompleted || prev.hasFailedGame) {
+        return prev;
+      }
+
+      return {
+        ...prev,
+        allWords: applyHistorySnapshot(past[past.length - 1], prev.allWords),
+        proverbValidation: keepSolvedValidation(prev.proverbValidation),
+        selectionState: {
+          ...prev.selectionState,
+          selectedWordId: null,
+          selectedPlaceholder: null,
+        },
+        history: {
+          past: past.slice(0, -1),
+          future: [...future, prev.allWords],
+        },
+      };
+    });
+  }, []);
+
+  /**
+   * Redo the last undone action
+   */
+  const handleRedo = useCallback(() => {
+    setGameState(prev => {
+      const { past, future } = prev.history;
+      if (future.length === 0 || prev.isCompleted || prev.hasFailedGame) {
+        return prev;
+      }
+
+      return {
+        ...prev,
+        allWords: applyHistorySnapshot(future[future.length - 1], prev.allWords),
+        proverbValidation: keepSolvedValidation(prev.proverbValidation),
+        selectionState: {
+          ...prev.selectionState,
+          selectedWordId: null,
+          selectedPlaceholder: null,
+        },
+        history: {
+          past: [...past, prev.allWords],
+          future: future.slice(0, -1),
+        },
+      };
+    });
   }, []);
 
+  const isGameOver = gameState.isCompleted || gameState.hasFailedGame;
+  const canUndo = !isGameOver && gameState.history.past.length > 0;
+  const canRedo = !isGameOver && gameState.history.future.length > 0;
+
   /**
    * Get all available (unplaced) words
    */
@@ -571,7 +866,7 @@ export const useMultiProverbGameState = (puzzleData: PuzzleData | null) => {
       }
 
       const proverb = prev.puzzleData.proverbs[proverbIndex];
-      const solutionWords = proverb.solution.split(/\s+/);
+      const solutionWords = getSolutionWords(proverb.solution);
       
       // Get all words placed in this proverb, sorted by position
       const placedWords = prev.allWords
@@ -589,7 +884,7 @@ export const useMultiProverbGameState = (puzzleData: PuzzleData | null) => {
       
       placedWords.forEach((word, index) => {
         const expectedWord = solutionWords[index];
-        if (word.text.toLowerCase() === expectedWord.toLowerCase()) {
+        if (wordsMatch(word.text, expectedWord)) {
           correctWordIds.add(word.id);
         } else {
           incorrectWordIds.add(word.id);
@@ -630,6 +925,10 @@ export const useMultiProverbGameState = (puzzleData: PuzzleData | null) => {
         allWords: newWords,
         proverbValidation: newValidation,
         isCompleted: allSolved,
+        // A single-proverb check is free, but it counts as a check in the statistics
+        totalValidationAttempts: prev.totalValidationAttempts + 1,
+        failedValidations: prev.failedValidations + (isProverbSolved ? 0 : 1),
+        timer: allSolved ? pauseTimer(prev.timer) : prev.timer,
       };
     });
   }, []);
@@ -702,7 +1001,7 @@ export const useMultiProverbGameState = (puzzleData: PuzzleData | null) => {
       // Search from the beginning of all proverbs
       for (let proverbIdx = 0; proverbIdx < gameState.puzzleData.proverbs.length; proverbIdx++) {
         const proverb = gameState.puzzleData.proverbs[proverbIdx];
-        const wordCount = proverb.solution.split(/\s+/).length;
+        const wordCount = countWordsInSolution(proverb.solution);
         
         for (let pos = 0; pos < wordCount; pos++) {
           const wordAtPosition = gameState.allWords.find(
@@ -718,7 +1017,7 @@ export const useMultiProverbGameState = (puzzleData: PuzzleData | null) => {
 
     // First, try to find next empty slot in the same proverb
     const currentProverb = gameState.puzzleData.proverbs[currentProverbIndex];
-    const currentProverbWordCount = currentProverb.solution.split(/\s+/).length;
+    const currentProverbWordCount = countWordsInSolution(currentProverb.solution);
     
     for (let pos = currentPosition + 1; pos < currentProverbWordCount; pos++) {
       const wordAtPosition = gameState.allWords.find(
@@ -732,7 +1031,7 @@ export const useMultiProverbGameState = (puzzleData: PuzzleData | null) => {
     // If no empty slot in current proverb, try next proverbs
     for (let proverbIdx = currentProverbIndex + 1; proverbIdx < gameState.puzzleData.proverbs.length; proverbIdx++) {
       const proverb = gameState.puzzleData.proverbs[proverbIdx];
-      const wordCount = proverb.solution.split(/\s+/).length;
+      const wordCount = countWordsInSolution(proverb.solution);
       
       for (let pos = 0; pos < wordCount; pos++) {
         const wordAtPosition = gameState.allWords.find(
@@ -747,7 +1046,7 @@ export const useMultiProverbGameState = (puzzleData: PuzzleData | null) => {
     // If no empty slot found after current position, try from the beginning
     for (let proverbIdx = 0; proverbIdx <= currentProverbIndex; proverbIdx++) {
       const proverb = gameState.puzzleData.proverbs[proverbIdx];
-      const wordCount = proverb.solution.split(/\s+/).length;
+      const wordCount = countWordsInSolution(proverb.solution);
       const maxPos = proverbIdx === currentProverbIndex ? currentPosition : wordCount;
       
       for (let pos = 0; pos < maxPos; pos++) {
@@ -786,6 +1085,10 @@ export const useMultiProverbGameState = (puzzleData: PuzzleData | null) => {
     validateProverb: handleValidateProverb,
     reset: handleReset,
     useHint: handleUseHint,
+    undo: handleUndo,
+    redo: handleRedo,
+    canUndo,
+    canRedo,
     // Selection management functions
     selectWord: handleSelectWord,
     selectPlaceholder: handleSelectPlaceholder,
@@ -3,6 +3,10 @@ import ReactDOM from 'react-dom/client';
 import './index.css';
 import App from './App';
 import reportWebVitals from './reportWebVitals';
+import { initTheme } from './utils/theme';
+
+// Apply the theme before the first render so the page never flashes the wrong colors
+initTheme();
 
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
@@ -0,0 +1,23 @@
+/**
+ * Collection Page - Solved proverbs grouped by culture
+ */
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { ProverbCollection } from '../components';
+import { getCurrentLanguagePreference, getTranslations, isRTLLanguage } from '../utils';
+
+export const CollectionPage: React.FC = () => {
+  const language = getCurrentLanguagePreference();
+  const t = getTranslations(language);
+  const isRTL = isRTLLanguage(language);
+
+  return (
+    <>
+      <nav className="builder-nav" dir={isRTL ? 'rtl' : 'ltr'}>
+        <Link to="/">{t.backToGame}</Link>
+      </nav>
+      <ProverbCollection language={language} isRTL={isRTL} translations={t} />
+    </>
+  );
+};
@@ -4,6 +4,8 @@
  * Supports URL parameters:
  * - puzzle: encoded puzzle data for custom puzzles
  * - lang/language: preferred language (en/he)
+ * - seed: reproduce an exact board (proverb pick, anchors and word pool order)
+ * - difficulty: relaxed/classic/challenging (anchors, attempts and hints)
  * 
  * Language preference is saved to localStorage and persists across sessions.
  * URL is updated when language changes to allow sharing language-specific links.
@@ -12,31 +14,100 @@
  * - /?lang=en (English puzzles)
  * - /?lang=he (Hebrew puzzles)
  * - /?language=en (alternative parameter name)
+ *
+ * Daily mode (mode="daily"):
+ * - /#/daily (today's puzzle of the day)
+ * - /#/daily/2026-10-19 (replay a past day)
+ * Everyone gets the same proverbs, anchors and word order for a given date and language.
+ *
+ * Practice mode (mode="practice"):
+ * - /#/practice (proverbs missed in earlier games that are due for review, see utils/practiceQueue)
  */
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate, useParams } from 'react-router-dom';
 import { useMultiProverbGameState } from '../hooks/useMultiProverbGameState';
 import { MultiProverbPuzzleV2 } from '../components/MultiProverbPuzzleV2';
-import { Modal, CulturalContext, OnboardingModal, GameOverModal, GameStatistics } from '../components';
+import {
+  Modal,
+  CulturalContext,
+  OnboardingModal,
+  GameOverModal,
+  GameStatistics,
+  GameTimer,
+  PlayerStatisticsModal,
+  SettingsModal,
+  ShareResultButton,
+} from '../components';
 import { LanguageSelector } from '../components/LanguageSelector';
+import { PuzzleSizeSelector } from '../components/PuzzleSizeSelector';
+import { DifficultySelector } from '../components/DifficultySelector';
 import { PuzzleData, LanguageCode } from '../types';
-import { getTranslations, getCurrentLanguagePreference } from '../utils';
-import { decodePuzzle, validatePuzzle } from '../utils/puzzleLoader';
+import {
+  getTranslations,
+  getCurrentLanguagePreference,
+  hasMorePuzzles,
+  isRTLLanguage,
+  isSupportedLanguage,
+} from '../utils';
+import { decodeValidPuzzle, getSeedFromURL, PuzzleDecodeError } from '../utils/puzzleLoader';
+import { createSeededRandom } from '../utils/random';
+import {
+  getPuzzleSizePreference,
+  PUZZLE_SIZE_PRESETS,
+  PuzzleSize,
+  savePuzzleSizePreference,
+} from '../utils/puzzleSize';
+import {
+  DIFFICULTY_LEVELS,
+  DifficultyLevel,
+  getDifficultyPreference,
+  saveDifficultyPreference,
+} from '../utils/difficulty';
+import { loadActivePuzzle, saveActivePuzzle } from '../utils/gameStatePersistence';
+import { loadSeenProverbs, saveSeenProverbs } from '../utils/proverbRotation';
+import { isPerfectGame, recordGameResult } from '../utils/playerStatistics';
+import { addToCollection } from '../utils/proverbCollection';
+import { getDueProverbs, recordMissedProverbs, recordPracticeResults } from '../utils/practiceQueue';
+import { getElapsedMs } from '../utils/gameTimer';
+import { buildShareLink, buildShareText } from '../utils/shareResult';
+import {
+  getDailyDateKey,
+  getDailySeed,
+  isDailyDateAvailable,
+  isValidDailyDateKey,
+} from '../utils/dailyPuzzle';
 
+interface GamePageProps {
+  /**
+   * 'random' serves CSV/custom puzzles, 'daily' serves the date-seeded puzzle of the day,
+   * 'practice' builds puzzles around missed proverbs due for review
+   */
+  mode?: 'random' | 'daily' | 'practice';
+}
 
-
-
-export const GamePage: React.FC = () => {
+export const GamePage: React.FC<GamePageProps> = ({ mode = 'random' }) => {
+  const { date: dailyDateParam } = useParams<{ date?: string }>();
+  const isDaily = mode === 'daily';
+  const isPractice = mode === 'practice';
+  const navigate = useNavigate();
+  const dailyDateKey = isDaily ? dailyDateParam || getDailyDateKey() : null;
   const [puzzleData, setPuzzleData] = useState<PuzzleData | null>(null);
+  const [puzzleSeed, setPuzzleSeed] = useState<string | undefined>(undefined);
   const [puzzleError, setPuzzleError] = useState<string | null>(null);
   const [isCustomPuzzle, setIsCustomPuzzle] = useState(false);
   const [currentLanguage, setCurrentLanguage] = useState<LanguageCode>(getCurrentLanguagePreference);
-  const [hasMorePuzzlesAvailable] = useState(true);
+  const [puzzleSize, setPuzzleSize] = useState<PuzzleSize>(getPuzzleSizePreference);
+  const [difficulty, setDifficulty] = useState<DifficultyLevel>(getDifficultyPreference);
+  const difficultySettings = DIFFICULTY_LEVELS[difficulty];
   const [isLoading, setIsLoading] = useState(false);
+  // Practice mode with no proverb due for review
+  const [isPracticeEmpty, setIsPracticeEmpty] = useState(false);
 
   // Load puzzle from URL parameter or generate from CSV
-  const loadPuzzle = async (language?: LanguageCode) => {
+  // resume: reuse the generated puzzle left unfinished in this language (after a refresh)
+  // size: number of proverbs for generated puzzles (the daily puzzle is always standard)
+  const loadPuzzle = async (language?: LanguageCode, resume = false, size = puzzleSize) => {
     // Prevent multiple simultaneous loads
     if (isLoading) return;
     
@@ -44,45 +115,128 @@ export const GamePage: React.FC = () => {
     setPuzzleError(null);
     
     try {
+      // Load puzzle based on selected language
+      const targetLanguage = language || currentLanguage;
+
+      if (dailyDateKey) {
+        const dailyTranslations = getTranslations(targetLanguage);
+        if (!isValidDailyDateKey(dailyDateKey)) {
+          setPuzzleError(dailyTranslations.errorInvalidDailyDate);
+          return;
+        }
+        if (!isDailyDateAvailable(dailyDateKey)) {
+          setPuzzleError(dailyTranslations.errorFutureDailyDate);
+          return;
+        }
+
+        // Same date + language => same seed => same proverbs, anchors and pool order
+        const seed = getDailySeed(dailyDateKey, targetLanguage);
+        try {
+          const { generateRandomPuzzleFromCSV } = await import('../utils/csvPuzzleLoader');
+          const { puzzle } = await generateRandomPuzzleFromCSV(
+            targetLanguage,
+            [],
+            createSeededRandom(seed)
+          );
+          setPuzzleSeed(seed);
+          setPuzzleData(puzzle);
+          setIsCustomPuzzle(false);
+          setCurrentLanguage(targetLanguage);
+        } catch (dailyError) {
+          // eslint-disable-next-line no-console
+          console.error('Daily puzzle loading failed:', dailyError);
+          setPuzzleError('Failed to load puzzle');
+        }
+        return;
+      }
+
+      if (isPractice) {
+        // Due proverbs first, topped up with other proverbs to the chosen size
+        const dueProverbs = getDueProverbs(targetLanguage);
+        setCurrentLanguage(targetLanguage);
+        if (dueProverbs.length === 0) {
+          setPuzzleData(null);
+          setIsPracticeEmpty(true);
+          return;
+        }
+        try {
+          const { generatePracticePuzzleFromCSV } = await import('../utils/csvPuzzleLoader');
+          const puzzle = await generatePracticePuzzleFromCSV(
+            targetLanguage,
+            dueProverbs,
+            Math.random,
+            PUZZLE_SIZE_PRESETS[size].proverbCount,
+            difficulty
+          );
+          setPuzzleSeed(undefined);
+          setPuzzleData(puzzle);
+          setIsCustomPuzzle(false);
+          setIsPracticeEmpty(false);
+        } catch (practiceError) {
+          // eslint-disable-next-line no-console
+          console.error('Practice puzzle loading failed:', practiceError);
+          setPuzzleError('Failed to load puzzle');
+        }
+        return;
+      }
+
       const params = new URLSearchParams(window.location.search);
       const encodedPuzzle = params.get('puzzle');
+      const urlSeed = getSeedFromURL() ?? undefined;
 
       if (encodedPuzzle) {
-        // Custom puzzle from URL
+        // Custom puzzle from URL - a broken link is reported, never swapped for another puzzle
         try {
-          const decoded = decodePuzzle(encodedPuzzle);
-          const validation = validatePuzzle(decoded);
-
-          if (validation.isValid) {
-            setPuzzleData(decoded as PuzzleData);
-            setIsCustomPuzzle(true);
-            setCurrentLanguage(decoded.language as LanguageCode);
-            return;
-          } else {
-            // eslint-disable-next-line no-console
-            console.error('Invalid puzzle data:', validation.error);
-          }
+          const decoded = decodeValidPuzzle(encodedPuzzle);
+          setPuzzleSeed(urlSeed);
+          setPuzzleData(decoded);
+          setIsCustomPuzzle(true);
+          setCurrentLanguage(decoded.language);
         } catch (error) {
           // eslint-disable-next-line no-console
           console.error('Failed to decode puzzle:', error);
+          const reason = error instanceof PuzzleDecodeError ? error.reason : 'malformed';
+          setPuzzleError(getTranslations(targetLanguage).puzzleLinkErrors[reason]);
         }
+        return;
+      }
+
+      // Resume an unfinished generated puzzle instead of replacing it
+      const activePuzzle =
+        resume && urlSeed === undefined ? loadActivePuzzle(targetLanguage) : null;
+      if (activePuzzle) {
+        setPuzzleSeed(activePuzzle.seed);
+        setPuzzleData(activePuzzle.puzzle);
+        setIsCustomPuzzle(false);
+        setCurrentLanguage(targetLanguage);
+        return;
       }
 
-      // Load puzzle based on selected language
-      const targetLanguage = language || currentLanguage;
-      
       try {
         // eslint-disable-next-line no-console
         console.log(`Attempting to load ${targetLanguage} puzzle...`);
         const { generateRandomPuzzleFromCSV } = await import('../utils/csvPuzzleLoader');
         // eslint-disable-next-line no-console
         console.log('CSV puzzle loader imported successfully');
-        const { puzzle } = await generateRandomPuzzleFromCSV(targetLanguage);
+        // Serve proverbs not seen yet in this language, unless a seed pins the pick
+        const seenProverbs = urlSeed === undefined ? loadSeenProverbs(targetLanguage) : null;
+        const { puzzle, usedIndices, totalCount } = await generateRandomPuzzleFromCSV(
+          targetLanguage,
+          seenProverbs ? seenProverbs.indices : [],
+          urlSeed !== undefined ? createSeededRandom(`${urlSeed}:proverbs`) : Math.random,
+          PUZZLE_SIZE_PRESETS[size].proverbCount,
+          difficulty
+        );
         // eslint-disable-next-line no-console
         console.log(`${targetLanguage} puzzle loaded:`, puzzle);
+        if (seenProverbs) {
+          saveSeenProverbs(targetLanguage, { indices: usedIndices, total: totalCount });
+        }
+        setPuzzleSeed(urlSeed);
         setPuzzleData(puzzle);
         setIsCustomPuzzle(false);
         setCurrentLanguage(targetLanguage);
+        saveActivePuzzle(puzzle, urlSeed);
         // eslint-disable-next-line no-console
         console.log('Puzzle data set successfully');
       } catch (csvError) {
@@ -93,6 +247,7 @@ export const GamePage: React.FC = () => {
         try {
           const { loadRandomHebrewPuzzle } = await import('../utils/randomPuzzleLoader');
           const fallbackPuzzle = await loadRandomHebrewPuzzle();
+          setPuzzleSeed(undefined);
           setPuzzleData(fallbackPuzzle);
           setIsCustomPuzzle(false);
           setCurrentLanguage('he');
@@ -114,7 +269,7 @@ export const GamePage: React.FC = () => {
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
     const urlLanguage = params.get('lang') || params.get('language');
-    if (urlLanguage === 'en' || urlLanguage === 'he') {
+    if (isSupportedLanguage(urlLanguage)) {
       localStorage.setItem('preferredLanguage', urlLanguage);
     }
   }, []);
@@ -124,11 +279,28 @@ export const GamePage: React.FC = () => {
       initialLoadRef.current = true;
       // eslint-disable-next-line no-console
       console.log('Initial puzzle load triggered with language:', currentLanguage);
-      loadPuzzle(currentLanguage);
+      loadPuzzle(currentLanguage, true);
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Reload when navigating between daily puzzle dates (e.g. /daily -> /daily/2026-10-18)
+  const loadedDailyDateRef = useRef(dailyDateKey);
+  useEffect(() => {
+    if (loadedDailyDateRef.current !== dailyDateKey) {
+      loadedDailyDateRef.current = dailyDateKey;
+      loadPuzzle(currentLanguage);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [dailyDateKey]);
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isOnboardingOpen, setIsOnboardingOpen] = useState(false);
+  const [isHelpMode, setIsHelpMode] = useState(false);
+  const [isGameOverModalOpen, setIsGameOverModalOpen] = useState(false);
+  const [isStatisticsOpen, setIsStatisticsOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
   const {
     gameState,
     availableWords,
@@ -138,20 +310,43 @@ export const GamePage: React.FC = () => {
     validateProverb,
     reset,
     useHint,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
     selectWord,
     selectPlaceholder,
     clearSelection,
     findNextEmptySlot,
     updateAutoFocus,
-  } = useMultiProverbGameState(puzzleData);
+  } = useMultiProverbGameState(puzzleData, {
+    seed: puzzleSeed,
+    persist: true,
+    difficulty: difficultySettings,
+    // Time spent reading a modal doesn't count towards the solve time
+    paused:
+      isModalOpen || isOnboardingOpen || isGameOverModalOpen || isStatisticsOpen || isSettingsOpen,
+  });
 
-  const [isModalOpen, setIsModalOpen] = useState(false);
-  const [isOnboardingOpen, setIsOnboardingOpen] = useState(false);
-  const [isHelpMode, setIsHelpMode] = useState(false);
-  const [isGameOverModalOpen, setIsGameOverModalOpen] = useState(false);
+  const solveTimeSeconds = gameState.timer.hasStarted
+    ? Math.round(getElapsedMs(gameState.timer) / 1000)
+    : undefined;
 
-  const isRTL = (puzzleData?.language || currentLanguage) === 'he';
-  const t = useMemo(() => getTranslations((puzzleData?.language || currentLanguage) as 'en' | 'he'), [puzzleData?.language, currentLanguage]);
+
+  const isRTL = isRTLLanguage(puzzleData?.language || currentLanguage);
+  const t = useMemo(() => getTranslations(puzzleData?.language || currentLanguage), [puzzleData?.language, currentLanguage]);
+
+  // Progress through the bundled proverbs, re-read when the completion modal opens
+  const isGeneratedPuzzle = !isCustomPuzzle && !isDaily;
+  const discovery = useMemo(
+    () =>
+      isModalOpen && isGeneratedPuzzle && !isPractice ? loadSeenProverbs(currentLanguage) : null,
+    [isModalOpen, isGeneratedPuzzle, isPractice, currentLanguage]
+  );
+  const hasMorePuzzlesAvailable =
+    !discovery ||
+    discovery.total === 0 ||
+    hasMorePuzzles(discovery.indices, discovery.total, puzzleData?.proverbs.length);
 
   // Handle language change (only for CSV puzzles)
   const handleLanguageChange = (newLanguage: LanguageCode) => {
@@ -165,13 +360,44 @@ export const GamePage: React.FC = () => {
       window.history.replaceState({}, '', url.toString());
       
       setCurrentLanguage(newLanguage);
-      loadPuzzle(newLanguage);
+      loadPuzzle(newLanguage, true);
+    }
+  };
+
+  const handlePuzzleSizeChange = (newSize: PuzzleSize) => {
+    if (!isCustomPuzzle && !isDaily) {
+      savePuzzleSizePreference(newSize);
+      setPuzzleSize(newSize);
+      clearSeedFromURL();
+      loadPuzzle(currentLanguage, false, newSize);
     }
   };
 
-  // Handle next puzzle (only for CSV puzzles)
+  // A new difficulty restarts the current puzzle with its anchors, attempts and hints
+  const handleDifficultyChange = (newDifficulty: DifficultyLevel) => {
+    saveDifficultyPreference(newDifficulty);
+
+    // Keep the URL in step so a refresh or a copied link keeps the choice
+    const url = new URL(window.location.href);
+    url.searchParams.set('difficulty', newDifficulty);
+    window.history.replaceState({}, '', url.toString());
+
+    setDifficulty(newDifficulty);
+  };
+
+  // A seeded URL reproduces one board - drop the seed so the next puzzle is fresh
+  const clearSeedFromURL = () => {
+    const url = new URL(window.location.href);
+    if (url.searchParams.has('seed')) {
+      url.searchParams.delete('seed');
+      window.history.replaceState({}, '', url.toString());
+    }
+  };
+
+  // Handle next puzzle (only for CSV puzzles - there is one daily puzzle per day)
   const handleNextPuzzle = () => {
-    if (!isCustomPuzzle) {
+    if (!isCustomPuzzle && !isDaily) {
+      clearSeedFromURL();
       loadPuzzle(currentLanguage);
     }
   };
@@ -185,10 +411,11 @@ export const GamePage: React.FC = () => {
   // Handle new puzzle from game over modal
   const handleNewPuzzleFromGameOver = () => {
     setIsGameOverModalOpen(false);
-    if (!isCustomPuzzle) {
+    if (!isCustomPuzzle && !isDaily) {
+      clearSeedFromURL();
       loadPuzzle(currentLanguage);
     } else {
-      // For custom puzzles, just reset
+      // For custom and daily puzzles, just reset
       reset();
     }
   };
@@ -217,6 +444,86 @@ export const GamePage: React.FC = () => {
     }
   }, [gameState.hasFailedGame]);
 
+  // Record each finished game once in the lifetime statistics
+  const recordedGameRef = useRef(false);
+  useEffect(() => {
+    const isFinished = gameState.isCompleted || gameState.hasFailedGame;
+    if (!isFinished) {
+      // A new puzzle or a retry starts a new game
+      recordedGameRef.current = false;
+      return;
+    }
+    if (recordedGameRef.current || !gameState.puzzleData) {
+      return;
+    }
+    recordedGameRef.current = true;
+
+    const { language, proverbs } = gameState.puzzleData;
+    const isSolved = (index: number) => !!gameState.proverbValidation[index]?.isSolved;
+    if (isPractice) {
+      // A practice game reschedules its reviewed proverbs instead of counting as a game
+      recordPracticeResults(
+        language,
+        proverbs.map((proverb, index) => ({ proverb, solved: isSolved(index) }))
+      );
+      return;
+    }
+    if (gameState.hasFailedGame) {
+      recordMissedProverbs(language, proverbs.filter((_, index) => !isSolved(index)));
+    }
+
+    recordGameResult(language, {
+      won: gameState.isCompleted,
+      difficulty,
+      hintsUsed: gameState.totalHintsUsed,
+      // Single-proverb checks count too - a game may be solved without the global Validate
+      validationAttempts: gameState.totalValidationAttempts,
+      perfectScore: isPerfectGame(gameState),
+      timeToComplete: solveTimeSeconds,
+    });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [gameState.isCompleted, gameState.hasFailedGame]);
+
+  // Keep every solved proverb in the collection - already collected ones are skipped
+  useEffect(() => {
+    if (!gameState.puzzleData) {
+      return;
+    }
+    const solvedProverbs = gameState.puzzleData.proverbs.filter(
+      (_, index) => gameState.proverbValidation[index]?.isSolved
+    );
+    if (solvedProverbs.length > 0) {
+      addToCollection(gameState.puzzleData.language, solvedProverbs);
+    }
+  }, [gameState.puzzleData, gameState.proverbValidation]);
+
+  // Emoji summary of the finished game - built on demand so it reflects the final state
+  const getShareText = () => {
+    if (!gameState.puzzleData) {
+      return '';
+    }
+    const link = buildShareLink({
+      puzzleData: gameState.puzzleData,
+      seed: puzzleSeed,
+      dailyDateKey,
+      difficulty,
+    });
+    return buildShareText(
+      {
+        puzzleData: gameState.puzzleData,
+        proverbValidation: gameState.proverbValidation,
+        usedHints: gameState.usedHints,
+        wordHintsUsed: gameState.wordHintsUsed,
+        totalHintsUsed: gameState.totalHintsUsed,
+        totalValidationAttempts: gameState.totalValidationAttempts,
+        timeToComplete: solveTimeSeconds,
+      },
+      t,
+      link,
+      dailyDateKey ? t.dailyPuzzleDate(dailyDateKey) : undefined
+    );
+  };
+
   if (puzzleError || (gameState.error && !isLoading && puzzleData === null)) {
     return (
       <div className="error-container" dir={isRTL ? 'rtl' : 'ltr'}>
@@ -224,9 +531,20 @@ export const GamePage: React.FC = () => {
         <p>{puzzleError || gameState.error}</p>
         <p>{t.errorMessage}</p>
         <p>
-          {isRTL ? 'או ' : 'Or '}
+          {t.orCreatePrefix}
           <Link to="/builder">{t.orCreate}</Link>
-          {isRTL ? '' : '!'}
+          {t.orCreateSuffix}
+        </p>
+      </div>
+    );
+  }
+
+  if (isPracticeEmpty) {
+    return (
+      <div className="loading-container" dir={isRTL ? 'rtl' : 'ltr'}>
+        <p>{t.practiceEmpty}</p>
+        <p>
+          <Link to="/">{t.backToGame}</Link>
         </p>
       </div>
     );
@@ -253,6 +571,54 @@ export const GamePage: React.FC = () => {
             gap: '8px',
             alignItems: 'center'
           }}>
+            {!isDaily && (
+              <Link
+                to="/daily"
+                style={{
+                  color: 'inherit',
+                  padding: '8px',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                }}
+                aria-label={t.dailyPuzzle}
+                title={t.dailyPuzzle}
+              >
+                <svg
+                  width="24"
+                  height="24"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <rect x="3" y="4" width="18" height="18" rx="2" />
+                  <path d="M16 2v4" />
+                  <path d="M8 2v4" />
+                  <path d="M3 10h18" />
+                </svg>
+              </Link>
+            )}
+
+            {/* Size selector - only for generated puzzles, the daily puzzle has one size */}
+            {!isCustomPuzzle && !isDaily && (
+              <PuzzleSizeSelector
+                currentSize={puzzleSize}
+                onSizeChange={handlePuzzleSizeChange}
+                translations={t}
+                isRTL={isRTL}
+              />
+            )}
+
+            <DifficultySelector
+              currentDifficulty={difficulty}
+              onDifficultyChange={handleDifficultyChange}
+              translations={t}
+              isRTL={isRTL}
+            />
+
             {/* Language selector - only show for CSV puzzles */}
             {!isCustomPuzzle && (
               <LanguageSelector
@@ -262,6 +628,92 @@ export const GamePage: React.FC = () => {
               />
             )}
             
+            <Link
+              to="/collection"
+              style={{
+                color: 'inherit',
+                padding: '8px',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+              }}
+              aria-label={t.collection}
+              title={t.collection}
+            >
+              <svg
+                width="24"
+                height="24"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <path d="M4 19.5A2.5 2.5 0 0 1 6.5 17H20" />
+                <path d="M6.5 2H20v20H6.5A2.5 2.5 0 0 1 4 19.5v-15A2.5 2.5 0 0 1 6.5 2z" />
+              </svg>
+            </Link>
+
+            <button
+              onClick={() => setIsStatisticsOpen(true)}
+              style={{
+                background: 'transparent',
+                border: 'none',
+                cursor: 'pointer',
+                padding: '8px',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+              }}
+              aria-label={t.statistics}
+              title={t.statistics}
+            >
+              <svg
+                width="24"
+                height="24"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <path d="M18 20V10" />
+                <path d="M12 20V4" />
+                <path d="M6 20v-6" />
+              </svg>
+            </button>
+
+            <button
+              onClick={() => setIsSettingsOpen(true)}
+              style={{
+                background: 'transparent',
+                border: 'none',
+                cursor: 'pointer',
+                padding: '8px',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+              }}
+              aria-label={t.settings}
+              title={t.settings}
+            >
+              <svg
+                width="24"
+                height="24"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <circle cx="12" cy="12" r="3" />
+                <path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 1 1-2.83 2.83l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 1 1-4 0v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 1 1-2.83-2.83l.06-.06a1.65 1.65 0 0 0 .33-1.82 1.65 1.65 0 0 0-1.51-1H3a2 2 0 1 1 0-4h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 1 1 2.83-2.83l.06.06a1.65 1.65 0 0 0 1.82.33H9a1.65 1.65 0 0 0 1-1.51V3a2 2 0 1 1 4 0v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 1 1 2.83 2.83l-.06.06a1.65 1.65 0 0 0-.33 1.82V9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 1 1 0 4h-.09a1.65 1.65 0 0 0-1.51 1z" />
+              </svg>
+            </button>
+
             <button
               onClick={() => {
                 setIsHelpMode(true); // This is help mode, not initial onboarding
@@ -298,8 +750,13 @@ export const GamePage: React.FC = () => {
         </div>
         <h1>{t.appName}</h1>
         <p className="subtitle">
-          {t.subtitle(puzzleData.proverbs.length)}
+          {dailyDateKey
+            ? t.dailyPuzzleDate(dailyDateKey)
+            : isPractice
+              ? t.practiceMode
+              : t.subtitle(puzzleData.proverbs.length)}
         </p>
+        <GameTimer timer={gameState.timer} label={t.time} />
       </header>
 
       <main dir={isRTL ? 'rtl' : 'ltr'}>
@@ -319,6 +776,10 @@ export const GamePage: React.FC = () => {
           onValidate={validate}
           onValidateProverb={validateProverb}
           onReset={reset}
+          onUndo={undo}
+          onRedo={redo}
+          canUndo={canUndo}
+          canRedo={canRedo}
           onRevealMeaning={useHint}
           onSelectWord={selectWord}
           onSelectPlaceholder={selectPlaceholder}
@@ -327,6 +788,8 @@ export const GamePage: React.FC = () => {
           findNextEmptySlot={findNextEmptySlot}
           isRTL={isRTL}
           translations={t}
+          seed={puzzleSeed}
+          difficulty={difficultySettings}
         />
       </main>
 
@@ -346,43 +809,25 @@ export const GamePage: React.FC = () => {
         title={t.congratulations}
         isRTL={isRTL}
         footer={
-          !isCustomPuzzle && hasMorePuzzlesAvailable ? (
-            <div style={{ 
-              display: 'flex', 
-              gap: '12px', 
-              justifyContent: 'center'
-            }}>
+          <div style={{ 
+            display: 'flex', 
+            gap: '12px', 
+            justifyContent: 'center',
+            flexWrap: 'wrap'
+          }}>
+            <ShareResultButton getShareText={getShareText} translations={t} />
+            {isGeneratedPuzzle && (
               <button
                 onClick={() => {
                   setIsModalOpen(false);
                   handleNextPuzzle();
                 }}
-                style={{
-                  padding: '14px 32px',
-                  fontSize: '14px',
-                  fontWeight: '700',
-                  border: '1px solid #121213',
-                  backgroundColor: '#121213',
-                  color: '#ffffff',
-                  borderRadius: '4px',
-                  cursor: 'pointer',
-                  transition: 'all 200ms ease',
-                  textTransform: 'uppercase',
-                  letterSpacing: '0.5px'
-                }}
-                onMouseEnter={(e) => {
-                  e.currentTarget.style.backgroundColor = '#787c7e';
-                  e.currentTarget.style.borderColor = '#787c7e';
-                }}
-                onMouseLeave={(e) => {
-                  e.currentTarget.style.backgroundColor = '#121213';
-                  e.currentTarget.style.borderColor = '#121213';
-                }}
+                className="next-puzzle-button"
               >
                 {t.nextPuzzle}
               </button>
-            </div>
-          ) : undefined
+            )}
+          </div>
         }
       >
         <div>
@@ -390,9 +835,19 @@ export const GamePage: React.FC = () => {
             hintsUsed={gameState.totalHintsUsed}
             validationAttempts={gameState.validationAttempts}
             totalValidationAttempts={gameState.totalValidationAttempts}
+            maxValidationAttempts={difficultySettings.validationAttempts}
+            timeToComplete={solveTimeSeconds}
             isRTL={isRTL}
             translations={t}
           />
+
+          {discovery && discovery.total > 0 && (
+            <p style={{ textAlign: 'center', fontSize: '14px', margin: '16px 0' }}>
+              {hasMorePuzzlesAvailable
+                ? t.proverbsDiscovered(discovery.indices.length, discovery.total)
+                : t.allProverbsDiscovered}
+            </p>
+          )}
           
           {puzzleData.proverbs.map((proverb, index) => (
             <CulturalContext
@@ -405,12 +860,29 @@ export const GamePage: React.FC = () => {
         </div>
       </Modal>
 
+      <PlayerStatisticsModal
+        isOpen={isStatisticsOpen}
+        onClose={() => setIsStatisticsOpen(false)}
+        language={puzzleData.language}
+        isRTL={isRTL}
+        translations={t}
+      />
+
+      <SettingsModal
+        isOpen={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+        isRTL={isRTL}
+        translations={t}
+      />
+
       <GameOverModal
         isOpen={isGameOverModalOpen}
         onClose={() => setIsGameOverModalOpen(false)}
         puzzleData={puzzleData}
         onRetry={handleRetry}
         onNewPuzzle={handleNewPuzzleFromGameOver}
+        onPractice={isPractice ? undefined : () => navigate('/practice')}
+        getShareText={getShareText}
         isRTL={isRTL}
         translations={t}
       />
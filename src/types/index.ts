@@ -6,6 +6,7 @@ export type {
   LanguageCode,
   Proverb,
   PuzzleData,
+  PuzzleDecodeErrorReason,
   WordPosition,
   ProverbState,
   GameState,
@@ -13,5 +14,9 @@ export type {
   ProverbValidation,
   GameStatistics,
   MultiProverbGameState,
+  MoveHistory,
+  MoveMode,
+  SelectionState,
+  TimerState,
   DragData,
 } from './puzzle';
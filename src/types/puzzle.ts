@@ -1,9 +1,9 @@
 /**
  * Type definitions for Proverb Pile puzzle data structures
- * Based on puzzle_schema.json
+ * Based on puzzle_schema.json (next to this file), enforced by utils/puzzleValidator.ts
  */
 
-export type LanguageCode = 'en' | 'he';
+export type LanguageCode = 'en' | 'he' | 'ar' | 'es' | 'fr' | 'ru' | 'yi';
 
 export interface Proverb {
   /**
@@ -29,10 +29,25 @@ export interface PuzzleData {
   version: string;
   /** Puzzle language code */
   language: LanguageCode;
-  /** Array of proverbs (3-4 per puzzle) */
+  /** Array of proverbs (2-6 per puzzle, see utils/puzzleSize) */
   proverbs: Proverb[];
 }
 
+/**
+ * Why an encoded puzzle link could not be loaded
+ * - truncated: the link was cut short (e.g. by a messaging app)
+ * - bad-checksum: the link was altered after it was generated
+ * - unsupported-version: the link was made by a newer version of the game
+ * - schema-violation: the link decoded, but is not a playable puzzle
+ * - malformed: the link is not a puzzle encoding at all
+ */
+export type PuzzleDecodeErrorReason =
+  | 'truncated'
+  | 'bad-checksum'
+  | 'unsupported-version'
+  | 'schema-violation'
+  | 'malformed';
+
 /**
  * Represents a word's position in the game
  */
@@ -117,9 +132,9 @@ export interface GameStatistics {
   hintsUsed: number;
   /** Number of validation attempts used */
   validationAttempts: number;
-  /** Whether player achieved perfect score (no hints, first attempt) */
+  /** Whether player achieved perfect score (no hints, no failed check) */
   perfectScore: boolean;
-  /** Time to complete in seconds (future enhancement) */
+  /** Time to complete in seconds (time spent paused is not counted) */
   timeToComplete?: number;
 }
 
@@ -151,12 +166,20 @@ export interface MultiProverbGameState {
   validationAttempts: number;
   /** Whether the game has failed (all attempts exhausted) */
   hasFailedGame: boolean;
-  /** Total validation attempts used for statistics */
+  /** Total checks made for statistics - whole-board validations and single-proverb checks */
   totalValidationAttempts: number;
+  /** Checks that found a wrong word - any one spoils a perfect score */
+  failedValidations: number;
   
   // Enhanced word placement UX
   /** Selection state for bidirectional word placement */
   selectionState: SelectionState;
+
+  /** Undo/redo stacks for word moves, removals and hint placements */
+  history: MoveHistory;
+
+  /** Solve timer - starts on the first move, stops when the game ends */
+  timer: TimerState;
   
   /** @deprecated Use usedHints instead */
   hintsRemaining?: number;
@@ -164,6 +187,40 @@ export interface MultiProverbGameState {
   revealedMeanings?: Set<number>;
 }
 
+/**
+ * What happens to the words in the way of a moved word
+ * - swap: the word in the target slot trades places with the moved word, or
+ *   goes back to the pool if the moved word came from there
+ * - shift: the words between the two slots of a proverb move along by one,
+ *   like reordering a list, until a gap takes them in; locked anchors keep
+ *   their slots and the others flow around them
+ */
+export type MoveMode = 'swap' | 'shift';
+
+/**
+ * Undo/redo history of word placements
+ * Only placements are recorded - hint usage and validation attempts are never refunded
+ */
+export interface MoveHistory {
+  /** Word snapshots taken before each recorded action (most recent last) */
+  past: GlobalWord[][];
+  /** Word snapshots that were undone and can be redone (most recent last) */
+  future: GlobalWord[][];
+}
+
+/**
+ * Solve timer state
+ * Running time is folded into elapsedMs whenever the timer pauses or stops
+ */
+export interface TimerState {
+  /** Time accumulated before the current running segment (ms) */
+  elapsedMs: number;
+  /** When the current running segment began, or null while paused or stopped */
+  runningSince: number | null;
+  /** Whether the player has made their first move */
+  hasStarted: boolean;
+}
+
 /**
  * Selection state for enhanced word placement UX
  */
@@ -0,0 +1,74 @@
+/**
+ * Tests for ambiguity analysis
+ */
+
+import { analyzeAmbiguity, fitsProverb } from './ambiguity';
+
+describe('analyzeAmbiguity', () => {
+  it('reports a puzzle without shared words as unambiguous', () => {
+    const report = analyzeAmbiguity([
+      { solution: 'Time is money' },
+      { solution: 'Still waters run deep' },
+    ]);
+
+    expect(report.groups).toEqual([]);
+  });
+
+  it('groups tiles that show the same word in different proverbs', () => {
+    const report = analyzeAmbiguity([
+      { solution: 'The cat sleeps' },
+      { solution: 'Wake the dog' },
+    ]);
+
+    expect(report.groups).toEqual([{ text: 'the', wordIds: ['0-0', '1-1'], proverbIndices: [0, 1] }]);
+  });
+
+  it('compares words the way validation does', () => {
+    const report = analyzeAmbiguity([
+      { solution: 'Money talks, loudly' },
+      { solution: 'Time is money.' },
+    ]);
+
+    expect(report.groups.map(group => group.text)).toEqual(['money']);
+  });
+
+  it('ignores words repeated within a single proverb', () => {
+    const report = analyzeAmbiguity([
+      { solution: 'Easy come, easy go' },
+      { solution: 'Time is money' },
+    ]);
+
+    expect(report.groups).toEqual([]);
+  });
+
+  it('groups repeated and multiple shared words', () => {
+    const report = analyzeAmbiguity([
+      { solution: 'the cat and the hat' },
+      { solution: 'the dog and a log' },
+    ]);
+
+    expect(report.groups).toEqual([
+      { text: 'the', wordIds: ['0-0', '0-3', '1-0'], proverbIndices: [0, 1] },
+      { text: 'and', wordIds: ['0-2', '1-2'], proverbIndices: [0, 1] },
+    ]);
+    expect(report.proverbsByWordId.get('0-3')).toEqual([0, 1]);
+  });
+});
+
+describe('fitsProverb', () => {
+  const report = analyzeAmbiguity([
+    { solution: 'The cat sleeps' },
+    { solution: 'Wake the dog' },
+    { solution: 'Birds fly south' },
+  ]);
+
+  it('accepts tiles from the proverb itself', () => {
+    expect(fitsProverb(report, { id: '0-1', sourceProverbIndex: 0 }, 0)).toBe(true);
+  });
+
+  it('accepts interchangeable tiles from other proverbs', () => {
+    expect(fitsProverb(report, { id: '1-1', sourceProverbIndex: 1 }, 0)).toBe(true);
+    expect(fitsProverb(report, { id: '1-1', sourceProverbIndex: 1 }, 2)).toBe(false);
+    expect(fitsProverb(report, { id: '1-2', sourceProverbIndex: 1 }, 0)).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Ambiguity analysis
+ * A word that appears in more than one proverb produces identical tiles with
+ * different ids (e.g. "the" as 0-2 and 1-4). Such tiles are interchangeable:
+ * either one may fill either slot, so the game treats them as the same word for
+ * hints and validation, and the builder warns authors about them. Statistics
+ * need nothing extra: they are recorded from each proverb's validation result
+ * and hint count, never from tile ids.
+ */
+
+import { Proverb } from '../types';
+import { getSolutionWords, normalizeWord } from './tokenizer';
+
+/**
+ * Tiles that show the same word in different proverbs
+ */
+export interface InterchangeableGroup {
+  /** Normalized form shared by every tile in the group */
+  text: string;
+  /** Tile ids in the GlobalWord format "proverbIndex-wordIndex" */
+  wordIds: string[];
+  /** Proverbs containing the word, ascending and without repeats */
+  proverbIndices: number[];
+}
+
+/**
+ * Result of analyzing a puzzle for interchangeable tiles
+ */
+export interface AmbiguityReport {
+  /** Words found in more than one proverb, in order of first appearance */
+  groups: InterchangeableGroup[];
+  /** Proverbs each interchangeable tile fits in, by tile id */
+  proverbsByWordId: Map<string, number[]>;
+}
+
+/**
+ * Finds the tiles of a puzzle that are interchangeable across proverbs
+ * Words are compared like validation compares them (case, punctuation and niqqud ignored)
+ * @param proverbs - Proverbs of the puzzle, in board order
+ * @returns Interchangeable groups and the proverbs each of their tiles fits in
+ */
+export const analyzeAmbiguity = (proverbs: Array<Pick<Proverb, 'solution'>>): AmbiguityReport => {
+  const byText = new Map<string, InterchangeableGroup>();
+
+  proverbs.forEach((proverb, proverbIndex) => {
+    getSolutionWords(proverb.solution).forEach((word, wordIndex) => {
+      const text = normalizeWord(word);
+      const group = byText.get(text) ?? { text, wordIds: [], proverbIndices: [] };
+      group.wordIds.push(`${proverbIndex}-${wordIndex}`);
+      if (!group.proverbIndices.includes(proverbIndex)) {
+        group.proverbIndices.push(proverbIndex);
+      }
+      byText.set(text, group);
+    });
+  });
+
+  const groups = Array.from(byText.values()).filter(group => group.proverbIndices.length > 1);
+
+  const proverbsByWordId = new Map<string, number[]>();
+  groups.forEach(group => {
+    group.wordIds.forEach(id => proverbsByWordId.set(id, group.proverbIndices));
+  });
+
+  return { groups, proverbsByWordId };
+};
+
+/**
+ * Checks whether a tile has a correct slot in a proverb
+ * @param report - Ambiguity analysis of the puzzle
+ * @param word - Tile id and the proverb it came from
+ * @param proverbIndex - Proverb to check
+ * @returns true if the tile is from the proverb or interchangeable with one of its words
+ */
+export const fitsProverb = (
+  report: AmbiguityReport,
+  word: { id: string; sourceProverbIndex: number },
+  proverbIndex: number
+): boolean =>
+  word.sourceProverbIndex === proverbIndex ||
+  (report.proverbsByWordId.get(word.id)?.includes(proverbIndex) ?? false);
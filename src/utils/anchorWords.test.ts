@@ -0,0 +1,111 @@
+/**
+ * Tests for anchor word heuristics
+ */
+
+import {
+  countWordFrequencies,
+  isGoodAnchorWord,
+  normalizeAnchorWord,
+  scoreAnchorWord,
+  selectAnchorPositions,
+} from './anchorWords';
+import { createSeededRandom } from './random';
+
+describe('normalizeAnchorWord', () => {
+  it('lowercases and trims surrounding punctuation', () => {
+    expect(normalizeAnchorWord('Dog,')).toBe('dog');
+    expect(normalizeAnchorWord('«Hello!»')).toBe('hello');
+  });
+
+  it('drops vowel points and accents', () => {
+    expect(normalizeAnchorWord('דאָס')).toBe('דאס');
+    expect(normalizeAnchorWord('Más')).toBe('mas');
+  });
+});
+
+describe('isGoodAnchorWord', () => {
+  it('rejects English stop words and short words', () => {
+    expect(isGoodAnchorWord('The', 'en')).toBe(false);
+    expect(isGoodAnchorWord('with', 'en')).toBe(false);
+    expect(isGoodAnchorWord('go', 'en')).toBe(false);
+    expect(isGoodAnchorWord('elephants', 'en')).toBe(true);
+  });
+
+  it('rejects Hebrew function words, including ones with prefixes attached', () => {
+    expect(isGoodAnchorWord('אין', 'he')).toBe(false);
+    expect(isGoodAnchorWord('של', 'he')).toBe(false);
+    expect(isGoodAnchorWord('ולא', 'he')).toBe(false);
+    expect(isGoodAnchorWord('שלא', 'he')).toBe(false);
+    expect(isGoodAnchorWord('המסמר', 'he')).toBe(true);
+  });
+
+  it('uses the strategy of the puzzle language', () => {
+    expect(isGoodAnchorWord('pero', 'es')).toBe(false);
+    expect(isGoodAnchorWord('pájaro', 'es')).toBe(true);
+    expect(isGoodAnchorWord("l'on", 'fr')).toBe(false);
+    expect(isGoodAnchorWord("l'oiseau", 'fr')).toBe(true);
+    expect(isGoodAnchorWord('что', 'ru')).toBe(false);
+    expect(isGoodAnchorWord('على', 'ar')).toBe(false);
+    expect(isGoodAnchorWord('וואָס', 'yi')).toBe(false);
+    expect(isGoodAnchorWord('שפּריכוואָרט', 'yi')).toBe(true);
+  });
+});
+
+describe('scoreAnchorWord', () => {
+  it('prefers words that appear once in the pool', () => {
+    const frequencies = countWordFrequencies(['bird', 'hand', 'bird', 'bush']);
+    expect(scoreAnchorWord('hand', frequencies)).toBeGreaterThan(
+      scoreAnchorWord('bird', frequencies)
+    );
+  });
+
+  it('prefers longer words up to a cap', () => {
+    const frequencies = countWordFrequencies(['fox', 'elephant', 'hippopotamus']);
+    expect(scoreAnchorWord('elephant', frequencies)).toBeGreaterThan(
+      scoreAnchorWord('fox', frequencies)
+    );
+    expect(scoreAnchorWord('hippopotamus', frequencies)).toBe(
+      scoreAnchorWord('elephant', frequencies)
+    );
+  });
+});
+
+describe('selectAnchorPositions', () => {
+  const words = 'When elephants fight it is the grass that suffers'.split(' ');
+  const frequencies = countWordFrequencies(words);
+
+  it('only selects good anchor words', () => {
+    for (let i = 0; i < 20; i++) {
+      const positions = selectAnchorPositions(words, 2, 'en', frequencies);
+      expect(positions).toHaveLength(2);
+      positions.forEach(position => {
+        expect(isGoodAnchorWord(words[position], 'en')).toBe(true);
+      });
+    }
+  });
+
+  it('is reproducible with a seeded random source', () => {
+    const first = selectAnchorPositions(words, 2, 'en', frequencies, createSeededRandom('s'));
+    const second = selectAnchorPositions(words, 2, 'en', frequencies, createSeededRandom('s'));
+    expect(first).toEqual(second);
+  });
+
+  it('returns fewer positions when there are not enough candidates', () => {
+    const shortWords = ['It', 'is', 'what', 'it', 'is'];
+    expect(
+      selectAnchorPositions(shortWords, 2, 'en', countWordFrequencies(shortWords))
+    ).toEqual([2]);
+  });
+
+  it('avoids words repeated across the pool', () => {
+    const pool = ['Grass', 'grass', 'grass', 'elephants'];
+    const positions = selectAnchorPositions(
+      ['grass', 'elephants'],
+      1,
+      'en',
+      countWordFrequencies(pool),
+      () => 0.5
+    );
+    expect(positions).toEqual([1]);
+  });
+});
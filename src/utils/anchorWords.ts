@@ -0,0 +1,243 @@
+/**
+ * Anchor word heuristics
+ * Anchors are the words locked in place when a puzzle starts. A good anchor is a
+ * content word (not an article or preposition) that is rare in the puzzle's pool,
+ * so placing it actually tells the player something about the solution.
+ */
+
+import { LanguageCode } from '../types';
+import { DEFAULT_LANGUAGE } from './languages';
+import { RandomSource } from './random';
+import { normalizeWord } from './tokenizer';
+
+/**
+ * Per-language rules for picking anchor words
+ */
+export interface AnchorStrategy {
+  /** Function words that never make useful anchors */
+  stopWords: string[];
+  /**
+   * Clitics attached to the front of a word (e.g. Hebrew ו/ה/ב, French l').
+   * A word that is only prefixes plus a stop word is not an anchor.
+   */
+  prefixes?: string[];
+  /** Minimum number of letters (ignoring vowel points and accents) */
+  minLength: number;
+}
+
+/**
+ * Longest word length that still earns a higher score
+ * Beyond this, a long word is no more distinctive than a medium one
+ */
+const MAX_SCORED_LENGTH = 8;
+
+/**
+ * Anchor rules for every registered language
+ */
+export const ANCHOR_STRATEGIES: Record<LanguageCode, AnchorStrategy> = {
+  en: {
+    stopWords: [
+      'a', 'an', 'the', 'is', 'to', 'of', 'in', 'on', 'at', 'it',
+      'and', 'or', 'but', 'are', 'was', 'be', 'by', 'as', 'for', 'with',
+      'that', 'from', 'not', 'his', 'her', 'its', 'you', 'who', 'has',
+    ],
+    minLength: 3,
+  },
+  he: {
+    stopWords: [
+      'את', 'של', 'לא', 'אין', 'על', 'אל', 'גם', 'כי', 'אם', 'זה',
+      'זו', 'הוא', 'היא', 'הם', 'הן', 'מה', 'מי', 'יש', 'עם', 'כל',
+      'אבל', 'או', 'רק', 'עוד', 'אשר', 'כמו', 'לו', 'לה', 'בו', 'בה',
+    ],
+    prefixes: ['ו', 'ה', 'ב', 'ל', 'מ', 'ש', 'כ'],
+    minLength: 3,
+  },
+  ar: {
+    stopWords: [
+      'في', 'من', 'على', 'إلى', 'عن', 'لا', 'ما', 'هو', 'هي', 'أن',
+      'إن', 'مع', 'كل', 'قد', 'لم', 'لن', 'يا', 'أو', 'ثم', 'هذا',
+      'هذه', 'الذي', 'التي', 'اللي',
+    ],
+    prefixes: ['و', 'ف', 'ب', 'ل', 'ك', 'ال'],
+    minLength: 3,
+  },
+  es: {
+    stopWords: [
+      'el', 'la', 'los', 'las', 'un', 'una', 'de', 'del', 'al', 'en',
+      'y', 'o', 'a', 'que', 'no', 'ni', 'se', 'es', 'con', 'por',
+      'para', 'lo', 'le', 'su', 'sus', 'como', 'mas', 'pero', 'mi',
+    ],
+    minLength: 3,
+  },
+  fr: {
+    stopWords: [
+      'le', 'la', 'les', 'un', 'une', 'de', 'des', 'du', 'et', 'en',
+      'a', 'au', 'aux', 'ce', 'ne', 'pas', 'que', 'qui', 'se', 'il',
+      'elle', 'on', 'est', 'sur', 'pour', 'par', 'dans', 'son', 'sa',
+      'ses', 'mais', 'ou', 'y',
+    ],
+    prefixes: ["l'", "d'", "qu'", "n'", "s'", "c'", "j'", "m'"],
+    minLength: 3,
+  },
+  ru: {
+    stopWords: [
+      'и', 'в', 'во', 'не', 'на', 'с', 'со', 'что', 'как', 'а',
+      'но', 'к', 'ко', 'по', 'за', 'из', 'от', 'до', 'у', 'о',
+      'об', 'же', 'ли', 'бы', 'он', 'она', 'оно', 'они', 'это', 'то',
+      'так', 'его', 'её', 'их', 'для', 'без', 'мы', 'вы', 'ты', 'я',
+    ],
+    minLength: 3,
+  },
+  yi: {
+    stopWords: [
+      'דער', 'די', 'דאָס', 'דעם', 'אַ', 'אַן', 'און', 'איז', 'פֿון', 'צו',
+      'אין', 'אויף', 'מיט', 'ניט', 'נישט', 'ער', 'זי', 'עס', 'מע', 'מען',
+      'ווי', 'וואָס', 'אַז', 'פֿאַר', 'בײַ', 'ס׳', 'ווען',
+    ],
+    minLength: 3,
+  },
+};
+
+/**
+ * Reduces a word to the form used for anchor comparisons
+ * Builds on the shared word normalization and additionally folds typographic
+ * apostrophes and drops Latin accents, so "Más" matches the stop word "mas"
+ * @param word - Word as it appears in the solution
+ * @returns Comparison key
+ */
+export const normalizeAnchorWord = (word: string): string => {
+  return normalizeWord(word)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u2018\u2019]/g, "'");
+};
+
+/**
+ * Lookup tables built once per language from the strategy word lists
+ */
+const normalizedStrategies = new Map<
+  LanguageCode,
+  { stopWords: Set<string>; prefixes: string[]; minLength: number }
+>();
+
+const getNormalizedStrategy = (language: LanguageCode) => {
+  const cached = normalizedStrategies.get(language);
+  if (cached) {
+    return cached;
+  }
+  const strategy = ANCHOR_STRATEGIES[language] ?? ANCHOR_STRATEGIES[DEFAULT_LANGUAGE];
+  const normalized = {
+    stopWords: new Set(strategy.stopWords.map(normalizeAnchorWord)),
+    // Prefixes may end in an apostrophe, which word normalization would trim
+    prefixes: (strategy.prefixes ?? []).map(prefix =>
+      prefix.toLowerCase().replace(/[\u2018\u2019]/g, "'")
+    ),
+    minLength: strategy.minLength,
+  };
+  normalizedStrategies.set(language, normalized);
+  return normalized;
+};
+
+/**
+ * Checks whether a word carries meaning of its own (not a function word)
+ * In prefixing languages, a stop word with clitics attached ("ולא", "l'on")
+ * is still treated as a stop word
+ * @param word - Word as it appears in the solution
+ * @param language - Puzzle language
+ * @returns true if the word may be used as an anchor
+ */
+export const isGoodAnchorWord = (
+  word: string,
+  language: LanguageCode = DEFAULT_LANGUAGE
+): boolean => {
+  const { stopWords, prefixes, minLength } = getNormalizedStrategy(language);
+  const key = normalizeAnchorWord(word);
+
+  if (key.length < minLength || stopWords.has(key)) {
+    return false;
+  }
+
+  // Peel off up to two clitics and check whether only a function word is left
+  const findPrefix = (stem: string) =>
+    prefixes.find(p => stem.startsWith(p) && stem.length > p.length);
+
+  let stem = key;
+  for (let i = 0; i < 2; i++) {
+    const prefix = findPrefix(stem);
+    if (!prefix) {
+      break;
+    }
+    stem = stem.slice(prefix.length);
+    if (stopWords.has(stem)) {
+      return false;
+    }
+  }
+
+  return true;
+};
+
+/**
+ * Counts how often each word occurs in a puzzle's pool
+ * @param words - Every word of every proverb in the puzzle
+ * @returns Occurrences keyed by normalized word
+ */
+export const countWordFrequencies = (words: string[]): Map<string, number> => {
+  const frequencies = new Map<string, number>();
+  words.forEach(word => {
+    const key = normalizeAnchorWord(word);
+    frequencies.set(key, (frequencies.get(key) ?? 0) + 1);
+  });
+  return frequencies;
+};
+
+/**
+ * Scores how much fixing a word narrows down the solution
+ * Longer words are more distinctive, and a word that appears several times in
+ * the pool says little about where its twins belong
+ * @param word - Candidate anchor
+ * @param frequencies - Pool frequencies from countWordFrequencies
+ * @returns Positive score, higher is a better anchor
+ */
+export const scoreAnchorWord = (word: string, frequencies: Map<string, number>): number => {
+  const key = normalizeAnchorWord(word);
+  const occurrences = Math.max(1, frequencies.get(key) ?? 1);
+  return Math.min(Math.max(key.length, 1), MAX_SCORED_LENGTH) / occurrences;
+};
+
+/**
+ * Picks anchor positions for one proverb
+ * Candidates are drawn at random, weighted by score, so anchors vary between
+ * boards but favour rare, distinctive words
+ * @param solutionWords - The proverb's words in order
+ * @param count - Number of anchors wanted
+ * @param language - Puzzle language
+ * @param frequencies - Pool frequencies for the whole puzzle
+ * @param random - Random source (seeded for reproducible boards)
+ * @returns Selected word positions (may be fewer than count)
+ */
+export const selectAnchorPositions = (
+  solutionWords: string[],
+  count: number,
+  language: LanguageCode,
+  frequencies: Map<string, number>,
+  random: RandomSource = Math.random
+): number[] => {
+  const candidates = solutionWords
+    .map((word, position) => ({ position, score: scoreAnchorWord(word, frequencies) }))
+    .filter(({ position }) => isGoodAnchorWord(solutionWords[position], language));
+
+  const selected: number[] = [];
+  while (selected.length < count && candidates.length > 0) {
+    const totalScore = candidates.reduce((sum, candidate) => sum + candidate.score, 0);
+    let target = random() * totalScore;
+    let index = 0;
+    while (index < candidates.length - 1 && target >= candidates[index].score) {
+      target -= candidates[index].score;
+      index++;
+    }
+    selected.push(candidates[index].position);
+    candidates.splice(index, 1);
+  }
+
+  return selected;
+};
@@ -0,0 +1,148 @@
+/**
+ * Tests for screen reader announcements
+ */
+
+import { AnnouncedState, MAX_ANNOUNCED_WORD_CHANGES, describeStateChange } from './announcements';
+import { getTranslations } from './translations';
+import { GlobalWord } from '../types';
+
+const en = getTranslations('en');
+const he = getTranslations('he');
+
+const meanings = ['Quiet people can be deep.', 'Deeds count more than words.'];
+
+const word = (id: string, text: string, placement: GlobalWord['placement'] = null): GlobalWord => ({
+  id,
+  text,
+  sourceProverbIndex: 0,
+  originalIndex: 0,
+  placement,
+  isLocked: false,
+  isFixedByLength: false,
+});
+
+const state = (allWords: GlobalWord[], overrides: Partial<AnnouncedState> = {}): AnnouncedState => ({
+  allWords,
+  proverbValidation: [
+    { isSolved: false, isValidated: false },
+    { isSolved: false, isValidated: false },
+  ],
+  usedHints: new Set(),
+  wordHintsUsed: new Map(),
+  ...overrides,
+});
+
+describe('describeStateChange', () => {
+  const still = word('w0', 'Still');
+  const waters = word('w1', 'waters');
+
+  it('announces nothing when nothing changed', () => {
+    const current = state([still, waters]);
+    expect(describeStateChange(current, state([still, waters]), meanings, en)).toEqual([]);
+  });
+
+  it('announces a placed word with 1-based proverb and position', () => {
+    const next = state([word('w0', 'Still', { proverbIndex: 1, positionIndex: 2 }), waters]);
+    expect(describeStateChange(state([still, waters]), next, meanings, en)).toEqual([
+      'Placed "Still" in proverb 2, position 3',
+    ]);
+  });
+
+  it('announces a removed word with the slot it left', () => {
+    const previous = state([word('w0', 'Still', { proverbIndex: 0, positionIndex: 0 }), waters]);
+    expect(describeStateChange(previous, state([still, waters]), meanings, en)).toEqual([
+      'Removed "Still" from proverb 1, position 1',
+    ]);
+  });
+
+  it('announces both words of a swap', () => {
+    const previous = state([
+      word('w0', 'Still', { proverbIndex: 0, positionIndex: 0 }),
+      word('w1', 'waters', { proverbIndex: 0, positionIndex: 1 }),
+    ]);
+    const next = state([
+      word('w0', 'Still', { proverbIndex: 0, positionIndex: 1 }),
+      word('w1', 'waters', { proverbIndex: 0, positionIndex: 0 }),
+    ]);
+    expect(describeStateChange(previous, next, meanings, en)).toEqual([
+      'Placed "Still" in proverb 1, position 2',
+      'Placed "waters" in proverb 1, position 1',
+    ]);
+  });
+
+  it('stays silent when more words change than a single move can', () => {
+    const texts = ['Still', 'waters', 'run', 'deep'].slice(0, MAX_ANNOUNCED_WORD_CHANGES + 1);
+    const placed = texts.map((text, index) =>
+      word(`w${index}`, text, { proverbIndex: 0, positionIndex: index })
+    );
+    const cleared = texts.map((text, index) => word(`w${index}`, text));
+    expect(describeStateChange(state(placed), state(cleared), meanings, en)).toEqual([]);
+  });
+
+  it('reads out a revealed meaning', () => {
+    const next = state([still], { usedHints: new Set([1]) });
+    expect(describeStateChange(state([still]), next, meanings, en)).toEqual([
+      'Meaning of proverb 2: Deeds count more than words.',
+    ]);
+  });
+
+  it('announces a word hint instead of the word it displaces', () => {
+    const previous = state([still, word('w1', 'waters', { proverbIndex: 0, positionIndex: 0 })]);
+    const next = state([word('w0', 'Still', { proverbIndex: 0, positionIndex: 0 }), waters], {
+      wordHintsUsed: new Map([[0, 1]]),
+    });
+    expect(describeStateChange(previous, next, meanings, en)).toEqual([
+      'Hint placed "Still" in proverb 1, position 1',
+    ]);
+  });
+
+  it('announces validation results instead of the words sent back to the pool', () => {
+    const previous = state([
+      word('w0', 'Still', { proverbIndex: 0, positionIndex: 0 }),
+      word('w1', 'waters', { proverbIndex: 1, positionIndex: 0 }),
+    ]);
+    const next = state([word('w0', 'Still', { proverbIndex: 0, positionIndex: 0 }), waters], {
+      proverbValidation: [
+        { isSolved: true, isValidated: true },
+        { isSolved: false, isValidated: true },
+      ],
+    });
+    expect(describeStateChange(previous, next, meanings, en)).toEqual([
+      'Proverb 1 correct',
+      'Proverb 2 incorrect',
+    ]);
+  });
+
+  it('does not repeat a result that was already announced', () => {
+    const solved = { proverbValidation: [{ isSolved: true, isValidated: true }] };
+    expect(describeStateChange(state([still], solved), state([still], solved), meanings, en)).toEqual([]);
+  });
+
+  it('adds the completion message once every proverb is solved', () => {
+    const previous = state([still], {
+      proverbValidation: [
+        { isSolved: true, isValidated: true },
+        { isSolved: false, isValidated: true },
+      ],
+    });
+    const next = state([still], {
+      proverbValidation: [
+        { isSolved: true, isValidated: true },
+        { isSolved: true, isValidated: true },
+      ],
+    });
+    expect(describeStateChange(previous, next, meanings, en)).toEqual([
+      'Proverb 2 correct',
+      en.allCorrect,
+    ]);
+  });
+
+  it('uses the strings of the interface language', () => {
+    const shalom = word('w0', 'שלום');
+    const next = state([word('w0', 'שלום', { proverbIndex: 0, positionIndex: 1 })]);
+    expect(describeStateChange(state([shalom]), next, meanings, he)).toEqual([
+      he.announcePlaced('שלום', 1, 2),
+    ]);
+    expect(he.announcePlaced('שלום', 1, 2)).toBe('"שלום" הוצבה בפתגם 1, מקום 2');
+  });
+});
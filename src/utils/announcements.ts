@@ -0,0 +1,117 @@
+/**
+ * Screen reader announcements
+ * Compares two consecutive game states and describes what happened on the
+ * board - a word placed or taken back, a hint, a validation result - as the
+ * short messages read out by the game's live region
+ */
+
+import { GlobalWord, ProverbValidation } from '../types';
+import { Translations } from './translations';
+
+/**
+ * The parts of the game state that announcements are derived from
+ */
+export interface AnnouncedState {
+  allWords: GlobalWord[];
+  proverbValidation: ProverbValidation[];
+  usedHints: Set<number>;
+  wordHintsUsed: Map<number, number>;
+}
+
+export type AnnouncementTranslations = Pick<
+  Translations,
+  | 'announcePlaced'
+  | 'announceRemoved'
+  | 'announceHintPlaced'
+  | 'announceMeaning'
+  | 'announceProverbCorrect'
+  | 'announceProverbIncorrect'
+  | 'allCorrect'
+>;
+
+/**
+ * Most words a single move changes (a swap moves two) - larger changes such as
+ * a reset are not read out word by word
+ */
+export const MAX_ANNOUNCED_WORD_CHANGES = 2;
+
+const samePlacement = (a: GlobalWord['placement'], b: GlobalWord['placement']): boolean =>
+  a?.proverbIndex === b?.proverbIndex && a?.positionIndex === b?.positionIndex;
+
+/**
+ * Describes the transition between two game states
+ * Validation results take the place of the words they send back to the pool,
+ * and a word hint is announced instead of the words it displaces
+ * @param previous - State before the change
+ * @param next - State after the change
+ * @param meanings - Meaning of each proverb, by proverb index
+ * @param t - Announcement strings of the interface language
+ * @returns Messages in reading order (empty when nothing worth reading out changed)
+ */
+export const describeStateChange = (
+  previous: AnnouncedState,
+  next: AnnouncedState,
+  meanings: string[],
+  t: AnnouncementTranslations
+): string[] => {
+  const messages: string[] = [];
+
+  next.usedHints.forEach(proverbIndex => {
+    if (!previous.usedHints.has(proverbIndex)) {
+      messages.push(t.announceMeaning(proverbIndex + 1, meanings[proverbIndex] ?? ''));
+    }
+  });
+
+  const previousWords = new Map(previous.allWords.map(word => [word.id, word]));
+  const moved = next.allWords.filter(
+    word => !samePlacement(previousWords.get(word.id)?.placement ?? null, word.placement)
+  );
+  const hintedProverbs = new Set(
+    Array.from(next.wordHintsUsed.entries())
+      .filter(([proverbIndex, count]) => count > (previous.wordHintsUsed.get(proverbIndex) ?? 0))
+      .map(([proverbIndex]) => proverbIndex)
+  );
+
+  const validated = next.proverbValidation.flatMap((validation, proverbIndex) => {
+    const before = previous.proverbValidation[proverbIndex];
+    const isNewResult =
+      validation.isValidated &&
+      (!before?.isValidated || before.isSolved !== validation.isSolved);
+    return isNewResult ? [{ proverbIndex, isSolved: validation.isSolved }] : [];
+  });
+
+  if (hintedProverbs.size > 0) {
+    moved.forEach(word => {
+      if (word.placement && hintedProverbs.has(word.placement.proverbIndex)) {
+        const { proverbIndex, positionIndex } = word.placement;
+        messages.push(t.announceHintPlaced(word.text, proverbIndex + 1, positionIndex + 1));
+      }
+    });
+  } else if (validated.length === 0 && moved.length <= MAX_ANNOUNCED_WORD_CHANGES) {
+    moved.forEach(word => {
+      if (word.placement) {
+        const { proverbIndex, positionIndex } = word.placement;
+        messages.push(t.announcePlaced(word.text, proverbIndex + 1, positionIndex + 1));
+      } else {
+        const from = previousWords.get(word.id)?.placement;
+        if (from) {
+          messages.push(t.announceRemoved(word.text, from.proverbIndex + 1, from.positionIndex + 1));
+        }
+      }
+    });
+  }
+
+  validated.forEach(({ proverbIndex, isSolved }) => {
+    messages.push(
+      isSolved ? t.announceProverbCorrect(proverbIndex + 1) : t.announceProverbIncorrect(proverbIndex + 1)
+    );
+  });
+
+  const isAllSolved = (validation: ProverbValidation[]) =>
+    validation.length > 0 && validation.every(v => v.isSolved);
+  if (isAllSolved(next.proverbValidation) && !isAllSolved(previous.proverbValidation)) {
+    messages.push(t.allCorrect);
+  }
+
+  return messages;
+};
@@ -0,0 +1,48 @@
+/**
+ * Tests for practice puzzles built from the bundled CSV files
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { generatePracticePuzzleFromCSV } from './csvPuzzleLoader';
+import { createSeededRandom } from './random';
+
+const englishCSV = readFileSync(join(process.cwd(), 'public', 'en-proverbs.csv'), 'utf8');
+
+const missed = [
+  { solution: 'A penny saved is a penny earned', culture: 'English', meaning: 'Saving counts' },
+  { solution: 'Still waters run deep', culture: 'English', meaning: 'Quiet people think deeply' },
+];
+
+describe('generatePracticePuzzleFromCSV', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      text: () => Promise.resolve(englishCSV),
+    }) as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('fills the puzzle up around the proverbs under review', async () => {
+    const puzzle = await generatePracticePuzzleFromCSV('en', missed, createSeededRandom('fill'), 4);
+    const solutions = puzzle.proverbs.map(proverb => proverb.solution);
+
+    expect(solutions).toHaveLength(4);
+    expect(solutions).toEqual(expect.arrayContaining(missed.map(proverb => proverb.solution)));
+  });
+
+  it('does not always put the proverbs under review first', async () => {
+    const positions = new Set<number>();
+    for (const seed of ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h']) {
+      const puzzle = await generatePracticePuzzleFromCSV('en', missed, createSeededRandom(seed), 4);
+      positions.add(puzzle.proverbs.findIndex(proverb => proverb.solution === missed[0].solution));
+    }
+
+    expect(positions.size).toBeGreaterThan(1);
+  });
+});
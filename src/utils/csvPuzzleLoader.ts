@@ -4,10 +4,16 @@
  */
 
 import { PuzzleData, Proverb, LanguageCode } from '../types';
+import { DEFAULT_DIFFICULTY, DifficultyLevel } from './difficulty';
+import { selectProverbSet } from './puzzleGenerator';
+import { DEFAULT_PUZZLE_SIZE, PUZZLE_SIZE_PRESETS } from './puzzleSize';
+import { formatValidationIssue, validateProverb, validatePuzzle } from './puzzleValidator';
+import { RandomSource } from './random';
+import { shuffleArray } from './wordUtils';
 
 // CSV files are served from public directory
 
-interface CSVRow {
+export interface CSVRow {
   solution: string;
   culture: string;
   meaning: string;
@@ -15,8 +21,9 @@ interface CSVRow {
 
 /**
  * Parse CSV text into array of objects
+ * Expects a header row followed by solution, culture, meaning columns
  */
-const parseCSV = (csvText: string): CSVRow[] => {
+export const parseCSV = (csvText: string): CSVRow[] => {
   const lines = csvText.trim().split('\n');
   // const headers = lines[0].split(',').map(h => h.replace(/"/g, '').trim());
   
@@ -58,7 +65,7 @@ const loadProverbsFromCSV = async (language: LanguageCode): Promise<CSVRow[]> =>
     if (process.env.NODE_ENV === 'development') {
       // For development, we'll use a hardcoded fallback since the dev server
       // doesn't serve CSV files properly
-      const fallbackData = language === 'he' ? getHebrewFallbackData() : getEnglishFallbackData();
+      const fallbackData = (fallbackDataByLanguage[language] || getEnglishFallbackData)();
       return fallbackData;
     }
     
@@ -90,7 +97,18 @@ const loadProverbsFromCSV = async (language: LanguageCode): Promise<CSVRow[]> =>
       throw lastError || new Error('All CSV URLs failed');
     }
     
-    const parsed = parseCSV(csvText);
+    // Skip rows that could never make a playable proverb (e.g. too many words)
+    const parsed = parseCSV(csvText).filter(row => {
+      const { issues } = validateProverb(row);
+      if (issues.length > 0) {
+        // eslint-disable-next-line no-console
+        console.warn(
+          `Skipping ${language} proverb "${row.solution}":`,
+          issues.map(formatValidationIssue).join('; ')
+        );
+      }
+      return issues.length === 0;
+    });
     
     if (parsed.length === 0) {
       throw new Error('No valid proverbs found in CSV');
@@ -106,15 +124,24 @@ const loadProverbsFromCSV = async (language: LanguageCode): Promise<CSVRow[]> =>
 
 /**
  * Generate a random puzzle from CSV data
+ * Proverbs are picked by the similarity-aware generator (see utils/puzzleGenerator)
+ * Pass a seeded random source to get the same proverbs for the same seed
+ * @param proverbCount - Number of proverbs (see PUZZLE_SIZE_PRESETS), standard size by default
+ * @param difficulty - Difficulty whose word overlap the proverbs should match
+ * @returns The puzzle, the indices used so far (excluded + picked, or only the
+ * picked ones once every proverb has been used) and the number of proverbs
  */
 export const generateRandomPuzzleFromCSV = async (
   language: LanguageCode,
-  excludeIndices: number[] = []
-): Promise<{ puzzle: PuzzleData; usedIndices: number[] }> => {
+  excludeIndices: number[] = [],
+  random: RandomSource = Math.random,
+  proverbCount: number = PUZZLE_SIZE_PRESETS[DEFAULT_PUZZLE_SIZE].proverbCount,
+  difficulty: DifficultyLevel = DEFAULT_DIFFICULTY
+): Promise<{ puzzle: PuzzleData; usedIndices: number[]; totalCount: number }> => {
   const allProverbs = await loadProverbsFromCSV(language);
   
-  if (allProverbs.length === 0) {
-    throw new Error(`No proverbs found for language: ${language}`);
+  if (allProverbs.length < proverbCount) {
+    throw new Error(`Not enough proverbs for a ${proverbCount}-proverb ${language} puzzle`);
   }
   
   // Filter out already used proverbs
@@ -123,43 +150,92 @@ export const generateRandomPuzzleFromCSV = async (
     .filter(index => !excludeIndices.includes(index));
   
   // If we've used all proverbs, reset and start over
-  if (availableIndices.length < 3) {
-    return generateRandomPuzzleFromCSV(language, []);
+  if (availableIndices.length < proverbCount) {
+    return generateRandomPuzzleFromCSV(language, [], random, proverbCount, difficulty);
   }
   
-  // Always select exactly 3 proverbs for default mode
-  const numProverbs = 3;
-  const selectedIndices: number[] = [];
-  const selectedProverbs: Proverb[] = [];
-  
-  for (let i = 0; i < numProverbs && availableIndices.length > 0; i++) {
-    const randomIndex = Math.floor(Math.random() * availableIndices.length);
-    const proverbIndex = availableIndices[randomIndex];
+  const selectedIndices = selectProverbSet(allProverbs, {
+    count: proverbCount,
+    random,
+    difficulty,
+    exclude: excludeIndices,
+  });
+  const selectedProverbs: Proverb[] = selectedIndices.map(proverbIndex => {
     const proverb = allProverbs[proverbIndex];
-    
-    selectedIndices.push(proverbIndex);
-    selectedProverbs.push({
+    return {
       solution: proverb.solution,
       culture: proverb.culture,
       meaning: proverb.meaning
-    });
-    
-    // Remove this index from available indices
-    availableIndices.splice(randomIndex, 1);
-  }
+    };
+  });
   
-  const puzzle: PuzzleData = {
+  const validation = validatePuzzle({
     version: "1",
     language,
     proverbs: selectedProverbs
-  };
+  });
+  if (!validation.puzzle) {
+    throw new Error(`Invalid ${language} puzzle: ${validation.error}`);
+  }
   
   return {
-    puzzle,
-    usedIndices: [...excludeIndices, ...selectedIndices]
+    puzzle: validation.puzzle,
+    usedIndices: [...excludeIndices, ...selectedIndices],
+    totalCount: allProverbs.length
   };
 };
 
+/**
+ * Build a practice puzzle around proverbs due for review
+ * The rest of the puzzle is filled with other proverbs of the language, picked
+ * by the similarity-aware generator. Both are shuffled together, so the board
+ * order does not give away which proverbs are under review
+ * @param practiceProverbs - Proverbs to review (only the first proverbCount are used)
+ * @param random - Random source for the filler proverbs and the board order
+ * @param proverbCount - Number of proverbs in the puzzle
+ * @param difficulty - Difficulty whose word overlap the filler proverbs should match
+ * @returns The puzzle
+ */
+export const generatePracticePuzzleFromCSV = async (
+  language: LanguageCode,
+  practiceProverbs: Proverb[],
+  random: RandomSource = Math.random,
+  proverbCount: number = PUZZLE_SIZE_PRESETS[DEFAULT_PUZZLE_SIZE].proverbCount,
+  difficulty: DifficultyLevel = DEFAULT_DIFFICULTY
+): Promise<PuzzleData> => {
+  const reviewed = practiceProverbs
+    .slice(0, proverbCount)
+    .map(({ solution, culture, meaning }) => ({ solution, culture, meaning }));
+  const fillerCount = proverbCount - reviewed.length;
+  let fillers: Proverb[] = [];
+
+  if (fillerCount > 0) {
+    const allProverbs = await loadProverbsFromCSV(language);
+    const reviewedSolutions = new Set(reviewed.map(proverb => proverb.solution.trim().toLowerCase()));
+    const exclude = allProverbs
+      .map((proverb, index) => (reviewedSolutions.has(proverb.solution.trim().toLowerCase()) ? index : -1))
+      .filter(index => index >= 0);
+    fillers = selectProverbSet(allProverbs, { count: fillerCount, random, difficulty, exclude }).map(
+      index => ({
+        solution: allProverbs[index].solution,
+        culture: allProverbs[index].culture,
+        meaning: allProverbs[index].meaning,
+      })
+    );
+  }
+
+  const validation = validatePuzzle({
+    version: "1",
+    language,
+    proverbs: shuffleArray([...reviewed, ...fillers], random)
+  });
+  if (!validation.puzzle) {
+    throw new Error(`Invalid ${language} practice puzzle: ${validation.error}`);
+  }
+
+  return validation.puzzle;
+};
+
 /**
  * Get the total number of available proverbs for a language
  */
@@ -176,9 +252,14 @@ export const getProverbCount = async (language: LanguageCode): Promise<number> =
 
 /**
  * Check if there are more puzzles available
+ * True while enough unused proverbs remain for another puzzle without repeats
  */
-export const hasMorePuzzles = (usedIndices: number[], totalCount: number): boolean => {
-  return usedIndices.length < totalCount - 3; // Need at least 3 proverbs for a puzzle
+export const hasMorePuzzles = (
+  usedIndices: number[],
+  totalCount: number,
+  proverbCount: number = PUZZLE_SIZE_PRESETS[DEFAULT_PUZZLE_SIZE].proverbCount
+): boolean => {
+  return usedIndices.length <= totalCount - proverbCount; // Need enough proverbs for a puzzle
 };
 
 /**
@@ -291,4 +372,197 @@ const getHebrewFallbackData = (): CSVRow[] => [
     culture: "עברית",
     meaning: "נימוסים וכבוד הדדי חשובים יותר מידע"
   }
-];
\ No newline at end of file
+];
+
+/**
+ * Fallback Arabic proverbs for development
+ */
+const getArabicFallbackData = (): CSVRow[] => [
+  {
+    solution: "الصبر مفتاح الفرج",
+    culture: "عربية",
+    meaning: "بالصبر تنتهي الشدائد"
+  },
+  {
+    solution: "من جدّ وجد ومن زرع حصد",
+    culture: "عربية",
+    meaning: "من يجتهد ينال ثمرة جهده"
+  },
+  {
+    solution: "القرد في عين أمه غزال",
+    culture: "مصرية",
+    meaning: "المحب لا يرى عيوب من يحب"
+  },
+  {
+    solution: "اطلبوا العلم من المهد إلى اللحد",
+    culture: "عربية",
+    meaning: "التعلم لا يتوقف طوال الحياة"
+  },
+  {
+    solution: "الجار قبل الدار",
+    culture: "عربية",
+    meaning: "اختيار الجيران أهم من اختيار البيت"
+  },
+  {
+    solution: "درهم وقاية خير من قنطار علاج",
+    culture: "عربية",
+    meaning: "الوقاية من المشكلة أسهل من علاجها"
+  }
+];
+
+/**
+ * Fallback Spanish proverbs for development
+ */
+const getSpanishFallbackData = (): CSVRow[] => [
+  {
+    solution: "Más vale pájaro en mano que ciento volando",
+    culture: "Española",
+    meaning: "Es mejor conservar algo seguro que arriesgarlo por algo mejor"
+  },
+  {
+    solution: "Camarón que se duerme se lo lleva la corriente",
+    culture: "Mexicana",
+    meaning: "Quien se descuida pierde las oportunidades"
+  },
+  {
+    solution: "No hay mal que por bien no venga",
+    culture: "Española",
+    meaning: "De las desgracias también puede salir algo bueno"
+  },
+  {
+    solution: "A caballo regalado no se le mira el diente",
+    culture: "Española",
+    meaning: "Los regalos se aceptan sin buscarles defectos"
+  },
+  {
+    solution: "El que madruga come pechuga",
+    culture: "Mexicana",
+    meaning: "Quien se adelanta consigue lo mejor"
+  },
+  {
+    solution: "Dime con quién andas y te diré quién eres",
+    culture: "Española",
+    meaning: "Las compañías revelan cómo es una persona"
+  }
+];
+
+/**
+ * Fallback French proverbs for development
+ */
+const getFrenchFallbackData = (): CSVRow[] => [
+  {
+    solution: "Petit à petit, l'oiseau fait son nid",
+    culture: "Française",
+    meaning: "La patience et la persévérance mènent au but"
+  },
+  {
+    solution: "Rira bien qui rira le dernier",
+    culture: "Française",
+    meaning: "Il ne faut pas se réjouir trop tôt d'un succès"
+  },
+  {
+    solution: "Qui sème le vent récolte la tempête",
+    culture: "Française",
+    meaning: "Celui qui provoque des troubles en subit les conséquences"
+  },
+  {
+    solution: "L'habit ne fait pas le moine",
+    culture: "Française",
+    meaning: "Il ne faut pas juger les gens sur leur apparence"
+  },
+  {
+    solution: "Pierre qui roule n'amasse pas mousse",
+    culture: "Française",
+    meaning: "Celui qui change sans cesse ne s'enrichit pas"
+  },
+  {
+    solution: "Chat échaudé craint l'eau froide",
+    culture: "Française",
+    meaning: "Une mauvaise expérience rend prudent"
+  }
+];
+
+/**
+ * Fallback Russian proverbs for development
+ */
+const getRussianFallbackData = (): CSVRow[] => [
+  {
+    solution: "Тише едешь, дальше будешь",
+    culture: "Русская",
+    meaning: "Спокойные и осторожные действия приводят к цели"
+  },
+  {
+    solution: "Без труда не вытащишь и рыбку из пруда",
+    culture: "Русская",
+    meaning: "Ничего не достаётся без усилий"
+  },
+  {
+    solution: "Не имей сто рублей, а имей сто друзей",
+    culture: "Русская",
+    meaning: "Друзья дороже денег"
+  },
+  {
+    solution: "Век живи, век учись",
+    culture: "Русская",
+    meaning: "Учиться нужно всю жизнь"
+  },
+  {
+    solution: "Волков бояться, в лес не ходить",
+    culture: "Русская",
+    meaning: "Кто боится риска, ничего не добьётся"
+  },
+  {
+    solution: "Что посеешь, то и пожнёшь",
+    culture: "Русская",
+    meaning: "Каковы поступки, таковы и последствия"
+  }
+];
+
+/**
+ * Fallback Yiddish proverbs for development
+ */
+const getYiddishFallbackData = (): CSVRow[] => [
+  {
+    solution: "דער מענטש טראַכט און גאָט לאַכט",
+    culture: "ייִדיש",
+    meaning: "מענטשלעכע פּלענער גייען ניט תּמיד אין גאַנג"
+  },
+  {
+    solution: "אַז מע לעבט, דערלעבט מען",
+    culture: "ייִדיש",
+    meaning: "אַז מע האָט געדולד, זעט מען אַלערליי"
+  },
+  {
+    solution: "מיט אַ ליגן קומט מען ווײַט, אָבער ניט צוריק",
+    culture: "ייִדיש",
+    meaning: "אַ ליגן העלפֿט נאָר אויף אַ קורצע צײַט"
+  },
+  {
+    solution: "אַ גוטער פֿרײַנד איז בעסער ווי געלט",
+    culture: "ייִדיש",
+    meaning: "פֿרײַנדשאַפֿט איז מער ווערט ווי עשירות"
+  },
+  {
+    solution: "אַ האַלבער אמת איז אַ גאַנצער ליגן",
+    culture: "ייִדיש",
+    meaning: "אַ טייל פֿונעם אמת קען זײַן פּונקט ווי אַ ליגן"
+  },
+  {
+    solution: "פֿון אַ חזירס עק קען מען ניט מאַכן קיין שטרײַמל",
+    culture: "ייִדיש",
+    meaning: "פֿון שלעכטן מאַטעריאַל קען מען ניט מאַכן עפּעס גוטס"
+  }
+];
+
+/**
+ * Development fallback data for each registered language
+ */
+const fallbackDataByLanguage: Record<LanguageCode, () => CSVRow[]> = {
+  en: getEnglishFallbackData,
+  he: getHebrewFallbackData,
+  ar: getArabicFallbackData,
+  es: getSpanishFallbackData,
+  fr: getFrenchFallbackData,
+  ru: getRussianFallbackData,
+  yi: getYiddishFallbackData,
+};
@@ -0,0 +1,64 @@
+/**
+ * Tests for daily puzzle utilities
+ */
+
+import {
+  getDailyDateKey,
+  getDailySeed,
+  isDailyDateAvailable,
+  isValidDailyDateKey,
+} from './dailyPuzzle';
+import { createSeededRandom } from './random';
+
+describe('getDailyDateKey', () => {
+  it('should format dates as zero-padded YYYY-MM-DD', () => {
+    expect(getDailyDateKey(new Date(2026, 0, 5))).toBe('2026-01-05');
+    expect(getDailyDateKey(new Date(2026, 9, 19))).toBe('2026-10-19');
+  });
+});
+
+describe('isValidDailyDateKey', () => {
+  it('should accept real calendar dates', () => {
+    expect(isValidDailyDateKey('2026-10-19')).toBe(true);
+    expect(isValidDailyDateKey('2024-02-29')).toBe(true);
+  });
+
+  it('should reject malformed or impossible dates', () => {
+    expect(isValidDailyDateKey('2026-1-5')).toBe(false);
+    expect(isValidDailyDateKey('2026-02-30')).toBe(false);
+    expect(isValidDailyDateKey('2026-13-01')).toBe(false);
+    expect(isValidDailyDateKey('today')).toBe(false);
+  });
+});
+
+describe('isDailyDateAvailable', () => {
+  const today = new Date(2026, 9, 19);
+
+  it('should allow today and past dates', () => {
+    expect(isDailyDateAvailable('2026-10-19', today)).toBe(true);
+    expect(isDailyDateAvailable('2025-12-31', today)).toBe(true);
+  });
+
+  it('should not allow future dates', () => {
+    expect(isDailyDateAvailable('2026-10-20', today)).toBe(false);
+  });
+});
+
+describe('getDailySeed', () => {
+  it('should differ per date and per language', () => {
+    const seeds = new Set([
+      getDailySeed('2026-10-19', 'en'),
+      getDailySeed('2026-10-19', 'he'),
+      getDailySeed('2026-10-20', 'en'),
+    ]);
+    expect(seeds.size).toBe(3);
+  });
+
+  it('should produce the same random sequence for the same date and language', () => {
+    const first = createSeededRandom(getDailySeed('2026-10-19', 'en'));
+    const second = createSeededRandom(getDailySeed('2026-10-19', 'en'));
+    const firstValues = [first(), first(), first()];
+    const secondValues = [second(), second(), second()];
+    expect(firstValues).toEqual(secondValues);
+  });
+});
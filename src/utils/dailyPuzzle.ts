@@ -0,0 +1,64 @@
+/**
+ * Daily puzzle utilities
+ * Everyone playing on the same calendar date (and language) gets the same
+ * proverbs, anchors and word pool order, derived from a date-based seed
+ */
+
+import { LanguageCode } from '../types';
+
+const DATE_KEY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+/**
+ * Formats a date as a YYYY-MM-DD key using the player's local calendar
+ * @param date - Date to format (defaults to now)
+ * @returns Date key such as "2026-10-19"
+ */
+export const getDailyDateKey = (date: Date = new Date()): string => {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Checks that a string is a real calendar date in YYYY-MM-DD format
+ * @param dateKey - Candidate date key (e.g. from the URL)
+ * @returns true if the date exists
+ */
+export const isValidDailyDateKey = (dateKey: string): boolean => {
+  const match = DATE_KEY_PATTERN.exec(dateKey);
+  if (!match) {
+    return false;
+  }
+
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(year, month - 1, day);
+  return (
+    date.getFullYear() === year &&
+    date.getMonth() === month - 1 &&
+    date.getDate() === day
+  );
+};
+
+/**
+ * Checks whether a daily puzzle date is already playable (today or earlier)
+ * @param dateKey - Valid YYYY-MM-DD date key
+ * @param today - Reference date (defaults to now)
+ * @returns true if the date is not in the future
+ */
+export const isDailyDateAvailable = (
+  dateKey: string,
+  today: Date = new Date()
+): boolean => {
+  // Keys are zero-padded, so lexical order matches chronological order
+  return dateKey <= getDailyDateKey(today);
+};
+
+/**
+ * Builds the seed for a daily puzzle
+ * @param dateKey - YYYY-MM-DD date key
+ * @param language - Puzzle language (each language has its own daily puzzle)
+ * @returns Seed string for createSeededRandom
+ */
+export const getDailySeed = (dateKey: string, language: LanguageCode): string => {
+  return `daily:${dateKey}:${language}`;
+};
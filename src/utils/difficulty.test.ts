@@ -0,0 +1,90 @@
+/**
+ * Tests for difficulty tuning
+ */
+
+import {
+  DEFAULT_DIFFICULTY,
+  DIFFICULTY_LEVELS,
+  DIFFICULTY_LEVEL_NAMES,
+  getAnchorCount,
+  getDifficultyPreference,
+  getMaxHintWords,
+  isDifficultyLevel,
+  saveDifficultyPreference,
+} from './difficulty';
+import { getTranslations } from './translations';
+import { SUPPORTED_LANGUAGES } from './languages';
+
+describe('difficulty levels', () => {
+  it('lists the levels from most to least forgiving', () => {
+    expect(DIFFICULTY_LEVEL_NAMES).toEqual(['relaxed', 'classic', 'challenging']);
+    expect(DEFAULT_DIFFICULTY).toBe('classic');
+    expect(DIFFICULTY_LEVEL_NAMES.map(level => DIFFICULTY_LEVELS[level].validationAttempts)).toEqual([
+      5, 3, 2,
+    ]);
+  });
+
+  it('keeps the original anchor rules on the classic level', () => {
+    const classic = DIFFICULTY_LEVELS.classic;
+    expect([3, 4, 5, 9, 10, 15].map(words => getAnchorCount(classic, words))).toEqual([
+      1, 1, 2, 2, 3, 3,
+    ]);
+  });
+
+  it('never anchors more words than the proverb has', () => {
+    const settings = { ...DIFFICULTY_LEVELS.classic, anchorDensity: [{ maxWords: Infinity, anchors: 5 }] };
+    expect(getAnchorCount(settings, 3)).toBe(3);
+  });
+
+  it('leaves short proverbs without anchors on the challenging level', () => {
+    expect(getAnchorCount(DIFFICULTY_LEVELS.challenging, 6)).toBe(0);
+    expect(getAnchorCount(DIFFICULTY_LEVELS.challenging, 7)).toBe(1);
+  });
+
+  it('caps word hints by share and hint levels', () => {
+    expect(getMaxHintWords(DIFFICULTY_LEVELS.classic, 5)).toBe(4);
+    expect(getMaxHintWords(DIFFICULTY_LEVELS.challenging, 5)).toBe(0);
+    expect(getMaxHintWords({ ...DIFFICULTY_LEVELS.classic, hintLevels: 1 }, 5)).toBe(0);
+  });
+
+  it('recognizes only level names', () => {
+    expect(isDifficultyLevel('relaxed')).toBe(true);
+    expect(isDifficultyLevel('impossible')).toBe(false);
+    expect(isDifficultyLevel('toString')).toBe(false);
+    expect(isDifficultyLevel(undefined)).toBe(false);
+  });
+
+  it('names every level in every language', () => {
+    SUPPORTED_LANGUAGES.forEach(code => {
+      const names = getTranslations(code).difficultyNames;
+      DIFFICULTY_LEVEL_NAMES.forEach(level => {
+        expect(names[level]).toBeTruthy();
+      });
+    });
+  });
+});
+
+describe('difficulty preference', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    window.history.replaceState({}, '', '/');
+  });
+
+  it('defaults to the classic level', () => {
+    expect(getDifficultyPreference()).toBe('classic');
+  });
+
+  it('remembers the chosen level', () => {
+    saveDifficultyPreference('challenging');
+    expect(getDifficultyPreference()).toBe('challenging');
+  });
+
+  it('prefers a valid level from the URL', () => {
+    saveDifficultyPreference('challenging');
+    window.history.replaceState({}, '', '/?difficulty=relaxed');
+    expect(getDifficultyPreference()).toBe('relaxed');
+
+    window.history.replaceState({}, '', '/?difficulty=brutal');
+    expect(getDifficultyPreference()).toBe('challenging');
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Difficulty tuning
+ * A difficulty decides how much help the player gets on a board: how many words
+ * start locked in place, how many validation attempts there are and which hints
+ * are available. The puzzle itself (its proverbs) is not affected.
+ */
+
+/**
+ * Named difficulty levels
+ */
+export type DifficultyLevel = 'relaxed' | 'classic' | 'challenging';
+
+/**
+ * Anchor count for proverbs up to a given length
+ */
+export interface AnchorDensityRule {
+  /** Rule applies to proverbs with at most this many words */
+  maxWords: number;
+  /** Number of words locked in place at the start */
+  anchors: number;
+}
+
+/**
+ * Settings passed into the game state hook
+ */
+export interface DifficultySettings {
+  /**
+   * Anchor counts by proverb length, shortest first
+   * The first rule whose maxWords covers the proverb applies; longer proverbs use the last rule
+   */
+  anchorDensity: AnchorDensityRule[];
+  /** Validation attempts before the game is lost */
+  validationAttempts: number;
+  /** Hint levels offered: 0 = none, 1 = reveal meaning, 2 = also place words */
+  hintLevels: 0 | 1 | 2;
+  /** Share of a proverb's words that word hints may place (0-1, rounded down) */
+  wordHintCap: number;
+}
+
+/**
+ * Settings for every named level, from most to least forgiving
+ */
+export const DIFFICULTY_LEVELS: Record<DifficultyLevel, DifficultySettings> = {
+  relaxed: {
+    anchorDensity: [
+      { maxWords: 4, anchors: 1 },
+      { maxWords: 7, anchors: 2 },
+      { maxWords: 11, anchors: 3 },
+      { maxWords: Infinity, anchors: 4 },
+    ],
+    validationAttempts: 5,
+    hintLevels: 2,
+    wordHintCap: 0.8,
+  },
+  // The original rules: <5 words -> 1 anchor, 5-9 -> 2, >9 -> 3
+  classic: {
+    anchorDensity: [
+      { maxWords: 4, anchors: 1 },
+      { maxWords: 9, anchors: 2 },
+      { maxWords: Infinity, anchors: 3 },
+    ],
+    validationAttempts: 3,
+    hintLevels: 2,
+    wordHintCap: 0.8,
+  },
+  challenging: {
+    anchorDensity: [
+      { maxWords: 6, anchors: 0 },
+      { maxWords: Infinity, anchors: 1 },
+    ],
+    validationAttempts: 2,
+    hintLevels: 1,
+    wordHintCap: 0,
+  },
+};
+
+/**
+ * All levels in display order
+ */
+export const DIFFICULTY_LEVEL_NAMES = Object.keys(DIFFICULTY_LEVELS) as DifficultyLevel[];
+
+/**
+ * Level used when the player has not chosen one
+ */
+export const DEFAULT_DIFFICULTY: DifficultyLevel = 'classic';
+
+/**
+ * Checks whether a value names a difficulty level
+ * @param value - Value to check (e.g. from the URL or localStorage)
+ * @returns true if the value is a known level
+ */
+export const isDifficultyLevel = (value: unknown): value is DifficultyLevel =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(DIFFICULTY_LEVELS, value);
+
+/**
+ * Number of anchors for a proverb
+ * @param settings - Difficulty settings
+ * @param wordCount - Words in the proverb
+ * @returns Anchors to lock at the start (never more than the proverb has words)
+ */
+export const getAnchorCount = (settings: DifficultySettings, wordCount: number): number => {
+  const { anchorDensity } = settings;
+  const rule =
+    anchorDensity.find(candidate => wordCount <= candidate.maxWords) ??
+    anchorDensity[anchorDensity.length - 1];
+  return Math.min(rule?.anchors ?? 0, wordCount);
+};
+
+/**
+ * Number of words that word hints may place in a proverb
+ * @param settings - Difficulty settings
+ * @param wordCount - Words in the proverb
+ * @returns Maximum word hints for the proverb (0 if word hints are off)
+ */
+export const getMaxHintWords = (settings: DifficultySettings, wordCount: number): number =>
+  settings.hintLevels < 2 ? 0 : Math.floor(wordCount * settings.wordHintCap);
+
+/**
+ * Gets the difficulty the player asked for
+ * Checks the URL (?difficulty=relaxed) first, then the saved preference
+ * @returns The chosen level, or the default
+ */
+export const getDifficultyPreference = (): DifficultyLevel => {
+  const urlLevel = new URLSearchParams(window.location.search).get('difficulty');
+  if (isDifficultyLevel(urlLevel)) {
+    return urlLevel;
+  }
+
+  const savedLevel = localStorage.getItem('preferredDifficulty');
+  if (isDifficultyLevel(savedLevel)) {
+    return savedLevel;
+  }
+
+  return DEFAULT_DIFFICULTY;
+};
+
+/**
+ * Remembers the player's difficulty for future visits
+ * @param level - Chosen difficulty level
+ */
+export const saveDifficultyPreference = (level: DifficultyLevel): void => {
+  localStorage.setItem('preferredDifficulty', level);
+};
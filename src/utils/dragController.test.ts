@@ -0,0 +1,204 @@
+/**
+ * Tests for the pointer drag controller
+ */
+
+import {
+  AUTO_SCROLL_EDGE_PX,
+  AUTO_SCROLL_MAX_SPEED_PX,
+  DRAG_THRESHOLD_PX,
+  DragSource,
+  createDragController,
+  getAutoScrollSpeed,
+} from './dragController';
+
+// jsdom has no PointerEvent - a mouse event carrying the pointer fields stands in
+const dispatchPointer = (type: string, clientX: number, clientY: number, pointerId = 1) => {
+  const event = new MouseEvent(type, { bubbles: true, cancelable: true, clientX, clientY });
+  Object.assign(event, { pointerId, isPrimary: true });
+  window.dispatchEvent(event);
+  return event;
+};
+
+const press = { pointerId: 1, clientX: 100, clientY: 300 };
+
+describe('getAutoScrollSpeed', () => {
+  it('does not scroll away from the edges', () => {
+    expect(getAutoScrollSpeed(AUTO_SCROLL_EDGE_PX, 800)).toBe(0);
+    expect(getAutoScrollSpeed(400, 800)).toBe(0);
+    expect(getAutoScrollSpeed(800 - AUTO_SCROLL_EDGE_PX, 800)).toBe(0);
+  });
+
+  it('scrolls up near the top and down near the bottom, fastest at the edge', () => {
+    expect(getAutoScrollSpeed(0, 800)).toBe(-AUTO_SCROLL_MAX_SPEED_PX);
+    expect(getAutoScrollSpeed(800, 800)).toBe(AUTO_SCROLL_MAX_SPEED_PX);
+
+    const near = getAutoScrollSpeed(AUTO_SCROLL_EDGE_PX / 2, 800);
+    expect(near).toBeLessThan(0);
+    expect(near).toBeGreaterThan(-AUTO_SCROLL_MAX_SPEED_PX);
+  });
+
+  it('never exceeds the maximum speed outside the viewport', () => {
+    expect(getAutoScrollSpeed(-50, 800)).toBe(-AUTO_SCROLL_MAX_SPEED_PX);
+    expect(getAutoScrollSpeed(900, 800)).toBe(AUTO_SCROLL_MAX_SPEED_PX);
+  });
+});
+
+describe('createDragController', () => {
+  let tile: HTMLElement;
+  let zone: HTMLElement;
+  let source: DragSource;
+
+  beforeEach(() => {
+    tile = document.createElement('div');
+    tile.textContent = 'bird';
+    tile.className = 'word';
+    zone = document.createElement('div');
+    zone.setAttribute('data-drop-zone', 'true');
+    document.body.append(tile, zone);
+    source = {
+      element: tile,
+      ghostClassName: 'ghost',
+      onDragStart: jest.fn(),
+      onDragEnd: jest.fn(),
+    };
+    // jsdom has no layout - the pointer is always over the zone
+    Object.defineProperty(document, 'elementFromPoint', { value: () => zone, configurable: true });
+  });
+
+  afterEach(() => {
+    delete (document as Partial<Document>).elementFromPoint;
+    document.body.innerHTML = '';
+  });
+
+  it('keeps short presses as clicks', () => {
+    const controller = createDragController();
+    controller.press(source, press);
+    dispatchPointer('pointermove', press.clientX + DRAG_THRESHOLD_PX, press.clientY);
+    dispatchPointer('pointerup', press.clientX + DRAG_THRESHOLD_PX, press.clientY);
+
+    expect(source.onDragStart).not.toHaveBeenCalled();
+    expect(source.onDragEnd).not.toHaveBeenCalled();
+    expect(controller.isDragging()).toBe(false);
+  });
+
+  it('shows a ghost of the tile that follows the pointer', () => {
+    const controller = createDragController();
+    controller.press(source, press);
+    dispatchPointer('pointermove', 150, 320);
+
+    expect(source.onDragStart).toHaveBeenCalledTimes(1);
+    expect(controller.isDragging()).toBe(true);
+    const ghost = document.body.querySelector<HTMLElement>('.ghost');
+    expect(ghost).toHaveTextContent('bird');
+    expect(ghost).toHaveAttribute('aria-hidden', 'true');
+    expect(ghost?.style.pointerEvents).toBe('none');
+    expect(ghost?.style.transform).toBe('translate3d(50px, 20px, 0)');
+
+    dispatchPointer('pointermove', 160, 330);
+    expect(ghost?.style.transform).toBe('translate3d(60px, 30px, 0)');
+    controller.cancel();
+  });
+
+  it('drops on the target under the pointer and removes the ghost', () => {
+    const controller = createDragController();
+    const onDrop = jest.fn();
+    const onDragOver = jest.fn();
+    controller.registerDropTarget(zone, { onDrop, onDragOver });
+
+    controller.press(source, press);
+    dispatchPointer('pointermove', 150, 300);
+    expect(onDragOver).toHaveBeenLastCalledWith(true);
+
+    dispatchPointer('pointerup', 150, 300);
+
+    expect(onDrop).toHaveBeenCalledTimes(1);
+    expect(onDragOver).toHaveBeenLastCalledWith(false);
+    expect(source.onDragEnd).toHaveBeenCalledTimes(1);
+    expect(document.body.querySelector('.ghost')).not.toBeInTheDocument();
+    expect(controller.isDragging()).toBe(false);
+  });
+
+  it('calls the drop before ending the drag', () => {
+    const controller = createDragController();
+    const calls: string[] = [];
+    controller.registerDropTarget(zone, { onDrop: () => calls.push('drop') });
+    controller.press({ ...source, onDragEnd: () => calls.push('end') }, press);
+    dispatchPointer('pointermove', 150, 300);
+    dispatchPointer('pointerup', 150, 300);
+
+    expect(calls).toEqual(['drop', 'end']);
+  });
+
+  it('does not drop outside registered targets', () => {
+    const controller = createDragController();
+    const onDrop = jest.fn();
+    const unregister = controller.registerDropTarget(zone, { onDrop });
+    unregister();
+
+    controller.press(source, press);
+    dispatchPointer('pointermove', 150, 300);
+    dispatchPointer('pointerup', 150, 300);
+
+    expect(onDrop).not.toHaveBeenCalled();
+    expect(source.onDragEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels on Escape without dropping', () => {
+    const controller = createDragController();
+    const onDrop = jest.fn();
+    controller.registerDropTarget(zone, { onDrop });
+    controller.press(source, press);
+    dispatchPointer('pointermove', 150, 300);
+
+    const escape = new KeyboardEvent('keydown', { key: 'Escape', bubbles: true, cancelable: true });
+    document.body.dispatchEvent(escape);
+    dispatchPointer('pointerup', 150, 300);
+
+    expect(escape.defaultPrevented).toBe(true);
+    expect(onDrop).not.toHaveBeenCalled();
+    expect(source.onDragEnd).toHaveBeenCalledTimes(1);
+    expect(document.body.querySelector('.ghost')).not.toBeInTheDocument();
+  });
+
+  it('cancels when the browser takes the pointer over', () => {
+    const controller = createDragController();
+    const onDrop = jest.fn();
+    controller.registerDropTarget(zone, { onDrop });
+    controller.press(source, press);
+    dispatchPointer('pointermove', 150, 300);
+    dispatchPointer('pointercancel', 150, 300);
+
+    expect(onDrop).not.toHaveBeenCalled();
+    expect(source.onDragEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('follows only the pointer that pressed the tile', () => {
+    const controller = createDragController();
+    controller.press(source, press);
+    dispatchPointer('pointermove', 150, 300, 2);
+    expect(source.onDragStart).not.toHaveBeenCalled();
+
+    dispatchPointer('pointerup', 150, 300, 2);
+    dispatchPointer('pointermove', 150, 300);
+    expect(source.onDragStart).toHaveBeenCalledTimes(1);
+    controller.cancel();
+  });
+
+  it('swallows the click that follows a drag', () => {
+    const controller = createDragController();
+    const onClick = jest.fn();
+    tile.addEventListener('click', onClick);
+
+    controller.press(source, press);
+    dispatchPointer('pointermove', 150, 300);
+    dispatchPointer('pointerup', 150, 300);
+    tile.click();
+    expect(onClick).not.toHaveBeenCalled();
+
+    // A plain press afterwards clicks as usual
+    controller.press(source, press);
+    dispatchPointer('pointerup', press.clientX, press.clientY);
+    tile.click();
+    expect(onClick).toHaveBeenCalledTimes(1);
+  });
+});
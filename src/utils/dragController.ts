@@ -0,0 +1,281 @@
+/**
+ * Drag controller
+ * Drives dragging a tile with Pointer Events, so mouse, pen and touch take the
+ * same path. A press turns into a drag once the pointer travels past
+ * DRAG_THRESHOLD_PX - shorter presses stay clicks. While dragging, a floating
+ * ghost of the tile follows the pointer, the page scrolls near the top and
+ * bottom edges, and releasing over a registered drop target drops the tile
+ * there. Escape cancels the drag.
+ */
+
+/** Distance the pointer travels before a press becomes a drag */
+export const DRAG_THRESHOLD_PX = 10;
+
+/** Height of the band along the viewport edges that scrolls the page */
+export const AUTO_SCROLL_EDGE_PX = 48;
+
+/** Scroll distance per frame with the pointer at the very edge */
+export const AUTO_SCROLL_MAX_SPEED_PX = 16;
+
+/** Attribute marking the elements drop targets are looked up by */
+export const DROP_TARGET_ATTRIBUTE = 'data-drop-zone';
+
+/**
+ * The tile being pressed
+ */
+export interface DragSource {
+  /** Pressed element - cloned into the drag ghost */
+  element: HTMLElement;
+  /** Class added to the ghost */
+  ghostClassName?: string;
+  /** The press became a drag */
+  onDragStart: () => void;
+  /** The drag ended, dropped or cancelled (called after the drop) */
+  onDragEnd: () => void;
+}
+
+/**
+ * A place tiles can be dropped on
+ */
+export interface DropTarget {
+  onDrop: () => void;
+  /** A dragged tile entered (true) or left (false) the target */
+  onDragOver?: (isOver: boolean) => void;
+}
+
+/**
+ * Pointer state of the event starting a press
+ */
+export type PointerPosition = Pick<PointerEvent, 'pointerId' | 'clientX' | 'clientY'>;
+
+export interface DragController {
+  /**
+   * Starts following a press on a tile
+   * Ignored while another press or drag is in progress
+   */
+  press: (source: DragSource, position: PointerPosition) => void;
+  /**
+   * Lets tiles be dropped on an element carrying DROP_TARGET_ATTRIBUTE
+   * @returns Function removing the target again
+   */
+  registerDropTarget: (element: Element, target: DropTarget) => () => void;
+  /** Ends the current drag without dropping */
+  cancel: () => void;
+  isDragging: () => boolean;
+}
+
+/**
+ * Auto-scroll speed for a pointer near the edges of a scrollable length
+ * @param position - Pointer coordinate along the axis
+ * @param size - Visible length along the axis
+ * @returns Pixels to scroll this frame: negative near the start, positive near
+ * the end, growing towards the edge, and 0 outside the edge bands
+ */
+export const getAutoScrollSpeed = (position: number, size: number): number => {
+  if (position < AUTO_SCROLL_EDGE_PX) {
+    const depth = Math.min((AUTO_SCROLL_EDGE_PX - position) / AUTO_SCROLL_EDGE_PX, 1);
+    return -Math.ceil(depth * AUTO_SCROLL_MAX_SPEED_PX);
+  }
+  if (position > size - AUTO_SCROLL_EDGE_PX) {
+    const depth = Math.min((position - (size - AUTO_SCROLL_EDGE_PX)) / AUTO_SCROLL_EDGE_PX, 1);
+    return Math.ceil(depth * AUTO_SCROLL_MAX_SPEED_PX);
+  }
+  return 0;
+};
+
+interface ActivePress {
+  source: DragSource;
+  pointerId: number;
+  startX: number;
+  startY: number;
+  /** Pointer position inside the tile, kept while the ghost moves */
+  offsetX: number;
+  offsetY: number;
+  clientX: number;
+  clientY: number;
+  ghost: HTMLElement | null;
+  over: DropTarget | null;
+  frame: number | null;
+}
+
+/**
+ * Creates a drag controller
+ * The game shares a single one (see dragController) - separate ones are for tests
+ */
+export const createDragController = (): DragController => {
+  const targets = new Map<Element, DropTarget>();
+  let active: ActivePress | null = null;
+
+  const findTarget = (x: number, y: number): DropTarget | null => {
+    const element = document.elementFromPoint(x, y)?.closest(`[${DROP_TARGET_ATTRIBUTE}]`);
+    return (element && targets.get(element)) ?? null;
+  };
+
+  const updateOver = (press: ActivePress) => {
+    const over = findTarget(press.clientX, press.clientY);
+    if (over !== press.over) {
+      press.over?.onDragOver?.(false);
+      over?.onDragOver?.(true);
+      press.over = over;
+    }
+  };
+
+  const moveGhost = (press: ActivePress) => {
+    if (press.ghost) {
+      const x = press.clientX - press.offsetX;
+      const y = press.clientY - press.offsetY;
+      press.ghost.style.transform = `translate3d(${x}px, ${y}px, 0)`;
+    }
+  };
+
+  const createGhost = (press: ActivePress): HTMLElement => {
+    const { element, ghostClassName } = press.source;
+    const rect = element.getBoundingClientRect();
+    const ghost = element.cloneNode(true) as HTMLElement;
+    ghost.removeAttribute('id');
+    ghost.removeAttribute('tabindex');
+    ghost.setAttribute('aria-hidden', 'true');
+    if (ghostClassName) {
+      ghost.classList.add(ghostClassName);
+    }
+    Object.assign(ghost.style, {
+      position: 'fixed',
+      left: '0',
+      top: '0',
+      margin: '0',
+      width: `${rect.width}px`,
+      height: `${rect.height}px`,
+      pointerEvents: 'none',
+      zIndex: '1100',
+    });
+    document.body.appendChild(ghost);
+    return ghost;
+  };
+
+  // Keep scrolling while the pointer rests near an edge
+  const scrollFrame = () => {
+    const press = active;
+    if (!press) return;
+    const speed = getAutoScrollSpeed(press.clientY, window.innerHeight);
+    if (speed !== 0) {
+      window.scrollBy(0, speed);
+      updateOver(press);
+    }
+    press.frame = window.requestAnimationFrame(scrollFrame);
+  };
+
+  // A drag ends with the pointer released - the click that may follow is not a tap
+  const swallowNextClick = () => {
+    const swallow = (e: MouseEvent) => {
+      e.stopPropagation();
+      e.preventDefault();
+    };
+    window.addEventListener('click', swallow, { capture: true, once: true });
+    window.setTimeout(() => window.removeEventListener('click', swallow, { capture: true }), 0);
+  };
+
+  const handlePointerMove = (e: PointerEvent) => {
+    const press = active;
+    if (!press || e.pointerId !== press.pointerId) return;
+    press.clientX = e.clientX;
+    press.clientY = e.clientY;
+
+    if (!press.ghost) {
+      const distance = Math.hypot(e.clientX - press.startX, e.clientY - press.startY);
+      if (distance <= DRAG_THRESHOLD_PX) return;
+      press.ghost = createGhost(press);
+      press.source.onDragStart();
+      press.frame = window.requestAnimationFrame(scrollFrame);
+    }
+
+    e.preventDefault();
+    moveGhost(press);
+    updateOver(press);
+  };
+
+  const finish = (drop: boolean) => {
+    const press = active;
+    if (!press) return;
+    active = null;
+    window.removeEventListener('pointermove', handlePointerMove);
+    window.removeEventListener('pointerup', handlePointerUp);
+    window.removeEventListener('pointercancel', handlePointerCancel);
+    window.removeEventListener('keydown', handleKeyDown, true);
+
+    if (!press.ghost) return;
+
+    if (press.frame !== null) {
+      window.cancelAnimationFrame(press.frame);
+    }
+    press.ghost.remove();
+    press.over?.onDragOver?.(false);
+    swallowNextClick();
+    if (drop) {
+      press.over?.onDrop();
+    }
+    press.source.onDragEnd();
+  };
+
+  function handlePointerUp(e: PointerEvent) {
+    if (active && e.pointerId === active.pointerId) {
+      finish(true);
+    }
+  }
+
+  function handlePointerCancel(e: PointerEvent) {
+    if (active && e.pointerId === active.pointerId) {
+      finish(false);
+    }
+  }
+
+  function handleKeyDown(e: KeyboardEvent) {
+    if (e.key === 'Escape' && active?.ghost) {
+      // Keep Escape from also reaching the focused element
+      e.preventDefault();
+      e.stopPropagation();
+      finish(false);
+    }
+  }
+
+  return {
+    press: (source, { pointerId, clientX, clientY }) => {
+      if (active) return;
+      const rect = source.element.getBoundingClientRect();
+      active = {
+        source,
+        pointerId,
+        startX: clientX,
+        startY: clientY,
+        offsetX: clientX - rect.left,
+        offsetY: clientY - rect.top,
+        clientX,
+        clientY,
+        ghost: null,
+        over: null,
+        frame: null,
+      };
+      window.addEventListener('pointermove', handlePointerMove);
+      window.addEventListener('pointerup', handlePointerUp);
+      window.addEventListener('pointercancel', handlePointerCancel);
+      window.addEventListener('keydown', handleKeyDown, true);
+    },
+    registerDropTarget: (element, target) => {
+      targets.set(element, target);
+      return () => {
+        if (targets.get(element) === target) {
+          targets.delete(element);
+        }
+        if (active?.over === target) {
+          active.over = null;
+        }
+      };
+    },
+    cancel: () => finish(false),
+    isDragging: () => !!active?.ghost,
+  };
+};
+
+/**
+ * The drag controller shared by every Word and DropZone
+ */
+export const dragController = createDragController();
@@ -0,0 +1,177 @@
+/**
+ * Tests for in-progress game persistence
+ */
+
+import {
+  GAME_STATE_SCHEMA_VERSION,
+  clearGameState,
+  deserializeGameState,
+  hasSavedGameState,
+  loadActivePuzzle,
+  loadGameState,
+  saveActivePuzzle,
+  saveGameState,
+  serializeGameState,
+} from './gameStatePersistence';
+import { GlobalWord, MultiProverbGameState, PuzzleData } from '../types';
+
+const puzzle: PuzzleData = {
+  version: '1',
+  language: 'en',
+  proverbs: [
+    { solution: 'Test proverb one here', culture: 'Test', meaning: 'Meaning one' },
+    { solution: 'Another test proverb here', culture: 'Test', meaning: 'Meaning two' },
+    { solution: 'Third test proverb here', culture: 'Test', meaning: 'Meaning three' },
+  ],
+};
+
+const createWords = (): GlobalWord[] =>
+  puzzle.proverbs.flatMap((proverb, proverbIndex) =>
+    proverb.solution.split(/\s+/).map((text, originalIndex) => ({
+      id: `${proverbIndex}-${originalIndex}`,
+      text,
+      sourceProverbIndex: proverbIndex,
+      originalIndex,
+      placement: null,
+      isLocked: false,
+      isFixedByLength: false,
+    }))
+  );
+
+const createState = (): MultiProverbGameState => {
+  const allWords = createWords();
+  allWords[1] = { ...allWords[1], placement: { proverbIndex: 2, positionIndex: 0 } };
+  return {
+    puzzleData: puzzle,
+    allWords,
+    proverbValidation: puzzle.proverbs.map(() => ({ isSolved: false, isValidated: false })),
+    isCompleted: false,
+    error: null,
+    usedHints: new Set([0, 2]),
+    wordHintsUsed: new Map([[2, 1]]),
+    totalHintsUsed: 3,
+    validationAttempts: 2,
+    hasFailedGame: false,
+    totalValidationAttempts: 1,
+    failedValidations: 1,
+    selectionState: { selectedWordId: null, selectedPlaceholder: null, autoFocusTarget: null },
+    history: { past: [], future: [] },
+    timer: { elapsedMs: 42000, runningSince: null, hasStarted: true },
+  };
+};
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('serializeGameState / deserializeGameState', () => {
+  it('should round-trip Set and Map fields through JSON', () => {
+    const state = createState();
+    const json = JSON.parse(JSON.stringify(serializeGameState(state)));
+    const restored = deserializeGameState(json, createWords());
+
+    expect(restored).not.toBeNull();
+    expect(restored!.usedHints).toEqual(new Set([0, 2]));
+    expect(restored!.wordHintsUsed).toEqual(new Map([[2, 1]]));
+    expect(restored!.allWords[1].placement).toEqual({ proverbIndex: 2, positionIndex: 0 });
+    expect(restored!.totalHintsUsed).toBe(3);
+    expect(restored!.validationAttempts).toBe(2);
+    expect(restored!.totalValidationAttempts).toBe(1);
+    expect(restored!.failedValidations).toBe(1);
+  });
+
+  it('should save running time and restore the timer paused', () => {
+    const state = {
+      ...createState(),
+      timer: { elapsedMs: 42000, runningSince: Date.now() - 8000, hasStarted: true },
+    };
+    const json = JSON.parse(JSON.stringify(serializeGameState(state)));
+    const restored = deserializeGameState(json, createWords());
+
+    expect(restored!.timer.runningSince).toBeNull();
+    expect(restored!.timer.hasStarted).toBe(true);
+    expect(restored!.timer.elapsedMs).toBeGreaterThanOrEqual(50000);
+  });
+
+  it('should restore saves made without a timer', () => {
+    const json = { ...serializeGameState(createState()), timer: undefined };
+    const restored = deserializeGameState(json, createWords());
+
+    expect(restored!.timer).toEqual({ elapsedMs: 0, runningSince: null, hasStarted: false });
+  });
+
+  it('should discard saves from another schema version', () => {
+    const json = { ...serializeGameState(createState()), schemaVersion: GAME_STATE_SCHEMA_VERSION + 1 };
+    expect(deserializeGameState(json, createWords())).toBeNull();
+  });
+
+  it('should discard saves whose words do not match the puzzle', () => {
+    const json = serializeGameState(createState());
+    const otherWords = createWords().map(word => ({ ...word, text: `${word.text}!` }));
+    expect(deserializeGameState(json, otherWords)).toBeNull();
+  });
+
+  it('should discard malformed data', () => {
+    expect(deserializeGameState(null, createWords())).toBeNull();
+    expect(deserializeGameState({ schemaVersion: GAME_STATE_SCHEMA_VERSION }, createWords())).toBeNull();
+  });
+});
+
+describe('saveGameState / loadGameState', () => {
+  it('should restore saved progress for the same puzzle', () => {
+    saveGameState(puzzle, createState());
+    expect(hasSavedGameState(puzzle)).toBe(true);
+
+    const restored = loadGameState(puzzle, createWords());
+    expect(restored?.usedHints).toEqual(new Set([0, 2]));
+  });
+
+  it('should return null for an unsaved puzzle', () => {
+    expect(loadGameState(puzzle, createWords())).toBeNull();
+  });
+
+  it('should remove stale saves when loading', () => {
+    saveGameState(puzzle, createState());
+    const stored = JSON.parse(localStorage.getItem('savedGames')!);
+    const id = Object.keys(stored)[0];
+    stored[id].schemaVersion = 0;
+    localStorage.setItem('savedGames', JSON.stringify(stored));
+
+    expect(loadGameState(puzzle, createWords())).toBeNull();
+    expect(hasSavedGameState(puzzle)).toBe(false);
+  });
+
+  it('should clear saved progress', () => {
+    saveGameState(puzzle, createState());
+    clearGameState(puzzle);
+    expect(hasSavedGameState(puzzle)).toBe(false);
+  });
+
+  it('should survive corrupt storage', () => {
+    localStorage.setItem('savedGames', '{not json');
+    expect(loadGameState(puzzle, createWords())).toBeNull();
+  });
+});
+
+describe('saveActivePuzzle / loadActivePuzzle', () => {
+  it('should resume an active puzzle that has unfinished progress', () => {
+    saveActivePuzzle(puzzle, 'seed-1');
+    saveGameState(puzzle, createState());
+    const active = loadActivePuzzle('en');
+    expect(active?.seed).toBe('seed-1');
+    expect(active?.puzzle.proverbs.map(p => p.solution)).toEqual(
+      puzzle.proverbs.map(p => p.solution)
+    );
+  });
+
+  it('should not resume a puzzle without saved progress', () => {
+    saveActivePuzzle(puzzle);
+    expect(loadActivePuzzle('en')).toBeNull();
+  });
+
+  it('should keep active puzzles per language', () => {
+    saveActivePuzzle(puzzle);
+    saveGameState(puzzle, createState());
+    expect(loadActivePuzzle('he')).toBeNull();
+  });
+});
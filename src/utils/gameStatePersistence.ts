@@ -0,0 +1,307 @@
+/**
+ * Persistence for in-progress games
+ * Serializes MultiProverbGameState to localStorage so a refresh or an
+ * accidental tab close does not lose the player's progress
+ */
+
+import {
+  GlobalWord,
+  LanguageCode,
+  MultiProverbGameState,
+  ProverbValidation,
+  PuzzleData,
+} from '../types';
+import { hashSeed } from './random';
+import { getElapsedMs } from './gameTimer';
+import { validatePuzzle } from './puzzleValidator';
+
+/**
+ * Bump whenever the serialized shape changes - older saves are discarded
+ */
+export const GAME_STATE_SCHEMA_VERSION = 1;
+
+/** localStorage key holding all saved games */
+const STORAGE_KEY = 'savedGames';
+
+/** localStorage key holding the random puzzle currently being played, per language */
+const ACTIVE_PUZZLES_KEY = 'activePuzzles';
+
+/** Maximum number of puzzles kept in storage (oldest are evicted first) */
+const MAX_SAVED_GAMES = 5;
+
+/**
+ * JSON-safe snapshot of the persistable parts of MultiProverbGameState
+ * Sets and Maps are stored as arrays and entry lists
+ */
+export interface SerializedGameState {
+  schemaVersion: number;
+  savedAt: number;
+  allWords: GlobalWord[];
+  proverbValidation: ProverbValidation[];
+  usedHints: number[];
+  wordHintsUsed: [number, number][];
+  totalHintsUsed: number;
+  validationAttempts: number;
+  totalValidationAttempts: number;
+  /** Failed checks - saves made before they were counted have none */
+  failedValidations?: number;
+  /** Solve time so far - saves made before the timer existed have none */
+  timer?: { elapsedMs: number; hasStarted: boolean };
+}
+
+/**
+ * Fields restored onto a freshly initialized game state
+ */
+export type RestoredGameState = Pick<
+  MultiProverbGameState,
+  | 'allWords'
+  | 'proverbValidation'
+  | 'usedHints'
+  | 'wordHintsUsed'
+  | 'totalHintsUsed'
+  | 'validationAttempts'
+  | 'totalValidationAttempts'
+  | 'failedValidations'
+  | 'timer'
+>;
+
+type SavedGames = Record<string, SerializedGameState>;
+
+/**
+ * A generated puzzle remembered so a refresh can resume it
+ */
+export interface ActivePuzzle {
+  puzzle: PuzzleData;
+  seed?: string;
+}
+
+/**
+ * Generate a stable fingerprint for puzzle data
+ * Used both for memoizing anchor selection and as the save slot key
+ */
+export const generatePuzzleCacheKey = (puzzleData: PuzzleData): string => {
+  return puzzleData.proverbs.map(p => `${p.solution}|${p.culture}`).join('::');
+};
+
+/**
+ * Hashes the puzzle fingerprint so storage keys stay short
+ */
+const toStorageId = (puzzleData: PuzzleData): string =>
+  hashSeed(generatePuzzleCacheKey(puzzleData)).toString(36);
+
+const readSavedGames = (): SavedGames => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) {
+      return {};
+    }
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+const writeSavedGames = (games: SavedGames): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(games));
+  } catch (error) {
+    // Storage full or disabled (e.g. private mode) - the game still works without persistence
+    // eslint-disable-next-line no-console
+    console.warn('Failed to save game progress:', error);
+  }
+};
+
+/**
+ * Converts game state into a JSON-safe snapshot
+ * @param state - Current game state
+ * @returns Serialized snapshot
+ */
+export const serializeGameState = (
+  state: MultiProverbGameState
+): SerializedGameState => ({
+  schemaVersion: GAME_STATE_SCHEMA_VERSION,
+  savedAt: Date.now(),
+  allWords: state.allWords,
+  proverbValidation: state.proverbValidation,
+  usedHints: Array.from(state.usedHints),
+  wordHintsUsed: Array.from(state.wordHintsUsed.entries()),
+  totalHintsUsed: state.totalHintsUsed,
+  validationAttempts: state.validationAttempts,
+  totalValidationAttempts: state.totalValidationAttempts,
+  failedValidations: state.failedValidations,
+  timer: {
+    elapsedMs: getElapsedMs(state.timer),
+    hasStarted: state.timer.hasStarted,
+  },
+});
+
+/**
+ * Converts a snapshot back into game state fields
+ * The snapshot is only accepted if it matches the schema version and
+ * describes exactly the same words as the freshly initialized puzzle
+ * @param data - Parsed snapshot (untrusted)
+ * @param initialWords - Words of the freshly initialized puzzle
+ * @returns Restored fields, or null if the snapshot is stale or corrupt
+ */
+export const deserializeGameState = (
+  data: unknown,
+  initialWords: GlobalWord[]
+): RestoredGameState | null => {
+  if (!data || typeof data !== 'object') {
+    return null;
+  }
+
+  const saved = data as Partial<SerializedGameState>;
+  if (saved.schemaVersion !== GAME_STATE_SCHEMA_VERSION) {
+    return null;
+  }
+
+  if (
+    !Array.isArray(saved.allWords) ||
+    !Array.isArray(saved.proverbValidation) ||
+    !Array.isArray(saved.usedHints) ||
+    !Array.isArray(saved.wordHintsUsed) ||
+    typeof saved.totalHintsUsed !== 'number' ||
+    typeof saved.validationAttempts !== 'number' ||
+    typeof saved.totalValidationAttempts !== 'number'
+  ) {
+    return null;
+  }
+
+  // The saved words must be the same words as the current puzzle
+  if (saved.allWords.length !== initialWords.length) {
+    return null;
+  }
+  const savedById = new Map(saved.allWords.map(word => [word.id, word]));
+  const wordsMatch = initialWords.every(word => {
+    const savedWord = savedById.get(word.id);
+    return (
+      savedWord !== undefined &&
+      savedWord.text === word.text &&
+      savedWord.sourceProverbIndex === word.sourceProverbIndex
+    );
+  });
+  if (!wordsMatch) {
+    return null;
+  }
+
+  return {
+    allWords: saved.allWords,
+    proverbValidation: saved.proverbValidation,
+    usedHints: new Set<number>(saved.usedHints),
+    wordHintsUsed: new Map<number, number>(saved.wordHintsUsed),
+    totalHintsUsed: saved.totalHintsUsed,
+    validationAttempts: saved.validationAttempts,
+    totalValidationAttempts: saved.totalValidationAttempts,
+    failedValidations: typeof saved.failedValidations === 'number' ? saved.failedValidations : 0,
+    // The timer resumes from the saved time once the game is back on screen
+    timer: {
+      elapsedMs: typeof saved.timer?.elapsedMs === 'number' ? saved.timer.elapsedMs : 0,
+      runningSince: null,
+      hasStarted: saved.timer?.hasStarted === true,
+    },
+  };
+};
+
+/**
+ * Saves game progress for a puzzle
+ * @param puzzleData - Puzzle being played
+ * @param state - Current game state
+ */
+export const saveGameState = (puzzleData: PuzzleData, state: MultiProverbGameState): void => {
+  const games = readSavedGames();
+  games[toStorageId(puzzleData)] = serializeGameState(state);
+
+  // Evict the oldest saves so storage doesn't grow without bound
+  const ids = Object.keys(games).sort((a, b) => games[b].savedAt - games[a].savedAt);
+  ids.slice(MAX_SAVED_GAMES).forEach(id => {
+    delete games[id];
+  });
+
+  writeSavedGames(games);
+};
+
+/**
+ * Checks whether a puzzle has saved progress
+ * @param puzzleData - Puzzle to look up
+ * @returns true if a save exists (it is validated when loaded)
+ */
+export const hasSavedGameState = (puzzleData: PuzzleData): boolean => {
+  return toStorageId(puzzleData) in readSavedGames();
+};
+
+/**
+ * Loads saved progress for a puzzle
+ * @param puzzleData - Puzzle being loaded
+ * @param initialWords - Words of the freshly initialized puzzle
+ * @returns Restored fields, or null if nothing valid was saved
+ */
+export const loadGameState = (
+  puzzleData: PuzzleData,
+  initialWords: GlobalWord[]
+): RestoredGameState | null => {
+  const games = readSavedGames();
+  const id = toStorageId(puzzleData);
+  if (!(id in games)) {
+    return null;
+  }
+
+  const restored = deserializeGameState(games[id], initialWords);
+  if (!restored) {
+    // Discard stale saves (old schema or a different puzzle)
+    delete games[id];
+    writeSavedGames(games);
+  }
+  return restored;
+};
+
+/**
+ * Removes saved progress for a puzzle (e.g. once the game is finished)
+ * @param puzzleData - Puzzle whose save should be dropped
+ */
+export const clearGameState = (puzzleData: PuzzleData): void => {
+  const games = readSavedGames();
+  const id = toStorageId(puzzleData);
+  if (id in games) {
+    delete games[id];
+    writeSavedGames(games);
+  }
+};
+
+/**
+ * Remembers the generated puzzle being played so a refresh can resume it
+ * @param puzzle - Generated puzzle
+ * @param seed - Seed used for anchors and pool order, if any
+ */
+export const saveActivePuzzle = (puzzle: PuzzleData, seed?: string): void => {
+  try {
+    const raw = localStorage.getItem(ACTIVE_PUZZLES_KEY);
+    const active: Partial<Record<LanguageCode, ActivePuzzle>> = raw ? JSON.parse(raw) : {};
+    active[puzzle.language] = { puzzle, seed };
+    localStorage.setItem(ACTIVE_PUZZLES_KEY, JSON.stringify(active));
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.warn('Failed to remember active puzzle:', error);
+  }
+};
+
+/**
+ * Returns the generated puzzle left unfinished in a language, if any
+ * @param language - Puzzle language
+ * @returns The puzzle and its seed, or null if there is nothing to resume
+ */
+export const loadActivePuzzle = (language: LanguageCode): ActivePuzzle | null => {
+  try {
+    const raw = localStorage.getItem(ACTIVE_PUZZLES_KEY);
+    const active: Partial<Record<LanguageCode, ActivePuzzle>> = raw ? JSON.parse(raw) : {};
+    const entry = active[language];
+    if (!entry || !validatePuzzle(entry.puzzle).isValid) {
+      return null;
+    }
+    // Only worth resuming while there is unfinished progress
+    return hasSavedGameState(entry.puzzle) ? entry : null;
+  } catch {
+    return null;
+  }
+};
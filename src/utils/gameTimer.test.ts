@@ -0,0 +1,44 @@
+/**
+ * Tests for solve timer utilities
+ */
+
+import {
+  createTimerState,
+  getElapsedMs,
+  pauseTimer,
+  resumeTimer,
+  startTimer,
+} from './gameTimer';
+
+describe('gameTimer', () => {
+  it('starts stopped at zero', () => {
+    const timer = createTimerState();
+    expect(timer.hasStarted).toBe(false);
+    expect(getElapsedMs(timer, 5000)).toBe(0);
+  });
+
+  it('only counts time while running', () => {
+    let timer = resumeTimer(startTimer(createTimerState()), 1000);
+    expect(getElapsedMs(timer, 4000)).toBe(3000);
+
+    timer = pauseTimer(timer, 4000);
+    expect(getElapsedMs(timer, 60000)).toBe(3000);
+
+    timer = resumeTimer(timer, 60000);
+    expect(getElapsedMs(timer, 62000)).toBe(5000);
+  });
+
+  it('returns the same object when nothing changes', () => {
+    const stopped = startTimer(createTimerState());
+    expect(pauseTimer(stopped, 1000)).toBe(stopped);
+    expect(startTimer(stopped)).toBe(stopped);
+
+    const running = resumeTimer(stopped, 1000);
+    expect(resumeTimer(running, 2000)).toBe(running);
+  });
+
+  it('never counts negative time', () => {
+    const timer = resumeTimer(createTimerState(), 5000);
+    expect(getElapsedMs(timer, 4000)).toBe(0);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Solve timer utilities
+ * The timer is stored as accumulated time plus the start of the current
+ * running segment, so state only changes when it starts, pauses or stops
+ */
+
+import { TimerState } from '../types';
+
+/**
+ * Creates a timer for a game that has not started yet
+ * @returns Stopped timer at zero
+ */
+export const createTimerState = (): TimerState => ({
+  elapsedMs: 0,
+  runningSince: null,
+  hasStarted: false,
+});
+
+/**
+ * Total time on the clock, including the current running segment
+ * @param timer - Timer state
+ * @param now - Current timestamp (defaults to Date.now())
+ * @returns Elapsed milliseconds
+ */
+export const getElapsedMs = (timer: TimerState, now: number = Date.now()): number => {
+  if (timer.runningSince === null) {
+    return timer.elapsedMs;
+  }
+  return timer.elapsedMs + Math.max(0, now - timer.runningSince);
+};
+
+/**
+ * Marks the game as started (the first move was made)
+ * @param timer - Timer state
+ * @returns Started timer (same object if already started)
+ */
+export const startTimer = (timer: TimerState): TimerState =>
+  timer.hasStarted ? timer : { ...timer, hasStarted: true };
+
+/**
+ * Starts a new running segment
+ * @param timer - Timer state
+ * @param now - Current timestamp (defaults to Date.now())
+ * @returns Running timer (same object if already running)
+ */
+export const resumeTimer = (timer: TimerState, now: number = Date.now()): TimerState =>
+  timer.runningSince !== null ? timer : { ...timer, runningSince: now };
+
+/**
+ * Folds the current running segment into the elapsed time
+ * @param timer - Timer state
+ * @param now - Current timestamp (defaults to Date.now())
+ * @returns Paused timer (same object if already paused)
+ */
+export const pauseTimer = (timer: TimerState, now: number = Date.now()): TimerState =>
+  timer.runningSince === null
+    ? timer
+    : { ...timer, elapsedMs: getElapsedMs(timer, now), runningSince: null };
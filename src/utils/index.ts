@@ -2,14 +2,78 @@
  * Central export point for utility functions
  */
 
+import { LanguageCode } from '../types';
+import { DEFAULT_LANGUAGE, isSupportedLanguage } from './languages';
+
 export {
   decodePuzzle,
+  decodeValidPuzzle,
   encodePuzzle,
-  validatePuzzle,
+  encodePuzzleV1,
+  PUZZLE_ENCODING_VERSION,
+  PuzzleDecodeError,
   getPuzzleFromURL,
+  getSeedFromURL,
   loadPuzzleFromURL,
 } from './puzzleLoader';
 
+export {
+  validatePuzzle,
+  validateProverb,
+  formatValidationIssue,
+  createProverbId,
+} from './puzzleValidator';
+export {
+  PUZZLE_SIZE_PRESETS,
+  PUZZLE_SIZES,
+  DEFAULT_PUZZLE_SIZE,
+  PUZZLE_LIMITS,
+  GRID_LAYOUT_MIN_PROVERBS,
+  isPuzzleSize,
+  getPuzzleSizePreference,
+  savePuzzleSizePreference,
+} from './puzzleSize';
+export type { PuzzleSize, PuzzleSizePreset } from './puzzleSize';
+export {
+  DIFFICULTY_LEVELS,
+  DIFFICULTY_LEVEL_NAMES,
+  DEFAULT_DIFFICULTY,
+  isDifficultyLevel,
+  getAnchorCount,
+  getMaxHintWords,
+  getDifficultyPreference,
+  saveDifficultyPreference,
+} from './difficulty';
+export type { DifficultyLevel, DifficultySettings, AnchorDensityRule } from './difficulty';
+export { OVERLAP_TARGETS, scoreProverbSet, selectProverbSet } from './puzzleGenerator';
+export { analyzeAmbiguity, fitsProverb } from './ambiguity';
+export type { AmbiguityReport, InterchangeableGroup } from './ambiguity';
+export { loadSeenProverbs, saveSeenProverbs, resetSeenProverbs } from './proverbRotation';
+export type { SeenProverbs } from './proverbRotation';
+export {
+  addToCollection,
+  filterCollection,
+  getCollectionCultures,
+  groupByCulture,
+  loadProverbCollection,
+} from './proverbCollection';
+export type { CollectedProverb, CollectionFilter, CultureGroup } from './proverbCollection';
+export {
+  REVIEW_INTERVALS_DAYS,
+  getDueProverbs,
+  loadPracticeQueue,
+  recordMissedProverbs,
+  recordPracticeResults,
+} from './practiceQueue';
+export type { PracticeItem, PracticeResult } from './practiceQueue';
+export type { ProverbCandidate, ProverbSetScore, ProverbSelectionOptions } from './puzzleGenerator';
+
+export type {
+  PuzzleValidationIssue,
+  PuzzleValidationResult,
+  ProverbValidationResult,
+} from './puzzleValidator';
+
 export {
   shuffleArray,
   initializeWordPositions,
@@ -19,18 +83,78 @@ export {
   getAvailableWords,
   getPlacedWords,
   resetWordPositions,
+  countWordsInSolution,
 } from './wordUtils';
 
+export {
+  tokenizeSolution,
+  getSolutionWords,
+  normalizeWord,
+  wordsMatch,
+  matchesSolution,
+} from './tokenizer';
+export type { SolutionToken } from './tokenizer';
+
+export { createSeededRandom, hashSeed } from './random';
+export type { RandomSource } from './random';
+
+export {
+  getDailyDateKey,
+  getDailySeed,
+  isDailyDateAvailable,
+  isValidDailyDateKey,
+} from './dailyPuzzle';
+
+export {
+  applyGameResult,
+  createEmptyStatistics,
+  getAverageSolveTime,
+  getWinRate,
+  isPerfectGame,
+  loadPlayerStatistics,
+  recordGameResult,
+} from './playerStatistics';
+export type { GameResult, PlayerStatistics } from './playerStatistics';
+
+export { formatDuration } from './timeFormat';
+
+export {
+  THEME_PREFERENCES,
+  DEFAULT_THEME_PREFERENCE,
+  isThemePreference,
+  getThemePreference,
+  saveThemePreference,
+  resolveTheme,
+  applyTheme,
+  initTheme,
+} from './theme';
+export type { Theme, ThemePreference } from './theme';
+
 export { getTranslations } from './translations';
-export type { LanguageCode } from './translations';
+export type { LanguageCode, Translations } from './translations';
+
+export {
+  LANGUAGES,
+  DEFAULT_LANGUAGE,
+  SUPPORTED_LANGUAGES,
+  isSupportedLanguage,
+  getLanguageDirection,
+  isRTLLanguage,
+} from './languages';
+export type { LanguageInfo, TextDirection } from './languages';
 
 export { loadRandomHebrewPuzzle, getRandomPuzzleNumber } from './randomPuzzleLoader';
-export { generateRandomPuzzleFromCSV, hasMorePuzzles, getProverbCount } from './csvPuzzleLoader';
+export {
+  generateRandomPuzzleFromCSV,
+  generatePracticePuzzleFromCSV,
+  hasMorePuzzles,
+  getProverbCount,
+} from './csvPuzzleLoader';
 
 /**
  * Generate URL with language parameter
  */
-export const generateLanguageURL = (language: 'en' | 'he', baseURL?: string): string => {
+export const generateLanguageURL = (language: LanguageCode, baseURL?: string): string => {
   const url = new URL(baseURL || window.location.href);
   url.searchParams.set('lang', language);
   return url.toString();
@@ -39,20 +163,20 @@ export const generateLanguageURL = (language: 'en' | 'he', baseURL?: string): st
 /**
  * Get current language from URL parameters, localStorage, or default
  */
-export const getCurrentLanguagePreference = (): 'en' | 'he' => {
+export const getCurrentLanguagePreference = (): LanguageCode => {
   // Check URL parameters first
   const params = new URLSearchParams(window.location.search);
   const urlLanguage = params.get('lang') || params.get('language');
-  if (urlLanguage === 'en' || urlLanguage === 'he') {
+  if (isSupportedLanguage(urlLanguage)) {
     return urlLanguage;
   }
 
   // Check localStorage
   const savedLanguage = localStorage.getItem('preferredLanguage');
-  if (savedLanguage === 'en' || savedLanguage === 'he') {
+  if (isSupportedLanguage(savedLanguage)) {
     return savedLanguage;
   }
 
   // Default to English
-  return 'en';
+  return DEFAULT_LANGUAGE;
 };
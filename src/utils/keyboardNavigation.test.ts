@@ -0,0 +1,152 @@
+/**
+ * Tests for keyboard navigation helpers
+ */
+
+import { GlobalWord } from '../types';
+import {
+  filterPoolWords,
+  findPreviousPlacedWord,
+  getNavigationDirection,
+  getPreferredPoolIndex,
+  isFilterKey,
+  movePoolIndex,
+  moveSlot,
+} from './keyboardNavigation';
+
+const word = (
+  id: string,
+  text: string,
+  placement: GlobalWord['placement'] = null,
+  isLocked = false
+): GlobalWord => ({
+  id,
+  text,
+  sourceProverbIndex: 0,
+  originalIndex: 0,
+  placement,
+  isLocked,
+  isFixedByLength: false,
+});
+
+describe('getNavigationDirection', () => {
+  it('follows reading order for left and right', () => {
+    expect(getNavigationDirection('ArrowRight')).toBe('next');
+    expect(getNavigationDirection('ArrowLeft')).toBe('previous');
+    expect(getNavigationDirection('ArrowRight', true)).toBe('previous');
+    expect(getNavigationDirection('ArrowLeft', true)).toBe('next');
+  });
+
+  it('maps vertical and edge keys and ignores the rest', () => {
+    expect(getNavigationDirection('ArrowUp')).toBe('up');
+    expect(getNavigationDirection('ArrowDown')).toBe('down');
+    expect(getNavigationDirection('Home')).toBe('first');
+    expect(getNavigationDirection('End')).toBe('last');
+    expect(getNavigationDirection('a')).toBeNull();
+  });
+});
+
+describe('moveSlot', () => {
+  const slotCounts = [3, 5, 2];
+
+  it('continues into the neighbouring proverb at either end', () => {
+    expect(moveSlot(slotCounts, { proverbIndex: 0, positionIndex: 2 }, 'next')).toEqual({
+      proverbIndex: 1,
+      positionIndex: 0,
+    });
+    expect(moveSlot(slotCounts, { proverbIndex: 1, positionIndex: 0 }, 'previous')).toEqual({
+      proverbIndex: 0,
+      positionIndex: 2,
+    });
+  });
+
+  it('stays put at the edges of the board', () => {
+    const first = { proverbIndex: 0, positionIndex: 0 };
+    const last = { proverbIndex: 2, positionIndex: 1 };
+    expect(moveSlot(slotCounts, first, 'previous')).toBe(first);
+    expect(moveSlot(slotCounts, first, 'up')).toBe(first);
+    expect(moveSlot(slotCounts, last, 'next')).toBe(last);
+  });
+
+  it('keeps the position across proverbs as far as possible', () => {
+    expect(moveSlot(slotCounts, { proverbIndex: 1, positionIndex: 4 }, 'up')).toEqual({
+      proverbIndex: 0,
+      positionIndex: 2,
+    });
+    expect(moveSlot(slotCounts, { proverbIndex: 1, positionIndex: 4 }, 'down')).toEqual({
+      proverbIndex: 2,
+      positionIndex: 1,
+    });
+  });
+
+  it('leaves the board when moving down from the last proverb', () => {
+    expect(moveSlot(slotCounts, { proverbIndex: 2, positionIndex: 0 }, 'down')).toBeNull();
+  });
+
+  it('jumps to the ends of the proverb', () => {
+    expect(moveSlot(slotCounts, { proverbIndex: 1, positionIndex: 2 }, 'first')).toEqual({
+      proverbIndex: 1,
+      positionIndex: 0,
+    });
+    expect(moveSlot(slotCounts, { proverbIndex: 1, positionIndex: 2 }, 'last')).toEqual({
+      proverbIndex: 1,
+      positionIndex: 4,
+    });
+  });
+});
+
+describe('movePoolIndex', () => {
+  it('moves within the pool without wrapping', () => {
+    expect(movePoolIndex(4, 0, 'previous')).toBe(0);
+    expect(movePoolIndex(4, 1, 'next')).toBe(2);
+    expect(movePoolIndex(4, 3, 'next')).toBe(3);
+    expect(movePoolIndex(4, 2, 'first')).toBe(0);
+    expect(movePoolIndex(4, 0, 'last')).toBe(3);
+    expect(movePoolIndex(4, 2, 'up')).toBe(2);
+  });
+});
+
+describe('pool filtering', () => {
+  const pool = [word('a', 'Words'), word('b', 'waters,'), word('c', 'worm'), word('d', 'בַּיִת')];
+
+  it('treats single printable characters as typing', () => {
+    const key = (k: string, mods = {}) => ({ key: k, ctrlKey: false, metaKey: false, altKey: false, ...mods });
+    expect(isFilterKey(key('w'))).toBe(true);
+    expect(isFilterKey(key('ש'))).toBe(true);
+    expect(isFilterKey(key(' '))).toBe(false);
+    expect(isFilterKey(key('/'))).toBe(false);
+    expect(isFilterKey(key('Enter'))).toBe(false);
+    expect(isFilterKey(key('z', { ctrlKey: true }))).toBe(false);
+  });
+
+  it('keeps tiles starting with the typed letters, ignoring case, punctuation and niqqud', () => {
+    expect(filterPoolWords(pool, 'W').map(w => w.id)).toEqual(['a', 'b', 'c']);
+    expect(filterPoolWords(pool, 'wa').map(w => w.id)).toEqual(['b']);
+    expect(filterPoolWords(pool, 'בי').map(w => w.id)).toEqual(['d']);
+    expect(filterPoolWords(pool, '')).toBe(pool);
+  });
+
+  it('prefers the tile spelling exactly the typed word', () => {
+    const tiles = [word('a', 'worms'), word('b', 'worm')];
+    expect(getPreferredPoolIndex(tiles, 'worm')).toBe(1);
+    expect(getPreferredPoolIndex(tiles, 'wor')).toBe(0);
+  });
+});
+
+describe('findPreviousPlacedWord', () => {
+  const words = [
+    word('a', 'Still', { proverbIndex: 0, positionIndex: 0 }, true),
+    word('b', 'waters', { proverbIndex: 0, positionIndex: 1 }),
+    word('c', 'deep', { proverbIndex: 1, positionIndex: 0 }),
+    word('d', 'run'),
+  ];
+
+  it('finds the last unlocked word before the slot', () => {
+    expect(findPreviousPlacedWord(words, { proverbIndex: 1, positionIndex: 0 })?.id).toBe('b');
+    expect(findPreviousPlacedWord(words, { proverbIndex: 1, positionIndex: 2 })?.id).toBe('c');
+    expect(findPreviousPlacedWord(words, null)?.id).toBe('c');
+  });
+
+  it('never takes back locked words', () => {
+    expect(findPreviousPlacedWord(words, { proverbIndex: 0, positionIndex: 1 })).toBeNull();
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Keyboard navigation
+ * Pure helpers behind keyboard-only play: arrow keys move a roving focus
+ * across the slots of the board, typed letters narrow the word pool down to
+ * matching tiles and Backspace takes back the last placed word.
+ */
+
+import { GlobalWord } from '../types';
+import { normalizeWord } from './tokenizer';
+
+/**
+ * A slot on the board
+ */
+export interface SlotPosition {
+  proverbIndex: number;
+  positionIndex: number;
+}
+
+/**
+ * Where a navigation key moves the focus
+ * previous/next follow reading order, so they are mirrored for RTL languages
+ */
+export type NavigationDirection = 'previous' | 'next' | 'up' | 'down' | 'first' | 'last';
+
+/**
+ * Key that jumps from the board to the word pool
+ */
+export const POOL_JUMP_KEY = '/';
+
+/**
+ * Maps a key to a navigation direction
+ * @param key - KeyboardEvent.key
+ * @param isRTL - Whether the board is laid out right to left
+ * @returns The direction, or null for keys that don't navigate
+ */
+export const getNavigationDirection = (key: string, isRTL = false): NavigationDirection | null => {
+  switch (key) {
+    case 'ArrowLeft':
+      return isRTL ? 'next' : 'previous';
+    case 'ArrowRight':
+      return isRTL ? 'previous' : 'next';
+    case 'ArrowUp':
+      return 'up';
+    case 'ArrowDown':
+      return 'down';
+    case 'Home':
+      return 'first';
+    case 'End':
+      return 'last';
+    default:
+      return null;
+  }
+};
+
+/**
+ * Moves between slots of the board
+ * previous/next continue into the neighbouring proverb at either end; up/down
+ * keep the position as far as the other proverb is long
+ * @param slotCounts - Number of slots in each proverb
+ * @param current - Slot that has the focus
+ * @param direction - Where to move
+ * @returns The slot to focus (current at the edges), or null when moving down
+ * from the last proverb - the focus leaves the board for the word pool
+ */
+export const moveSlot = (
+  slotCounts: number[],
+  current: SlotPosition,
+  direction: NavigationDirection
+): SlotPosition | null => {
+  const { proverbIndex, positionIndex } = current;
+  const lastProverb = slotCounts.length - 1;
+
+  switch (direction) {
+    case 'previous':
+      if (positionIndex > 0) {
+        return { proverbIndex, positionIndex: positionIndex - 1 };
+      }
+      return proverbIndex > 0
+        ? { proverbIndex: proverbIndex - 1, positionIndex: slotCounts[proverbIndex - 1] - 1 }
+        : current;
+    case 'next':
+      if (positionIndex < slotCounts[proverbIndex] - 1) {
+        return { proverbIndex, positionIndex: positionIndex + 1 };
+      }
+      return proverbIndex < lastProverb ? { proverbIndex: proverbIndex + 1, positionIndex: 0 } : current;
+    case 'up':
+      return proverbIndex > 0
+        ? {
+            proverbIndex: proverbIndex - 1,
+            positionIndex: Math.min(positionIndex, slotCounts[proverbIndex - 1] - 1),
+          }
+        : current;
+    case 'down':
+      return proverbIndex < lastProverb
+        ? {
+            proverbIndex: proverbIndex + 1,
+            positionIndex: Math.min(positionIndex, slotCounts[proverbIndex + 1] - 1),
+          }
+        : null;
+    case 'first':
+      return { proverbIndex, positionIndex: 0 };
+    case 'last':
+      return { proverbIndex, positionIndex: slotCounts[proverbIndex] - 1 };
+  }
+};
+
+/**
+ * Moves between tiles of the word pool (a single row in reading order)
+ * @param count - Number of tiles shown
+ * @param index - Tile that has the focus
+ * @param direction - Where to move (up/down leave the index unchanged)
+ * @returns The tile index to focus, kept within the pool
+ */
+export const movePoolIndex = (count: number, index: number, direction: NavigationDirection): number => {
+  switch (direction) {
+    case 'previous':
+      return Math.max(index - 1, 0);
+    case 'next':
+      return Math.min(index + 1, count - 1);
+    case 'first':
+      return 0;
+    case 'last':
+      return count - 1;
+    default:
+      return index;
+  }
+};
+
+/**
+ * Checks whether a key press types a character for the pool filter
+ * @param event - Key and modifier state of the key press
+ * @returns true for single printable characters without Ctrl, Cmd or Alt
+ */
+export const isFilterKey = (
+  event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey'>
+): boolean =>
+  event.key.length === 1 &&
+  event.key !== ' ' &&
+  event.key !== POOL_JUMP_KEY &&
+  !event.ctrlKey &&
+  !event.metaKey &&
+  !event.altKey;
+
+/**
+ * Keeps the tiles whose word starts with the typed text
+ * Compared like validation compares words (case, punctuation and niqqud ignored)
+ * @param words - Tiles in pool order
+ * @param filter - Typed text
+ * @returns Matching tiles in pool order (all tiles for an empty filter)
+ */
+export const filterPoolWords = <T extends Pick<GlobalWord, 'text'>>(words: T[], filter: string): T[] => {
+  const prefix = normalizeWord(filter);
+  return prefix ? words.filter(word => normalizeWord(word.text).startsWith(prefix)) : words;
+};
+
+/**
+ * Tile that should get the focus after typing
+ * @param words - Tiles left by the filter
+ * @param filter - Typed text
+ * @returns Index of the first tile spelling exactly the typed word, otherwise 0
+ */
+export const getPreferredPoolIndex = (words: Array<Pick<GlobalWord, 'text'>>, filter: string): number => {
+  const typed = normalizeWord(filter);
+  return Math.max(
+    words.findIndex(word => normalizeWord(word.text) === typed),
+    0
+  );
+};
+
+/**
+ * Finds the word Backspace takes back: the last placed, unlocked word before a slot
+ * @param words - Every tile of the puzzle
+ * @param before - Slot the next word would go to (null = after the last slot)
+ * @returns The word, or null if nothing before the slot can be removed
+ */
+export const findPreviousPlacedWord = (
+  words: GlobalWord[],
+  before: SlotPosition | null
+): GlobalWord | null => {
+  const isBefore = ({ proverbIndex, positionIndex }: SlotPosition) =>
+    !before ||
+    proverbIndex < before.proverbIndex ||
+    (proverbIndex === before.proverbIndex && positionIndex < before.positionIndex);
+
+  return words.reduce<GlobalWord | null>((last, word) => {
+    if (!word.placement || word.isLocked || !isBefore(word.placement)) {
+      return last;
+    }
+    if (
+      !last?.placement ||
+      word.placement.proverbIndex > last.placement.proverbIndex ||
+      (word.placement.proverbIndex === last.placement.proverbIndex &&
+        word.placement.positionIndex > last.placement.positionIndex)
+    ) {
+      return word;
+    }
+    return last;
+  }, null);
+};
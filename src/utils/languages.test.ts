@@ -0,0 +1,45 @@
+/**
+ * Tests for the language registry
+ */
+
+import {
+  LANGUAGES,
+  SUPPORTED_LANGUAGES,
+  getLanguageDirection,
+  isRTLLanguage,
+  isSupportedLanguage,
+} from './languages';
+import { getTranslations } from './translations';
+
+describe('language registry', () => {
+  it('lists every registered language', () => {
+    expect(SUPPORTED_LANGUAGES).toEqual(['en', 'he', 'ar', 'es', 'fr', 'ru', 'yi']);
+    SUPPORTED_LANGUAGES.forEach(code => {
+      expect(LANGUAGES[code].code).toBe(code);
+    });
+  });
+
+  it('recognizes only registered codes', () => {
+    expect(isSupportedLanguage('fr')).toBe(true);
+    expect(isSupportedLanguage('de')).toBe(false);
+    expect(isSupportedLanguage('toString')).toBe(false);
+    expect(isSupportedLanguage(null)).toBe(false);
+  });
+
+  it('reports the writing direction', () => {
+    expect(getLanguageDirection('en')).toBe('ltr');
+    expect(getLanguageDirection('ar')).toBe('rtl');
+    expect(isRTLLanguage('he')).toBe(true);
+    expect(isRTLLanguage('yi')).toBe(true);
+    expect(isRTLLanguage('ru')).toBe(false);
+  });
+
+  it('has a complete translation bundle for every language', () => {
+    const englishKeys = Object.keys(getTranslations('en')).sort();
+    SUPPORTED_LANGUAGES.forEach(code => {
+      const t = getTranslations(code);
+      expect(Object.keys(t).sort()).toEqual(englishKeys);
+      expect(Object.keys(t.languageNames).sort()).toEqual([...SUPPORTED_LANGUAGES].sort());
+    });
+  });
+});
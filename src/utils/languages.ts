@@ -0,0 +1,71 @@
+/**
+ * Language registry
+ * Single source of truth for the languages puzzles can be played in.
+ * Adding a language means registering it here, adding its translation bundle
+ * and dropping a `<code>-proverbs.csv` file into the public directory.
+ */
+
+import { LanguageCode } from '../types';
+
+export type TextDirection = 'ltr' | 'rtl';
+
+/**
+ * Metadata for a registered language
+ */
+export interface LanguageInfo {
+  code: LanguageCode;
+  /** English name of the language */
+  name: string;
+  /** Name of the language in the language itself */
+  nativeName: string;
+  /** Writing direction */
+  direction: TextDirection;
+}
+
+/**
+ * All registered languages, in the order they are listed to players
+ */
+export const LANGUAGES: Record<LanguageCode, LanguageInfo> = {
+  en: { code: 'en', name: 'English', nativeName: 'English', direction: 'ltr' },
+  he: { code: 'he', name: 'Hebrew', nativeName: 'עברית', direction: 'rtl' },
+  ar: { code: 'ar', name: 'Arabic', nativeName: 'العربية', direction: 'rtl' },
+  es: { code: 'es', name: 'Spanish', nativeName: 'Español', direction: 'ltr' },
+  fr: { code: 'fr', name: 'French', nativeName: 'Français', direction: 'ltr' },
+  ru: { code: 'ru', name: 'Russian', nativeName: 'Русский', direction: 'ltr' },
+  yi: { code: 'yi', name: 'Yiddish', nativeName: 'ייִדיש', direction: 'rtl' },
+};
+
+/** Language used when no preference is known */
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+/**
+ * Codes of all registered languages
+ */
+export const SUPPORTED_LANGUAGES = Object.keys(LANGUAGES) as LanguageCode[];
+
+/**
+ * Checks whether a value is a registered language code
+ * @param value - Candidate code (e.g. from the URL or localStorage)
+ * @returns true if puzzles can be played in this language
+ */
+export const isSupportedLanguage = (value: unknown): value is LanguageCode => {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LANGUAGES, value);
+};
+
+/**
+ * Writing direction of a language
+ * @param language - Language code
+ * @returns 'rtl' or 'ltr'
+ */
+export const getLanguageDirection = (language: LanguageCode): TextDirection => {
+  return LANGUAGES[language]?.direction ?? 'ltr';
+};
+
+/**
+ * Checks whether a language is written right to left
+ * @param language - Language code
+ * @returns true for RTL languages such as Hebrew and Arabic
+ */
+export const isRTLLanguage = (language: LanguageCode): boolean => {
+  return getLanguageDirection(language) === 'rtl';
+};
@@ -0,0 +1,174 @@
+/**
+ * Tests for lifetime player statistics
+ */
+
+import {
+  PLAYER_STATISTICS_SCHEMA_VERSION,
+  applyGameResult,
+  createEmptyStatistics,
+  getAverageSolveTime,
+  getWinRate,
+  isPerfectGame,
+  loadPlayerStatistics,
+  recordGameResult,
+  GameResult,
+} from './playerStatistics';
+
+const win = (overrides: Partial<GameResult> = {}): GameResult => ({
+  won: true,
+  hintsUsed: 0,
+  validationAttempts: 1,
+  perfectScore: true,
+  ...overrides,
+});
+
+const loss = (overrides: Partial<GameResult> = {}): GameResult => ({
+  won: false,
+  hintsUsed: 2,
+  validationAttempts: 3,
+  perfectScore: false,
+  ...overrides,
+});
+
+describe('playerStatistics', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('applyGameResult', () => {
+    it('counts wins, perfect games and streaks', () => {
+      let stats = createEmptyStatistics();
+      stats = applyGameResult(stats, win());
+      stats = applyGameResult(stats, win({ perfectScore: false, hintsUsed: 1 }));
+
+      expect(stats.gamesPlayed).toBe(2);
+      expect(stats.gamesWon).toBe(2);
+      expect(stats.perfectGames).toBe(1);
+      expect(stats.currentStreak).toBe(2);
+      expect(stats.longestStreak).toBe(2);
+    });
+
+    it('resets the current streak on a loss but keeps the longest streak', () => {
+      let stats = createEmptyStatistics();
+      stats = applyGameResult(stats, win());
+      stats = applyGameResult(stats, win());
+      stats = applyGameResult(stats, loss());
+      stats = applyGameResult(stats, win());
+
+      expect(stats.currentStreak).toBe(1);
+      expect(stats.longestStreak).toBe(2);
+      expect(stats.gamesWon).toBe(3);
+    });
+
+    it('buckets hint usage with an open-ended last bucket', () => {
+      let stats = createEmptyStatistics();
+      stats = applyGameResult(stats, win({ hintsUsed: 0 }));
+      stats = applyGameResult(stats, loss({ hintsUsed: 2 }));
+      stats = applyGameResult(stats, win({ hintsUsed: 12 }));
+
+      expect(stats.hintDistribution).toEqual([1, 0, 1, 0, 0, 1]);
+    });
+
+    it('averages solve time over won games that reported one', () => {
+      let stats = createEmptyStatistics();
+      stats = applyGameResult(stats, win({ timeToComplete: 60 }));
+      stats = applyGameResult(stats, win({ timeToComplete: 120 }));
+      stats = applyGameResult(stats, win());
+      stats = applyGameResult(stats, loss({ timeToComplete: 600 }));
+
+      expect(getAverageSolveTime(stats)).toBe(90);
+    });
+
+    it('counts games and wins per difficulty', () => {
+      let stats = createEmptyStatistics();
+      stats = applyGameResult(stats, win({ difficulty: 'challenging' }));
+      stats = applyGameResult(stats, loss({ difficulty: 'challenging' }));
+      stats = applyGameResult(stats, win());
+
+      expect(stats.difficultyGames).toEqual({ relaxed: 0, classic: 1, challenging: 2 });
+      expect(stats.difficultyWins).toEqual({ relaxed: 0, classic: 1, challenging: 1 });
+    });
+
+    it('does not modify the input statistics', () => {
+      const stats = createEmptyStatistics();
+      applyGameResult(stats, win());
+      expect(stats).toEqual(createEmptyStatistics());
+    });
+  });
+
+  describe('getWinRate', () => {
+    it('returns 0 when no games were played', () => {
+      expect(getWinRate(createEmptyStatistics())).toBe(0);
+    });
+
+    it('returns a rounded percentage', () => {
+      let stats = createEmptyStatistics();
+      stats = applyGameResult(stats, win());
+      stats = applyGameResult(stats, win());
+      stats = applyGameResult(stats, loss());
+      expect(getWinRate(stats)).toBe(67);
+    });
+  });
+
+  describe('isPerfectGame', () => {
+    const finished = { isCompleted: true, totalHintsUsed: 0, failedValidations: 0 };
+
+    it('needs a solved board without hints or failed checks', () => {
+      expect(isPerfectGame(finished)).toBe(true);
+      expect(isPerfectGame({ ...finished, isCompleted: false })).toBe(false);
+      expect(isPerfectGame({ ...finished, totalHintsUsed: 1 })).toBe(false);
+      expect(isPerfectGame({ ...finished, failedValidations: 1 })).toBe(false);
+    });
+  });
+
+  describe('recordGameResult', () => {
+    it('persists statistics across loads', () => {
+      recordGameResult('en', win());
+      recordGameResult('en', loss());
+
+      const stats = loadPlayerStatistics('en');
+      expect(stats.gamesPlayed).toBe(2);
+      expect(stats.gamesWon).toBe(1);
+    });
+
+    it('keeps separate statistics per language', () => {
+      recordGameResult('en', win());
+      recordGameResult('he', loss());
+
+      expect(loadPlayerStatistics('en').gamesWon).toBe(1);
+      expect(loadPlayerStatistics('he').gamesWon).toBe(0);
+      expect(loadPlayerStatistics('he').gamesPlayed).toBe(1);
+    });
+
+    it('ignores statistics stored with another schema version', () => {
+      localStorage.setItem(
+        'playerStatistics',
+        JSON.stringify({
+          schemaVersion: PLAYER_STATISTICS_SCHEMA_VERSION + 1,
+          languages: { en: { ...createEmptyStatistics(), gamesPlayed: 7 } },
+        })
+      );
+
+      expect(loadPlayerStatistics('en')).toEqual(createEmptyStatistics());
+    });
+
+    it('fills in difficulty counts missing from older statistics', () => {
+      localStorage.setItem(
+        'playerStatistics',
+        JSON.stringify({
+          schemaVersion: PLAYER_STATISTICS_SCHEMA_VERSION,
+          languages: { en: { gamesPlayed: 4, hintDistribution: [4, 0, 0, 0, 0, 0] } },
+        })
+      );
+
+      const stats = loadPlayerStatistics('en');
+      expect(stats.gamesPlayed).toBe(4);
+      expect(stats.difficultyGames).toEqual({ relaxed: 0, classic: 0, challenging: 0 });
+    });
+
+    it('ignores corrupt storage', () => {
+      localStorage.setItem('playerStatistics', '{not json');
+      expect(loadPlayerStatistics('en')).toEqual(createEmptyStatistics());
+    });
+  });
+});
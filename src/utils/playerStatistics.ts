@@ -0,0 +1,222 @@
+/**
+ * Lifetime player statistics
+ * Finished games are aggregated per language in localStorage so players can
+ * follow their win rate and streaks across sessions
+ */
+
+import { GameStatistics, LanguageCode, MultiProverbGameState } from '../types';
+import { DEFAULT_DIFFICULTY, DIFFICULTY_LEVEL_NAMES, DifficultyLevel } from './difficulty';
+
+/** localStorage key holding statistics for every language */
+const STORAGE_KEY = 'playerStatistics';
+
+/**
+ * Bump whenever the stored shape changes - older statistics are discarded
+ */
+export const PLAYER_STATISTICS_SCHEMA_VERSION = 1;
+
+/**
+ * Number of buckets in the hint distribution
+ * Buckets are 0, 1, 2, ... hints; the last bucket also counts anything above it
+ */
+export const HINT_DISTRIBUTION_BUCKETS = 6;
+
+/**
+ * Aggregated statistics for one language
+ */
+export interface PlayerStatistics {
+  gamesPlayed: number;
+  gamesWon: number;
+  /** Games won on the first attempt without any hints */
+  perfectGames: number;
+  /** Consecutive wins up to the most recent game */
+  currentStreak: number;
+  longestStreak: number;
+  /** Sum of solve times (seconds) over won games that reported a time */
+  totalSolveTime: number;
+  /** Number of won games that reported a solve time */
+  timedGames: number;
+  /** Finished games by hints used (index = hint count, last bucket = that many or more) */
+  hintDistribution: number[];
+  /** Finished games by difficulty level */
+  difficultyGames: Record<DifficultyLevel, number>;
+  /** Won games by difficulty level */
+  difficultyWins: Record<DifficultyLevel, number>;
+}
+
+/**
+ * Result of a single finished game
+ */
+export interface GameResult extends GameStatistics {
+  /** true if every proverb was solved, false if attempts ran out */
+  won: boolean;
+  /** Difficulty the game was played at (games from before difficulties count as the default) */
+  difficulty?: DifficultyLevel;
+}
+
+type StoredStatistics = {
+  schemaVersion: number;
+  languages: Partial<Record<LanguageCode, PlayerStatistics>>;
+};
+
+const createDifficultyCounts = (): Record<DifficultyLevel, number> =>
+  DIFFICULTY_LEVEL_NAMES.reduce(
+    (counts, level) => ({ ...counts, [level]: 0 }),
+    {} as Record<DifficultyLevel, number>
+  );
+
+/**
+ * Creates statistics for a player who has not finished any game yet
+ * @returns Zeroed statistics
+ */
+export const createEmptyStatistics = (): PlayerStatistics => ({
+  gamesPlayed: 0,
+  gamesWon: 0,
+  perfectGames: 0,
+  currentStreak: 0,
+  longestStreak: 0,
+  totalSolveTime: 0,
+  timedGames: 0,
+  hintDistribution: new Array(HINT_DISTRIBUTION_BUCKETS).fill(0),
+  difficultyGames: createDifficultyCounts(),
+  difficultyWins: createDifficultyCounts(),
+});
+
+const readStoredStatistics = (): StoredStatistics['languages'] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) {
+      return {};
+    }
+    const parsed = JSON.parse(raw) as Partial<StoredStatistics>;
+    if (
+      !parsed ||
+      parsed.schemaVersion !== PLAYER_STATISTICS_SCHEMA_VERSION ||
+      !parsed.languages ||
+      typeof parsed.languages !== 'object'
+    ) {
+      return {};
+    }
+    return parsed.languages;
+  } catch {
+    return {};
+  }
+};
+
+const writeStoredStatistics = (languages: StoredStatistics['languages']): void => {
+  try {
+    const stored: StoredStatistics = {
+      schemaVersion: PLAYER_STATISTICS_SCHEMA_VERSION,
+      languages,
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (error) {
+    // Storage full or disabled (e.g. private mode) - statistics are simply not kept
+    // eslint-disable-next-line no-console
+    console.warn('Failed to save player statistics:', error);
+  }
+};
+
+/**
+ * Loads lifetime statistics for a language
+ * @param language - Puzzle language
+ * @returns Stored statistics, or zeroed statistics if none were recorded
+ */
+export const loadPlayerStatistics = (language: LanguageCode): PlayerStatistics => {
+  const stored = readStoredStatistics()[language];
+  if (!stored) {
+    return createEmptyStatistics();
+  }
+  // Fill in any missing fields so partially written data stays usable
+  const empty = createEmptyStatistics();
+  return {
+    ...empty,
+    ...stored,
+    difficultyGames: { ...empty.difficultyGames, ...stored.difficultyGames },
+    difficultyWins: { ...empty.difficultyWins, ...stored.difficultyWins },
+  };
+};
+
+/**
+ * Adds a finished game to a set of statistics
+ * @param stats - Statistics before the game
+ * @param result - Outcome of the finished game
+ * @returns New statistics (the input is not modified)
+ */
+export const applyGameResult = (
+  stats: PlayerStatistics,
+  result: GameResult
+): PlayerStatistics => {
+  const hintBucket = Math.min(Math.max(result.hintsUsed, 0), HINT_DISTRIBUTION_BUCKETS - 1);
+  const hintDistribution = [...stats.hintDistribution];
+  hintDistribution[hintBucket] = (hintDistribution[hintBucket] || 0) + 1;
+
+  const currentStreak = result.won ? stats.currentStreak + 1 : 0;
+  const solveTime = result.won ? result.timeToComplete : undefined;
+  const difficulty = result.difficulty ?? DEFAULT_DIFFICULTY;
+
+  return {
+    gamesPlayed: stats.gamesPlayed + 1,
+    gamesWon: stats.gamesWon + (result.won ? 1 : 0),
+    perfectGames: stats.perfectGames + (result.won && result.perfectScore ? 1 : 0),
+    currentStreak,
+    longestStreak: Math.max(stats.longestStreak, currentStreak),
+    totalSolveTime: stats.totalSolveTime + (solveTime ?? 0),
+    timedGames: stats.timedGames + (solveTime !== undefined ? 1 : 0),
+    hintDistribution,
+    difficultyGames: {
+      ...stats.difficultyGames,
+      [difficulty]: (stats.difficultyGames[difficulty] || 0) + 1,
+    },
+    difficultyWins: {
+      ...stats.difficultyWins,
+      [difficulty]: (stats.difficultyWins[difficulty] || 0) + (result.won ? 1 : 0),
+    },
+  };
+};
+
+/**
+ * Whether a finished game earns a perfect score
+ * Checks of a single proverb count like the global Validate, so a board
+ * solved one proverb at a time can be perfect as well
+ * @param state - Game state at the end of the game
+ * @returns true if every proverb was solved without hints and no check found a wrong word
+ */
+export const isPerfectGame = (
+  state: Pick<MultiProverbGameState, 'isCompleted' | 'totalHintsUsed' | 'failedValidations'>
+): boolean => state.isCompleted && state.totalHintsUsed === 0 && state.failedValidations === 0;
+
+/**
+ * Records a finished game in the lifetime statistics of its language
+ * @param language - Puzzle language
+ * @param result - Outcome of the finished game
+ * @returns Updated statistics for the language
+ */
+export const recordGameResult = (
+  language: LanguageCode,
+  result: GameResult
+): PlayerStatistics => {
+  const languages = readStoredStatistics();
+  const updated = applyGameResult(loadPlayerStatistics(language), result);
+  languages[language] = updated;
+  writeStoredStatistics(languages);
+  return updated;
+};
+
+/**
+ * Win rate as a whole percentage
+ * @param stats - Player statistics
+ * @returns 0-100, or 0 if no games were played
+ */
+export const getWinRate = (stats: PlayerStatistics): number => {
+  return stats.gamesPlayed === 0 ? 0 : Math.round((stats.gamesWon / stats.gamesPlayed) * 100);
+};
+
+/**
+ * Average solve time of won games
+ * @param stats - Player statistics
+ * @returns Seconds, or null if no timed game was won
+ */
+export const getAverageSolveTime = (stats: PlayerStatistics): number | null => {
+  return stats.timedGames === 0 ? null : Math.round(stats.totalSolveTime / stats.timedGames);
+};
@@ -0,0 +1,115 @@
+/**
+ * Tests for spaced repetition of missed proverbs
+ */
+
+import {
+  PRACTICE_QUEUE_SCHEMA_VERSION,
+  REVIEW_INTERVALS_DAYS,
+  getDueProverbs,
+  loadPracticeQueue,
+  recordMissedProverbs,
+  recordPracticeResults,
+} from './practiceQueue';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const start = new Date('2026-05-01T09:00:00Z');
+const daysLater = (days: number) => new Date(start.getTime() + days * DAY_MS);
+
+const earlyBird = {
+  solution: 'The early bird catches the worm',
+  culture: 'English',
+  meaning: 'Success comes to those who prepare well.',
+};
+const stitch = {
+  solution: 'A stitch in time saves nine',
+  culture: 'English',
+  meaning: 'Fixing a problem early saves effort later.',
+};
+
+describe('practiceQueue', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('starts empty', () => {
+    expect(loadPracticeQueue('en')).toEqual([]);
+    expect(getDueProverbs('en', start)).toEqual([]);
+  });
+
+  it('makes missed proverbs due right away', () => {
+    recordMissedProverbs('en', [earlyBird, stitch], start);
+
+    expect(getDueProverbs('en', start).map(item => item.solution)).toEqual([
+      earlyBird.solution,
+      stitch.solution,
+    ]);
+    expect(getDueProverbs('he', start)).toEqual([]);
+  });
+
+  it('spaces reviews further apart after each correct answer', () => {
+    recordMissedProverbs('en', [earlyBird], start);
+
+    recordPracticeResults('en', [{ proverb: earlyBird, solved: true }], start);
+    expect(getDueProverbs('en', start)).toEqual([]);
+    expect(getDueProverbs('en', daysLater(REVIEW_INTERVALS_DAYS[1]))).toHaveLength(1);
+
+    recordPracticeResults('en', [{ proverb: earlyBird, solved: true }], daysLater(1));
+    const [item] = loadPracticeQueue('en');
+    expect(item.box).toBe(2);
+    expect(item.dueAt).toBe(daysLater(1 + REVIEW_INTERVALS_DAYS[2]).toISOString());
+  });
+
+  it('retires a proverb after the last box', () => {
+    recordMissedProverbs('en', [earlyBird], start);
+
+    for (let review = 1; review < REVIEW_INTERVALS_DAYS.length; review++) {
+      recordPracticeResults('en', [{ proverb: earlyBird, solved: true }], start);
+    }
+    expect(loadPracticeQueue('en')).toHaveLength(1);
+
+    recordPracticeResults('en', [{ proverb: earlyBird, solved: true }], start);
+    expect(loadPracticeQueue('en')).toEqual([]);
+  });
+
+  it('sends a proverb missed again back to the first box', () => {
+    recordMissedProverbs('en', [earlyBird], start);
+    recordPracticeResults('en', [{ proverb: earlyBird, solved: true }], start);
+    recordPracticeResults('en', [{ proverb: earlyBird, solved: false }], daysLater(1));
+
+    const [item] = loadPracticeQueue('en');
+    expect(item).toMatchObject({ box: 0, lapses: 2, dueAt: daysLater(1).toISOString() });
+
+    recordMissedProverbs('en', [earlyBird], daysLater(2));
+    expect(loadPracticeQueue('en')[0].lapses).toBe(3);
+  });
+
+  it('ignores practice results for proverbs not in the queue', () => {
+    recordMissedProverbs('en', [earlyBird], start);
+    recordPracticeResults(
+      'en',
+      [
+        { proverb: { solution: 'the early bird catches the worm' }, solved: true },
+        { proverb: stitch, solved: false },
+      ],
+      start
+    );
+
+    expect(loadPracticeQueue('en').map(item => [item.solution, item.box])).toEqual([
+      [earlyBird.solution, 1],
+    ]);
+  });
+
+  it('ignores data stored with another schema version or corrupt storage', () => {
+    localStorage.setItem(
+      'practiceQueue',
+      JSON.stringify({
+        schemaVersion: PRACTICE_QUEUE_SCHEMA_VERSION + 1,
+        languages: { en: [{ ...earlyBird, box: 0, dueAt: start.toISOString(), lapses: 1 }] },
+      })
+    );
+    expect(loadPracticeQueue('en')).toEqual([]);
+
+    localStorage.setItem('practiceQueue', '{not json');
+    expect(loadPracticeQueue('en')).toEqual([]);
+  });
+});
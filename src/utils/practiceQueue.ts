@@ -0,0 +1,206 @@
+/**
+ * Practice queue
+ * Proverbs the player failed are scheduled for review with a Leitner-style
+ * spaced repetition: a missed proverb is due right away, each correct review
+ * moves it to a box with a longer interval, and a miss sends it back to the
+ * first box. Proverbs that pass the last box leave the queue.
+ */
+
+import { LanguageCode, Proverb } from '../types';
+
+/** localStorage key holding the practice queue for every language */
+const STORAGE_KEY = 'practiceQueue';
+
+/**
+ * Bump whenever the stored shape changes - older data is discarded
+ */
+export const PRACTICE_QUEUE_SCHEMA_VERSION = 1;
+
+/**
+ * Days until a proverb in each box is due again
+ * Box 0 holds proverbs just missed; a correct review in the last box retires the proverb
+ */
+export const REVIEW_INTERVALS_DAYS = [0, 1, 3, 7, 14];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A proverb waiting for review
+ */
+export interface PracticeItem {
+  solution: string;
+  culture: string;
+  meaning: string;
+  /** Index into REVIEW_INTERVALS_DAYS */
+  box: number;
+  /** When the proverb should be practiced next (ISO 8601) */
+  dueAt: string;
+  /** Times the proverb was missed, including the first miss */
+  lapses: number;
+}
+
+/**
+ * Outcome of one proverb in a practice puzzle
+ */
+export interface PracticeResult {
+  proverb: Pick<Proverb, 'solution'>;
+  solved: boolean;
+}
+
+type StoredPracticeQueue = {
+  schemaVersion: number;
+  languages: Partial<Record<LanguageCode, PracticeItem[]>>;
+};
+
+const isSameProverb = (a: Pick<Proverb, 'solution'>, b: Pick<Proverb, 'solution'>): boolean =>
+  a.solution.trim().toLowerCase() === b.solution.trim().toLowerCase();
+
+const isPracticeItem = (value: unknown): value is PracticeItem => {
+  const item = value as Partial<PracticeItem> | null;
+  return (
+    !!item &&
+    typeof item.solution === 'string' &&
+    typeof item.culture === 'string' &&
+    typeof item.meaning === 'string' &&
+    typeof item.dueAt === 'string' &&
+    typeof item.lapses === 'number' &&
+    Number.isInteger(item.box) &&
+    (item.box as number) >= 0 &&
+    (item.box as number) < REVIEW_INTERVALS_DAYS.length
+  );
+};
+
+const readStoredQueue = (): StoredPracticeQueue['languages'] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) {
+      return {};
+    }
+    const parsed = JSON.parse(raw) as Partial<StoredPracticeQueue>;
+    if (
+      !parsed ||
+      parsed.schemaVersion !== PRACTICE_QUEUE_SCHEMA_VERSION ||
+      !parsed.languages ||
+      typeof parsed.languages !== 'object'
+    ) {
+      return {};
+    }
+    return parsed.languages;
+  } catch {
+    return {};
+  }
+};
+
+const writeStoredQueue = (languages: StoredPracticeQueue['languages']): void => {
+  try {
+    const stored: StoredPracticeQueue = {
+      schemaVersion: PRACTICE_QUEUE_SCHEMA_VERSION,
+      languages,
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (error) {
+    // Storage full or disabled (e.g. private mode) - missed proverbs are simply not reviewed
+    // eslint-disable-next-line no-console
+    console.warn('Failed to save practice queue:', error);
+  }
+};
+
+const scheduleInBox = (box: number, now: Date): string =>
+  new Date(now.getTime() + REVIEW_INTERVALS_DAYS[box] * DAY_MS).toISOString();
+
+/**
+ * Loads the proverbs waiting for review in a language
+ * @param language - Puzzle language
+ * @returns Queued proverbs, soonest due first
+ */
+export const loadPracticeQueue = (language: LanguageCode): PracticeItem[] => {
+  const items = readStoredQueue()[language];
+  if (!Array.isArray(items)) {
+    return [];
+  }
+  return items.filter(isPracticeItem).sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+};
+
+/**
+ * Proverbs due for review
+ * @param language - Puzzle language
+ * @param now - Current time (defaults to now)
+ * @returns Due proverbs, most overdue first
+ */
+export const getDueProverbs = (language: LanguageCode, now: Date = new Date()): PracticeItem[] =>
+  loadPracticeQueue(language).filter(item => new Date(item.dueAt).getTime() <= now.getTime());
+
+/**
+ * Queues proverbs the player failed to solve
+ * A proverb already queued goes back to the first box
+ * @param language - Puzzle language
+ * @param proverbs - Proverbs left unsolved
+ * @param now - Time of the miss (defaults to now)
+ */
+export const recordMissedProverbs = (
+  language: LanguageCode,
+  proverbs: Array<Pick<Proverb, 'solution' | 'culture' | 'meaning'>>,
+  now: Date = new Date()
+): void => {
+  if (proverbs.length === 0) {
+    return;
+  }
+
+  const languages = readStoredQueue();
+  const queue = loadPracticeQueue(language);
+  proverbs.forEach(proverb => {
+    const existing = queue.find(item => isSameProverb(item, proverb));
+    if (existing) {
+      existing.box = 0;
+      existing.dueAt = scheduleInBox(0, now);
+      existing.lapses += 1;
+    } else {
+      queue.push({
+        solution: proverb.solution,
+        culture: proverb.culture,
+        meaning: proverb.meaning,
+        box: 0,
+        dueAt: scheduleInBox(0, now),
+        lapses: 1,
+      });
+    }
+  });
+
+  languages[language] = queue;
+  writeStoredQueue(languages);
+};
+
+/**
+ * Reschedules reviewed proverbs after a practice puzzle
+ * Solved proverbs move up a box (or leave the queue after the last one),
+ * unsolved ones go back to the first box. Proverbs not in the queue are ignored.
+ * @param language - Puzzle language
+ * @param results - Outcome of every proverb in the practice puzzle
+ * @param now - Time of the review (defaults to now)
+ */
+export const recordPracticeResults = (
+  language: LanguageCode,
+  results: PracticeResult[],
+  now: Date = new Date()
+): void => {
+  const languages = readStoredQueue();
+  const queue = loadPracticeQueue(language);
+
+  const updated = queue.reduce<PracticeItem[]>((items, item) => {
+    const result = results.find(candidate => isSameProverb(candidate.proverb, item));
+    if (!result) {
+      return [...items, item];
+    }
+    if (!result.solved) {
+      return [...items, { ...item, box: 0, dueAt: scheduleInBox(0, now), lapses: item.lapses + 1 }];
+    }
+    const box = item.box + 1;
+    if (box >= REVIEW_INTERVALS_DAYS.length) {
+      return items;
+    }
+    return [...items, { ...item, box, dueAt: scheduleInBox(box, now) }];
+  }, []);
+
+  languages[language] = updated;
+  writeStoredQueue(languages);
+};
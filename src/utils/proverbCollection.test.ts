@@ -0,0 +1,138 @@
+/**
+ * Tests for the collection of solved proverbs
+ */
+
+import {
+  PROVERB_COLLECTION_SCHEMA_VERSION,
+  addToCollection,
+  filterCollection,
+  getCollectionCultures,
+  groupByCulture,
+  loadProverbCollection,
+} from './proverbCollection';
+
+const earlyBird = {
+  solution: 'The early bird catches the worm',
+  culture: 'English',
+  meaning: 'Success comes to those who prepare well.',
+};
+const stitch = {
+  solution: 'A stitch in time saves nine',
+  culture: 'English',
+  meaning: 'Fixing a problem early saves effort later.',
+};
+const patience = {
+  solution: 'Con paciencia se gana el cielo',
+  culture: 'Spanish',
+  meaning: 'Patience is rewarded.',
+};
+
+describe('proverbCollection', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('starts empty', () => {
+    expect(loadProverbCollection()).toEqual([]);
+  });
+
+  it('stores solved proverbs with language and date', () => {
+    addToCollection('en', [earlyBird], new Date('2026-03-01T10:00:00Z'));
+
+    expect(loadProverbCollection()).toEqual([
+      { ...earlyBird, language: 'en', solvedAt: '2026-03-01T10:00:00.000Z' },
+    ]);
+  });
+
+  it('keeps the first solve date of a proverb solved again', () => {
+    addToCollection('en', [earlyBird], new Date('2026-03-01T10:00:00Z'));
+    addToCollection(
+      'en',
+      [{ ...earlyBird, solution: 'the early bird catches the worm ' }, stitch],
+      new Date('2026-03-05T10:00:00Z')
+    );
+
+    const collection = loadProverbCollection();
+    expect(collection).toHaveLength(2);
+    expect(collection[0].solvedAt).toBe('2026-03-01T10:00:00.000Z');
+    expect(collection[1].solution).toBe(stitch.solution);
+  });
+
+  it('counts the same proverb separately per language', () => {
+    addToCollection('en', [earlyBird]);
+    addToCollection('fr', [earlyBird]);
+
+    expect(loadProverbCollection().map(entry => entry.language)).toEqual(['en', 'fr']);
+  });
+
+  it('ignores data stored with another schema version', () => {
+    localStorage.setItem(
+      'proverbCollection',
+      JSON.stringify({
+        schemaVersion: PROVERB_COLLECTION_SCHEMA_VERSION + 1,
+        proverbs: [{ ...earlyBird, language: 'en', solvedAt: '2026-03-01T10:00:00.000Z' }],
+      })
+    );
+
+    expect(loadProverbCollection()).toEqual([]);
+  });
+
+  it('drops malformed entries and corrupt storage', () => {
+    localStorage.setItem(
+      'proverbCollection',
+      JSON.stringify({
+        schemaVersion: PROVERB_COLLECTION_SCHEMA_VERSION,
+        proverbs: [
+          { ...earlyBird, language: 'xx', solvedAt: '2026-03-01T10:00:00.000Z' },
+          { ...stitch, language: 'en', solvedAt: '2026-03-01T10:00:00.000Z' },
+          null,
+        ],
+      })
+    );
+    expect(loadProverbCollection().map(entry => entry.solution)).toEqual([stitch.solution]);
+
+    localStorage.setItem('proverbCollection', '{not json');
+    expect(loadProverbCollection()).toEqual([]);
+  });
+});
+
+describe('browsing the collection', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    addToCollection('en', [earlyBird], new Date('2026-03-01T10:00:00Z'));
+    addToCollection('en', [stitch], new Date('2026-03-02T10:00:00Z'));
+    addToCollection('es', [patience], new Date('2026-03-03T10:00:00Z'));
+  });
+
+  it('searches proverbs, meanings and cultures ignoring case', () => {
+    const collection = loadProverbCollection();
+
+    expect(filterCollection(collection, { query: 'WORM' }).map(p => p.solution)).toEqual([
+      earlyBird.solution,
+    ]);
+    expect(filterCollection(collection, { query: 'patience' })).toHaveLength(1);
+    expect(filterCollection(collection, { query: 'english' })).toHaveLength(2);
+    expect(filterCollection(collection, { query: '  ' })).toHaveLength(3);
+  });
+
+  it('filters by language and culture', () => {
+    const collection = loadProverbCollection();
+
+    expect(filterCollection(collection, { language: 'es' }).map(p => p.solution)).toEqual([
+      patience.solution,
+    ]);
+    expect(filterCollection(collection, { culture: 'English', query: 'stitch' })).toHaveLength(1);
+    expect(filterCollection(collection, { language: 'es', culture: 'English' })).toEqual([]);
+  });
+
+  it('groups by culture with the latest solves first', () => {
+    const groups = groupByCulture(loadProverbCollection());
+
+    expect(groups.map(group => group.culture)).toEqual(['English', 'Spanish']);
+    expect(groups[0].proverbs.map(p => p.solution)).toEqual([stitch.solution, earlyBird.solution]);
+  });
+
+  it('lists the cultures present', () => {
+    expect(getCollectionCultures(loadProverbCollection())).toEqual(['English', 'Spanish']);
+  });
+});
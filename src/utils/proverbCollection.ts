@@ -0,0 +1,200 @@
+/**
+ * Proverb collection
+ * Every proverb the player solves is kept in localStorage with its cultural
+ * context, so it can be browsed again on the collection page after the
+ * completion modal is closed
+ */
+
+import { LanguageCode, Proverb } from '../types';
+import { isSupportedLanguage } from './languages';
+
+/** localStorage key holding the collection */
+const STORAGE_KEY = 'proverbCollection';
+
+/**
+ * Bump whenever the stored shape changes - older data is discarded
+ */
+export const PROVERB_COLLECTION_SCHEMA_VERSION = 1;
+
+/**
+ * A solved proverb
+ */
+export interface CollectedProverb {
+  solution: string;
+  culture: string;
+  meaning: string;
+  /** Language of the puzzle the proverb was solved in */
+  language: LanguageCode;
+  /** When the proverb was first solved (ISO 8601) */
+  solvedAt: string;
+}
+
+/**
+ * Narrows the collection down (omitted fields match everything)
+ */
+export interface CollectionFilter {
+  /** Text to look for in the proverb, its meaning or its culture */
+  query?: string;
+  language?: LanguageCode;
+  culture?: string;
+}
+
+/**
+ * Solved proverbs of one culture
+ */
+export interface CultureGroup {
+  culture: string;
+  /** Most recently solved first */
+  proverbs: CollectedProverb[];
+}
+
+type StoredCollection = {
+  schemaVersion: number;
+  proverbs: CollectedProverb[];
+};
+
+const getEntryKey = (language: LanguageCode, solution: string): string =>
+  `${language}:${solution.trim().toLowerCase()}`;
+
+const isCollectedProverb = (value: unknown): value is CollectedProverb => {
+  const entry = value as Partial<CollectedProverb> | null;
+  return (
+    !!entry &&
+    typeof entry.solution === 'string' &&
+    typeof entry.culture === 'string' &&
+    typeof entry.meaning === 'string' &&
+    typeof entry.solvedAt === 'string' &&
+    isSupportedLanguage(entry.language)
+  );
+};
+
+/**
+ * Loads every solved proverb
+ * @returns Solved proverbs in the order they were first solved
+ */
+export const loadProverbCollection = (): CollectedProverb[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) {
+      return [];
+    }
+    const parsed = JSON.parse(raw) as Partial<StoredCollection>;
+    if (
+      !parsed ||
+      parsed.schemaVersion !== PROVERB_COLLECTION_SCHEMA_VERSION ||
+      !Array.isArray(parsed.proverbs)
+    ) {
+      return [];
+    }
+    return parsed.proverbs.filter(isCollectedProverb);
+  } catch {
+    return [];
+  }
+};
+
+const saveProverbCollection = (proverbs: CollectedProverb[]): void => {
+  try {
+    const stored: StoredCollection = {
+      schemaVersion: PROVERB_COLLECTION_SCHEMA_VERSION,
+      proverbs,
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (error) {
+    // Storage full or disabled (e.g. private mode) - the collection is simply not kept
+    // eslint-disable-next-line no-console
+    console.warn('Failed to save proverb collection:', error);
+  }
+};
+
+/**
+ * Adds solved proverbs to the collection
+ * Proverbs already collected in the same language keep their first solve date
+ * @param language - Language of the puzzle
+ * @param proverbs - Proverbs just solved
+ * @param solvedAt - Time of the solve (defaults to now)
+ * @returns The updated collection
+ */
+export const addToCollection = (
+  language: LanguageCode,
+  proverbs: Array<Pick<Proverb, 'solution' | 'culture' | 'meaning'>>,
+  solvedAt: Date = new Date()
+): CollectedProverb[] => {
+  const collection = loadProverbCollection();
+  const keys = new Set(collection.map(entry => getEntryKey(entry.language, entry.solution)));
+
+  const added = proverbs.reduce<CollectedProverb[]>((entries, proverb) => {
+    const key = getEntryKey(language, proverb.solution);
+    if (keys.has(key)) {
+      return entries;
+    }
+    keys.add(key);
+    return [
+      ...entries,
+      {
+        solution: proverb.solution,
+        culture: proverb.culture,
+        meaning: proverb.meaning,
+        language,
+        solvedAt: solvedAt.toISOString(),
+      },
+    ];
+  }, []);
+
+  if (added.length === 0) {
+    return collection;
+  }
+
+  const updated = [...collection, ...added];
+  saveProverbCollection(updated);
+  return updated;
+};
+
+/**
+ * Applies search and filters to the collection
+ * Search ignores case and matches the proverb, its meaning or its culture
+ * @param proverbs - Collected proverbs
+ * @param filter - Search text, language and culture to keep
+ * @returns Matching proverbs, in their original order
+ */
+export const filterCollection = (
+  proverbs: CollectedProverb[],
+  filter: CollectionFilter
+): CollectedProverb[] => {
+  const query = filter.query?.trim().toLowerCase() ?? '';
+  return proverbs.filter(
+    proverb =>
+      (!filter.language || proverb.language === filter.language) &&
+      (!filter.culture || proverb.culture === filter.culture) &&
+      (!query ||
+        [proverb.solution, proverb.meaning, proverb.culture].some(text =>
+          text.toLowerCase().includes(query)
+        ))
+  );
+};
+
+/**
+ * Groups proverbs by culture
+ * @param proverbs - Collected proverbs
+ * @returns Cultures in alphabetical order, each with its most recent solves first
+ */
+export const groupByCulture = (proverbs: CollectedProverb[]): CultureGroup[] => {
+  const byCulture = new Map<string, CollectedProverb[]>();
+  proverbs.forEach(proverb => {
+    byCulture.set(proverb.culture, [...(byCulture.get(proverb.culture) ?? []), proverb]);
+  });
+
+  return Array.from(byCulture.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([culture, entries]) => ({
+      culture,
+      proverbs: [...entries].sort((a, b) => b.solvedAt.localeCompare(a.solvedAt)),
+    }));
+};
+
+/**
+ * Cultures present in the collection
+ * @param proverbs - Collected proverbs
+ * @returns Distinct cultures in alphabetical order
+ */
+export const getCollectionCultures = (proverbs: CollectedProverb[]): string[] =>
+  Array.from(new Set(proverbs.map(proverb => proverb.culture))).sort((a, b) => a.localeCompare(b));
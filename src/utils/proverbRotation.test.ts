@@ -0,0 +1,68 @@
+/**
+ * Tests for proverb rotation across sessions
+ */
+
+import {
+  SEEN_PROVERBS_SCHEMA_VERSION,
+  loadSeenProverbs,
+  resetSeenProverbs,
+  saveSeenProverbs,
+} from './proverbRotation';
+import { hasMorePuzzles } from './csvPuzzleLoader';
+
+describe('proverbRotation', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('starts with nothing seen', () => {
+    expect(loadSeenProverbs('en')).toEqual({ indices: [], total: 0 });
+  });
+
+  it('persists seen proverbs per language', () => {
+    saveSeenProverbs('en', { indices: [3, 1, 4], total: 52 });
+    saveSeenProverbs('he', { indices: [0], total: 50 });
+
+    expect(loadSeenProverbs('en')).toEqual({ indices: [3, 1, 4], total: 52 });
+    expect(loadSeenProverbs('he')).toEqual({ indices: [0], total: 50 });
+  });
+
+  it('drops repeated and out-of-range indices', () => {
+    saveSeenProverbs('en', { indices: [1, 1, 2, 60, -1], total: 52 });
+    expect(loadSeenProverbs('en').indices).toEqual([1, 2]);
+  });
+
+  it('resets one language and keeps its total', () => {
+    saveSeenProverbs('en', { indices: [1, 2], total: 52 });
+    saveSeenProverbs('he', { indices: [5], total: 50 });
+
+    resetSeenProverbs('en');
+
+    expect(loadSeenProverbs('en')).toEqual({ indices: [], total: 52 });
+    expect(loadSeenProverbs('he').indices).toEqual([5]);
+  });
+
+  it('ignores data stored with another schema version', () => {
+    localStorage.setItem(
+      'seenProverbs',
+      JSON.stringify({
+        schemaVersion: SEEN_PROVERBS_SCHEMA_VERSION + 1,
+        languages: { en: { indices: [1], total: 52 } },
+      })
+    );
+
+    expect(loadSeenProverbs('en')).toEqual({ indices: [], total: 0 });
+  });
+
+  it('ignores corrupt storage', () => {
+    localStorage.setItem('seenProverbs', '{not json');
+    expect(loadSeenProverbs('en')).toEqual({ indices: [], total: 0 });
+  });
+});
+
+describe('hasMorePuzzles', () => {
+  it('is true while enough unseen proverbs remain for a puzzle', () => {
+    expect(hasMorePuzzles([0, 1, 2], 6, 3)).toBe(true);
+    expect(hasMorePuzzles([0, 1, 2, 3], 6, 3)).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Proverb rotation
+ * Remembers which bundled proverbs the player has already been given, per
+ * language, so generated puzzles keep serving unseen proverbs until every one
+ * has been played (then a new round starts)
+ */
+
+import { LanguageCode } from '../types';
+
+/** localStorage key holding seen proverbs for every language */
+const STORAGE_KEY = 'seenProverbs';
+
+/**
+ * Bump whenever the stored shape changes - older data is discarded
+ */
+export const SEEN_PROVERBS_SCHEMA_VERSION = 1;
+
+/**
+ * Proverbs seen in one language
+ */
+export interface SeenProverbs {
+  /** Indices of the proverbs already played, as used by the CSV loader */
+  indices: number[];
+  /** Number of proverbs the language had when last played (0 if never played) */
+  total: number;
+}
+
+type StoredSeenProverbs = {
+  schemaVersion: number;
+  languages: Partial<Record<LanguageCode, SeenProverbs>>;
+};
+
+const readStoredSeenProverbs = (): StoredSeenProverbs['languages'] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) {
+      return {};
+    }
+    const parsed = JSON.parse(raw) as Partial<StoredSeenProverbs>;
+    if (
+      !parsed ||
+      parsed.schemaVersion !== SEEN_PROVERBS_SCHEMA_VERSION ||
+      !parsed.languages ||
+      typeof parsed.languages !== 'object'
+    ) {
+      return {};
+    }
+    return parsed.languages;
+  } catch {
+    return {};
+  }
+};
+
+const writeStoredSeenProverbs = (languages: StoredSeenProverbs['languages']): void => {
+  try {
+    const stored: StoredSeenProverbs = {
+      schemaVersion: SEEN_PROVERBS_SCHEMA_VERSION,
+      languages,
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (error) {
+    // Storage full or disabled (e.g. private mode) - proverbs may simply repeat
+    // eslint-disable-next-line no-console
+    console.warn('Failed to save seen proverbs:', error);
+  }
+};
+
+/**
+ * Loads the proverbs already seen in a language
+ * @param language - Puzzle language
+ * @returns Seen indices (without repeats or indices past the total) and the total
+ */
+export const loadSeenProverbs = (language: LanguageCode): SeenProverbs => {
+  const stored = readStoredSeenProverbs()[language];
+  const total = typeof stored?.total === 'number' && stored.total > 0 ? stored.total : 0;
+  if (!stored || !Array.isArray(stored.indices) || total === 0) {
+    return { indices: [], total };
+  }
+
+  const indices = Array.from(new Set(stored.indices)).filter(
+    index => Number.isInteger(index) && index >= 0 && index < total
+  );
+  return { indices, total };
+};
+
+/**
+ * Stores the proverbs seen in a language
+ * @param language - Puzzle language
+ * @param seen - Every index played so far in the current round, and the total
+ */
+export const saveSeenProverbs = (language: LanguageCode, seen: SeenProverbs): void => {
+  const languages = readStoredSeenProverbs();
+  languages[language] = { indices: seen.indices, total: seen.total };
+  writeStoredSeenProverbs(languages);
+};
+
+/**
+ * Forgets the proverbs seen in a language, so every proverb counts as new again
+ * @param language - Puzzle language
+ */
+export const resetSeenProverbs = (language: LanguageCode): void => {
+  const languages = readStoredSeenProverbs();
+  const total = languages[language]?.total ?? 0;
+  languages[language] = { indices: [], total };
+  writeStoredSeenProverbs(languages);
+};
@@ -0,0 +1,130 @@
+/**
+ * Tests for similarity-aware puzzle generation
+ * Runs against the CSV files bundled in public/
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { CSVRow, parseCSV } from './csvPuzzleLoader';
+import { OVERLAP_TARGETS, scoreProverbSet, selectProverbSet } from './puzzleGenerator';
+import { DIFFICULTY_LEVEL_NAMES } from './difficulty';
+import { SUPPORTED_LANGUAGES } from './languages';
+import { PUZZLE_SIZE_PRESETS, PUZZLE_SIZES } from './puzzleSize';
+import { validatePuzzle } from './puzzleValidator';
+import { createSeededRandom } from './random';
+
+const loadBundledProverbs = (language: string): CSVRow[] =>
+  parseCSV(readFileSync(join(process.cwd(), 'public', `${language}-proverbs.csv`), 'utf8'));
+
+const SEEDS = ['alpha', 'beta', 'gamma', 'delta', 'epsilon', 'zeta', 'eta', 'theta'];
+
+describe('scoreProverbSet', () => {
+  it('measures the share of words used by more than one proverb', () => {
+    const score = scoreProverbSet([
+      { solution: 'The cat sleeps', culture: 'A' },
+      { solution: 'The dog barks', culture: 'B' },
+    ]);
+
+    expect(score.overlap).toBeCloseTo(2 / 6);
+    expect(score.lengthBalance).toBe(1);
+    expect(score.cultureDiversity).toBe(1);
+  });
+
+  it('ignores case and punctuation when comparing words', () => {
+    const score = scoreProverbSet([
+      { solution: 'Time is money.', culture: 'A' },
+      { solution: 'Money, time and love', culture: 'A' },
+    ]);
+
+    expect(score.overlap).toBeCloseTo(4 / 7);
+    expect(score.cultureDiversity).toBe(0.5);
+  });
+
+  it('penalizes uneven lengths', () => {
+    const balanced = scoreProverbSet([
+      { solution: 'one two three four', culture: 'A' },
+      { solution: 'five six seven eight', culture: 'B' },
+    ]);
+    const uneven = scoreProverbSet([
+      { solution: 'one two three', culture: 'A' },
+      { solution: 'four five six seven eight nine ten eleven twelve', culture: 'B' },
+    ]);
+
+    expect(uneven.lengthBalance).toBeCloseTo(1 / 3);
+    expect(uneven.total).toBeLessThan(balanced.total);
+  });
+});
+
+describe('selectProverbSet', () => {
+  const pool = [
+    { solution: 'The early bird catches the worm', culture: 'English' },
+    { solution: 'A stitch in time saves nine', culture: 'English' },
+    { solution: 'Still waters run deep', culture: 'Latin' },
+    { solution: 'Rome was not built in a day', culture: 'French' },
+  ];
+
+  it('never picks excluded proverbs', () => {
+    const picked = selectProverbSet(pool, {
+      count: 2,
+      random: createSeededRandom('exclude'),
+      exclude: [0, 1],
+    });
+
+    expect([...picked].sort()).toEqual([2, 3]);
+  });
+
+  it('throws when too few proverbs remain', () => {
+    expect(() => selectProverbSet(pool, { count: 3, exclude: [0, 1] })).toThrow('Not enough proverbs');
+  });
+});
+
+describe.each(SUPPORTED_LANGUAGES)('generating %s puzzles from the bundled CSV', language => {
+  const proverbs = loadBundledProverbs(language);
+
+  it('picks the same proverbs for the same seed', () => {
+    SEEDS.forEach(seed => {
+      const first = selectProverbSet(proverbs, { count: 3, random: createSeededRandom(seed) });
+      const second = selectProverbSet(proverbs, { count: 3, random: createSeededRandom(seed) });
+      expect(second).toEqual(first);
+    });
+  });
+
+  it('builds a valid puzzle of every size', () => {
+    PUZZLE_SIZES.forEach(size => {
+      const { proverbCount } = PUZZLE_SIZE_PRESETS[size];
+      const picked = selectProverbSet(proverbs, { count: proverbCount, random: createSeededRandom(size) });
+
+      expect(new Set(picked).size).toBe(proverbCount);
+      expect(
+        validatePuzzle({ version: '1', language, proverbs: picked.map(index => proverbs[index]) }).isValid
+      ).toBe(true);
+    });
+  });
+
+  it('raises the word overlap with the difficulty', () => {
+    const averageOverlap = DIFFICULTY_LEVEL_NAMES.map(difficulty => {
+      const total = SEEDS.reduce((sum, seed) => {
+        const picked = selectProverbSet(proverbs, {
+          count: 3,
+          random: createSeededRandom(seed),
+          difficulty,
+        });
+        return sum + scoreProverbSet(picked.map(index => proverbs[index]), difficulty).overlap;
+      }, 0);
+      return total / SEEDS.length;
+    });
+
+    expect(averageOverlap[0]).toBeLessThan(averageOverlap[1]);
+    expect(averageOverlap[1]).toBeLessThan(averageOverlap[2]);
+    // Even the hardest level keeps most words unique to their proverb
+    expect(averageOverlap[2]).toBeLessThan(OVERLAP_TARGETS.challenging + 0.1);
+  });
+
+  it('prefers proverbs from different cultures when the data has them', () => {
+    const cultures = new Set(proverbs.map(proverb => proverb.culture));
+    const picked = selectProverbSet(proverbs, { count: 3, random: createSeededRandom('cultures') });
+    const diversity = scoreProverbSet(picked.map(index => proverbs[index])).cultureDiversity;
+
+    expect(diversity).toBe(Math.min(cultures.size, 3) / 3);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Similarity-aware puzzle generation
+ * Decides which proverbs are mixed into a generated puzzle. Candidate sets are
+ * scored on how many words the proverbs share (a shared word fits more than one
+ * proverb, so more overlap makes a harder board), how evenly long they are and
+ * how many cultures they come from. The best set of a random sample wins, so a
+ * seeded random source always picks the same proverbs.
+ */
+
+import { DEFAULT_DIFFICULTY, DifficultyLevel } from './difficulty';
+import { RandomSource } from './random';
+import { getSolutionWords, normalizeWord } from './tokenizer';
+
+/**
+ * The parts of a proverb the generator looks at
+ */
+export interface ProverbCandidate {
+  solution: string;
+  culture: string;
+}
+
+/**
+ * How well a set of proverbs makes a puzzle
+ */
+export interface ProverbSetScore {
+  /** Share of words (0-1) that also appear in another proverb of the set */
+  overlap: number;
+  /** Shortest proverb length divided by the longest (1 = all equally long) */
+  lengthBalance: number;
+  /** Distinct cultures divided by the number of proverbs (1 = all different) */
+  cultureDiversity: number;
+  /** Weighted score (0-1), higher is better */
+  total: number;
+}
+
+/**
+ * Options for picking a set of proverbs
+ */
+export interface ProverbSelectionOptions {
+  /** Number of proverbs in the puzzle */
+  count: number;
+  /** Random source; pass a seeded one for a reproducible pick */
+  random?: RandomSource;
+  /** Difficulty whose overlap target the set should meet */
+  difficulty?: DifficultyLevel;
+  /** Candidate indices that must not be picked (e.g. proverbs already played) */
+  exclude?: number[];
+}
+
+/**
+ * Word overlap each difficulty aims for
+ * No shared words makes every tile obvious; lots of shared words like "the" and
+ * "is" make boards ambiguous, so even the hardest level stays well below half
+ */
+export const OVERLAP_TARGETS: Record<DifficultyLevel, number> = {
+  relaxed: 0.1,
+  classic: 0.2,
+  challenging: 0.35,
+};
+
+/**
+ * How much each criterion counts towards the total score
+ */
+const SCORE_WEIGHTS = {
+  overlap: 0.5,
+  lengthBalance: 0.25,
+  cultureDiversity: 0.25,
+};
+
+/**
+ * Number of random candidate sets scored per pick
+ */
+const SAMPLE_COUNT = 200;
+
+interface PreparedCandidate {
+  words: string[];
+  culture: string;
+}
+
+const prepareCandidate = (candidate: ProverbCandidate): PreparedCandidate => ({
+  words: getSolutionWords(candidate.solution).map(normalizeWord),
+  culture: candidate.culture.trim().toLowerCase(),
+});
+
+const scorePreparedSet = (set: PreparedCandidate[], targetOverlap: number): ProverbSetScore => {
+  // Count in how many proverbs each word appears (not how often)
+  const proverbsPerWord = new Map<string, number>();
+  set.forEach(({ words }) => {
+    new Set(words).forEach(word => {
+      proverbsPerWord.set(word, (proverbsPerWord.get(word) ?? 0) + 1);
+    });
+  });
+
+  const totalWords = set.reduce((sum, { words }) => sum + words.length, 0);
+  const sharedWords = set.reduce(
+    (sum, { words }) => sum + words.filter(word => (proverbsPerWord.get(word) ?? 0) > 1).length,
+    0
+  );
+  const overlap = totalWords === 0 ? 0 : sharedWords / totalWords;
+
+  const lengths = set.map(({ words }) => words.length);
+  const longest = Math.max(...lengths);
+  const lengthBalance = longest === 0 ? 0 : Math.min(...lengths) / longest;
+
+  const cultureDiversity = set.length === 0 ? 0 : new Set(set.map(({ culture }) => culture)).size / set.length;
+
+  // Overlap is scored by its distance from the target, anything beyond 0.5 away scores 0
+  const overlapFit = Math.max(0, 1 - Math.abs(overlap - targetOverlap) * 2);
+  const total =
+    SCORE_WEIGHTS.overlap * overlapFit +
+    SCORE_WEIGHTS.lengthBalance * lengthBalance +
+    SCORE_WEIGHTS.cultureDiversity * cultureDiversity;
+
+  return { overlap, lengthBalance, cultureDiversity, total };
+};
+
+/**
+ * Scores a set of proverbs as a puzzle
+ * @param proverbs - Proverbs that would be mixed together
+ * @param difficulty - Difficulty whose overlap target the set is measured against
+ * @returns Individual criteria and the weighted total
+ */
+export const scoreProverbSet = (
+  proverbs: ProverbCandidate[],
+  difficulty: DifficultyLevel = DEFAULT_DIFFICULTY
+): ProverbSetScore => scorePreparedSet(proverbs.map(prepareCandidate), OVERLAP_TARGETS[difficulty]);
+
+/**
+ * Picks the proverbs for a puzzle
+ * Scores a random sample of candidate sets and keeps the best one; ties go to
+ * the set sampled first, so the result only depends on the random source
+ * @param candidates - Every proverb available in the language
+ * @param options - Set size, random source, difficulty and exclusions
+ * @returns Indices into candidates, in random order
+ */
+export const selectProverbSet = (
+  candidates: ProverbCandidate[],
+  options: ProverbSelectionOptions
+): number[] => {
+  const { count, random = Math.random, difficulty = DEFAULT_DIFFICULTY, exclude = [] } = options;
+  const excluded = new Set(exclude);
+  const available = candidates.map((_, index) => index).filter(index => !excluded.has(index));
+
+  if (available.length < count) {
+    throw new Error(`Not enough proverbs to pick ${count}: ${available.length} available`);
+  }
+
+  const prepared = candidates.map(prepareCandidate);
+  const targetOverlap = OVERLAP_TARGETS[difficulty];
+  let best: number[] = [];
+  let bestScore = -1;
+
+  for (let sample = 0; sample < SAMPLE_COUNT; sample++) {
+    // Partial Fisher-Yates shuffle: the first `count` slots form the sample
+    const pool = [...available];
+    for (let i = 0; i < count; i++) {
+      const j = i + Math.floor(random() * (pool.length - i));
+      [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    const indices = pool.slice(0, count);
+
+    const { total } = scorePreparedSet(
+      indices.map(index => prepared[index]),
+      targetOverlap
+    );
+    if (total > bestScore) {
+      best = indices;
+      bestScore = total;
+    }
+  }
+
+  return best;
+};
@@ -4,10 +4,15 @@
 
 import {
   encodePuzzle,
+  encodePuzzleV1,
   decodePuzzle,
-  validatePuzzle,
+  decodeValidPuzzle,
+  PUZZLE_ENCODING_VERSION,
+  PuzzleDecodeError,
   getPuzzleFromURL,
+  getSeedFromURL,
 } from './puzzleLoader';
+import { validatePuzzle } from './puzzleValidator';
 import { PuzzleData } from '../types';
 
 const validPuzzle: PuzzleData = {
@@ -38,24 +43,92 @@ const validPuzzle: PuzzleData = {
   ],
 };
 
+const hebrewPuzzle: PuzzleData = {
+  version: '1',
+  language: 'he',
+  proverbs: [
+    {
+      solution: 'אל תדין את חברך עד שתגיע למקומו',
+      culture: 'פרקי אבות',
+      meaning: 'אל תשפוט אדם לפני שהיית במצבו',
+    },
+    {
+      solution: 'מעשה בבית ומעשה בשוק',
+      culture: 'עברית',
+      meaning: 'מה שקורה בבית משתקף גם בחוץ',
+    },
+    {
+      solution: 'אין חכם כבעל ניסיון',
+      culture: 'עברית',
+      meaning: 'הניסיון מלמד יותר מכל ספר',
+    },
+    {
+      solution: 'כל התחלות קשות',
+      culture: 'עברית',
+      meaning: 'הצעד הראשון הוא תמיד הקשה ביותר',
+    },
+  ],
+};
+
+const withoutWords = (puzzle: PuzzleData): PuzzleData => ({
+  ...puzzle,
+  proverbs: puzzle.proverbs.map(proverb => {
+    const copy = { ...proverb };
+    delete copy.words;
+    return copy;
+  }),
+});
+
 describe('encodePuzzle', () => {
-  it('should encode puzzle data to base64', () => {
+  it('should tag the encoding with the current version', () => {
     const encoded = encodePuzzle(validPuzzle);
-    expect(typeof encoded).toBe('string');
-    expect(encoded.length).toBeGreaterThan(0);
+    expect(encoded.startsWith(`${PUZZLE_ENCODING_VERSION}.`)).toBe(true);
+  });
+
+  it('should produce a URL-safe string without padding', () => {
+    const encoded = encodePuzzle(hebrewPuzzle);
+    expect(encoded).toMatch(/^3\.[A-Za-z0-9_-]+\.[0-9a-f]{8}$/);
+    expect(encodeURIComponent(encoded)).toBe(encoded);
+  });
+
+  it('should be much shorter than the v1 encoding', () => {
+    expect(encodePuzzle(hebrewPuzzle).length).toBeLessThan(
+      encodePuzzleV1(hebrewPuzzle).length / 2
+    );
   });
+});
 
+describe('encodePuzzleV1', () => {
   it('should produce valid base64 string', () => {
-    const encoded = encodePuzzle(validPuzzle);
+    const encoded = encodePuzzleV1(validPuzzle);
     expect(() => atob(encoded)).not.toThrow();
   });
 });
 
 describe('decodePuzzle', () => {
-  it('should decode valid base64 puzzle', () => {
-    const encoded = encodePuzzle(validPuzzle);
-    const decoded = decodePuzzle(encoded);
-    expect(decoded).toEqual(validPuzzle);
+  it('should round-trip puzzles, dropping the deprecated words array', () => {
+    const decoded = decodePuzzle(encodePuzzle(validPuzzle));
+    expect(decoded).toEqual(withoutWords(validPuzzle));
+  });
+
+  it('should round-trip puzzles without ids', () => {
+    expect(decodePuzzle(encodePuzzle(hebrewPuzzle))).toEqual(hebrewPuzzle);
+  });
+
+  it('should still decode v2 links without a checksum', () => {
+    const v2 = encodePuzzle(hebrewPuzzle)
+      .replace(/^3\./, '2.')
+      .replace(/\.[0-9a-f]{8}$/, '');
+    expect(decodePuzzle(v2)).toEqual(hebrewPuzzle);
+  });
+
+  it('should still decode v1 links', () => {
+    expect(decodePuzzle(encodePuzzleV1(validPuzzle))).toEqual(validPuzzle);
+    expect(decodePuzzle(encodePuzzleV1(hebrewPuzzle))).toEqual(hebrewPuzzle);
+  });
+
+  it('should produce puzzles that pass validation', () => {
+    expect(validatePuzzle(decodePuzzle(encodePuzzle(hebrewPuzzle))).isValid).toBe(true);
   });
 
   it('should throw error for invalid base64', () => {
@@ -66,83 +139,54 @@ describe('decodePuzzle', () => {
     const invalidBase64 = btoa('not json content');
     expect(() => decodePuzzle(invalidBase64)).toThrow();
   });
+
+  it('should throw error for corrupted v2 data', () => {
+    expect(() => decodePuzzle('2.AAAA')).toThrow(/Failed to decode puzzle/);
+    expect(() => decodePuzzle('2.not*base64url')).toThrow(/Failed to decode puzzle/);
+  });
 });
 
-describe('validatePuzzle', () => {
-  it('should validate correct puzzle data', () => {
-    const result = validatePuzzle(validPuzzle);
-    expect(result.isValid).toBe(true);
-    expect(result.error).toBeUndefined();
-  });
-
-  it('should reject null puzzle data', () => {
-    const result = validatePuzzle(null);
-    expect(result.isValid).toBe(false);
-    expect(result.error).toContain('null or undefined');
-  });
-
-  it('should reject missing version', () => {
-    const invalid = { ...validPuzzle, version: undefined };
-    const result = validatePuzzle(invalid);
-    expect(result.isValid).toBe(false);
-    expect(result.error).toContain('version');
-  });
-
-  it('should reject missing language', () => {
-    const invalid = { ...validPuzzle, language: undefined };
-    const result = validatePuzzle(invalid);
-    expect(result.isValid).toBe(false);
-    expect(result.error).toContain('language');
-  });
-
-  it('should reject invalid language code', () => {
-    const invalid = { ...validPuzzle, language: 'invalid' };
-    const result = validatePuzzle(invalid);
-    expect(result.isValid).toBe(false);
-    expect(result.error).toContain('Invalid language code');
-  });
-
-  it('should reject too few proverbs', () => {
-    const invalid = { ...validPuzzle, proverbs: validPuzzle.proverbs.slice(0, 2) };
-    const result = validatePuzzle(invalid);
-    expect(result.isValid).toBe(false);
-    expect(result.error).toContain('number of proverbs');
-  });
-
-  it('should reject too many proverbs', () => {
-    const invalid = {
-      ...validPuzzle,
-      proverbs: [...validPuzzle.proverbs, validPuzzle.proverbs[0], validPuzzle.proverbs[0]],
-    };
-    const result = validatePuzzle(invalid);
-    expect(result.isValid).toBe(false);
-    expect(result.error).toContain('number of proverbs');
-  });
-
-  it('should auto-generate ID if missing', () => {
-    const puzzleWithoutId = {
-      ...validPuzzle,
-      proverbs: [
-        { ...validPuzzle.proverbs[0], id: undefined },
-        ...validPuzzle.proverbs.slice(1),
-      ],
-    };
-    const result = validatePuzzle(puzzleWithoutId);
-    expect(result.isValid).toBe(true);
-    expect(puzzleWithoutId.proverbs[0].id).toBeDefined();
-  });
-
-  it('should reject proverb with too few words (less than 3)', () => {
-    const invalid = {
-      ...validPuzzle,
-      proverbs: [
-        { ...validPuzzle.proverbs[0], solution: 'too few' }, // only 2 words
-        ...validPuzzle.proverbs.slice(1),
-      ],
-    };
-    const result = validatePuzzle(invalid);
-    expect(result.isValid).toBe(false);
-    expect(result.error).toContain('3-10 words');
+describe('PuzzleDecodeError reasons', () => {
+  const reasonFor = (encoded: string) => {
+    try {
+      decodeValidPuzzle(encoded);
+    } catch (error) {
+      expect(error).toBeInstanceOf(PuzzleDecodeError);
+      return (error as PuzzleDecodeError).reason;
+    }
+    return null;
+  };
+
+  it('should accept an intact link', () => {
+    expect(reasonFor(encodePuzzle(hebrewPuzzle))).toBeNull();
+  });
+
+  it('should report truncated links', () => {
+    const encoded = encodePuzzle(hebrewPuzzle);
+    expect(reasonFor(encoded.slice(0, -3))).toBe('truncated');
+    expect(reasonFor(encoded.slice(0, Math.floor(encoded.length / 2)))).toBe('truncated');
+  });
+
+  it('should report altered links', () => {
+    const encoded = encodePuzzle(hebrewPuzzle);
+    const index = 10;
+    const altered =
+      encoded.slice(0, index) + (encoded[index] === 'A' ? 'B' : 'A') + encoded.slice(index + 1);
+    expect(reasonFor(altered)).toBe('bad-checksum');
+  });
+
+  it('should report links from an unknown encoding version', () => {
+    const encoded = encodePuzzle(hebrewPuzzle).replace(/^3\./, '9.');
+    expect(reasonFor(encoded)).toBe('unsupported-version');
+  });
+
+  it('should report puzzles that decode but are not playable', () => {
+    const tooFew = { ...hebrewPuzzle, proverbs: hebrewPuzzle.proverbs.slice(0, 1) };
+    expect(reasonFor(encodePuzzle(tooFew))).toBe('schema-violation');
+  });
+
+  it('should report strings that are not puzzle links', () => {
+    expect(reasonFor('not a puzzle')).toBe('malformed');
   });
 });
 
@@ -165,3 +209,18 @@ describe('getPuzzleFromURL', () => {
     expect(puzzle).toBe('test123');
   });
 });
+
+describe('getSeedFromURL', () => {
+  it('should extract seed parameter alongside a puzzle', () => {
+    const url = 'https://example.com?puzzle=test123&seed=bug-42';
+    expect(getSeedFromURL(url)).toBe('bug-42');
+  });
+
+  it('should return null if no seed parameter', () => {
+    expect(getSeedFromURL('https://example.com?puzzle=test123')).toBeNull();
+  });
+
+  it('should ignore an empty seed parameter', () => {
+    expect(getSeedFromURL('https://example.com?seed=')).toBeNull();
+  });
+});
@@ -2,129 +2,228 @@
  * Puzzle loading utilities for decoding and validating puzzle data from URLs
  */
 
-import { PuzzleData } from '../types';
+import { deflateSync, inflateSync, strFromU8, strToU8 } from 'fflate';
+import { PuzzleData, PuzzleDecodeErrorReason } from '../types';
+import { createProverbId, formatValidationIssue, validatePuzzle } from './puzzleValidator';
+import { hashSeed } from './random';
 
 /**
- * Decodes a Base64-encoded puzzle string
- * Handles Unicode characters (Hebrew, etc.) by decoding from UTF-8
- * @param encodedPuzzle - Base64 encoded puzzle JSON string
- * @returns Decoded puzzle data object
- * @throws Error if decoding fails
+ * Current puzzle URL encoding version
+ * v1: Base64 of the full puzzle JSON
+ * v2: "2." + base64url (no padding) of the deflated compact puzzle
+ * v3: v2 followed by "." and a checksum of the payload, so cut or altered links are detected
  */
-export const decodePuzzle = (encodedPuzzle: string): PuzzleData => {
+export const PUZZLE_ENCODING_VERSION = 3;
+
+/** Length of the hex checksum at the end of a v3 link */
+const CHECKSUM_LENGTH = 8;
+
+/**
+ * Error thrown when an encoded puzzle cannot be turned into a playable puzzle
+ * The reason lets the UI explain what went wrong instead of showing a generic failure
+ */
+export class PuzzleDecodeError extends Error {
+  readonly reason: PuzzleDecodeErrorReason;
+
+  constructor(reason: PuzzleDecodeErrorReason, message: string) {
+    super(`Failed to decode puzzle: ${message}`);
+    this.name = 'PuzzleDecodeError';
+    this.reason = reason;
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, PuzzleDecodeError.prototype);
+  }
+}
+
+/**
+ * Compact payload shared by v2 and v3: [schema version, language, proverbs]
+ * Each proverb is [solution, culture, meaning] with an optional fourth id entry,
+ * stored only when it differs from the id validation would generate anyway.
+ * Scrambled words are not stored; they are always derived from the solution.
+ */
+type CompactProverb = [string, string, string] | [string, string, string, string];
+type CompactPuzzle = [string, string, CompactProverb[]];
+
+const bytesToBinary = (bytes: Uint8Array): string =>
+  Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+
+const binaryToBytes = (binary: string): Uint8Array =>
+  Uint8Array.from(binary, char => char.charCodeAt(0));
+
+const toBase64URL = (bytes: Uint8Array): string =>
+  btoa(bytesToBinary(bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const fromBase64URL = (encoded: string): Uint8Array => {
+  if (!/^[A-Za-z0-9_-]*$/.test(encoded)) {
+    throw new PuzzleDecodeError('malformed', 'Invalid base64url characters');
+  }
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const padding = '='.repeat((4 - (base64.length % 4)) % 4);
+  return binaryToBytes(atob(base64 + padding));
+};
+
+const checksum = (payload: string): string =>
+  hashSeed(payload).toString(16).padStart(CHECKSUM_LENGTH, '0');
+
+const compactPuzzle = (puzzleData: PuzzleData): CompactPuzzle => [
+  puzzleData.version,
+  puzzleData.language,
+  puzzleData.proverbs.map((proverb): CompactProverb =>
+    proverb.id && proverb.id !== createProverbId(proverb.solution)
+      ? [proverb.solution, proverb.culture, proverb.meaning, proverb.id]
+      : [proverb.solution, proverb.culture, proverb.meaning]
+  ),
+];
+
+const expandPuzzle = (compact: unknown): PuzzleData => {
+  if (!Array.isArray(compact) || compact.length !== 3 || !Array.isArray(compact[2])) {
+    throw new PuzzleDecodeError('schema-violation', 'Malformed compact puzzle');
+  }
+  const [version, language, proverbs] = compact as CompactPuzzle;
+  return {
+    version,
+    language,
+    proverbs: proverbs.map(entry => {
+      if (!Array.isArray(entry)) {
+        throw new PuzzleDecodeError('schema-violation', 'Malformed compact proverb');
+      }
+      const [solution, culture, meaning, id] = entry;
+      return id ? { id, solution, culture, meaning } : { solution, culture, meaning };
+    }),
+  } as PuzzleData;
+};
+
+/**
+ * Inflates a compact (v2/v3) payload back into puzzle data
+ * The payload has already passed its checksum (v3), so a failure here means
+ * the link was cut short (v2 has no checksum to tell)
+ */
+const decodeCompactPayload = (payload: string): PuzzleData => {
+  let json: string;
   try {
-    const binaryString = atob(encodedPuzzle);
-    // Convert binary string to bytes
-    const bytes = Uint8Array.from(binaryString, char => char.charCodeAt(0));
-    // Use TextDecoder to handle Unicode characters properly
-    const decodedString = new TextDecoder().decode(bytes);
-    const puzzleData = JSON.parse(decodedString);
-    return puzzleData;
+    json = strFromU8(inflateSync(fromBase64URL(payload)));
   } catch (error) {
-    throw new Error(
-      `Failed to decode puzzle: ${
-        error instanceof Error ? error.message : 'Unknown error'
-      }`
+    if (error instanceof PuzzleDecodeError) {
+      throw error;
+    }
+    throw new PuzzleDecodeError(
+      'truncated',
+      error instanceof Error ? error.message : 'Unknown error'
     );
   }
+  try {
+    return expandPuzzle(JSON.parse(json));
+  } catch (error) {
+    if (error instanceof PuzzleDecodeError) {
+      throw error;
+    }
+    throw new PuzzleDecodeError('truncated', 'Incomplete puzzle data');
+  }
 };
 
 /**
- * Encodes puzzle data to a Base64 string
- * Handles Unicode characters (Hebrew, etc.) by first encoding to UTF-8
- * @param puzzleData - Puzzle data object to encode
- * @returns Base64 encoded string
+ * Decodes a legacy v1 link (Base64 of the full puzzle JSON)
  */
-export const encodePuzzle = (puzzleData: PuzzleData): string => {
-  const jsonString = JSON.stringify(puzzleData);
-  // Use TextEncoder to handle Unicode characters properly
-  const utf8Bytes = new TextEncoder().encode(jsonString);
-  // Convert bytes to binary string
-  const binaryString = Array.from(utf8Bytes, byte => String.fromCharCode(byte)).join('');
-  return btoa(binaryString);
+const decodeV1 = (encodedPuzzle: string): PuzzleData => {
+  try {
+    const binaryString = atob(encodedPuzzle);
+    // Convert binary string to bytes
+    const bytes = binaryToBytes(binaryString);
+    // Use TextDecoder to handle Unicode characters properly
+    const decodedString = new TextDecoder().decode(bytes);
+    return JSON.parse(decodedString);
+  } catch (error) {
+    throw new PuzzleDecodeError(
+      'malformed',
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
 };
 
 /**
- * Validates puzzle data against the schema requirements
- * @param puzzleData - Puzzle data to validate
- * @returns Object with isValid boolean and optional error message
+ * Decodes a puzzle string produced by any version of encodePuzzle
+ * Compact links carry a "<version>." prefix; anything else is treated as a v1 Base64 JSON link
+ * Handles Unicode characters (Hebrew, etc.) by decoding from UTF-8
+ * @param encodedPuzzle - Encoded puzzle string from the URL
+ * @returns Decoded puzzle data object
+ * @throws PuzzleDecodeError if the link is cut short, altered or unreadable
  */
-export const validatePuzzle = (
-  puzzleData: any
-): { isValid: boolean; error?: string } => {
-  // Check if puzzle data exists
-  if (!puzzleData) {
-    return { isValid: false, error: 'Puzzle data is null or undefined' };
+export const decodePuzzle = (encodedPuzzle: string): PuzzleData => {
+  const versionMatch = encodedPuzzle.match(/^(\d+)\./);
+  if (!versionMatch) {
+    return decodeV1(encodedPuzzle);
   }
 
-  // Check required top-level fields
-  if (!puzzleData.version) {
-    return { isValid: false, error: 'Missing required field: version' };
-  }
+  const version = Number(versionMatch[1]);
+  const body = encodedPuzzle.slice(versionMatch[0].length);
 
-  if (!puzzleData.language) {
-    return { isValid: false, error: 'Missing required field: language' };
+  if (version === 2) {
+    return decodeCompactPayload(body);
   }
 
-  if (!puzzleData.proverbs || !Array.isArray(puzzleData.proverbs)) {
-    return { isValid: false, error: 'Missing or invalid field: proverbs' };
+  if (version !== PUZZLE_ENCODING_VERSION) {
+    throw new PuzzleDecodeError(
+      'unsupported-version',
+      `Unsupported encoding version: ${version}`
+    );
   }
 
-  // Validate language code
-  const validLanguages = ['en', 'he'];
-  if (!validLanguages.includes(puzzleData.language)) {
-    return {
-      isValid: false,
-      error: `Invalid language code: ${puzzleData.language}. Must be one of: ${validLanguages.join(', ')}`,
-    };
+  const separator = body.lastIndexOf('.');
+  const payload = separator === -1 ? body : body.slice(0, separator);
+  const expectedChecksum = separator === -1 ? '' : body.slice(separator + 1);
+  if (expectedChecksum.length !== CHECKSUM_LENGTH) {
+    throw new PuzzleDecodeError('truncated', 'Missing checksum');
   }
-
-  // Validate proverbs array length
-  if (puzzleData.proverbs.length < 3 || puzzleData.proverbs.length > 4) {
-    return {
-      isValid: false,
-      error: `Invalid number of proverbs: ${puzzleData.proverbs.length}. Must be between 3 and 4.`,
-    };
+  if (checksum(payload) !== expectedChecksum.toLowerCase()) {
+    throw new PuzzleDecodeError('bad-checksum', 'Checksum mismatch');
   }
+  return decodeCompactPayload(payload);
+};
 
-  // Auto-generate IDs and validate each proverb
-  for (let i = 0; i < puzzleData.proverbs.length; i++) {
-    const proverb = puzzleData.proverbs[i];
-
-    if (!proverb.solution) {
-      return { isValid: false, error: `Proverb ${i + 1}: Missing solution` };
-    }
-
-    // Auto-generate ID if not provided
-    if (!proverb.id) {
-      // Create a URL-safe slug from the solution
-      proverb.id = proverb.solution
-        .toLowerCase()
-        .replace(/[^\w\s-]/g, '') // Remove punctuation
-        .trim()
-        .replace(/\s+/g, '-') // Replace spaces with hyphens
-        .substring(0, 50); // Limit length
-    }
-
-    // Validate word count from solution (words array is deprecated)
-    const wordCount = proverb.solution.split(/\s+/).length;
-    if (wordCount < 3 || wordCount > 10) {
-      return {
-        isValid: false,
-        error: `Proverb ${i + 1}: Solution must contain 3-10 words, found ${wordCount}`,
-      };
-    }
-
-    if (!proverb.culture) {
-      return { isValid: false, error: `Proverb ${i + 1}: Missing culture` };
-    }
-
-    if (!proverb.meaning) {
-      return { isValid: false, error: `Proverb ${i + 1}: Missing meaning` };
-    }
+/**
+ * Decodes a puzzle string and checks that it is playable
+ * @param encodedPuzzle - Encoded puzzle string from the URL
+ * @returns Normalized, valid puzzle data
+ * @throws PuzzleDecodeError with reason "schema-violation" if the decoded puzzle is invalid
+ */
+export const decodeValidPuzzle = (encodedPuzzle: string): PuzzleData => {
+  const validation = validatePuzzle(decodePuzzle(encodedPuzzle));
+  if (!validation.puzzle) {
+    throw new PuzzleDecodeError(
+      'schema-violation',
+      validation.issues.map(formatValidationIssue).join('; ')
+    );
   }
+  return validation.puzzle;
+};
+
+/**
+ * Encodes puzzle data in the legacy v1 format (Base64 of the full JSON)
+ * Kept so older links can be reproduced; new links use encodePuzzle
+ * @param puzzleData - Puzzle data object to encode
+ * @returns Base64 encoded string
+ */
+export const encodePuzzleV1 = (puzzleData: PuzzleData): string => {
+  const jsonString = JSON.stringify(puzzleData);
+  // Use TextEncoder to handle Unicode characters properly
+  const utf8Bytes = new TextEncoder().encode(jsonString);
+  return btoa(bytesToBinary(utf8Bytes));
+};
 
-  return { isValid: true };
+/**
+ * Encodes puzzle data for a URL using the current (v3) format
+ * The puzzle is reduced to a compact array, deflated and written as unpadded
+ * base64url, so links stay short even for long Hebrew or Arabic proverbs.
+ * A trailing checksum lets decodePuzzle reject links that were cut or altered.
+ * @param puzzleData - Puzzle data object to encode
+ * @returns Version-tagged URL-safe string
+ */
+export const encodePuzzle = (puzzleData: PuzzleData): string => {
+  const json = JSON.stringify(compactPuzzle(puzzleData));
+  const payload = toBase64URL(deflateSync(strToU8(json), { level: 9 }));
+  return `${PUZZLE_ENCODING_VERSION}.${payload}.${checksum(payload)}`;
 };
 
 /**
@@ -140,6 +239,21 @@ export const getPuzzleFromURL = (
   return params.get('puzzle');
 };
 
+/**
+ * Extracts the optional seed parameter from URL
+ * A seed pins anchor selection and word pool order so a board can be reproduced
+ * @param url - URL string or window.location object
+ * @returns Seed string or null if not present
+ */
+export const getSeedFromURL = (
+  url: string | Location = window.location
+): string | null => {
+  const urlObj = typeof url === 'string' ? new URL(url) : url;
+  const params = new URLSearchParams(urlObj.search);
+  const seed = params.get('seed');
+  return seed && seed.trim() ? seed.trim() : null;
+};
+
 /**
  * Loads and validates puzzle from URL parameter
  * @returns Object with puzzle data or error
@@ -158,17 +272,7 @@ export const loadPuzzleFromURL = (): {
       };
     }
 
-    const puzzle = decodePuzzle(encodedPuzzle);
-    const validation = validatePuzzle(puzzle);
-
-    if (!validation.isValid) {
-      return {
-        puzzle: null,
-        error: `Invalid puzzle: ${validation.error}`,
-      };
-    }
-
-    return { puzzle, error: null };
+    return { puzzle: decodeValidPuzzle(encodedPuzzle), error: null };
   } catch (error) {
     return {
       puzzle: null,
@@ -0,0 +1,68 @@
+/**
+ * Tests for puzzle size configuration
+ */
+
+import {
+  DEFAULT_PUZZLE_SIZE,
+  PUZZLE_LIMITS,
+  PUZZLE_SIZE_PRESETS,
+  PUZZLE_SIZES,
+  getPuzzleSizePreference,
+  isPuzzleSize,
+  savePuzzleSizePreference,
+} from './puzzleSize';
+import { getTranslations } from './translations';
+import { SUPPORTED_LANGUAGES } from './languages';
+
+describe('puzzle size presets', () => {
+  it('defines the proverb count of every preset', () => {
+    expect(PUZZLE_SIZES).toEqual(['easy', 'standard', 'hard', 'expert']);
+    expect(PUZZLE_SIZES.map(size => PUZZLE_SIZE_PRESETS[size].proverbCount)).toEqual([2, 3, 5, 6]);
+    expect(PUZZLE_SIZE_PRESETS[DEFAULT_PUZZLE_SIZE].proverbCount).toBe(3);
+  });
+
+  it('derives the proverb limits from the presets', () => {
+    expect(PUZZLE_LIMITS).toEqual({ minProverbs: 2, maxProverbs: 6, minWords: 3, maxWords: 15 });
+  });
+
+  it('recognizes only preset names', () => {
+    expect(isPuzzleSize('hard')).toBe(true);
+    expect(isPuzzleSize('huge')).toBe(false);
+    expect(isPuzzleSize('toString')).toBe(false);
+    expect(isPuzzleSize(null)).toBe(false);
+  });
+
+  it('names every preset in every language', () => {
+    SUPPORTED_LANGUAGES.forEach(code => {
+      const names = getTranslations(code).puzzleSizeNames;
+      PUZZLE_SIZES.forEach(size => {
+        expect(names[size]).toBeTruthy();
+      });
+    });
+  });
+});
+
+describe('puzzle size preference', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    window.history.replaceState({}, '', '/');
+  });
+
+  it('defaults to the standard size', () => {
+    expect(getPuzzleSizePreference()).toBe('standard');
+  });
+
+  it('remembers the chosen size', () => {
+    savePuzzleSizePreference('expert');
+    expect(getPuzzleSizePreference()).toBe('expert');
+  });
+
+  it('prefers a valid size from the URL', () => {
+    savePuzzleSizePreference('expert');
+    window.history.replaceState({}, '', '/?size=easy');
+    expect(getPuzzleSizePreference()).toBe('easy');
+
+    window.history.replaceState({}, '', '/?size=giant');
+    expect(getPuzzleSizePreference()).toBe('expert');
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Puzzle size configuration
+ * Single source for how many proverbs a puzzle has and how long a proverb may be.
+ * The validator, the builder, the CSV generator and the game layout all read from here;
+ * types/puzzle_schema.json mirrors PUZZLE_LIMITS (kept in sync by a test).
+ */
+
+/**
+ * Named puzzle sizes the player can choose from
+ */
+export type PuzzleSize = 'easy' | 'standard' | 'hard' | 'expert';
+
+/**
+ * Settings for one puzzle size
+ */
+export interface PuzzleSizePreset {
+  /** Number of proverbs mixed into the pool */
+  proverbCount: number;
+}
+
+/**
+ * Size presets in order from smallest to largest
+ */
+export const PUZZLE_SIZE_PRESETS: Record<PuzzleSize, PuzzleSizePreset> = {
+  easy: { proverbCount: 2 },
+  standard: { proverbCount: 3 },
+  hard: { proverbCount: 5 },
+  expert: { proverbCount: 6 },
+};
+
+/**
+ * All sizes in display order
+ */
+export const PUZZLE_SIZES = Object.keys(PUZZLE_SIZE_PRESETS) as PuzzleSize[];
+
+/**
+ * Size used when the player has not chosen one (and always for the daily puzzle)
+ */
+export const DEFAULT_PUZZLE_SIZE: PuzzleSize = 'standard';
+
+const proverbCounts = PUZZLE_SIZES.map(size => PUZZLE_SIZE_PRESETS[size].proverbCount);
+
+/**
+ * Bounds every puzzle must respect, whatever its size
+ * Custom puzzles may use any proverb count within these bounds
+ */
+export const PUZZLE_LIMITS = {
+  minProverbs: Math.min(...proverbCounts),
+  maxProverbs: Math.max(...proverbCounts),
+  minWords: 3,
+  maxWords: 15,
+};
+
+/**
+ * From this many proverbs on, the board is laid out in two columns on wide screens
+ */
+export const GRID_LAYOUT_MIN_PROVERBS = 5;
+
+/**
+ * Checks whether a value is a known puzzle size
+ * @param value - Value to check (e.g. from the URL or localStorage)
+ * @returns true if the value names a preset
+ */
+export const isPuzzleSize = (value: unknown): value is PuzzleSize =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(PUZZLE_SIZE_PRESETS, value);
+
+/**
+ * Gets the puzzle size the player asked for
+ * Checks the URL (?size=hard) first, then the saved preference
+ * @returns The chosen puzzle size, or the default
+ */
+export const getPuzzleSizePreference = (): PuzzleSize => {
+  const urlSize = new URLSearchParams(window.location.search).get('size');
+  if (isPuzzleSize(urlSize)) {
+    return urlSize;
+  }
+
+  const savedSize = localStorage.getItem('preferredPuzzleSize');
+  if (isPuzzleSize(savedSize)) {
+    return savedSize;
+  }
+
+  return DEFAULT_PUZZLE_SIZE;
+};
+
+/**
+ * Remembers the player's puzzle size for future visits
+ * @param size - Chosen puzzle size
+ */
+export const savePuzzleSizePreference = (size: PuzzleSize): void => {
+  localStorage.setItem('preferredPuzzleSize', size);
+};
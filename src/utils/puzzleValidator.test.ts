@@ -0,0 +1,231 @@
+/**
+ * Tests for puzzle validation
+ */
+
+import {
+  createProverbId,
+  formatValidationIssue,
+  validateProverb,
+  validatePuzzle,
+} from './puzzleValidator';
+import { SUPPORTED_LANGUAGES } from './languages';
+import { PUZZLE_LIMITS } from './puzzleSize';
+import puzzleSchema from '../types/puzzle_schema.json';
+import { PuzzleData } from '../types';
+
+const validPuzzle: PuzzleData = {
+  version: '1',
+  language: 'en',
+  proverbs: [
+    {
+      id: 'test-proverb-1',
+      words: ['test', 'proverb', 'one', 'here', 'now'],
+      solution: 'Test proverb one here now',
+      culture: 'Test Culture',
+      meaning: 'This is a test proverb meaning',
+    },
+    {
+      id: 'test-proverb-2',
+      solution: 'Another test proverb example words',
+      culture: 'Test Culture',
+      meaning: 'This is another test proverb meaning',
+    },
+    {
+      id: 'test-proverb-3',
+      solution: 'Third test proverb sample text',
+      culture: 'Test Culture',
+      meaning: 'This is a third test proverb meaning',
+    },
+  ],
+};
+
+describe('validatePuzzle', () => {
+  it('should validate correct puzzle data', () => {
+    const result = validatePuzzle(validPuzzle);
+    expect(result.isValid).toBe(true);
+    expect(result.error).toBeUndefined();
+  });
+
+  it('should reject null puzzle data', () => {
+    const result = validatePuzzle(null);
+    expect(result.isValid).toBe(false);
+    expect(result.error).toContain('null or undefined');
+  });
+
+  it('should reject missing version', () => {
+    const invalid = { ...validPuzzle, version: undefined };
+    const result = validatePuzzle(invalid);
+    expect(result.isValid).toBe(false);
+    expect(result.error).toContain('version');
+  });
+
+  it('should reject missing language', () => {
+    const invalid = { ...validPuzzle, language: undefined };
+    const result = validatePuzzle(invalid);
+    expect(result.isValid).toBe(false);
+    expect(result.error).toContain('language');
+  });
+
+  it('should reject invalid language code', () => {
+    const invalid = { ...validPuzzle, language: 'invalid' };
+    const result = validatePuzzle(invalid);
+    expect(result.isValid).toBe(false);
+    expect(result.error).toContain('Invalid language code');
+  });
+
+  it('should reject too few proverbs', () => {
+    const invalid = { ...validPuzzle, proverbs: validPuzzle.proverbs.slice(0, 1) };
+    const result = validatePuzzle(invalid);
+    expect(result.isValid).toBe(false);
+    expect(result.error).toContain('number of proverbs');
+  });
+
+  it('should reject too many proverbs', () => {
+    const invalid = {
+      ...validPuzzle,
+      proverbs: [...validPuzzle.proverbs, ...validPuzzle.proverbs, validPuzzle.proverbs[0]],
+    };
+    const result = validatePuzzle(invalid);
+    expect(result.isValid).toBe(false);
+    expect(result.error).toContain('number of proverbs');
+  });
+
+  it('should auto-generate ID if missing without mutating the input', () => {
+    const puzzleWithoutId = {
+      ...validPuzzle,
+      proverbs: [
+        { ...validPuzzle.proverbs[0], id: undefined },
+        ...validPuzzle.proverbs.slice(1),
+      ],
+    };
+    const result = validatePuzzle(puzzleWithoutId);
+    expect(result.isValid).toBe(true);
+    expect(result.puzzle?.proverbs[0].id).toBe('test-proverb-one-here-now');
+    expect(puzzleWithoutId.proverbs[0].id).toBeUndefined();
+  });
+
+  it('should accept every preset size and long proverbs', () => {
+    const proverb = validPuzzle.proverbs[1];
+    [2, 3, 5, 6].forEach(count => {
+      const puzzle = { ...validPuzzle, proverbs: Array.from({ length: count }, () => proverb) };
+      expect(validatePuzzle(puzzle).isValid).toBe(true);
+    });
+    const longProverb = { ...proverb, solution: Array.from({ length: 15 }, (_, i) => `w${i}`).join(' ') };
+    expect(
+      validatePuzzle({ ...validPuzzle, proverbs: [longProverb, proverb, proverb] }).isValid
+    ).toBe(true);
+  });
+
+  it('should reject proverb with too few words (less than 3)', () => {
+    const invalid = {
+      ...validPuzzle,
+      proverbs: [
+        { ...validPuzzle.proverbs[0], solution: 'too few' }, // only 2 words
+        ...validPuzzle.proverbs.slice(1),
+      ],
+    };
+    const result = validatePuzzle(invalid);
+    expect(result.isValid).toBe(false);
+    expect(result.error).toContain('3-15 words');
+  });
+
+  it('should report every issue with its path', () => {
+    const result = validatePuzzle({
+      version: '1',
+      language: 'xx',
+      proverbs: [
+        validPuzzle.proverbs[0],
+        { ...validPuzzle.proverbs[1], culture: '  ' },
+        { solution: 'too few', meaning: 42 },
+      ],
+    });
+    expect(result.isValid).toBe(false);
+    expect(result.puzzle).toBeUndefined();
+    expect(result.issues.map(issue => issue.path)).toEqual([
+      'language',
+      'proverbs[1].culture',
+      'proverbs[2].solution',
+      'proverbs[2].culture',
+      'proverbs[2].meaning',
+    ]);
+    expect(result.error).toBe(formatValidationIssue(result.issues[0]));
+  });
+
+  it('should reject values of the wrong type', () => {
+    expect(validatePuzzle('puzzle').error).toContain('must be an object');
+    expect(validatePuzzle({ ...validPuzzle, version: 1 }).issues[0].path).toBe('version');
+    expect(validatePuzzle({ ...validPuzzle, proverbs: {} }).issues[0].path).toBe('proverbs');
+  });
+
+  it('should return a normalized copy', () => {
+    const input = {
+      ...validPuzzle,
+      proverbs: validPuzzle.proverbs.map(proverb => ({
+        ...proverb,
+        solution: `  ${proverb.solution} `,
+      })),
+    };
+    const snapshot = JSON.parse(JSON.stringify(input));
+    const result = validatePuzzle(input);
+
+    expect(input).toEqual(snapshot);
+    expect(result.puzzle).not.toBe(input);
+    result.puzzle?.proverbs.forEach((proverb, index) => {
+      expect(proverb.solution).toBe(validPuzzle.proverbs[index].solution);
+      expect(proverb.words).toBeUndefined();
+    });
+  });
+
+  it('should give repeated generated ids a suffix', () => {
+    const proverb = { solution: 'Time is money', culture: 'English', meaning: 'Do not waste time' };
+    const result = validatePuzzle({ version: '1', language: 'en', proverbs: [proverb, proverb, proverb] });
+    expect(result.puzzle?.proverbs.map(p => p.id)).toEqual([
+      'time-is-money',
+      'time-is-money-2',
+      'time-is-money-3',
+    ]);
+  });
+});
+
+describe('validateProverb', () => {
+  it('should prefix issue paths', () => {
+    const { issues, proverb } = validateProverb({ solution: 'One two' }, 'rows[4]');
+    expect(proverb).toBeUndefined();
+    expect(issues.map(issue => issue.path)).toEqual([
+      'rows[4].solution',
+      'rows[4].culture',
+      'rows[4].meaning',
+    ]);
+  });
+
+  it('should count words without punctuation', () => {
+    const { issues } = validateProverb({
+      solution: 'Trust , but – verify',
+      culture: 'Russian',
+      meaning: 'Check even those you rely on',
+    });
+    expect(issues).toEqual([]);
+  });
+});
+
+describe('createProverbId', () => {
+  it('should keep letters of non-Latin scripts', () => {
+    expect(createProverbId('כל התחלות קשות')).toBe('כל-התחלות-קשות');
+    expect(createProverbId("Don't count your chickens!")).toBe('dont-count-your-chickens');
+  });
+});
+
+describe('puzzle_schema.json', () => {
+  it('should list every supported language', () => {
+    expect(puzzleSchema.properties.language.enum).toEqual(SUPPORTED_LANGUAGES);
+  });
+
+  it('should mirror the puzzle size limits', () => {
+    const { proverbs } = puzzleSchema.properties;
+    const { solution } = puzzleSchema.definitions.proverb.properties;
+    expect(proverbs.minItems).toBe(PUZZLE_LIMITS.minProverbs);
+    expect(proverbs.maxItems).toBe(PUZZLE_LIMITS.maxProverbs);
+    expect(solution['x-minWords']).toBe(PUZZLE_LIMITS.minWords);
+    expect(solution['x-maxWords']).toBe(PUZZLE_LIMITS.maxWords);
+  });
+});
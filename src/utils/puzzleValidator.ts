@@ -0,0 +1,225 @@
+/**
+ * Puzzle validation against puzzle_schema.json
+ * Size limits come from utils/puzzleSize, which the schema mirrors.
+ * Shared by the builder, the URL loader and the CSV loader. Validation is pure:
+ * the input is never modified, and a valid puzzle comes back as a normalized copy.
+ */
+
+import { LanguageCode, Proverb, PuzzleData } from '../types';
+import { isSupportedLanguage, SUPPORTED_LANGUAGES } from './languages';
+import { PUZZLE_LIMITS } from './puzzleSize';
+import { getSolutionWords, normalizeWord } from './tokenizer';
+
+/**
+ * A single problem found in puzzle data
+ */
+export interface PuzzleValidationIssue {
+  /** Location of the problem, e.g. "proverbs[2].solution" ("" for the whole puzzle) */
+  path: string;
+  /** Human readable description */
+  message: string;
+}
+
+/**
+ * Result of validating puzzle data
+ */
+export interface PuzzleValidationResult {
+  isValid: boolean;
+  /** First issue formatted as a single line, for callers that show one message */
+  error?: string;
+  /** Every issue found, in document order */
+  issues: PuzzleValidationIssue[];
+  /** Normalized copy of the input (trimmed text, generated ids), only when valid */
+  puzzle?: PuzzleData;
+}
+
+/**
+ * Result of validating a single proverb
+ */
+export interface ProverbValidationResult {
+  issues: PuzzleValidationIssue[];
+  /** Normalized copy of the proverb, only when it has no issues */
+  proverb?: Proverb;
+}
+
+const MAX_ID_LENGTH = 50;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const joinPath = (base: string, key: string): string => (base ? `${base}.${key}` : key);
+
+/**
+ * Formats an issue as "path: message"
+ * @param issue - Validation issue
+ * @returns Single line description
+ */
+export const formatValidationIssue = (issue: PuzzleValidationIssue): string =>
+  issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+
+/**
+ * Creates a URL-safe identifier from a proverb solution
+ * Keeps letters of every script, so Hebrew and Arabic proverbs get readable ids
+ * @param solution - Proverb solution text
+ * @returns Identifier such as "a-bird-in-the-hand"
+ */
+export const createProverbId = (solution: string): string =>
+  getSolutionWords(solution)
+    .map(normalizeWord)
+    .join('-')
+    .replace(/[^\w\u00c0-\uffff-]/g, '')
+    .substring(0, MAX_ID_LENGTH);
+
+const checkText = (
+  proverb: Record<string, unknown>,
+  field: 'solution' | 'culture' | 'meaning',
+  path: string,
+  issues: PuzzleValidationIssue[]
+): string => {
+  const value = proverb[field];
+  const fieldPath = joinPath(path, field);
+  if (value === undefined || value === null) {
+    issues.push({ path: fieldPath, message: `Missing ${field}` });
+    return '';
+  }
+  if (typeof value !== 'string') {
+    issues.push({ path: fieldPath, message: `Expected a string, found ${typeof value}` });
+    return '';
+  }
+  const trimmed = value.trim();
+  if (!trimmed) {
+    issues.push({ path: fieldPath, message: `Missing ${field}` });
+  }
+  return trimmed;
+};
+
+/**
+ * Validates one proverb
+ * @param input - Proverb candidate (e.g. a CSV row or an entry of puzzle.proverbs)
+ * @param path - Path of the proverb within the puzzle, used to prefix issue paths
+ * @returns Issues found, and the normalized proverb if there were none
+ */
+export const validateProverb = (input: unknown, path = ''): ProverbValidationResult => {
+  if (!isRecord(input)) {
+    return { issues: [{ path, message: 'Expected a proverb object' }] };
+  }
+
+  const issues: PuzzleValidationIssue[] = [];
+  const solution = checkText(input, 'solution', path, issues);
+  if (solution) {
+    const wordCount = getSolutionWords(solution).length;
+    if (wordCount < PUZZLE_LIMITS.minWords || wordCount > PUZZLE_LIMITS.maxWords) {
+      issues.push({
+        path: joinPath(path, 'solution'),
+        message: `Solution must contain ${PUZZLE_LIMITS.minWords}-${PUZZLE_LIMITS.maxWords} words, found ${wordCount}`,
+      });
+    }
+  }
+  const culture = checkText(input, 'culture', path, issues);
+  const meaning = checkText(input, 'meaning', path, issues);
+
+  if (input.id !== undefined && (typeof input.id !== 'string' || !input.id.trim())) {
+    issues.push({ path: joinPath(path, 'id'), message: 'Expected a non-empty string' });
+  }
+  if (
+    input.words !== undefined &&
+    (!Array.isArray(input.words) || input.words.some(word => typeof word !== 'string'))
+  ) {
+    issues.push({ path: joinPath(path, 'words'), message: 'Expected an array of strings' });
+  }
+
+  if (issues.length > 0) {
+    return { issues };
+  }
+
+  return {
+    issues,
+    proverb: {
+      id: typeof input.id === 'string' ? input.id.trim() : createProverbId(solution),
+      solution,
+      culture,
+      meaning,
+    },
+  };
+};
+
+/**
+ * Makes generated ids unique within a puzzle by numbering repeats
+ */
+const dedupeIds = (proverbs: Proverb[]): Proverb[] => {
+  const seen = new Map<string, number>();
+  return proverbs.map(proverb => {
+    const id = proverb.id ?? '';
+    const count = (seen.get(id) ?? 0) + 1;
+    seen.set(id, count);
+    return count === 1 ? proverb : { ...proverb, id: `${id}-${count}` };
+  });
+};
+
+/**
+ * Validates puzzle data against the schema and collects every issue
+ * Never mutates the input; a valid puzzle is returned as a normalized copy with
+ * trimmed text, generated ids and the deprecated words array removed
+ * @param input - Puzzle candidate of unknown shape (decoded link, builder output, JSON file)
+ * @returns Validation result with all issues and, when valid, the normalized puzzle
+ */
+export const validatePuzzle = (input: unknown): PuzzleValidationResult => {
+  const issues: PuzzleValidationIssue[] = [];
+
+  if (input === null || input === undefined) {
+    issues.push({ path: '', message: 'Puzzle data is null or undefined' });
+  } else if (!isRecord(input)) {
+    issues.push({ path: '', message: 'Puzzle data must be an object' });
+  }
+
+  const data = isRecord(input) ? input : {};
+  const proverbs: Proverb[] = [];
+
+  if (isRecord(input)) {
+    if (typeof data.version !== 'string' || !data.version) {
+      issues.push({ path: 'version', message: 'Missing required field: version' });
+    }
+
+    if (!data.language) {
+      issues.push({ path: 'language', message: 'Missing required field: language' });
+    } else if (!isSupportedLanguage(data.language)) {
+      issues.push({
+        path: 'language',
+        message: `Invalid language code: ${data.language}. Must be one of: ${SUPPORTED_LANGUAGES.join(', ')}`,
+      });
+    }
+
+    if (!Array.isArray(data.proverbs)) {
+      issues.push({ path: 'proverbs', message: 'Missing or invalid field: proverbs' });
+    } else {
+      const count = data.proverbs.length;
+      if (count < PUZZLE_LIMITS.minProverbs || count > PUZZLE_LIMITS.maxProverbs) {
+        issues.push({
+          path: 'proverbs',
+          message: `Invalid number of proverbs: ${count}. Must be between ${PUZZLE_LIMITS.minProverbs} and ${PUZZLE_LIMITS.maxProverbs}.`,
+        });
+      }
+      data.proverbs.forEach((entry, index) => {
+        const result = validateProverb(entry, `proverbs[${index}]`);
+        issues.push(...result.issues);
+        if (result.proverb) {
+          proverbs.push(result.proverb);
+        }
+      });
+    }
+  }
+
+  if (issues.length > 0) {
+    return { isValid: false, error: formatValidationIssue(issues[0]), issues };
+  }
+
+  return {
+    isValid: true,
+    issues,
+    puzzle: {
+      version: data.version as string,
+      language: data.language as LanguageCode,
+      proverbs: dedupeIds(proverbs),
+    },
+  };
+};
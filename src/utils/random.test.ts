@@ -0,0 +1,53 @@
+/**
+ * Tests for seedable random utilities
+ */
+
+import { createSeededRandom, hashSeed } from './random';
+
+describe('hashSeed', () => {
+  it('should be stable for the same input', () => {
+    expect(hashSeed('proverb')).toBe(hashSeed('proverb'));
+  });
+
+  it('should differ for different inputs', () => {
+    expect(hashSeed('proverb-1')).not.toBe(hashSeed('proverb-2'));
+  });
+
+  it('should return an unsigned 32-bit integer', () => {
+    const hash = hashSeed('פתגם');
+    expect(Number.isInteger(hash)).toBe(true);
+    expect(hash).toBeGreaterThanOrEqual(0);
+    expect(hash).toBeLessThan(2 ** 32);
+  });
+});
+
+describe('createSeededRandom', () => {
+  it('should produce the same sequence for the same seed', () => {
+    const first = createSeededRandom('abc');
+    const second = createSeededRandom('abc');
+    for (let i = 0; i < 20; i++) {
+      expect(first()).toBe(second());
+    }
+  });
+
+  it('should produce a pinned sequence', () => {
+    const random = createSeededRandom('abc');
+    expect(random()).toBeCloseTo(0.5166419988963753, 12);
+    expect(random()).toBeCloseTo(0.6596221292857081, 12);
+  });
+
+  it('should produce different sequences for different seeds', () => {
+    const first = createSeededRandom('abc');
+    const second = createSeededRandom('abd');
+    expect([first(), first(), first()]).not.toEqual([second(), second(), second()]);
+  });
+
+  it('should stay within [0, 1)', () => {
+    const random = createSeededRandom('range');
+    for (let i = 0; i < 1000; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
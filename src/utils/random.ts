@@ -0,0 +1,40 @@
+/**
+ * Seedable random number utilities
+ * Provides a drop-in replacement for Math.random() that produces the same
+ * sequence for the same seed, so puzzles can be reproduced across players
+ */
+
+/**
+ * A function returning a float in [0, 1), compatible with Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Hashes a string seed into a 32-bit unsigned integer (FNV-1a)
+ * @param seed - Any string (dates, language codes, user supplied seeds)
+ * @returns 32-bit unsigned hash
+ */
+export const hashSeed = (seed: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Creates a deterministic random source from a string seed (mulberry32)
+ * @param seed - Seed string; identical seeds yield identical sequences
+ * @returns Random source with the same contract as Math.random
+ */
+export const createSeededRandom = (seed: string): RandomSource => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
@@ -0,0 +1,140 @@
+/**
+ * Tests for the shareable result summary
+ */
+
+import {
+  buildShareGrid,
+  buildShareLink,
+  buildShareText,
+  shareResultText,
+  ShareableResult,
+} from './shareResult';
+import { decodePuzzle } from './puzzleLoader';
+import { getTranslations } from './translations';
+import { PuzzleData } from '../types';
+
+const puzzle: PuzzleData = {
+  version: '1',
+  language: 'en',
+  proverbs: [
+    { solution: 'Actions speak louder than words', culture: 'English', meaning: 'Deeds matter' },
+    { solution: 'Time is money', culture: 'English', meaning: 'Do not waste time' },
+    { solution: 'Better late than never', culture: 'English', meaning: 'Arrive eventually' },
+  ],
+};
+
+const createResult = (overrides: Partial<ShareableResult> = {}): ShareableResult => ({
+  puzzleData: puzzle,
+  proverbValidation: puzzle.proverbs.map(() => ({ isSolved: true, isValidated: true })),
+  usedHints: new Set([1]),
+  wordHintsUsed: new Map([[1, 2]]),
+  totalHintsUsed: 3,
+  totalValidationAttempts: 2,
+  ...overrides,
+});
+
+const BASE_URL = 'https://example.com/proverb-pile/';
+
+describe('buildShareGrid', () => {
+  it('shows one square per word with hinted words last', () => {
+    expect(buildShareGrid(createResult())).toEqual([
+      '🟩🟩🟩🟩🟩',
+      '🟩🟨🟨 💡',
+      '🟩🟩🟩🟩',
+    ]);
+  });
+
+  it('marks unsolved proverbs', () => {
+    const result = createResult({
+      proverbValidation: [
+        { isSolved: true, isValidated: true },
+        { isSolved: false, isValidated: true },
+        { isSolved: true, isValidated: true },
+      ],
+    });
+
+    expect(buildShareGrid(result)[1]).toBe('🟥🟥🟥 💡');
+  });
+});
+
+describe('buildShareText', () => {
+  const t = getTranslations('en');
+
+  it('summarizes the game without revealing any proverb', () => {
+    const text = buildShareText(createResult({ timeToComplete: 83 }), t, 'https://link');
+
+    expect(text).toContain('Proverb Pile');
+    expect(text).toContain('3/3 proverbs · 2 attempts · 3 hints · ⏱ 1:23');
+    expect(text.endsWith('https://link')).toBe(true);
+
+    puzzle.proverbs.forEach(proverb => {
+      proverb.solution.split(' ').forEach(word => {
+        expect(text.toLowerCase()).not.toContain(word.toLowerCase());
+      });
+    });
+  });
+
+  it('includes the title when given', () => {
+    const text = buildShareText(createResult(), t, 'https://link', t.dailyPuzzleDate('2026-10-19'));
+    expect(text.split('\n')[0]).toBe('Proverb Pile · Puzzle of the Day · 2026-10-19');
+  });
+});
+
+describe('buildShareLink', () => {
+  it('links daily puzzles by date', () => {
+    const link = buildShareLink({ puzzleData: puzzle, dailyDateKey: '2026-10-19', baseURL: BASE_URL });
+    expect(link).toBe('https://example.com/proverb-pile/?lang=en#/daily/2026-10-19');
+  });
+
+  it('embeds other puzzles together with their seed', () => {
+    const link = new URL(
+      buildShareLink({ puzzleData: puzzle, seed: 'abc', baseURL: `${BASE_URL}?lang=en#/` })
+    );
+
+    expect(link.hash).toBe('');
+    expect(link.searchParams.get('seed')).toBe('abc');
+    expect(decodePuzzle(link.searchParams.get('puzzle')!)).toEqual(puzzle);
+  });
+
+  it('carries a non-default difficulty', () => {
+    const daily = new URL(
+      buildShareLink({
+        puzzleData: puzzle,
+        dailyDateKey: '2026-10-19',
+        difficulty: 'challenging',
+        baseURL: BASE_URL,
+      })
+    );
+    expect(daily.searchParams.get('difficulty')).toBe('challenging');
+
+    const classic = new URL(buildShareLink({ puzzleData: puzzle, difficulty: 'classic', baseURL: BASE_URL }));
+    expect(classic.searchParams.has('difficulty')).toBe(false);
+  });
+});
+
+describe('shareResultText', () => {
+  const originalShare = navigator.share;
+  const originalClipboard = navigator.clipboard;
+
+  afterEach(() => {
+    Object.defineProperty(navigator, 'share', { value: originalShare, configurable: true });
+    Object.defineProperty(navigator, 'clipboard', { value: originalClipboard, configurable: true });
+  });
+
+  it('uses the native share sheet when available', async () => {
+    const share = jest.fn().mockResolvedValue(undefined);
+    Object.defineProperty(navigator, 'share', { value: share, configurable: true });
+
+    await expect(shareResultText('summary')).resolves.toBe('shared');
+    expect(share).toHaveBeenCalledWith({ text: 'summary' });
+  });
+
+  it('copies to the clipboard otherwise', async () => {
+    const writeText = jest.fn().mockResolvedValue(undefined);
+    Object.defineProperty(navigator, 'share', { value: undefined, configurable: true });
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+
+    await expect(shareResultText('summary')).resolves.toBe('copied');
+    expect(writeText).toHaveBeenCalledWith('summary');
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Shareable result summary
+ * Builds a Wordle-style emoji grid of a finished game that tells friends how
+ * it went without revealing any of the proverbs
+ */
+
+import { ProverbValidation, PuzzleData } from '../types';
+import { DEFAULT_DIFFICULTY, DifficultyLevel } from './difficulty';
+import { encodePuzzle } from './puzzleLoader';
+import { formatDuration } from './timeFormat';
+import { countWordsInSolution } from './wordUtils';
+
+/** Square for a word the player placed themselves */
+export const SHARE_SOLVED = '🟩';
+/** Square for a word placed by a hint */
+export const SHARE_HINTED = '🟨';
+/** Square for a word of a proverb left unsolved */
+export const SHARE_UNSOLVED = '🟥';
+/** Marker for a proverb whose meaning was revealed */
+export const SHARE_MEANING = '💡';
+
+/**
+ * Everything about a finished game that goes into the summary
+ */
+export interface ShareableResult {
+  puzzleData: PuzzleData;
+  proverbValidation: ProverbValidation[];
+  usedHints: Set<number>;
+  wordHintsUsed: Map<number, number>;
+  totalHintsUsed: number;
+  totalValidationAttempts: number;
+  /** Solve time in seconds, if the game was timed */
+  timeToComplete?: number;
+}
+
+/**
+ * Localized pieces of the summary text
+ */
+export interface ShareTranslations {
+  appName: string;
+  shareSolved: (solved: number, total: number) => string;
+  shareAttempts: (count: number) => string;
+  shareHints: (count: number) => string;
+}
+
+/**
+ * Where the shared link should lead
+ */
+export interface ShareLinkOptions {
+  puzzleData: PuzzleData;
+  /** Seed that reproduces the exact board (anchors and word order) */
+  seed?: string;
+  /** Daily puzzles link to their date instead of embedding the puzzle */
+  dailyDateKey?: string | null;
+  /** Difficulty the game was played at (left out of the link when it is the default) */
+  difficulty?: DifficultyLevel;
+  /** Base URL of the app (defaults to the current page without query or hash) */
+  baseURL?: string;
+}
+
+/**
+ * Builds one emoji row per proverb
+ * Rows only reveal word counts and hint usage, never the words themselves
+ * @param result - Finished game
+ * @returns Emoji rows, one per proverb
+ */
+export const buildShareGrid = (result: ShareableResult): string[] => {
+  return result.puzzleData.proverbs.map((proverb, index) => {
+    const wordCount = countWordsInSolution(proverb.solution);
+    const meaning = result.usedHints.has(index) ? ` ${SHARE_MEANING}` : '';
+
+    if (!result.proverbValidation[index]?.isSolved) {
+      return SHARE_UNSOLVED.repeat(wordCount) + meaning;
+    }
+
+    const hinted = Math.min(result.wordHintsUsed.get(index) || 0, wordCount);
+    return SHARE_SOLVED.repeat(wordCount - hinted) + SHARE_HINTED.repeat(hinted) + meaning;
+  });
+};
+
+/**
+ * Builds a link that opens the same puzzle
+ * @param options - Puzzle and how it was served
+ * @returns Absolute URL
+ */
+export const buildShareLink = ({
+  puzzleData,
+  seed,
+  dailyDateKey,
+  difficulty = DEFAULT_DIFFICULTY,
+  baseURL = window.location.origin + window.location.pathname,
+}: ShareLinkOptions): string => {
+  const url = new URL(baseURL);
+  url.search = '';
+  url.hash = '';
+
+  // Friends get the same anchors and attempts to compare results fairly
+  if (difficulty !== DEFAULT_DIFFICULTY) {
+    url.searchParams.set('difficulty', difficulty);
+  }
+
+  if (dailyDateKey) {
+    url.searchParams.set('lang', puzzleData.language);
+    url.hash = `#/daily/${dailyDateKey}`;
+    return url.toString();
+  }
+
+  url.searchParams.set('puzzle', encodePuzzle(puzzleData));
+  if (seed !== undefined) {
+    url.searchParams.set('seed', seed);
+  }
+  return url.toString();
+};
+
+/**
+ * Builds the full text to share
+ * @param result - Finished game
+ * @param translations - Localized labels
+ * @param link - Link back to the puzzle
+ * @param title - Optional title suffix (e.g. the daily puzzle date)
+ * @returns Multi-line summary
+ */
+export const buildShareText = (
+  result: ShareableResult,
+  translations: ShareTranslations,
+  link: string,
+  title?: string
+): string => {
+  const total = result.puzzleData.proverbs.length;
+  const solved = result.proverbValidation.filter(v => v.isSolved).length;
+
+  const stats = [
+    translations.shareSolved(solved, total),
+    translations.shareAttempts(result.totalValidationAttempts),
+    translations.shareHints(result.totalHintsUsed),
+  ];
+  if (result.timeToComplete !== undefined) {
+    stats.push(`⏱ ${formatDuration(result.timeToComplete)}`);
+  }
+
+  return [
+    title ? `${translations.appName} · ${title}` : translations.appName,
+    stats.join(' · '),
+    '',
+    ...buildShareGrid(result),
+    '',
+    link,
+  ].join('\n');
+};
+
+/**
+ * Hands the summary to the native share sheet, or copies it to the clipboard
+ * @param text - Summary to share
+ * @returns How the text was shared, or 'failed'
+ */
+export const shareResultText = async (
+  text: string
+): Promise<'shared' | 'copied' | 'failed'> => {
+  if (typeof navigator.share === 'function') {
+    try {
+      await navigator.share({ text });
+      return 'shared';
+    } catch (error) {
+      // Closing the share sheet is not an error worth falling back for
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        return 'failed';
+      }
+      // eslint-disable-next-line no-console
+      console.warn('Native share failed, copying instead:', error);
+    }
+  }
+
+  try {
+    await navigator.clipboard.writeText(text);
+    return 'copied';
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.warn('Failed to copy result:', error);
+    return 'failed';
+  }
+};
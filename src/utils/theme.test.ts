@@ -0,0 +1,153 @@
+/**
+ * Tests for color themes
+ */
+
+import {
+  CONTRAST_QUERY,
+  DARK_SCHEME_QUERY,
+  getThemePreference,
+  initTheme,
+  isThemePreference,
+  resolveTheme,
+  saveThemePreference,
+} from './theme';
+
+type ChangeListener = () => void;
+
+// jsdom has no matchMedia - a stub that matches the given queries and can change them later
+const mockMatchMedia = (initial: string[]) => {
+  const matching = new Set(initial);
+  const listeners = new Map<string, Set<ChangeListener>>();
+
+  Object.defineProperty(window, 'matchMedia', {
+    configurable: true,
+    value: (query: string) => ({
+      get matches() {
+        return matching.has(query);
+      },
+      addEventListener: (_type: string, listener: ChangeListener) => {
+        listeners.set(query, (listeners.get(query) ?? new Set()).add(listener));
+      },
+      removeEventListener: (_type: string, listener: ChangeListener) => {
+        listeners.get(query)?.delete(listener);
+      },
+    }),
+  });
+
+  return {
+    set: (query: string, matches: boolean) => {
+      if (matches) {
+        matching.add(query);
+      } else {
+        matching.delete(query);
+      }
+      listeners.get(query)?.forEach(listener => listener());
+    },
+  };
+};
+
+describe('theme preference', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('follows the device by default', () => {
+    expect(getThemePreference()).toBe('system');
+  });
+
+  it('remembers the chosen theme', () => {
+    saveThemePreference('high-contrast');
+    expect(getThemePreference()).toBe('high-contrast');
+  });
+
+  it('ignores unknown saved values', () => {
+    localStorage.setItem('preferredTheme', 'sepia');
+    expect(getThemePreference()).toBe('system');
+  });
+
+  it('recognizes every preference', () => {
+    expect(isThemePreference('system')).toBe(true);
+    expect(isThemePreference('dark')).toBe(true);
+    expect(isThemePreference('sepia')).toBe(false);
+    expect(isThemePreference(null)).toBe(false);
+  });
+});
+
+describe('resolveTheme', () => {
+  afterEach(() => {
+    delete (window as Partial<Window>).matchMedia;
+  });
+
+  it('keeps a chosen theme regardless of the device', () => {
+    mockMatchMedia([DARK_SCHEME_QUERY]);
+    expect(resolveTheme('light')).toBe('light');
+    expect(resolveTheme('high-contrast')).toBe('high-contrast');
+  });
+
+  it('follows the color scheme of the device', () => {
+    mockMatchMedia([]);
+    expect(resolveTheme('system')).toBe('light');
+
+    mockMatchMedia([DARK_SCHEME_QUERY]);
+    expect(resolveTheme('system')).toBe('dark');
+  });
+
+  it('prefers high contrast when the device asks for more contrast', () => {
+    mockMatchMedia([CONTRAST_QUERY, DARK_SCHEME_QUERY]);
+    expect(resolveTheme('system')).toBe('high-contrast');
+  });
+
+  it('falls back to light without matchMedia', () => {
+    expect(resolveTheme('system')).toBe('light');
+  });
+});
+
+describe('initTheme', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    delete document.documentElement.dataset.theme;
+  });
+
+  afterEach(() => {
+    delete (window as Partial<Window>).matchMedia;
+  });
+
+  it('applies the saved theme to the document', () => {
+    mockMatchMedia([]);
+    saveThemePreference('dark');
+    initTheme()();
+
+    expect(document.documentElement).toHaveAttribute('data-theme', 'dark');
+  });
+
+  it('follows changes of the device while the preference is system', () => {
+    const media = mockMatchMedia([]);
+    const stop = initTheme();
+    expect(document.documentElement.dataset.theme).toBe('light');
+
+    media.set(DARK_SCHEME_QUERY, true);
+    expect(document.documentElement.dataset.theme).toBe('dark');
+
+    media.set(CONTRAST_QUERY, true);
+    expect(document.documentElement.dataset.theme).toBe('high-contrast');
+
+    stop();
+    media.set(CONTRAST_QUERY, false);
+    expect(document.documentElement.dataset.theme).toBe('high-contrast');
+  });
+
+  it('keeps a chosen theme when the device changes', () => {
+    const media = mockMatchMedia([]);
+    const stop = initTheme();
+    saveThemePreference('light');
+
+    media.set(DARK_SCHEME_QUERY, true);
+    expect(document.documentElement.dataset.theme).toBe('light');
+    stop();
+  });
+
+  it('applies light without matchMedia', () => {
+    initTheme()();
+    expect(document.documentElement.dataset.theme).toBe('light');
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Color themes
+ * Every color in the stylesheets comes from the design tokens declared in
+ * index.css. A theme swaps the token values by setting data-theme on the
+ * document element. Players either pick a theme or follow their device, which
+ * may ask for a dark color scheme or for more contrast.
+ */
+
+/**
+ * Token sets declared in index.css
+ */
+export type Theme = 'light' | 'dark' | 'high-contrast';
+
+/**
+ * A theme chosen by the player, or 'system' to follow the device
+ */
+export type ThemePreference = 'system' | Theme;
+
+/**
+ * All preferences in display order
+ */
+export const THEME_PREFERENCES: ThemePreference[] = ['system', 'light', 'dark', 'high-contrast'];
+
+/**
+ * Preference used when the player has not chosen one
+ */
+export const DEFAULT_THEME_PREFERENCE: ThemePreference = 'system';
+
+/**
+ * Media queries describing the device's own preference, in order of precedence
+ */
+export const CONTRAST_QUERY = '(prefers-contrast: more)';
+export const DARK_SCHEME_QUERY = '(prefers-color-scheme: dark)';
+
+const STORAGE_KEY = 'preferredTheme';
+
+/**
+ * Checks whether a value names a theme preference
+ * @param value - Value to check (e.g. from localStorage)
+ * @returns true if the value is a known preference
+ */
+export const isThemePreference = (value: unknown): value is ThemePreference =>
+  typeof value === 'string' && (THEME_PREFERENCES as string[]).includes(value);
+
+/**
+ * Gets the theme the player asked for
+ * @returns The saved preference, or the default
+ */
+export const getThemePreference = (): ThemePreference => {
+  const savedPreference = localStorage.getItem(STORAGE_KEY);
+  if (isThemePreference(savedPreference)) {
+    return savedPreference;
+  }
+
+  return DEFAULT_THEME_PREFERENCE;
+};
+
+/**
+ * Remembers the player's theme for future visits
+ * @param preference - Chosen theme, or 'system' to follow the device again
+ */
+export const saveThemePreference = (preference: ThemePreference): void => {
+  localStorage.setItem(STORAGE_KEY, preference);
+};
+
+// matchMedia is missing in some environments (e.g. jsdom) - treat it as no preference
+const matchesMedia = (query: string): boolean =>
+  typeof window.matchMedia === 'function' && window.matchMedia(query).matches;
+
+/**
+ * Theme to show for a preference
+ * @param preference - Player's preference
+ * @returns The chosen theme, or for 'system' the one matching the device:
+ * high contrast when more contrast is requested, else dark or light by color scheme
+ */
+export const resolveTheme = (preference: ThemePreference): Theme => {
+  if (preference !== 'system') {
+    return preference;
+  }
+  if (matchesMedia(CONTRAST_QUERY)) {
+    return 'high-contrast';
+  }
+  return matchesMedia(DARK_SCHEME_QUERY) ? 'dark' : 'light';
+};
+
+/**
+ * Switches the page to a theme
+ * @param theme - Theme whose tokens apply from now on
+ */
+export const applyTheme = (theme: Theme): void => {
+  document.documentElement.dataset.theme = theme;
+};
+
+/**
+ * Applies the saved preference and keeps following the device while the
+ * preference is 'system'
+ * @returns Function that stops following the device
+ */
+export const initTheme = (): (() => void) => {
+  applyTheme(resolveTheme(getThemePreference()));
+
+  if (typeof window.matchMedia !== 'function') {
+    return () => {};
+  }
+
+  // The preference is re-read on every change - the player may have picked a theme since
+  const handleChange = () => applyTheme(resolveTheme(getThemePreference()));
+  const queries = [CONTRAST_QUERY, DARK_SCHEME_QUERY].map(query => window.matchMedia(query));
+  queries.forEach(query => query.addEventListener('change', handleChange));
+
+  return () => queries.forEach(query => query.removeEventListener('change', handleChange));
+};
@@ -0,0 +1,22 @@
+/**
+ * Tests for time formatting utilities
+ */
+
+import { formatDuration } from './timeFormat';
+
+describe('formatDuration', () => {
+  it('formats seconds as m:ss', () => {
+    expect(formatDuration(0)).toBe('0:00');
+    expect(formatDuration(7)).toBe('0:07');
+    expect(formatDuration(187)).toBe('3:07');
+  });
+
+  it('includes hours for long durations', () => {
+    expect(formatDuration(3725)).toBe('1:02:05');
+  });
+
+  it('drops fractions and clamps negative values', () => {
+    expect(formatDuration(59.9)).toBe('0:59');
+    expect(formatDuration(-5)).toBe('0:00');
+  });
+});
@@ -0,0 +1,20 @@
+/**
+ * Time formatting utilities
+ */
+
+/**
+ * Formats a duration as m:ss (or h:mm:ss for an hour or more)
+ * @param totalSeconds - Duration in seconds
+ * @returns Formatted duration such as "3:07"
+ */
+export const formatDuration = (totalSeconds: number): string => {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = (seconds % 60).toString().padStart(2, '0');
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${secs}`;
+  }
+  return `${minutes}:${secs}`;
+};
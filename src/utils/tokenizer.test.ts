@@ -0,0 +1,70 @@
+/**
+ * Tests for the shared solution tokenizer
+ */
+
+import {
+  getSolutionWords,
+  matchesSolution,
+  normalizeWord,
+  tokenizeSolution,
+  wordsMatch,
+} from './tokenizer';
+
+describe('tokenizeSolution', () => {
+  it('separates punctuation from words', () => {
+    expect(tokenizeSolution('Trust, but verify.')).toEqual([
+      { word: 'Trust', leading: '', trailing: ',' },
+      { word: 'but', leading: '', trailing: '' },
+      { word: 'verify', leading: '', trailing: '.' },
+    ]);
+  });
+
+  it('keeps opening punctuation as leading', () => {
+    expect(tokenizeSolution('¿Quién sabe?')).toEqual([
+      { word: 'Quién', leading: '¿', trailing: '' },
+      { word: 'sabe', leading: '', trailing: '?' },
+    ]);
+  });
+
+  it('attaches punctuation-only tokens to the previous word', () => {
+    expect(getSolutionWords('פה ששומר – ראש שקט')).toEqual(['פה', 'ששומר', 'ראש', 'שקט']);
+    expect(tokenizeSolution('פה ששומר – ראש שקט')[1].trailing).toBe(' –');
+  });
+
+  it('keeps apostrophes and geresh inside words', () => {
+    expect(getSolutionWords("Petit à petit, l'oiseau fait son nid")).toContain("l'oiseau");
+    expect(getSolutionWords('אָנהייבן פֿון ס׳נײַ')).toContain('ס׳נײַ');
+  });
+
+  it('returns no tokens for empty input', () => {
+    expect(tokenizeSolution('   ')).toEqual([]);
+    expect(tokenizeSolution(undefined as unknown as string)).toEqual([]);
+  });
+});
+
+describe('normalizeWord', () => {
+  it('ignores case and surrounding punctuation', () => {
+    expect(normalizeWord('Trust,')).toBe('trust');
+  });
+
+  it('ignores Hebrew niqqud and final-letter forms', () => {
+    expect(normalizeWord('שָׁלוֹם')).toBe(normalizeWord('שלומ'));
+    expect(wordsMatch('האמן,', 'הָאֲמֵן')).toBe(true);
+  });
+
+  it('keeps Latin accents significant', () => {
+    expect(wordsMatch('él', 'el')).toBe(false);
+  });
+});
+
+describe('matchesSolution', () => {
+  it('matches placed words against a punctuated solution', () => {
+    expect(matchesSolution(['trust', 'but', 'verify'], 'Trust, but verify')).toBe(true);
+    expect(matchesSolution(['האמן', 'אבל', 'בדוק'], 'האמן, אבל בדוק')).toBe(true);
+  });
+
+  it('rejects wrong order or missing words', () => {
+    expect(matchesSolution(['but', 'trust', 'verify'], 'Trust, but verify')).toBe(false);
+    expect(matchesSolution(['trust', 'but'], 'Trust, but verify')).toBe(false);
+  });
+});
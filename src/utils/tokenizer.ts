@@ -0,0 +1,135 @@
+/**
+ * Shared tokenizer for proverb solutions
+ * Every place that splits a solution into words or compares a placed word with
+ * the solution goes through here, so "Trust," and "trust" are the same tile and
+ * a stray dash is never a word of its own.
+ */
+
+/**
+ * A word of a solution with the punctuation that surrounds it
+ */
+export interface SolutionToken {
+  /** The word without surrounding punctuation - this is what a tile shows */
+  word: string;
+  /** Punctuation written before the word (opening quotes, ¿, ¡) */
+  leading: string;
+  /** Punctuation written after the word (commas, full stops, dashes) */
+  trailing: string;
+}
+
+/**
+ * Characters treated as punctuation when they appear at the edge of a word
+ * Apostrophes inside a word (l'oiseau, don't) and Hebrew geresh/gershayim are kept
+ */
+const PUNCTUATION = '.,;:!?¡¿…"“”„«»‹›()[\\]{}\\-–—־\'‘’،؛؟';
+
+const LEADING_PUNCTUATION = new RegExp(`^[${PUNCTUATION}]+`);
+const TRAILING_PUNCTUATION = new RegExp(`[${PUNCTUATION}]+$`);
+
+/**
+ * Hebrew niqqud and cantillation marks, and Arabic harakat
+ */
+const VOWEL_POINTS = /[\u0591-\u05c7\u064b-\u065f\u0670]/g;
+
+/**
+ * Hebrew final letter forms and their regular counterparts
+ */
+const FINAL_LETTERS: Record<string, string> = {
+  'ך': 'כ',
+  'ם': 'מ',
+  'ן': 'נ',
+  'ף': 'פ',
+  'ץ': 'צ',
+};
+
+/**
+ * Splits a solution into words, separating punctuation from each word
+ * Tokens made only of punctuation (such as a dash between clauses) are
+ * attached to the neighbouring word instead of becoming words themselves
+ * @param solution - Proverb solution text
+ * @returns Tokens in solution order
+ */
+export const tokenizeSolution = (solution: string): SolutionToken[] => {
+  if (!solution || typeof solution !== 'string') {
+    return [];
+  }
+
+  const tokens: SolutionToken[] = [];
+  let pendingLeading = '';
+
+  solution
+    .trim()
+    .split(/\s+/)
+    .filter(raw => raw.length > 0)
+    .forEach(raw => {
+      const leading = raw.match(LEADING_PUNCTUATION)?.[0] ?? '';
+      if (leading.length === raw.length) {
+        // Punctuation-only token: belongs after the previous word, or before the first
+        if (tokens.length > 0) {
+          tokens[tokens.length - 1].trailing += ` ${raw}`;
+        } else {
+          pendingLeading += `${raw} `;
+        }
+        return;
+      }
+
+      const rest = raw.slice(leading.length);
+      const trailing = rest.match(TRAILING_PUNCTUATION)?.[0] ?? '';
+      tokens.push({
+        word: rest.slice(0, rest.length - trailing.length),
+        leading: pendingLeading + leading,
+        trailing,
+      });
+      pendingLeading = '';
+    });
+
+  return tokens;
+};
+
+/**
+ * Words of a solution without punctuation
+ * @param solution - Proverb solution text
+ * @returns Words in solution order
+ */
+export const getSolutionWords = (solution: string): string[] =>
+  tokenizeSolution(solution).map(token => token.word);
+
+/**
+ * Reduces a word to the form used for comparisons
+ * Ignores case, surrounding punctuation, Hebrew niqqud and final-letter forms
+ * @param word - Word as written in a tile or solution
+ * @returns Comparison key
+ */
+export const normalizeWord = (word: string): string => {
+  return word
+    .trim()
+    .replace(LEADING_PUNCTUATION, '')
+    .replace(TRAILING_PUNCTUATION, '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(VOWEL_POINTS, '')
+    .replace(/[ךםןףץ]/g, letter => FINAL_LETTERS[letter])
+    .normalize('NFC');
+};
+
+/**
+ * Checks whether two words are the same for validation purposes
+ * @param a - First word
+ * @param b - Second word
+ * @returns true if the words match ignoring punctuation, case and niqqud
+ */
+export const wordsMatch = (a: string, b: string): boolean => normalizeWord(a) === normalizeWord(b);
+
+/**
+ * Checks whether placed words spell out a solution
+ * @param placedWords - Words in the order they were placed
+ * @param solution - Proverb solution text
+ * @returns true if every word matches the solution word at the same position
+ */
+export const matchesSolution = (placedWords: string[], solution: string): boolean => {
+  const solutionWords = getSolutionWords(solution);
+  return (
+    placedWords.length === solutionWords.length &&
+    placedWords.every((word, index) => wordsMatch(word, solutionWords[index]))
+  );
+};
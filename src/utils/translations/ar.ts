@@ -0,0 +1,215 @@
+/**
+ * Arabic translations
+ */
+
+import { Translations } from './types';
+
+export const ar: Translations = {
+  // Header
+  appName: 'كومة الأمثال',
+  subtitle: (count: number) => `افصل الكلمات المختلطة إلى ${count} أمثال`,
+  instructions: `افصل الكلمات المختلطة إلى أمثال. اضغط على كلمة لتحديدها، ثم اضغط على خانة فارغة لوضعها.`,
+  createPuzzle: 'أنشئ لغزًا',
+
+  // Game
+  proverbs: 'الأمثال',
+  proverb: 'مثل',
+  availableWords: (count: number) => `الكلمات المتاحة (متبقٍّ ${count})`,
+  allWordsPlaced: 'تم وضع كل الكلمات - اضغط تحقق من الإجابة!',
+  poolFilter: (text: string) => `المكتوب: ${text}`,
+  selectionHintTapWord: 'اضغط على كلمة لوضعها تلقائيًا',
+  selectionHintTapSlot: 'اضغط على خانة فارغة',
+  selectionHintPickWord: 'اختر كلمة من الصينية',
+
+  // Screen reader announcements
+  announcePlaced: (word: string, proverb: number, position: number) =>
+    `وُضعت «${word}» في المثل ${proverb}، الموضع ${position}`,
+  announceRemoved: (word: string, proverb: number, position: number) =>
+    `أُزيلت «${word}» من المثل ${proverb}، الموضع ${position}`,
+  announceHintPlaced: (word: string, proverb: number, position: number) =>
+    `تلميح: وُضعت «${word}» في المثل ${proverb}، الموضع ${position}`,
+  announceMeaning: (proverb: number, meaning: string) => `معنى المثل ${proverb}: ${meaning}`,
+  announceProverbCorrect: (proverb: number) => `المثل ${proverb} صحيح`,
+  announceProverbIncorrect: (proverb: number) => `المثل ${proverb} غير صحيح`,
+  slotLabel: (position: number, word: string) => `الموضع ${position}: ${word}`,
+  emptySlotLabel: (position: number) => `موضع فارغ ${position}`,
+  wordLabel: (word: string) => `كلمة: ${word}`,
+  lockedWordLabel: (word: string) => `كلمة: ${word} (مثبتة)`,
+
+  // Buttons
+  checkAnswer: 'تحقق من الإجابة',
+  hintSimple: 'تلميح',
+  hintWord: 'ضع كلمة',
+  validateProverb: 'تحقق',
+  reset: 'إعادة',
+  undo: 'تراجع',
+  redo: 'إعادة الخطوة',
+
+  // Validation
+  correct: '✓ صحيح',
+  incorrect: '✗ خطأ',
+  allCorrect: 'ممتاز! كل الأمثال صحيحة!',
+  partialCorrect: (solved: number, total: number) => `${solved} من ${total} صحيحة. واصل المحاولة!`,
+  noneCorrect: '✗ لا شيء صحيح بعد. جرّب إعادة ترتيب الكلمات!',
+
+  // Modal
+  congratulations: 'تهانينا!',
+  close: 'إغلاق',
+  origin: 'الأصل',
+  meaning: 'المعنى',
+  nextPuzzle: 'اللغز التالي',
+
+  // Sharing results
+  shareResult: 'شارك النتيجة',
+  resultCopied: 'تم نسخ النتيجة!',
+  shareSolved: (solved: number, total: number) => `${solved}/${total} أمثال`,
+  shareAttempts: (count: number) => (count === 1 ? 'محاولة واحدة' : `${count} محاولات`),
+  shareHints: (count: number) => (count === 1 ? 'تلميح واحد' : `${count} تلميحات`),
+
+  // Daily puzzle
+  dailyPuzzle: 'لغز اليوم',
+  dailyPuzzleDate: (date: string) => `لغز اليوم · ${date}`,
+  errorInvalidDailyDate: 'تاريخ لغز اليوم غير صالح. استخدم الصيغة YYYY-MM-DD.',
+  errorFutureDailyDate: 'لغز هذا اليوم غير متاح بعد. عد في ذلك اليوم!',
+
+  // Statistics
+  hintsUsed: 'التلميحات المستخدمة',
+  validationAttempts: 'المحاولات المستخدمة',
+  time: 'الوقت',
+  perfectScore: 'نتيجة مثالية!',
+  firstTry: 'من المحاولة الأولى!',
+  noHints: 'بدون تلميحات!',
+  minimalHints: 'تلميحات قليلة!',
+  excellentWork: 'عمل ممتاز!',
+
+  // Lifetime statistics
+  statistics: 'الإحصائيات',
+  gamesPlayed: 'لُعبت',
+  winRate: '% الفوز',
+  perfectGames: 'مثالية',
+  currentStreak: 'السلسلة الحالية',
+  longestStreak: 'أطول سلسلة',
+  averageSolveTime: 'متوسط الوقت',
+  hintDistribution: 'توزيع التلميحات',
+  noStatistics: 'أكمل لغزًا لتبدأ في تتبع إحصائياتك.',
+  proverbsDiscovered: (seen: number, total: number) => `تم اكتشاف ${seen} من ${total} مثلًا`,
+  allProverbsDiscovered: 'اكتشفت كل الأمثال! اللغز التالي يبدأ جولة جديدة.',
+  resetDiscovered: 'إعادة تعيين الأمثال المكتشفة',
+
+  // Collection of solved proverbs
+  collection: 'مجموعة الأمثال',
+  collectionDescription: 'كل الأمثال التي حللتها، مجمعة حسب الثقافة.',
+  collectionEmpty: 'حل مثلاً لتبدأ مجموعتك.',
+  collectionNoMatches: 'لا توجد أمثال تطابق بحثك.',
+  collectionSearch: 'ابحث في الأمثال والمعاني والثقافات',
+  allLanguages: 'كل اللغات',
+  allCultures: 'كل الثقافات',
+  collectionCount: (shown: number, total: number) => `${shown} من ${total} أمثال`,
+  solvedOn: (date: string) => `حُلّ في ${date}`,
+  backToGame: 'العودة إلى اللعبة →',
+
+  // Game Over Modal
+  gameOverTitle: 'انتهت اللعبة',
+  gameOverMessage: 'حظًا أوفر في المرة القادمة! إليك الحلول الصحيحة:',
+  correctSolutions: 'الحلول الصحيحة',
+  tryAgain: 'حاول مرة أخرى',
+  newPuzzle: 'لغز جديد',
+
+  // Practice mode
+  practiceMissed: 'تدرّب على الأمثال الفائتة',
+  practiceMode: 'تدريب - الأمثال التي فاتتك تعود للمراجعة',
+  practiceEmpty: 'لا شيء للتدريب الآن. الأمثال التي تفوتك ستعود هنا للمراجعة.',
+
+  // Settings
+  settings: 'الإعدادات',
+  theme: 'المظهر',
+  themeNames: {
+    system: 'حسب الجهاز',
+    light: 'فاتح',
+    dark: 'داكن',
+    'high-contrast': 'تباين عالٍ',
+  },
+
+  // Onboarding
+  onboardingTitle: 'طريقة اللعب',
+  onboardingStep1: 'اضغط على كلمة من صينية الكلمات في الأسفل (سيتم تمييزها)',
+  onboardingStep2: 'اضغط على خانة فارغة في منطقة الأمثال بالأعلى لوضع الكلمة المحددة',
+  onboardingStep3: 'عندما توضع كل الكلمات، اضغط تحقق من الإجابة',
+  onboardingGotIt: 'فهمت!',
+  onboardingExample: 'مثال',
+  help: 'مساعدة',
+
+  // Loading/Error
+  loading: 'جارٍ تحميل اللغز...',
+  errorLoading: 'خطأ في تحميل اللغز',
+  errorMessage: 'أضف معامل puzzle إلى الرابط أو تحقق من صيغة اللغز.',
+  puzzleLinkErrors: {
+    truncated: 'رابط اللغز غير مكتمل. ربما قُطع أثناء المشاركة - اطلب الرابط كاملًا.',
+    'bad-checksum': 'تم تعديل رابط اللغز بعد إنشائه ولا يمكن الوثوق به.',
+    'unsupported-version': 'أُنشئ رابط اللغز بإصدار أحدث من اللعبة. حاول إعادة تحميل الصفحة.',
+    'schema-violation': 'تم فك رابط اللغز، لكنه لا يحتوي على لغز قابل للعب.',
+    malformed: 'هذا ليس رابط لغز صالحًا.',
+  },
+  addPuzzle: 'أضف معامل puzzle إلى الرابط أو تحقق من صيغة اللغز.',
+  orCreate: 'أنشئ لغزك الخاص',
+  orCreatePrefix: 'أو ',
+  orCreateSuffix: '!',
+
+  // Puzzle Builder
+  puzzleBuilder: 'منشئ الألغاز',
+  builderDescription: (min: number, max: number) =>
+    `أنشئ لغز كومة الأمثال الخاص بك بإدخال ${min}-${max} أمثال. ستُخلط الكلمات تلقائيًا وتُرمَّز في رابط قابل للمشاركة.`,
+  languageLabel: 'اللغة',
+  languageNames: {
+    en: 'الإنجليزية (English)',
+    he: 'العبرية (עברית)',
+    ar: 'العربية',
+    es: 'الإسبانية (Español)',
+    fr: 'الفرنسية (Français)',
+    ru: 'الروسية (Русский)',
+    yi: 'اليديشية (ייִדיש)',
+  },
+  puzzleSize: 'حجم اللغز',
+  puzzleSizeNames: {
+    easy: 'سهل',
+    standard: 'عادي',
+    hard: 'صعب',
+    expert: 'خبير',
+  },
+  difficulty: 'مستوى الصعوبة',
+  difficultyNames: {
+    relaxed: 'مريح',
+    classic: 'كلاسيكي',
+    challenging: 'صعب',
+  },
+  proverbsLabel: 'الأمثال',
+  proverbNumber: (n: number) => `المثل ${n}`,
+  remove: 'إزالة',
+  proverbText: 'نص المثل',
+  wordsRequired: (min: number, max: number) => `مطلوب ${min}-${max} كلمات`,
+  cultureOrigin: 'الثقافة/الأصل',
+  meaningLabel: 'المعنى',
+  generateURL: 'أنشئ رابط اللغز',
+  clearAll: 'مسح الكل',
+  puzzleGenerated: '✓ تم إنشاء اللغز!',
+  shareURL: 'شارك هذا الرابط ليتمكن الآخرون من لعب لغزك:',
+  copy: 'نسخ',
+  copied: 'تم النسخ!',
+  previewPuzzle: 'معاينة اللغز',
+  addAnother: '+ أضف مثلًا آخر (اختياري)',
+  proverbPlaceholder: 'مثال: الصبر مفتاح الفرج',
+  culturePlaceholder: 'مثال: عربية، مصرية، مغربية',
+  meaningPlaceholder: 'اشرح معنى المثل...',
+  errorAllSolutions: 'يجب أن يحتوي كل مثل على نص الحل',
+  errorAllCultures: 'يجب أن يحتوي كل مثل على ثقافة/أصل',
+  errorAllMeanings: 'يجب أن يحتوي كل مثل على معنى',
+  errorMinWords: (n: number, count: number, min: number) => `يجب أن يحتوي المثل ${n} على ${min} كلمات على الأقل (يحتوي حاليًا على ${count})`,
+  errorMaxWords: (n: number, count: number, max: number) => `يجب أن يحتوي المثل ${n} على ${max} كلمات على الأكثر (يحتوي حاليًا على ${count})`,
+  ambiguityWarning: 'بعض الكلمات تظهر في أكثر من مثل. بطاقاتها قابلة للتبادل، لذا يمكن للاعبين وضعها في أي من الأمثال المذكورة:',
+  ambiguousWord: (word: string, proverbs: string) => `"${word}" – الأمثال ${proverbs}`,
+  decodeLabel: 'تحميل لغز موجود',
+  decodeDescription: 'الصق لغزًا مرمَّزًا أو رابطًا لتعديله',
+  decodePlaceholder: 'الصق السلسلة المرمَّزة أو الرابط الكامل هنا...',
+  decodeButton: 'تحميل اللغز',
+  errorDecoding: 'تعذّر فك ترميز اللغز. يرجى التحقق من الإدخال.',
+};
@@ -0,0 +1,215 @@
+/**
+ * English translations
+ */
+
+import { Translations } from './types';
+
+export const en: Translations = {
+  // Header
+  appName: 'Proverb Pile',
+  subtitle: (count: number) => `Separate the mixed words into ${count} proverbs`,
+  instructions: `Separate the mixed words into proverbs. Tap a word to select it, then tap an empty slot to place it.`,
+  createPuzzle: 'Create Puzzle',
+
+  // Game
+  proverbs: 'Proverbs',
+  proverb: 'Proverb',
+  availableWords: (count: number) => `Available words (${count} remaining)`,
+  allWordsPlaced: 'All words placed - click Check Answer!',
+  poolFilter: (text: string) => `Typed: ${text}`,
+  selectionHintTapWord: 'Tap a word to place it automatically',
+  selectionHintTapSlot: 'Tap an empty slot',
+  selectionHintPickWord: 'Select a word from tray',
+
+  // Screen reader announcements
+  announcePlaced: (word: string, proverb: number, position: number) =>
+    `Placed "${word}" in proverb ${proverb}, position ${position}`,
+  announceRemoved: (word: string, proverb: number, position: number) =>
+    `Removed "${word}" from proverb ${proverb}, position ${position}`,
+  announceHintPlaced: (word: string, proverb: number, position: number) =>
+    `Hint placed "${word}" in proverb ${proverb}, position ${position}`,
+  announceMeaning: (proverb: number, meaning: string) => `Meaning of proverb ${proverb}: ${meaning}`,
+  announceProverbCorrect: (proverb: number) => `Proverb ${proverb} correct`,
+  announceProverbIncorrect: (proverb: number) => `Proverb ${proverb} incorrect`,
+  slotLabel: (position: number, word: string) => `Position ${position}: ${word}`,
+  emptySlotLabel: (position: number) => `Empty position ${position}`,
+  wordLabel: (word: string) => `Word: ${word}`,
+  lockedWordLabel: (word: string) => `Word: ${word} (locked)`,
+
+  // Buttons
+  checkAnswer: 'Check Answer',
+  hintSimple: 'Hint',
+  hintWord: 'Place Word',
+  validateProverb: 'Check',
+  reset: 'Reset',
+  undo: 'Undo',
+  redo: 'Redo',
+
+  // Validation
+  correct: '✓ Correct',
+  incorrect: '✗ Incorrect',
+  allCorrect: 'Perfect! All proverbs are correct!',
+  partialCorrect: (solved: number, total: number) => `${solved} out of ${total} correct. Keep trying!`,
+  noneCorrect: '✗ None are correct yet. Try rearranging the words!',
+
+  // Modal
+  congratulations: 'Congratulations!',
+  close: 'Close',
+  origin: 'Origin',
+  meaning: 'Meaning',
+  nextPuzzle: 'Next Puzzle',
+
+  // Sharing results
+  shareResult: 'Share Result',
+  resultCopied: 'Result Copied!',
+  shareSolved: (solved: number, total: number) => `${solved}/${total} proverbs`,
+  shareAttempts: (count: number) => (count === 1 ? '1 attempt' : `${count} attempts`),
+  shareHints: (count: number) => (count === 1 ? '1 hint' : `${count} hints`),
+
+  // Daily puzzle
+  dailyPuzzle: 'Puzzle of the Day',
+  dailyPuzzleDate: (date: string) => `Puzzle of the Day · ${date}`,
+  errorInvalidDailyDate: 'This daily puzzle date is not valid. Use the format YYYY-MM-DD.',
+  errorFutureDailyDate: "This daily puzzle isn't available yet. Come back on that day!",
+
+  // Statistics
+  hintsUsed: 'Hints Used',
+  validationAttempts: 'Attempts Used',
+  time: 'Time',
+  perfectScore: 'Perfect Score!',
+  firstTry: 'First Try!',
+  noHints: 'No Hints Used!',
+  minimalHints: 'Minimal Hints Used!',
+  excellentWork: 'Excellent Work!',
+
+  // Lifetime statistics
+  statistics: 'Statistics',
+  gamesPlayed: 'Played',
+  winRate: 'Win %',
+  perfectGames: 'Perfect',
+  currentStreak: 'Current Streak',
+  longestStreak: 'Max Streak',
+  averageSolveTime: 'Avg. Time',
+  hintDistribution: 'Hint Distribution',
+  noStatistics: 'Finish a puzzle to start tracking your statistics.',
+  proverbsDiscovered: (seen: number, total: number) => `${seen} of ${total} proverbs discovered`,
+  allProverbsDiscovered: 'You have discovered every proverb! The next puzzle starts a new round.',
+  resetDiscovered: 'Reset discovered proverbs',
+
+  // Collection of solved proverbs
+  collection: 'Proverb Collection',
+  collectionDescription: 'Every proverb you have solved, grouped by culture.',
+  collectionEmpty: 'Solve a proverb to start your collection.',
+  collectionNoMatches: 'No proverbs match your search.',
+  collectionSearch: 'Search proverbs, meanings and cultures',
+  allLanguages: 'All languages',
+  allCultures: 'All cultures',
+  collectionCount: (shown: number, total: number) => `${shown} of ${total} proverbs`,
+  solvedOn: (date: string) => `Solved ${date}`,
+  backToGame: '← Back to Game',
+
+  // Game Over Modal
+  gameOverTitle: 'Game Over',
+  gameOverMessage: 'Better luck next time! Here are the correct solutions:',
+  correctSolutions: 'Correct Solutions',
+  tryAgain: 'Try Again',
+  newPuzzle: 'New Puzzle',
+
+  // Practice mode
+  practiceMissed: 'Practice Missed Proverbs',
+  practiceMode: 'Practice - proverbs you missed come back for review',
+  practiceEmpty: 'Nothing to practice right now. Proverbs you miss come back here for review.',
+
+  // Settings
+  settings: 'Settings',
+  theme: 'Theme',
+  themeNames: {
+    system: 'Match device',
+    light: 'Light',
+    dark: 'Dark',
+    'high-contrast': 'High contrast',
+  },
+
+  // Onboarding
+  onboardingTitle: 'How to Play',
+  onboardingStep1: 'Tap a word from the word tray at the bottom (it will be highlighted)',
+  onboardingStep2: 'Tap an empty slot in the proverb area above to place the selected word',
+  onboardingStep3: 'When all words are placed, tap Check Answer',
+  onboardingGotIt: 'Got it!',
+  onboardingExample: 'Example',
+  help: 'Help',
+
+  // Loading/Error
+  loading: 'Loading puzzle...',
+  errorLoading: 'Error Loading Puzzle',
+  errorMessage: 'Add a puzzle parameter to the URL or check the puzzle format.',
+  puzzleLinkErrors: {
+    truncated: 'This puzzle link is incomplete. It may have been cut off when it was shared - ask for the full link.',
+    'bad-checksum': 'This puzzle link has been changed since it was created and cannot be trusted.',
+    'unsupported-version': 'This puzzle link was made with a newer version of the game. Try reloading the page.',
+    'schema-violation': 'This puzzle link decoded, but it does not contain a playable puzzle.',
+    malformed: 'This is not a valid puzzle link.',
+  },
+  addPuzzle: 'Add a puzzle parameter to the URL or check the puzzle format.',
+  orCreate: 'create your own puzzle',
+  orCreatePrefix: 'Or ',
+  orCreateSuffix: '!',
+
+  // Puzzle Builder
+  puzzleBuilder: 'Puzzle Builder',
+  builderDescription: (min: number, max: number) =>
+    `Create your own Proverb Pile puzzle by entering ${min}-${max} proverbs. Words will be automatically shuffled and encoded into a shareable URL.`,
+  languageLabel: 'Language',
+  languageNames: {
+    en: 'English',
+    he: 'Hebrew (עברית)',
+    ar: 'Arabic (العربية)',
+    es: 'Spanish (Español)',
+    fr: 'French (Français)',
+    ru: 'Russian (Русский)',
+    yi: 'Yiddish (ייִדיש)',
+  },
+  puzzleSize: 'Puzzle size',
+  puzzleSizeNames: {
+    easy: 'Easy',
+    standard: 'Standard',
+    hard: 'Hard',
+    expert: 'Expert',
+  },
+  difficulty: 'Difficulty',
+  difficultyNames: {
+    relaxed: 'Relaxed',
+    classic: 'Classic',
+    challenging: 'Challenging',
+  },
+  proverbsLabel: 'Proverbs',
+  proverbNumber: (n: number) => `Proverb ${n}`,
+  remove: 'Remove',
+  proverbText: 'Proverb Text',
+  wordsRequired: (min: number, max: number) => `${min}-${max} words required`,
+  cultureOrigin: 'Culture/Origin',
+  meaningLabel: 'Meaning',
+  generateURL: 'Generate Puzzle URL',
+  clearAll: 'Clear All',
+  puzzleGenerated: '✓ Puzzle Generated!',
+  shareURL: 'Share this URL to let others play your puzzle:',
+  copy: 'Copy',
+  copied: 'Copied!',
+  previewPuzzle: 'Preview Puzzle',
+  addAnother: '+ Add Another Proverb (Optional)',
+  proverbPlaceholder: "e.g., Don't bite the hand that feeds you",
+  culturePlaceholder: 'e.g., English, Chinese, Indian',
+  meaningPlaceholder: 'Explain what the proverb means...',
+  errorAllSolutions: 'All proverbs must have a solution text',
+  errorAllCultures: 'All proverbs must have a culture/origin',
+  errorAllMeanings: 'All proverbs must have a meaning',
+  errorMinWords: (n: number, count: number, min: number) => `Proverb ${n} must have at least ${min} words (currently has ${count})`,
+  errorMaxWords: (n: number, count: number, max: number) => `Proverb ${n} must have at most ${max} words (currently has ${count})`,
+  ambiguityWarning: 'Some words appear in more than one proverb. Their tiles are interchangeable, so players can put them in any of the listed proverbs:',
+  ambiguousWord: (word: string, proverbs: string) => `"${word}" – proverbs ${proverbs}`,
+  decodeLabel: 'Load Existing Puzzle',
+  decodeDescription: 'Paste an encoded puzzle or URL to edit it',
+  decodePlaceholder: 'Paste encoded puzzle string or full URL here...',
+  decodeButton: 'Load Puzzle',
+  errorDecoding: 'Failed to decode puzzle. Please check the input.',
+};
@@ -0,0 +1,215 @@
+/**
+ * Spanish translations
+ */
+
+import { Translations } from './types';
+
+export const es: Translations = {
+  // Header
+  appName: 'Montón de Refranes',
+  subtitle: (count: number) => `Separa las palabras mezcladas en ${count} refranes`,
+  instructions: `Separa las palabras mezcladas en refranes. Toca una palabra para seleccionarla y luego toca un hueco vacío para colocarla.`,
+  createPuzzle: 'Crear acertijo',
+
+  // Game
+  proverbs: 'Refranes',
+  proverb: 'Refrán',
+  availableWords: (count: number) => `Palabras disponibles (quedan ${count})`,
+  allWordsPlaced: '¡Todas las palabras colocadas! Pulsa Comprobar respuesta',
+  poolFilter: (text: string) => `Escrito: ${text}`,
+  selectionHintTapWord: 'Toca una palabra para colocarla automáticamente',
+  selectionHintTapSlot: 'Toca una casilla vacía',
+  selectionHintPickWord: 'Elige una palabra de la bandeja',
+
+  // Screen reader announcements
+  announcePlaced: (word: string, proverb: number, position: number) =>
+    `«${word}» colocada en el refrán ${proverb}, posición ${position}`,
+  announceRemoved: (word: string, proverb: number, position: number) =>
+    `«${word}» quitada del refrán ${proverb}, posición ${position}`,
+  announceHintPlaced: (word: string, proverb: number, position: number) =>
+    `Pista: «${word}» colocada en el refrán ${proverb}, posición ${position}`,
+  announceMeaning: (proverb: number, meaning: string) => `Significado del refrán ${proverb}: ${meaning}`,
+  announceProverbCorrect: (proverb: number) => `Refrán ${proverb} correcto`,
+  announceProverbIncorrect: (proverb: number) => `Refrán ${proverb} incorrecto`,
+  slotLabel: (position: number, word: string) => `Posición ${position}: ${word}`,
+  emptySlotLabel: (position: number) => `Posición vacía ${position}`,
+  wordLabel: (word: string) => `Palabra: ${word}`,
+  lockedWordLabel: (word: string) => `Palabra: ${word} (fija)`,
+
+  // Buttons
+  checkAnswer: 'Comprobar respuesta',
+  hintSimple: 'Pista',
+  hintWord: 'Colocar palabra',
+  validateProverb: 'Comprobar',
+  reset: 'Reiniciar',
+  undo: 'Deshacer',
+  redo: 'Rehacer',
+
+  // Validation
+  correct: '✓ Correcto',
+  incorrect: '✗ Incorrecto',
+  allCorrect: '¡Perfecto! ¡Todos los refranes son correctos!',
+  partialCorrect: (solved: number, total: number) => `${solved} de ${total} correctos. ¡Sigue intentándolo!`,
+  noneCorrect: '✗ Ninguno es correcto todavía. ¡Prueba a reordenar las palabras!',
+
+  // Modal
+  congratulations: '¡Enhorabuena!',
+  close: 'Cerrar',
+  origin: 'Origen',
+  meaning: 'Significado',
+  nextPuzzle: 'Siguiente acertijo',
+
+  // Sharing results
+  shareResult: 'Compartir resultado',
+  resultCopied: '¡Resultado copiado!',
+  shareSolved: (solved: number, total: number) => `${solved}/${total} refranes`,
+  shareAttempts: (count: number) => (count === 1 ? '1 intento' : `${count} intentos`),
+  shareHints: (count: number) => (count === 1 ? '1 pista' : `${count} pistas`),
+
+  // Daily puzzle
+  dailyPuzzle: 'Acertijo del día',
+  dailyPuzzleDate: (date: string) => `Acertijo del día · ${date}`,
+  errorInvalidDailyDate: 'La fecha del acertijo del día no es válida. Usa el formato AAAA-MM-DD.',
+  errorFutureDailyDate: 'Este acertijo del día aún no está disponible. ¡Vuelve ese día!',
+
+  // Statistics
+  hintsUsed: 'Pistas usadas',
+  validationAttempts: 'Intentos usados',
+  time: 'Tiempo',
+  perfectScore: '¡Puntuación perfecta!',
+  firstTry: '¡A la primera!',
+  noHints: '¡Sin pistas!',
+  minimalHints: '¡Pocas pistas!',
+  excellentWork: '¡Excelente trabajo!',
+
+  // Lifetime statistics
+  statistics: 'Estadísticas',
+  gamesPlayed: 'Jugadas',
+  winRate: '% Victorias',
+  perfectGames: 'Perfectas',
+  currentStreak: 'Racha actual',
+  longestStreak: 'Mejor racha',
+  averageSolveTime: 'Tiempo medio',
+  hintDistribution: 'Distribución de pistas',
+  noStatistics: 'Termina un acertijo para empezar a registrar tus estadísticas.',
+  proverbsDiscovered: (seen: number, total: number) => `${seen} de ${total} refranes descubiertos`,
+  allProverbsDiscovered: '¡Has descubierto todos los refranes! El próximo acertijo empieza una nueva ronda.',
+  resetDiscovered: 'Reiniciar refranes descubiertos',
+
+  // Collection of solved proverbs
+  collection: 'Colección de refranes',
+  collectionDescription: 'Todos los refranes que has resuelto, agrupados por cultura.',
+  collectionEmpty: 'Resuelve un refrán para empezar tu colección.',
+  collectionNoMatches: 'Ningún refrán coincide con tu búsqueda.',
+  collectionSearch: 'Buscar refranes, significados y culturas',
+  allLanguages: 'Todos los idiomas',
+  allCultures: 'Todas las culturas',
+  collectionCount: (shown: number, total: number) => `${shown} de ${total} refranes`,
+  solvedOn: (date: string) => `Resuelto el ${date}`,
+  backToGame: '← Volver al juego',
+
+  // Game Over Modal
+  gameOverTitle: 'Fin del juego',
+  gameOverMessage: '¡Más suerte la próxima vez! Estas son las soluciones correctas:',
+  correctSolutions: 'Soluciones correctas',
+  tryAgain: 'Intentar de nuevo',
+  newPuzzle: 'Nuevo acertijo',
+
+  // Practice mode
+  practiceMissed: 'Practicar refranes fallados',
+  practiceMode: 'Práctica - los refranes que fallaste vuelven para repasarlos',
+  practiceEmpty: 'No hay nada que practicar ahora. Los refranes que falles volverán aquí para repasarlos.',
+
+  // Settings
+  settings: 'Ajustes',
+  theme: 'Tema',
+  themeNames: {
+    system: 'Según el dispositivo',
+    light: 'Claro',
+    dark: 'Oscuro',
+    'high-contrast': 'Alto contraste',
+  },
+
+  // Onboarding
+  onboardingTitle: 'Cómo jugar',
+  onboardingStep1: 'Toca una palabra de la bandeja inferior (quedará resaltada)',
+  onboardingStep2: 'Toca un hueco vacío en la zona de refranes para colocar la palabra seleccionada',
+  onboardingStep3: 'Cuando todas las palabras estén colocadas, toca Comprobar respuesta',
+  onboardingGotIt: '¡Entendido!',
+  onboardingExample: 'Ejemplo',
+  help: 'Ayuda',
+
+  // Loading/Error
+  loading: 'Cargando acertijo...',
+  errorLoading: 'Error al cargar el acertijo',
+  errorMessage: 'Añade un parámetro puzzle a la URL o revisa el formato del acertijo.',
+  puzzleLinkErrors: {
+    truncated: 'Este enlace del acertijo está incompleto. Puede que se haya cortado al compartirlo: pide el enlace completo.',
+    'bad-checksum': 'Este enlace del acertijo se modificó después de crearse y no es fiable.',
+    'unsupported-version': 'Este enlace del acertijo se creó con una versión más nueva del juego. Prueba a recargar la página.',
+    'schema-violation': 'El enlace se pudo leer, pero no contiene un acertijo jugable.',
+    malformed: 'Este no es un enlace de acertijo válido.',
+  },
+  addPuzzle: 'Añade un parámetro puzzle a la URL o revisa el formato del acertijo.',
+  orCreate: 'crea tu propio acertijo',
+  orCreatePrefix: '¡O ',
+  orCreateSuffix: '!',
+
+  // Puzzle Builder
+  puzzleBuilder: 'Creador de acertijos',
+  builderDescription: (min: number, max: number) =>
+    `Crea tu propio acertijo de Montón de Refranes introduciendo ${min}-${max} refranes. Las palabras se mezclarán automáticamente y se codificarán en una URL para compartir.`,
+  languageLabel: 'Idioma',
+  languageNames: {
+    en: 'Inglés (English)',
+    he: 'Hebreo (עברית)',
+    ar: 'Árabe (العربية)',
+    es: 'Español',
+    fr: 'Francés (Français)',
+    ru: 'Ruso (Русский)',
+    yi: 'Yidis (ייִדיש)',
+  },
+  puzzleSize: 'Tamaño del acertijo',
+  puzzleSizeNames: {
+    easy: 'Fácil',
+    standard: 'Normal',
+    hard: 'Difícil',
+    expert: 'Experto',
+  },
+  difficulty: 'Dificultad',
+  difficultyNames: {
+    relaxed: 'Relajado',
+    classic: 'Clásico',
+    challenging: 'Desafiante',
+  },
+  proverbsLabel: 'Refranes',
+  proverbNumber: (n: number) => `Refrán ${n}`,
+  remove: 'Quitar',
+  proverbText: 'Texto del refrán',
+  wordsRequired: (min: number, max: number) => `Se requieren ${min}-${max} palabras`,
+  cultureOrigin: 'Cultura/Origen',
+  meaningLabel: 'Significado',
+  generateURL: 'Generar URL del acertijo',
+  clearAll: 'Borrar todo',
+  puzzleGenerated: '✓ ¡Acertijo generado!',
+  shareURL: 'Comparte esta URL para que otros jueguen tu acertijo:',
+  copy: 'Copiar',
+  copied: '¡Copiado!',
+  previewPuzzle: 'Vista previa del acertijo',
+  addAnother: '+ Añadir otro refrán (opcional)',
+  proverbPlaceholder: 'p. ej., Más vale pájaro en mano que ciento volando',
+  culturePlaceholder: 'p. ej., Española, Mexicana, Argentina',
+  meaningPlaceholder: 'Explica qué significa el refrán...',
+  errorAllSolutions: 'Todos los refranes deben tener un texto de solución',
+  errorAllCultures: 'Todos los refranes deben tener una cultura/origen',
+  errorAllMeanings: 'Todos los refranes deben tener un significado',
+  errorMinWords: (n: number, count: number, min: number) => `El refrán ${n} debe tener al menos ${min} palabras (ahora tiene ${count})`,
+  errorMaxWords: (n: number, count: number, max: number) => `El refrán ${n} debe tener como máximo ${max} palabras (ahora tiene ${count})`,
+  ambiguityWarning: 'Algunas palabras aparecen en más de un refrán. Sus fichas son intercambiables, así que los jugadores pueden ponerlas en cualquiera de los refranes indicados:',
+  ambiguousWord: (word: string, proverbs: string) => `"${word}" – refranes ${proverbs}`,
+  decodeLabel: 'Cargar acertijo existente',
+  decodeDescription: 'Pega un acertijo codificado o una URL para editarlo',
+  decodePlaceholder: 'Pega aquí la cadena codificada o la URL completa...',
+  decodeButton: 'Cargar acertijo',
+  errorDecoding: 'No se pudo decodificar el acertijo. Revisa el texto introducido.',
+};
@@ -0,0 +1,215 @@
+/**
+ * French translations
+ */
+
+import { Translations } from './types';
+
+export const fr: Translations = {
+  // Header
+  appName: 'Pile de Proverbes',
+  subtitle: (count: number) => `Séparez les mots mélangés en ${count} proverbes`,
+  instructions: `Séparez les mots mélangés en proverbes. Touchez un mot pour le sélectionner, puis touchez une case vide pour le placer.`,
+  createPuzzle: 'Créer une énigme',
+
+  // Game
+  proverbs: 'Proverbes',
+  proverb: 'Proverbe',
+  availableWords: (count: number) => `Mots disponibles (${count} restants)`,
+  allWordsPlaced: 'Tous les mots sont placés - cliquez sur Vérifier la réponse !',
+  poolFilter: (text: string) => `Saisi : ${text}`,
+  selectionHintTapWord: 'Touchez un mot pour le placer automatiquement',
+  selectionHintTapSlot: 'Touchez une case vide',
+  selectionHintPickWord: 'Choisissez un mot dans le plateau',
+
+  // Screen reader announcements
+  announcePlaced: (word: string, proverb: number, position: number) =>
+    `« ${word} » placé dans le proverbe ${proverb}, position ${position}`,
+  announceRemoved: (word: string, proverb: number, position: number) =>
+    `« ${word} » retiré du proverbe ${proverb}, position ${position}`,
+  announceHintPlaced: (word: string, proverb: number, position: number) =>
+    `Indice : « ${word} » placé dans le proverbe ${proverb}, position ${position}`,
+  announceMeaning: (proverb: number, meaning: string) => `Signification du proverbe ${proverb} : ${meaning}`,
+  announceProverbCorrect: (proverb: number) => `Proverbe ${proverb} correct`,
+  announceProverbIncorrect: (proverb: number) => `Proverbe ${proverb} incorrect`,
+  slotLabel: (position: number, word: string) => `Position ${position} : ${word}`,
+  emptySlotLabel: (position: number) => `Position vide ${position}`,
+  wordLabel: (word: string) => `Mot : ${word}`,
+  lockedWordLabel: (word: string) => `Mot : ${word} (verrouillé)`,
+
+  // Buttons
+  checkAnswer: 'Vérifier la réponse',
+  hintSimple: 'Indice',
+  hintWord: 'Placer un mot',
+  validateProverb: 'Vérifier',
+  reset: 'Réinitialiser',
+  undo: 'Annuler',
+  redo: 'Rétablir',
+
+  // Validation
+  correct: '✓ Correct',
+  incorrect: '✗ Incorrect',
+  allCorrect: 'Parfait ! Tous les proverbes sont corrects !',
+  partialCorrect: (solved: number, total: number) => `${solved} sur ${total} corrects. Continuez !`,
+  noneCorrect: '✗ Aucun n’est encore correct. Essayez de réorganiser les mots !',
+
+  // Modal
+  congratulations: 'Félicitations !',
+  close: 'Fermer',
+  origin: 'Origine',
+  meaning: 'Signification',
+  nextPuzzle: 'Énigme suivante',
+
+  // Sharing results
+  shareResult: 'Partager le résultat',
+  resultCopied: 'Résultat copié !',
+  shareSolved: (solved: number, total: number) => `${solved}/${total} proverbes`,
+  shareAttempts: (count: number) => (count === 1 ? '1 essai' : `${count} essais`),
+  shareHints: (count: number) => (count === 1 ? '1 indice' : `${count} indices`),
+
+  // Daily puzzle
+  dailyPuzzle: 'Énigme du jour',
+  dailyPuzzleDate: (date: string) => `Énigme du jour · ${date}`,
+  errorInvalidDailyDate: 'La date de cette énigme du jour n’est pas valide. Utilisez le format AAAA-MM-JJ.',
+  errorFutureDailyDate: 'Cette énigme du jour n’est pas encore disponible. Revenez ce jour-là !',
+
+  // Statistics
+  hintsUsed: 'Indices utilisés',
+  validationAttempts: 'Essais utilisés',
+  time: 'Temps',
+  perfectScore: 'Score parfait !',
+  firstTry: 'Du premier coup !',
+  noHints: 'Sans indice !',
+  minimalHints: 'Très peu d’indices !',
+  excellentWork: 'Excellent travail !',
+
+  // Lifetime statistics
+  statistics: 'Statistiques',
+  gamesPlayed: 'Parties',
+  winRate: '% Victoires',
+  perfectGames: 'Parfaites',
+  currentStreak: 'Série actuelle',
+  longestStreak: 'Meilleure série',
+  averageSolveTime: 'Temps moyen',
+  hintDistribution: 'Répartition des indices',
+  noStatistics: 'Terminez une énigme pour commencer à suivre vos statistiques.',
+  proverbsDiscovered: (seen: number, total: number) => `${seen} proverbes découverts sur ${total}`,
+  allProverbsDiscovered: 'Vous avez découvert tous les proverbes ! La prochaine énigme commence un nouveau tour.',
+  resetDiscovered: 'Réinitialiser les proverbes découverts',
+
+  // Collection of solved proverbs
+  collection: 'Collection de proverbes',
+  collectionDescription: 'Tous les proverbes que vous avez résolus, regroupés par culture.',
+  collectionEmpty: 'Résolvez un proverbe pour commencer votre collection.',
+  collectionNoMatches: 'Aucun proverbe ne correspond à votre recherche.',
+  collectionSearch: 'Rechercher des proverbes, significations et cultures',
+  allLanguages: 'Toutes les langues',
+  allCultures: 'Toutes les cultures',
+  collectionCount: (shown: number, total: number) => `${shown} sur ${total} proverbes`,
+  solvedOn: (date: string) => `Résolu le ${date}`,
+  backToGame: '← Retour au jeu',
+
+  // Game Over Modal
+  gameOverTitle: 'Partie terminée',
+  gameOverMessage: 'Plus de chance la prochaine fois ! Voici les bonnes réponses :',
+  correctSolutions: 'Bonnes réponses',
+  tryAgain: 'Réessayer',
+  newPuzzle: 'Nouvelle énigme',
+
+  // Practice mode
+  practiceMissed: 'Réviser les proverbes manqués',
+  practiceMode: 'Entraînement - les proverbes manqués reviennent pour être révisés',
+  practiceEmpty: 'Rien à réviser pour le moment. Les proverbes manqués reviendront ici pour être révisés.',
+
+  // Settings
+  settings: 'Paramètres',
+  theme: 'Thème',
+  themeNames: {
+    system: 'Selon l’appareil',
+    light: 'Clair',
+    dark: 'Sombre',
+    'high-contrast': 'Contraste élevé',
+  },
+
+  // Onboarding
+  onboardingTitle: 'Comment jouer',
+  onboardingStep1: 'Touchez un mot dans le plateau en bas (il sera mis en évidence)',
+  onboardingStep2: 'Touchez une case vide dans la zone des proverbes pour y placer le mot sélectionné',
+  onboardingStep3: 'Quand tous les mots sont placés, touchez Vérifier la réponse',
+  onboardingGotIt: 'Compris !',
+  onboardingExample: 'Exemple',
+  help: 'Aide',
+
+  // Loading/Error
+  loading: 'Chargement de l’énigme...',
+  errorLoading: 'Erreur de chargement de l’énigme',
+  errorMessage: 'Ajoutez un paramètre puzzle à l’URL ou vérifiez le format de l’énigme.',
+  puzzleLinkErrors: {
+    truncated: 'Ce lien d’énigme est incomplet. Il a peut-être été coupé lors du partage : demandez le lien complet.',
+    'bad-checksum': 'Ce lien d’énigme a été modifié depuis sa création et n’est pas fiable.',
+    'unsupported-version': 'Ce lien d’énigme a été créé avec une version plus récente du jeu. Essayez de recharger la page.',
+    'schema-violation': 'Le lien a pu être lu, mais il ne contient pas d’énigme jouable.',
+    malformed: 'Ce n’est pas un lien d’énigme valide.',
+  },
+  addPuzzle: 'Ajoutez un paramètre puzzle à l’URL ou vérifiez le format de l’énigme.',
+  orCreate: 'créez votre propre énigme',
+  orCreatePrefix: 'Ou ',
+  orCreateSuffix: ' !',
+
+  // Puzzle Builder
+  puzzleBuilder: 'Créateur d’énigmes',
+  builderDescription: (min: number, max: number) =>
+    `Créez votre propre énigme Pile de Proverbes en saisissant ${min} à ${max} proverbes. Les mots seront mélangés automatiquement et encodés dans une URL à partager.`,
+  languageLabel: 'Langue',
+  languageNames: {
+    en: 'Anglais (English)',
+    he: 'Hébreu (עברית)',
+    ar: 'Arabe (العربية)',
+    es: 'Espagnol (Español)',
+    fr: 'Français',
+    ru: 'Russe (Русский)',
+    yi: 'Yiddish (ייִדיש)',
+  },
+  puzzleSize: 'Taille de l’énigme',
+  puzzleSizeNames: {
+    easy: 'Facile',
+    standard: 'Normal',
+    hard: 'Difficile',
+    expert: 'Expert',
+  },
+  difficulty: 'Difficulté',
+  difficultyNames: {
+    relaxed: 'Détendu',
+    classic: 'Classique',
+    challenging: 'Difficile',
+  },
+  proverbsLabel: 'Proverbes',
+  proverbNumber: (n: number) => `Proverbe ${n}`,
+  remove: 'Supprimer',
+  proverbText: 'Texte du proverbe',
+  wordsRequired: (min: number, max: number) => `${min} à ${max} mots requis`,
+  cultureOrigin: 'Culture/Origine',
+  meaningLabel: 'Signification',
+  generateURL: 'Générer l’URL de l’énigme',
+  clearAll: 'Tout effacer',
+  puzzleGenerated: '✓ Énigme générée !',
+  shareURL: 'Partagez cette URL pour faire jouer d’autres personnes à votre énigme :',
+  copy: 'Copier',
+  copied: 'Copié !',
+  previewPuzzle: 'Aperçu de l’énigme',
+  addAnother: '+ Ajouter un autre proverbe (facultatif)',
+  proverbPlaceholder: 'ex. : Petit à petit, l’oiseau fait son nid',
+  culturePlaceholder: 'ex. : Française, Québécoise, Sénégalaise',
+  meaningPlaceholder: 'Expliquez ce que signifie le proverbe...',
+  errorAllSolutions: 'Tous les proverbes doivent avoir un texte de solution',
+  errorAllCultures: 'Tous les proverbes doivent avoir une culture/origine',
+  errorAllMeanings: 'Tous les proverbes doivent avoir une signification',
+  errorMinWords: (n: number, count: number, min: number) => `Le proverbe ${n} doit contenir au moins ${min} mots (actuellement ${count})`,
+  errorMaxWords: (n: number, count: number, max: number) => `Le proverbe ${n} doit contenir au plus ${max} mots (actuellement ${count})`,
+  ambiguityWarning: 'Certains mots apparaissent dans plusieurs proverbes. Leurs tuiles sont interchangeables : les joueurs peuvent les placer dans n’importe lequel des proverbes indiqués :',
+  ambiguousWord: (word: string, proverbs: string) => `« ${word} » – proverbes ${proverbs}`,
+  decodeLabel: 'Charger une énigme existante',
+  decodeDescription: 'Collez une énigme encodée ou une URL pour la modifier',
+  decodePlaceholder: 'Collez ici la chaîne encodée ou l’URL complète...',
+  decodeButton: 'Charger l’énigme',
+  errorDecoding: 'Impossible de décoder l’énigme. Veuillez vérifier la saisie.',
+};
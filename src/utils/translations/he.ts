@@ -0,0 +1,215 @@
+/**
+ * Hebrew translations
+ */
+
+import { Translations } from './types';
+
+export const he: Translations = {
+  // Header
+  appName: 'ערימת פתגמים',
+  subtitle: (count: number) => `הפרד את המילים המעורבבות ל-${count} פתגמים`,
+  instructions: `הפרד את המילים המעורבבות לפתגמים. לחץ על מילה לבחירתה, ואז לחץ על משבצת ריקה למיקומה.`,
+  createPuzzle: 'צור חידה',
+
+  // Game
+  proverbs: 'פתגמים',
+  proverb: 'פתגם',
+  availableWords: (count: number) => `מילים זמינות (${count} נותרו)`,
+  allWordsPlaced: 'כל המילים ממוקמות - לחץ בדוק תשובה!',
+  poolFilter: (text: string) => `הוקלד: ${text}`,
+  selectionHintTapWord: 'לחץ על מילה למיקום אוטומטי',
+  selectionHintTapSlot: 'לחץ על משבצת ריקה',
+  selectionHintPickWord: 'בחר מילה מהמגש',
+
+  // Screen reader announcements
+  announcePlaced: (word: string, proverb: number, position: number) =>
+    `"${word}" הוצבה בפתגם ${proverb}, מקום ${position}`,
+  announceRemoved: (word: string, proverb: number, position: number) =>
+    `"${word}" הוסרה מפתגם ${proverb}, מקום ${position}`,
+  announceHintPlaced: (word: string, proverb: number, position: number) =>
+    `רמז: "${word}" הוצבה בפתגם ${proverb}, מקום ${position}`,
+  announceMeaning: (proverb: number, meaning: string) => `משמעות פתגם ${proverb}: ${meaning}`,
+  announceProverbCorrect: (proverb: number) => `פתגם ${proverb} נכון`,
+  announceProverbIncorrect: (proverb: number) => `פתגם ${proverb} שגוי`,
+  slotLabel: (position: number, word: string) => `מקום ${position}: ${word}`,
+  emptySlotLabel: (position: number) => `מקום ריק ${position}`,
+  wordLabel: (word: string) => `מילה: ${word}`,
+  lockedWordLabel: (word: string) => `מילה: ${word} (נעולה)`,
+
+  // Buttons
+  checkAnswer: 'בדוק תשובה',
+  hintSimple: 'רמז',
+  hintWord: 'מקם מילה',
+  validateProverb: 'בדוק',
+  reset: 'אתחל',
+  undo: 'בטל',
+  redo: 'בצע שוב',
+
+  // Validation
+  correct: '✓ נכון',
+  incorrect: '✗ לא נכון',
+  allCorrect: 'מושלם! כל הפתגמים נכונים!',
+  partialCorrect: (solved: number, total: number) => `${solved} מתוך ${total} נכונים. המשך לנסות!`,
+  noneCorrect: '✗ אף אחד לא נכון עדיין. נסה לסדר מחדש את המילים!',
+
+  // Modal
+  congratulations: 'כל הכבוד!',
+  close: 'סגור',
+  origin: 'מקור',
+  meaning: 'משמעות',
+  nextPuzzle: 'חידה הבאה',
+
+  // Sharing results
+  shareResult: 'שתף תוצאה',
+  resultCopied: 'התוצאה הועתקה!',
+  shareSolved: (solved: number, total: number) => `${solved}/${total} פתגמים`,
+  shareAttempts: (count: number) => (count === 1 ? 'ניסיון אחד' : `${count} ניסיונות`),
+  shareHints: (count: number) => (count === 1 ? 'רמז אחד' : `${count} רמזים`),
+
+  // Daily puzzle
+  dailyPuzzle: 'חידת היום',
+  dailyPuzzleDate: (date: string) => `חידת היום · ${date}`,
+  errorInvalidDailyDate: 'תאריך חידת היום אינו תקין. השתמש בפורמט YYYY-MM-DD.',
+  errorFutureDailyDate: 'חידת היום הזו עדיין לא זמינה. חזור ביום הזה!',
+
+  // Statistics
+  hintsUsed: 'רמזים שנוצלו',
+  validationAttempts: 'ניסיונות שנוצלו',
+  time: 'זמן',
+  perfectScore: 'ציון מושלם!',
+  firstTry: 'בניסיון הראשון!',
+  noHints: 'בלי רמזים!',
+  minimalHints: 'רמזים מינימליים!',
+  excellentWork: 'עבודה מצוינת!',
+
+  // Lifetime statistics
+  statistics: 'סטטיסטיקה',
+  gamesPlayed: 'משחקים',
+  winRate: '% ניצחונות',
+  perfectGames: 'מושלמים',
+  currentStreak: 'רצף נוכחי',
+  longestStreak: 'רצף שיא',
+  averageSolveTime: 'זמן ממוצע',
+  hintDistribution: 'התפלגות רמזים',
+  noStatistics: 'סיים חידה כדי להתחיל לעקוב אחר הסטטיסטיקה שלך.',
+  proverbsDiscovered: (seen: number, total: number) => `${seen} מתוך ${total} פתגמים התגלו`,
+  allProverbsDiscovered: 'גילית את כל הפתגמים! החידה הבאה מתחילה סבב חדש.',
+  resetDiscovered: 'איפוס הפתגמים שהתגלו',
+
+  // Collection of solved proverbs
+  collection: 'אוסף הפתגמים',
+  collectionDescription: 'כל הפתגמים שפתרת, מקובצים לפי תרבות.',
+  collectionEmpty: 'פתרו פתגם כדי להתחיל את האוסף.',
+  collectionNoMatches: 'אין פתגמים שמתאימים לחיפוש.',
+  collectionSearch: 'חיפוש בפתגמים, במשמעויות ובתרבויות',
+  allLanguages: 'כל השפות',
+  allCultures: 'כל התרבויות',
+  collectionCount: (shown: number, total: number) => `${shown} מתוך ${total} פתגמים`,
+  solvedOn: (date: string) => `נפתר ב-${date}`,
+  backToGame: 'חזרה למשחק →',
+
+  // Game Over Modal
+  gameOverTitle: 'המשחק הסתיים',
+  gameOverMessage: 'בהצלחה בפעם הבאה! הנה הפתרונות הנכונים:',
+  correctSolutions: 'פתרונות נכונים',
+  tryAgain: 'נסה שוב',
+  newPuzzle: 'חידה חדשה',
+
+  // Practice mode
+  practiceMissed: 'תרגול פתגמים שהוחמצו',
+  practiceMode: 'תרגול - פתגמים שהוחמצו חוזרים לחזרה',
+  practiceEmpty: 'אין מה לתרגל כרגע. פתגמים שתחמיצו יחזרו לכאן לחזרה.',
+
+  // Settings
+  settings: 'הגדרות',
+  theme: 'ערכת נושא',
+  themeNames: {
+    system: 'לפי המכשיר',
+    light: 'בהירה',
+    dark: 'כהה',
+    'high-contrast': 'ניגודיות גבוהה',
+  },
+
+  // Onboarding
+  onboardingTitle: 'איך משחקים',
+  onboardingStep1: 'לחץ על מילה ממגש המילים בתחתית (היא תודגש)',
+  onboardingStep2: 'לחץ על משבצת ריקה באזור הפתגמים למעלה כדי למקם את המילה',
+  onboardingStep3: 'כשכל המילים ממוקמות, לחץ על בדוק תשובה',
+  onboardingGotIt: 'הבנתי!',
+  onboardingExample: 'דוגמה',
+  help: 'עזרה',
+
+  // Loading/Error
+  loading: 'טוען חידה...',
+  errorLoading: 'שגיאה בטעינת החידה',
+  errorMessage: 'הוסף פרמטר חידה לכתובת או בדוק את פורמט החידה.',
+  puzzleLinkErrors: {
+    truncated: 'קישור החידה אינו שלם. ייתכן שנחתך בזמן השיתוף - בקשו את הקישור המלא.',
+    'bad-checksum': 'קישור החידה שונה מאז שנוצר ולא ניתן לסמוך עליו.',
+    'unsupported-version': 'קישור החידה נוצר בגרסה חדשה יותר של המשחק. נסו לרענן את הדף.',
+    'schema-violation': 'קישור החידה פוענח, אך אינו מכיל חידה שאפשר לשחק.',
+    malformed: 'זה אינו קישור חידה תקין.',
+  },
+  addPuzzle: 'הוסף פרמטר חידה לכתובת או בדוק את פורמט החידה.',
+  orCreate: 'צור חידה משלך',
+  orCreatePrefix: 'או ',
+  orCreateSuffix: '',
+
+  // Puzzle Builder
+  puzzleBuilder: 'בונה חידות',
+  builderDescription: (min: number, max: number) =>
+    `צור חידת ערימת פתגמים משלך על ידי הזנת ${min}-${max} פתגמים. המילים יעורבבו אוטומטית ויקודדו לכתובת URL ניתנת לשיתוף.`,
+  languageLabel: 'שפה',
+  languageNames: {
+    en: 'אנגלית',
+    he: 'עברית',
+    ar: 'ערבית',
+    es: 'ספרדית',
+    fr: 'צרפתית',
+    ru: 'רוסית',
+    yi: 'יידיש',
+  },
+  puzzleSize: 'גודל החידה',
+  puzzleSizeNames: {
+    easy: 'קל',
+    standard: 'רגיל',
+    hard: 'קשה',
+    expert: 'מומחה',
+  },
+  difficulty: 'רמת קושי',
+  difficultyNames: {
+    relaxed: 'רגועה',
+    classic: 'קלאסית',
+    challenging: 'מאתגרת',
+  },
+  proverbsLabel: 'פתגמים',
+  proverbNumber: (n: number) => `פתגם ${n}`,
+  remove: 'הסר',
+  proverbText: 'טקסט הפתגם',
+  wordsRequired: (min: number, max: number) => `${min}-${max} מילים נדרשות`,
+  cultureOrigin: 'תרבות/מקור',
+  meaningLabel: 'משמעות',
+  generateURL: 'צור קישור לחידה',
+  clearAll: 'נקה הכל',
+  puzzleGenerated: '✓ החידה נוצרה!',
+  shareURL: 'שתף קישור זה כדי לאפשר לאחרים לשחק בחידה שלך:',
+  copy: 'העתק',
+  copied: 'הועתק!',
+  previewPuzzle: 'תצוגה מקדימה של החידה',
+  addAnother: '+ הוסף פתגם נוסף (אופציונלי)',
+  proverbPlaceholder: 'לדוגמה: יד רוחצת יד',
+  culturePlaceholder: 'לדוגמה: עברית, ערבית, הודית',
+  meaningPlaceholder: 'הסבר מה הפתגם אומר...',
+  errorAllSolutions: 'כל הפתגמים חייבים להכיל טקסט פתרון',
+  errorAllCultures: 'כל הפתגמים חייבים להכיל תרבות/מקור',
+  errorAllMeanings: 'כל הפתגמים חייבים להכיל משמעות',
+  errorMinWords: (n: number, count: number, min: number) => `פתגם ${n} חייב להכיל לפחות ${min} מילים (כרגע יש ${count})`,
+  errorMaxWords: (n: number, count: number, max: number) => `פתגם ${n} חייב להכיל לכל היותר ${max} מילים (כרגע יש ${count})`,
+  ambiguityWarning: 'חלק מהמילים מופיעות ביותר מפתגם אחד. האריחים שלהן ניתנים להחלפה, כך שהשחקנים יכולים לשים אותם בכל אחד מהפתגמים המפורטים:',
+  ambiguousWord: (word: string, proverbs: string) => `"${word}" – פתגמים ${proverbs}`,
+  decodeLabel: 'טען חידה קיימת',
+  decodeDescription: 'הדבק חידה מקודדת או קישור לעריכה',
+  decodePlaceholder: 'הדבק כאן מחרוזת מקודדת או קישור מלא...',
+  decodeButton: 'טען חידה',
+  errorDecoding: 'פענוח החידה נכשל. אנא בדוק את הקלט.',
+};
@@ -0,0 +1,31 @@
+/**
+ * Translation utilities for multi-language support
+ * Each registered language has its own bundle in this directory
+ */
+
+import { LanguageCode } from '../../types';
+import { Translations } from './types';
+import { en } from './en';
+import { he } from './he';
+import { ar } from './ar';
+import { es } from './es';
+import { fr } from './fr';
+import { ru } from './ru';
+import { yi } from './yi';
+
+export type { LanguageCode } from '../../types';
+export type { Translations } from './types';
+
+const translations: Record<LanguageCode, Translations> = {
+  en,
+  he,
+  ar,
+  es,
+  fr,
+  ru,
+  yi,
+};
+
+export const getTranslations = (language: LanguageCode): Translations => {
+  return translations[language] || translations.en;
+};
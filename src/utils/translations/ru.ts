@@ -0,0 +1,226 @@
+/**
+ * Russian translations
+ */
+
+import { Translations } from './types';
+
+/**
+ * Picks the Russian plural form for a count (1 / 2-4 / 5+)
+ */
+const plural = (count: number, one: string, few: string, many: string): string => {
+  const mod10 = count % 10;
+  const mod100 = count % 100;
+  if (mod10 === 1 && mod100 !== 11) return one;
+  if (mod10 >= 2 && mod10 <= 4 && (mod100 < 12 || mod100 > 14)) return few;
+  return many;
+};
+
+export const ru: Translations = {
+  // Header
+  appName: 'Куча пословиц',
+  subtitle: (count: number) => `Разложите перемешанные слова на ${count} ${plural(count, 'пословицу', 'пословицы', 'пословиц')}`,
+  instructions: `Разложите перемешанные слова на пословицы. Нажмите на слово, чтобы выбрать его, затем нажмите на пустую ячейку, чтобы поставить его.`,
+  createPuzzle: 'Создать головоломку',
+
+  // Game
+  proverbs: 'Пословицы',
+  proverb: 'Пословица',
+  availableWords: (count: number) => `Доступные слова (осталось ${count})`,
+  allWordsPlaced: 'Все слова расставлены - нажмите «Проверить ответ»!',
+  poolFilter: (text: string) => `Набрано: ${text}`,
+  selectionHintTapWord: 'Нажмите на слово, чтобы поставить его автоматически',
+  selectionHintTapSlot: 'Нажмите на пустую ячейку',
+  selectionHintPickWord: 'Выберите слово из лотка',
+
+  // Screen reader announcements
+  announcePlaced: (word: string, proverb: number, position: number) =>
+    `Слово «${word}» поставлено в пословицу ${proverb}, позиция ${position}`,
+  announceRemoved: (word: string, proverb: number, position: number) =>
+    `Слово «${word}» убрано из пословицы ${proverb}, позиция ${position}`,
+  announceHintPlaced: (word: string, proverb: number, position: number) =>
+    `Подсказка: слово «${word}» поставлено в пословицу ${proverb}, позиция ${position}`,
+  announceMeaning: (proverb: number, meaning: string) => `Значение пословицы ${proverb}: ${meaning}`,
+  announceProverbCorrect: (proverb: number) => `Пословица ${proverb} собрана верно`,
+  announceProverbIncorrect: (proverb: number) => `Пословица ${proverb} собрана неверно`,
+  slotLabel: (position: number, word: string) => `Позиция ${position}: ${word}`,
+  emptySlotLabel: (position: number) => `Пустая позиция ${position}`,
+  wordLabel: (word: string) => `Слово: ${word}`,
+  lockedWordLabel: (word: string) => `Слово: ${word} (закреплено)`,
+
+  // Buttons
+  checkAnswer: 'Проверить ответ',
+  hintSimple: 'Подсказка',
+  hintWord: 'Поставить слово',
+  validateProverb: 'Проверить',
+  reset: 'Сбросить',
+  undo: 'Отменить',
+  redo: 'Повторить',
+
+  // Validation
+  correct: '✓ Верно',
+  incorrect: '✗ Неверно',
+  allCorrect: 'Отлично! Все пословицы собраны верно!',
+  partialCorrect: (solved: number, total: number) => `Верно ${solved} из ${total}. Продолжайте!`,
+  noneCorrect: '✗ Пока ни одна не верна. Попробуйте переставить слова!',
+
+  // Modal
+  congratulations: 'Поздравляем!',
+  close: 'Закрыть',
+  origin: 'Происхождение',
+  meaning: 'Значение',
+  nextPuzzle: 'Следующая головоломка',
+
+  // Sharing results
+  shareResult: 'Поделиться результатом',
+  resultCopied: 'Результат скопирован!',
+  shareSolved: (solved: number, total: number) => `${solved}/${total} пословиц`,
+  shareAttempts: (count: number) => `${count} ${plural(count, 'попытка', 'попытки', 'попыток')}`,
+  shareHints: (count: number) => `${count} ${plural(count, 'подсказка', 'подсказки', 'подсказок')}`,
+
+  // Daily puzzle
+  dailyPuzzle: 'Головоломка дня',
+  dailyPuzzleDate: (date: string) => `Головоломка дня · ${date}`,
+  errorInvalidDailyDate: 'Неверная дата головоломки дня. Используйте формат ГГГГ-ММ-ДД.',
+  errorFutureDailyDate: 'Эта головоломка дня ещё недоступна. Возвращайтесь в этот день!',
+
+  // Statistics
+  hintsUsed: 'Подсказок',
+  validationAttempts: 'Попыток',
+  time: 'Время',
+  perfectScore: 'Идеальный результат!',
+  firstTry: 'С первой попытки!',
+  noHints: 'Без подсказок!',
+  minimalHints: 'Минимум подсказок!',
+  excellentWork: 'Отличная работа!',
+
+  // Lifetime statistics
+  statistics: 'Статистика',
+  gamesPlayed: 'Сыграно',
+  winRate: '% побед',
+  perfectGames: 'Идеальных',
+  currentStreak: 'Текущая серия',
+  longestStreak: 'Лучшая серия',
+  averageSolveTime: 'Среднее время',
+  hintDistribution: 'Распределение подсказок',
+  noStatistics: 'Решите головоломку, чтобы начать вести статистику.',
+  proverbsDiscovered: (seen: number, total: number) => `Открыто пословиц: ${seen} из ${total}`,
+  allProverbsDiscovered: 'Вы открыли все пословицы! Следующая головоломка начнёт новый круг.',
+  resetDiscovered: 'Сбросить открытые пословицы',
+
+  // Collection of solved proverbs
+  collection: 'Коллекция пословиц',
+  collectionDescription: 'Все решённые вами пословицы, сгруппированные по культурам.',
+  collectionEmpty: 'Решите пословицу, чтобы начать коллекцию.',
+  collectionNoMatches: 'Нет пословиц, подходящих под запрос.',
+  collectionSearch: 'Поиск по пословицам, значениям и культурам',
+  allLanguages: 'Все языки',
+  allCultures: 'Все культуры',
+  collectionCount: (shown: number, total: number) => `${shown} из ${total} пословиц`,
+  solvedOn: (date: string) => `Решено ${date}`,
+  backToGame: '← Вернуться к игре',
+
+  // Game Over Modal
+  gameOverTitle: 'Игра окончена',
+  gameOverMessage: 'Повезёт в следующий раз! Вот правильные ответы:',
+  correctSolutions: 'Правильные ответы',
+  tryAgain: 'Попробовать снова',
+  newPuzzle: 'Новая головоломка',
+
+  // Practice mode
+  practiceMissed: 'Повторить пропущенные пословицы',
+  practiceMode: 'Тренировка - пропущенные пословицы возвращаются для повторения',
+  practiceEmpty: 'Сейчас нечего повторять. Пропущенные пословицы вернутся сюда для повторения.',
+
+  // Settings
+  settings: 'Настройки',
+  theme: 'Тема',
+  themeNames: {
+    system: 'Как на устройстве',
+    light: 'Светлая',
+    dark: 'Тёмная',
+    'high-contrast': 'Высокий контраст',
+  },
+
+  // Onboarding
+  onboardingTitle: 'Как играть',
+  onboardingStep1: 'Нажмите на слово в лотке внизу (оно будет выделено)',
+  onboardingStep2: 'Нажмите на пустую ячейку в области пословиц, чтобы поставить выбранное слово',
+  onboardingStep3: 'Когда все слова расставлены, нажмите «Проверить ответ»',
+  onboardingGotIt: 'Понятно!',
+  onboardingExample: 'Пример',
+  help: 'Помощь',
+
+  // Loading/Error
+  loading: 'Загрузка головоломки...',
+  errorLoading: 'Ошибка загрузки головоломки',
+  errorMessage: 'Добавьте параметр puzzle в URL или проверьте формат головоломки.',
+  puzzleLinkErrors: {
+    truncated: 'Ссылка на головоломку неполная. Возможно, её обрезали при отправке - попросите полную ссылку.',
+    'bad-checksum': 'Ссылка на головоломку была изменена после создания, ей нельзя доверять.',
+    'unsupported-version': 'Ссылка создана в более новой версии игры. Попробуйте перезагрузить страницу.',
+    'schema-violation': 'Ссылку удалось прочитать, но в ней нет головоломки, в которую можно играть.',
+    malformed: 'Это недействительная ссылка на головоломку.',
+  },
+  addPuzzle: 'Добавьте параметр puzzle в URL или проверьте формат головоломки.',
+  orCreate: 'создайте свою головоломку',
+  orCreatePrefix: 'Или ',
+  orCreateSuffix: '!',
+
+  // Puzzle Builder
+  puzzleBuilder: 'Конструктор головоломок',
+  builderDescription: (min: number, max: number) =>
+    `Создайте свою головоломку «Куча пословиц», введя ${min}-${max} пословицы. Слова будут автоматически перемешаны и закодированы в ссылку, которой можно поделиться.`,
+  languageLabel: 'Язык',
+  languageNames: {
+    en: 'Английский (English)',
+    he: 'Иврит (עברית)',
+    ar: 'Арабский (العربية)',
+    es: 'Испанский (Español)',
+    fr: 'Французский (Français)',
+    ru: 'Русский',
+    yi: 'Идиш (ייִדיש)',
+  },
+  puzzleSize: 'Размер головоломки',
+  puzzleSizeNames: {
+    easy: 'Лёгкий',
+    standard: 'Обычный',
+    hard: 'Сложный',
+    expert: 'Эксперт',
+  },
+  difficulty: 'Сложность',
+  difficultyNames: {
+    relaxed: 'Спокойный',
+    classic: 'Классический',
+    challenging: 'Трудный',
+  },
+  proverbsLabel: 'Пословицы',
+  proverbNumber: (n: number) => `Пословица ${n}`,
+  remove: 'Удалить',
+  proverbText: 'Текст пословицы',
+  wordsRequired: (min: number, max: number) => `Нужно ${min}-${max} слов`,
+  cultureOrigin: 'Культура/Происхождение',
+  meaningLabel: 'Значение',
+  generateURL: 'Создать ссылку на головоломку',
+  clearAll: 'Очистить всё',
+  puzzleGenerated: '✓ Головоломка создана!',
+  shareURL: 'Поделитесь этой ссылкой, чтобы другие могли сыграть в вашу головоломку:',
+  copy: 'Копировать',
+  copied: 'Скопировано!',
+  previewPuzzle: 'Предпросмотр головоломки',
+  addAnother: '+ Добавить ещё пословицу (необязательно)',
+  proverbPlaceholder: 'например: Тише едешь, дальше будешь',
+  culturePlaceholder: 'например: Русская, Украинская, Грузинская',
+  meaningPlaceholder: 'Объясните, что означает пословица...',
+  errorAllSolutions: 'У всех пословиц должен быть текст решения',
+  errorAllCultures: 'У всех пословиц должна быть указана культура/происхождение',
+  errorAllMeanings: 'У всех пословиц должно быть указано значение',
+  errorMinWords: (n: number, count: number, min: number) => `Пословица ${n} должна содержать не менее ${min} слов (сейчас ${count})`,
+  errorMaxWords: (n: number, count: number, max: number) => `Пословица ${n} должна содержать не более ${max} слов (сейчас ${count})`,
+  ambiguityWarning: 'Некоторые слова встречаются в нескольких пословицах. Их плитки взаимозаменяемы: их можно ставить в любую из указанных пословиц:',
+  ambiguousWord: (word: string, proverbs: string) => `«${word}» – пословицы ${proverbs}`,
+  decodeLabel: 'Загрузить существующую головоломку',
+  decodeDescription: 'Вставьте закодированную головоломку или ссылку, чтобы изменить её',
+  decodePlaceholder: 'Вставьте сюда закодированную строку или полную ссылку...',
+  decodeButton: 'Загрузить головоломку',
+  errorDecoding: 'Не удалось раскодировать головоломку. Проверьте ввод.',
+};
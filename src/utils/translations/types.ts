@@ -0,0 +1,206 @@
+/**
+ * Shape of a translation bundle
+ * Every registered language provides one bundle with all of these strings
+ */
+
+import { LanguageCode, PuzzleDecodeErrorReason } from '../../types';
+import { DifficultyLevel } from '../difficulty';
+import { PuzzleSize } from '../puzzleSize';
+import { ThemePreference } from '../theme';
+
+export interface Translations {
+  // Header
+  appName: string;
+  subtitle: (count: number) => string;
+  instructions: string;
+  createPuzzle: string;
+
+  // Game
+  proverbs: string;
+  proverb: string;
+  availableWords: (count: number) => string;
+  allWordsPlaced: string;
+  /** Letters typed to narrow the word pool down (keyboard play) */
+  poolFilter: (text: string) => string;
+  /** Tap-to-place hints next to the word pool title */
+  selectionHintTapWord: string;
+  selectionHintTapSlot: string;
+  selectionHintPickWord: string;
+
+  // Screen reader announcements (word, proverb and position are 1-based for reading out)
+  announcePlaced: (word: string, proverb: number, position: number) => string;
+  announceRemoved: (word: string, proverb: number, position: number) => string;
+  announceHintPlaced: (word: string, proverb: number, position: number) => string;
+  announceMeaning: (proverb: number, meaning: string) => string;
+  announceProverbCorrect: (proverb: number) => string;
+  announceProverbIncorrect: (proverb: number) => string;
+  /** Accessible names of slots (1-based position) and word tiles */
+  slotLabel: (position: number, word: string) => string;
+  emptySlotLabel: (position: number) => string;
+  wordLabel: (word: string) => string;
+  lockedWordLabel: (word: string) => string;
+
+  // Buttons
+  checkAnswer: string;
+  hintSimple: string;
+  hintWord: string;
+  validateProverb: string;
+  reset: string;
+  undo: string;
+  redo: string;
+
+  // Validation
+  correct: string;
+  incorrect: string;
+  allCorrect: string;
+  partialCorrect: (solved: number, total: number) => string;
+  noneCorrect: string;
+
+  // Modal
+  congratulations: string;
+  close: string;
+  origin: string;
+  meaning: string;
+  nextPuzzle: string;
+
+  // Sharing results
+  shareResult: string;
+  resultCopied: string;
+  shareSolved: (solved: number, total: number) => string;
+  shareAttempts: (count: number) => string;
+  shareHints: (count: number) => string;
+
+  // Daily puzzle
+  dailyPuzzle: string;
+  dailyPuzzleDate: (date: string) => string;
+  errorInvalidDailyDate: string;
+  errorFutureDailyDate: string;
+
+  // Statistics
+  hintsUsed: string;
+  validationAttempts: string;
+  time: string;
+  perfectScore: string;
+  firstTry: string;
+  noHints: string;
+  minimalHints: string;
+  excellentWork: string;
+
+  // Lifetime statistics
+  statistics: string;
+  gamesPlayed: string;
+  winRate: string;
+  perfectGames: string;
+  currentStreak: string;
+  longestStreak: string;
+  averageSolveTime: string;
+  hintDistribution: string;
+  noStatistics: string;
+  /** Progress through the bundled proverbs of a language */
+  proverbsDiscovered: (seen: number, total: number) => string;
+  allProverbsDiscovered: string;
+  resetDiscovered: string;
+
+  // Collection of solved proverbs
+  collection: string;
+  collectionDescription: string;
+  collectionEmpty: string;
+  collectionNoMatches: string;
+  collectionSearch: string;
+  allLanguages: string;
+  allCultures: string;
+  /** Proverbs shown after filtering, out of all collected */
+  collectionCount: (shown: number, total: number) => string;
+  /** Date a proverb was first solved, already formatted for the locale */
+  solvedOn: (date: string) => string;
+  backToGame: string;
+
+  // Game Over Modal
+  gameOverTitle: string;
+  gameOverMessage: string;
+  correctSolutions: string;
+  tryAgain: string;
+  newPuzzle: string;
+
+  // Practice mode
+  /** Game over button that opens a puzzle built around missed proverbs */
+  practiceMissed: string;
+  practiceMode: string;
+  practiceEmpty: string;
+
+  // Settings
+  settings: string;
+  /** Label of the theme choice */
+  theme: string;
+  /** Names of the theme preferences */
+  themeNames: Record<ThemePreference, string>;
+
+  // Onboarding
+  onboardingTitle: string;
+  onboardingStep1: string;
+  onboardingStep2: string;
+  onboardingStep3: string;
+  onboardingGotIt: string;
+  /** Word on the sample tile of the first onboarding step */
+  onboardingExample: string;
+  help: string;
+
+  // Loading/Error
+  loading: string;
+  errorLoading: string;
+  errorMessage: string;
+  /** Why a shared puzzle link could not be opened */
+  puzzleLinkErrors: Record<PuzzleDecodeErrorReason, string>;
+  addPuzzle: string;
+  orCreate: string;
+  /** Text around the orCreate link on the error page */
+  orCreatePrefix: string;
+  orCreateSuffix: string;
+
+  // Puzzle Builder
+  puzzleBuilder: string;
+  builderDescription: (min: number, max: number) => string;
+  languageLabel: string;
+  /** Names of every registered language, in this language */
+  languageNames: Record<LanguageCode, string>;
+  /** Label of the puzzle size selector */
+  puzzleSize: string;
+  /** Names of the puzzle size presets */
+  puzzleSizeNames: Record<PuzzleSize, string>;
+  /** Label of the difficulty selector */
+  difficulty: string;
+  /** Names of the difficulty levels */
+  difficultyNames: Record<DifficultyLevel, string>;
+  proverbsLabel: string;
+  proverbNumber: (n: number) => string;
+  remove: string;
+  proverbText: string;
+  wordsRequired: (min: number, max: number) => string;
+  cultureOrigin: string;
+  meaningLabel: string;
+  generateURL: string;
+  clearAll: string;
+  puzzleGenerated: string;
+  shareURL: string;
+  copy: string;
+  copied: string;
+  previewPuzzle: string;
+  addAnother: string;
+  proverbPlaceholder: string;
+  culturePlaceholder: string;
+  meaningPlaceholder: string;
+  errorAllSolutions: string;
+  errorAllCultures: string;
+  errorAllMeanings: string;
+  errorMinWords: (n: number, count: number, min: number) => string;
+  errorMaxWords: (n: number, count: number, max: number) => string;
+  /** Builder notice for words shared by several proverbs (see utils/ambiguity) */
+  ambiguityWarning: string;
+  /** One shared word and the proverb numbers it appears in (e.g. "1, 3") */
+  ambiguousWord: (word: string, proverbs: string) => string;
+  decodeLabel: string;
+  decodeDescription: string;
+  decodePlaceholder: string;
+  decodeButton: string;
+  errorDecoding: string;
+}
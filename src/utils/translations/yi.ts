@@ -0,0 +1,215 @@
+/**
+ * Yiddish translations
+ */
+
+import { Translations } from './types';
+
+export const yi: Translations = {
+  // Header
+  appName: 'שפּריכווערטער־הויפֿן',
+  subtitle: (count: number) => `צעטייל די צעמישטע ווערטער אויף ${count} שפּריכווערטער`,
+  instructions: `צעטייל די צעמישטע ווערטער אויף שפּריכווערטער. דריק אויף אַ וואָרט כּדי אים אויסצוקלייבן, און דערנאָך אויף אַ ליידיק אָרט כּדי אים אַוועקצושטעלן.`,
+  createPuzzle: 'שאַף אַ רעטעניש',
+
+  // Game
+  proverbs: 'שפּריכווערטער',
+  proverb: 'שפּריכוואָרט',
+  availableWords: (count: number) => `בנימצאדיקע ווערטער (${count} געבליבן)`,
+  allWordsPlaced: 'אַלע ווערטער זענען אַוועקגעשטעלט - דריק „קאָנטראָלירן דעם ענטפֿער“!',
+  poolFilter: (text: string) => `געטיפּט: ${text}`,
+  selectionHintTapWord: 'דריקט אויף אַ וואָרט עס אויטאָמאַטיש אַרײַנצושטעלן',
+  selectionHintTapSlot: 'דריקט אויף אַ ליידיקן פּלאַץ',
+  selectionHintPickWord: 'קלײַבט אַ וואָרט פֿון דער טאַץ',
+
+  // Screen reader announcements
+  announcePlaced: (word: string, proverb: number, position: number) =>
+    `„${word}“ געשטעלט אין שפּריכוואָרט ${proverb}, אָרט ${position}`,
+  announceRemoved: (word: string, proverb: number, position: number) =>
+    `„${word}“ אַוועקגענומען פֿון שפּריכוואָרט ${proverb}, אָרט ${position}`,
+  announceHintPlaced: (word: string, proverb: number, position: number) =>
+    `רמז: „${word}“ געשטעלט אין שפּריכוואָרט ${proverb}, אָרט ${position}`,
+  announceMeaning: (proverb: number, meaning: string) => `באַטײַט פֿון שפּריכוואָרט ${proverb}: ${meaning}`,
+  announceProverbCorrect: (proverb: number) => `שפּריכוואָרט ${proverb} ריכטיק`,
+  announceProverbIncorrect: (proverb: number) => `שפּריכוואָרט ${proverb} נישט ריכטיק`,
+  slotLabel: (position: number, word: string) => `אָרט ${position}: ${word}`,
+  emptySlotLabel: (position: number) => `ליידיק אָרט ${position}`,
+  wordLabel: (word: string) => `וואָרט: ${word}`,
+  lockedWordLabel: (word: string) => `וואָרט: ${word} (פֿאַרשלאָסן)`,
+
+  // Buttons
+  checkAnswer: 'קאָנטראָלירן דעם ענטפֿער',
+  hintSimple: 'רמז',
+  hintWord: 'שטעל אַוועק אַ וואָרט',
+  validateProverb: 'קאָנטראָלירן',
+  reset: 'אָנהייבן פֿון ס׳נײַ',
+  undo: 'צוריק',
+  redo: 'ווידער',
+
+  // Validation
+  correct: '✓ ריכטיק',
+  incorrect: '✗ ניט ריכטיק',
+  allCorrect: 'פּערפֿעקט! אַלע שפּריכווערטער זענען ריכטיק!',
+  partialCorrect: (solved: number, total: number) => `${solved} פֿון ${total} ריכטיק. פּרוּווט ווײַטער!`,
+  noneCorrect: '✗ נאָך קיינס ניט ריכטיק. פּרוּווט איבערצוסדרן די ווערטער!',
+
+  // Modal
+  congratulations: 'מזל־טובֿ!',
+  close: 'פֿאַרמאַכן',
+  origin: 'אָפּשטאַם',
+  meaning: 'באַטײַט',
+  nextPuzzle: 'קומענדיקע רעטעניש',
+
+  // Sharing results
+  shareResult: 'טייל זיך מיטן רעזולטאַט',
+  resultCopied: 'דער רעזולטאַט איז קאָפּירט!',
+  shareSolved: (solved: number, total: number) => `${solved}/${total} שפּריכווערטער`,
+  shareAttempts: (count: number) => (count === 1 ? 'איין פּרוּוו' : `${count} פּרוּוון`),
+  shareHints: (count: number) => (count === 1 ? 'איין רמז' : `${count} רמזים`),
+
+  // Daily puzzle
+  dailyPuzzle: 'רעטעניש פֿונעם טאָג',
+  dailyPuzzleDate: (date: string) => `רעטעניש פֿונעם טאָג · ${date}`,
+  errorInvalidDailyDate: 'די דאַטע פֿון דער רעטעניש פֿונעם טאָג איז ניט גילטיק. ניצט דעם פֿאָרמאַט YYYY-MM-DD.',
+  errorFutureDailyDate: 'די רעטעניש פֿונעם טאָג איז נאָך ניט גרייט. קומט צוריק אין יענעם טאָג!',
+
+  // Statistics
+  hintsUsed: 'גענוצטע רמזים',
+  validationAttempts: 'גענוצטע פּרוּוון',
+  time: 'צײַט',
+  perfectScore: 'אַ פּערפֿעקטער רעזולטאַט!',
+  firstTry: 'בײַם ערשטן פּרוּוו!',
+  noHints: 'אָן רמזים!',
+  minimalHints: 'ווייניק רמזים!',
+  excellentWork: 'אויסגעצייכנטע אַרבעט!',
+
+  // Lifetime statistics
+  statistics: 'סטאַטיסטיק',
+  gamesPlayed: 'געשפּילט',
+  winRate: '% געווינסן',
+  perfectGames: 'פּערפֿעקט',
+  currentStreak: 'איצטיקע סעריע',
+  longestStreak: 'לענגסטע סעריע',
+  averageSolveTime: 'דורכשניטלעכע צײַט',
+  hintDistribution: 'פֿאַרטיילונג פֿון רמזים',
+  noStatistics: 'ענדיקט אַ רעטעניש כּדי אָנצוהייבן נאָכפֿאָלגן אײַער סטאַטיסטיק.',
+  proverbsDiscovered: (seen: number, total: number) => `${seen} פֿון ${total} שפּריכווערטער אַנטדעקט`,
+  allProverbsDiscovered: 'דו האָסט אַנטדעקט אַלע שפּריכווערטער! די קומענדיקע רעטעניש הייבט אָן אַ נײַע רונדע.',
+  resetDiscovered: 'אָנהייבן פֿון נײַעם די אַנטדעקטע שפּריכווערטער',
+
+  // Collection of solved proverbs
+  collection: 'זאַמלונג פֿון שפּריכווערטער',
+  collectionDescription: 'אַלע שפּריכווערטער וואָס איר האָט געלייזט, לויט קולטור.',
+  collectionEmpty: 'לייזט אַ שפּריכוואָרט כּדי אָנצוהייבן אײַער זאַמלונג.',
+  collectionNoMatches: 'קיין שפּריכווערטער פּאַסן נישט צום זוכן.',
+  collectionSearch: 'זוכן אין שפּריכווערטער, באַטײַטן און קולטורן',
+  allLanguages: 'אַלע שפּראַכן',
+  allCultures: 'אַלע קולטורן',
+  collectionCount: (shown: number, total: number) => `${shown} פֿון ${total} שפּריכווערטער`,
+  solvedOn: (date: string) => `געלייזט ${date}`,
+  backToGame: 'צוריק צום שפּיל →',
+
+  // Game Over Modal
+  gameOverTitle: 'די שפּיל איז פֿאַרענדיקט',
+  gameOverMessage: 'מער מזל אַ צווייט מאָל! אָט זענען די ריכטיקע ענטפֿערס:',
+  correctSolutions: 'ריכטיקע ענטפֿערס',
+  tryAgain: 'פּרוּווט נאָך אַ מאָל',
+  newPuzzle: 'נײַע רעטעניש',
+
+  // Practice mode
+  practiceMissed: 'איבן די פֿאַרפֿעלטע שפּריכווערטער',
+  practiceMode: 'איבונג - פֿאַרפֿעלטע שפּריכווערטער קומען צוריק צו חזרן',
+  practiceEmpty: 'אַצינד איז נישטאָ וואָס צו איבן. פֿאַרפֿעלטע שפּריכווערטער קומען אַהער צוריק צו חזרן.',
+
+  // Settings
+  settings: 'איינשטעלונגען',
+  theme: 'טעמע',
+  themeNames: {
+    system: 'ווי אויפֿן מכשיר',
+    light: 'ליכטיק',
+    dark: 'טונקל',
+    'high-contrast': 'הויכער קאָנטראַסט',
+  },
+
+  // Onboarding
+  onboardingTitle: 'ווי אַזוי צו שפּילן',
+  onboardingStep1: 'דריקט אויף אַ וואָרט אין דער טאַץ אונטן (עס וועט ווערן אָנגעצייכנט)',
+  onboardingStep2: 'דריקט אויף אַ ליידיק אָרט אויבן כּדי אַוועקצושטעלן דאָס אויסגעקליבענע וואָרט',
+  onboardingStep3: 'ווען אַלע ווערטער זענען אַוועקגעשטעלט, דריקט „קאָנטראָלירן דעם ענטפֿער“',
+  onboardingGotIt: 'פֿאַרשטאַנען!',
+  onboardingExample: 'בײַשפּיל',
+  help: 'הילף',
+
+  // Loading/Error
+  loading: 'לאָדט די רעטעניש...',
+  errorLoading: 'טעות בײַם לאָדן די רעטעניש',
+  errorMessage: 'לייגט צו אַ puzzle־פּאַראַמעטער צום לינק אָדער קאָנטראָלירט דעם פֿאָרמאַט פֿון דער רעטעניש.',
+  puzzleLinkErrors: {
+    truncated: 'דער לינק צו דער רעטעניש איז ניט פֿולשטענדיק. ער איז אפֿשר אָפּגעשניטן געוואָרן בײַם טיילן - בעט דעם גאַנצן לינק.',
+    'bad-checksum': 'דער לינק צו דער רעטעניש איז געביטן געוואָרן נאָך דעם ווי ער איז געשאַפֿן געוואָרן, מע קען אים ניט גלייבן.',
+    'unsupported-version': 'דער לינק איז געמאַכט געוואָרן מיט אַ נײַערער ווערסיע פֿון דער שפּיל. פּרוּווט איבערלאָדן דעם בלאַט.',
+    'schema-violation': 'מע האָט געקענט לייענען דעם לינק, אָבער ער האָט ניט קיין רעטעניש צו שפּילן.',
+    malformed: 'דאָס איז ניט קיין גילטיקער לינק צו אַ רעטעניש.',
+  },
+  addPuzzle: 'לייגט צו אַ puzzle־פּאַראַמעטער צום לינק אָדער קאָנטראָלירט דעם פֿאָרמאַט פֿון דער רעטעניש.',
+  orCreate: 'שאַפֿט אײַער אייגענע רעטעניש',
+  orCreatePrefix: 'אָדער ',
+  orCreateSuffix: '',
+
+  // Puzzle Builder
+  puzzleBuilder: 'רעטעניש־בויער',
+  builderDescription: (min: number, max: number) =>
+    `שאַפֿט אײַער אייגענע רעטעניש דורך אַרײַנשרײַבן ${min}-${max} שפּריכווערטער. די ווערטער וועלן אויטאָמאַטיש צעמישט און פֿאַרקאָדירט ווערן אין אַ לינק וואָס מע קען טיילן.`,
+  languageLabel: 'שפּראַך',
+  languageNames: {
+    en: 'ענגליש (English)',
+    he: 'העברעיִש (עברית)',
+    ar: 'אַראַביש (العربية)',
+    es: 'שפּאַניש (Español)',
+    fr: 'פֿראַנצייזיש (Français)',
+    ru: 'רוסיש (Русский)',
+    yi: 'ייִדיש',
+  },
+  puzzleSize: 'גרייס פֿון דער רעטעניש',
+  puzzleSizeNames: {
+    easy: 'גרינג',
+    standard: 'געוויינטלעך',
+    hard: 'שווער',
+    expert: 'מומחה',
+  },
+  difficulty: 'שווערקייט',
+  difficultyNames: {
+    relaxed: 'גרינג',
+    classic: 'קלאַסיש',
+    challenging: 'שווער',
+  },
+  proverbsLabel: 'שפּריכווערטער',
+  proverbNumber: (n: number) => `שפּריכוואָרט ${n}`,
+  remove: 'אַוועקנעמען',
+  proverbText: 'טעקסט פֿונעם שפּריכוואָרט',
+  wordsRequired: (min: number, max: number) => `${min}-${max} ווערטער פֿאַרלאַנגט`,
+  cultureOrigin: 'קולטור/אָפּשטאַם',
+  meaningLabel: 'באַטײַט',
+  generateURL: 'שאַף אַ לינק צו דער רעטעניש',
+  clearAll: 'אויסמעקן אַלץ',
+  puzzleGenerated: '✓ די רעטעניש איז געשאַפֿן!',
+  shareURL: 'טיילט דעם לינק כּדי אַנדערע זאָלן קענען שפּילן אײַער רעטעניש:',
+  copy: 'קאָפּירן',
+  copied: 'קאָפּירט!',
+  previewPuzzle: 'פֿאָרויסקוק פֿון דער רעטעניש',
+  addAnother: '+ לייגט צו נאָך אַ שפּריכוואָרט (ניט מוזן)',
+  proverbPlaceholder: 'למשל: דער מענטש טראַכט און גאָט לאַכט',
+  culturePlaceholder: 'למשל: ייִדיש, פּויליש, ליטוויש',
+  meaningPlaceholder: 'דערקלערט וואָס דאָס שפּריכוואָרט מיינט...',
+  errorAllSolutions: 'יעדעס שפּריכוואָרט מוז האָבן אַ טעקסט',
+  errorAllCultures: 'יעדעס שפּריכוואָרט מוז האָבן אַ קולטור/אָפּשטאַם',
+  errorAllMeanings: 'יעדעס שפּריכוואָרט מוז האָבן אַ באַטײַט',
+  errorMinWords: (n: number, count: number, min: number) => `שפּריכוואָרט ${n} מוז האָבן כאָטש ${min} ווערטער (איצט ${count})`,
+  errorMaxWords: (n: number, count: number, max: number) => `שפּריכוואָרט ${n} מעג האָבן ניט מער ווי ${max} ווערטער (איצט ${count})`,
+  ambiguityWarning: 'עטלעכע ווערטער קומען פֿאָר אין מער ווי איין שפּריכוואָרט. זייערע קאַכלען זענען אויסבײַטלעך, דערפֿאַר קענען די שפּילער זיי אַרײַנלייגן אין יעדן פֿון די אָנגעוויזענע שפּריכווערטער:',
+  ambiguousWord: (word: string, proverbs: string) => `"${word}" – שפּריכווערטער ${proverbs}`,
+  decodeLabel: 'לאָדט אַן עקזיסטירנדיקע רעטעניש',
+  decodeDescription: 'קלעפּט אַרײַן אַ פֿאַרקאָדירטע רעטעניש אָדער אַ לינק כּדי זי צו רעדאַקטירן',
+  decodePlaceholder: 'קלעפּט דאָ אַרײַן דעם פֿאַרקאָדירטן טעקסט אָדער דעם פֿולן לינק...',
+  decodeButton: 'לאָדט די רעטעניש',
+  errorDecoding: 'מע האָט ניט געקענט אָפּקאָדירן די רעטעניש. ביטע קאָנטראָלירט וואָס איר האָט אַרײַנגעשריבן.',
+};
@@ -13,6 +13,7 @@ import {
   resetWordPositions,
   countWordsInSolution,
 } from './wordUtils';
+import { createSeededRandom } from './random';
 import { Proverb, WordPosition } from '../types';
 
 const testProverb: Proverb = {
@@ -42,6 +43,12 @@ describe('shuffleArray', () => {
     shuffleArray(arr);
     expect(arr).toEqual(original);
   });
+
+  it('should produce a pinned order with a seeded random source', () => {
+    const arr = [1, 2, 3, 4, 5, 6];
+    expect(shuffleArray(arr, createSeededRandom('test'))).toEqual([3, 4, 1, 6, 2, 5]);
+    expect(shuffleArray(arr, createSeededRandom('test'))).toEqual([3, 4, 1, 6, 2, 5]);
+  });
 });
 
 describe('initializeWordPositions', () => {
@@ -107,9 +114,14 @@ describe('validateSolution', () => {
     expect(isValid).toBe(true);
   });
 
-  it('should not ignore punctuation in solution (exact match required)', () => {
+  it('should ignore punctuation in the solution', () => {
     const isValid = validateSolution(wordPositions, 'The quick, brown fox jumps!');
-    expect(isValid).toBe(false); // punctuation makes it different
+    expect(isValid).toBe(true); // punctuation is shown around the slots, not on tiles
+  });
+
+  it('should still require the words in order', () => {
+    const isValid = validateSolution(wordPositions, 'The brown, quick fox jumps!');
+    expect(isValid).toBe(false);
   });
 
   it('should return false if not all words placed', () => {
@@ -261,4 +273,8 @@ describe('countWordsInSolution', () => {
   it('should handle mixed punctuation', () => {
     expect(countWordsInSolution('Hello, world! How are you?')).toBe(5);
   });
+
+  it('should not count punctuation-only tokens as words', () => {
+    expect(countWordsInSolution('פה ששומר – ראש שקט')).toBe(4);
+  });
 });
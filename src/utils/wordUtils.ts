@@ -3,16 +3,22 @@
  */
 
 import { Proverb, WordPosition } from '../types';
+import { RandomSource } from './random';
+import { getSolutionWords, matchesSolution, tokenizeSolution } from './tokenizer';
 
 /**
  * Shuffles an array using Fisher-Yates algorithm
  * @param array - Array to shuffle
+ * @param random - Random source (defaults to Math.random, pass a seeded one for reproducible order)
  * @returns New shuffled array (does not modify original)
  */
-export const shuffleArray = <T>(array: T[]): T[] => {
+export const shuffleArray = <T>(
+  array: T[],
+  random: RandomSource = Math.random
+): T[] => {
   const shuffled = [...array];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
@@ -26,7 +32,7 @@ export const shuffleArray = <T>(array: T[]): T[] => {
  */
 export const initializeWordPositions = (proverb: Proverb): WordPosition[] => {
   // Derive words from solution (single source of truth)
-  const wordsFromSolution = proverb.solution.split(/\s+/);
+  const wordsFromSolution = getSolutionWords(proverb.solution);
   const shuffledWords = shuffleArray(wordsFromSolution);
   return shuffledWords.map((word, index) => ({
     word,
@@ -56,12 +62,8 @@ export const validateSolution = (
     return false;
   }
 
-  // Join words and compare (case-insensitive, normalized)
-  const currentSolution = placedWords.join(' ');
-  const normalizedCurrent = normalizeText(currentSolution);
-  const normalizedSolution = normalizeText(solution);
-
-  return normalizedCurrent === normalizedSolution;
+  // Compare word by word, ignoring punctuation, case and niqqud
+  return matchesSolution(placedWords, solution);
 };
 
 /**
@@ -150,16 +152,10 @@ export const resetWordPositions = (
 
 /**
  * Counts the number of words in a proverb solution
- * Handles edge cases like empty strings and extra whitespace
+ * Handles edge cases like empty strings, extra whitespace and punctuation-only tokens
  * @param solution - The proverb solution text
  * @returns Number of words in the solution
  */
 export const countWordsInSolution = (solution: string): number => {
-  if (!solution || typeof solution !== 'string') {
-    return 0;
-  }
-  
-  // Trim and split by whitespace, filter out empty strings
-  const words = solution.trim().split(/\s+/).filter(word => word.length > 0);
-  return words.length;
+  return tokenizeSolution(solution).length;
 };